@@ -12,8 +12,12 @@ import NotFound from "./pages/NotFound";
 import Team from "@/pages/Team";
 import Projects from "@/pages/Projects";
 import Tasks from "@/pages/Tasks";
+import Sprints from "@/pages/Sprints";
+import Workload from "@/pages/Workload";
+import Timesheet from "@/pages/Timesheet";
 import Clients from "@/pages/Clients";
 import Finance from "@/pages/Finance";
+import InvoicePrint from "@/pages/InvoicePrint";
 import Messages from "@/pages/Messages";
 import Settings from "@/pages/Settings";
 import WorkSubmissions from "@/pages/WorkSubmissions";
@@ -34,8 +38,12 @@ const App = () => (
             <Route path="/team" element={<Layout><Team /></Layout>} />
             <Route path="/projects" element={<Layout><Projects /></Layout>} />
             <Route path="/tasks" element={<Layout><Tasks /></Layout>} />
+            <Route path="/sprints" element={<Layout><Sprints /></Layout>} />
+            <Route path="/workload" element={<Layout><Workload /></Layout>} />
+            <Route path="/timesheet" element={<Layout><Timesheet /></Layout>} />
             <Route path="/clients" element={<Layout><Clients /></Layout>} />
             <Route path="/finance" element={<Layout><Finance /></Layout>} />
+            <Route path="/finance/invoices/:id/print" element={<Layout bare><InvoicePrint /></Layout>} />
             <Route path="/messages" element={<Layout><Messages /></Layout>} />
             <Route path="/work-submissions" element={<Layout><WorkSubmissions /></Layout>} />
             <Route path="/attendance" element={<Layout><Attendance /></Layout>} />
@@ -0,0 +1,372 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/hooks/useCurrency';
+import { Clock } from 'lucide-react';
+import { roundCurrency } from '@/lib/invoices';
+import { DEFAULT_CURRENCY, formatCurrency } from '@/lib/currency';
+
+interface Client {
+  id: string;
+  name: string;
+  currency: string;
+}
+
+interface Project {
+  id: string;
+  name: string;
+  billing_rate: number | null;
+  currency: string;
+}
+
+interface UnbilledLine {
+  key: string;
+  projectName: string;
+  taskTitle: string;
+  memberName: string;
+  hours: number;
+  rate: number | null;
+  currency: string;
+  entryCount: number;
+}
+
+interface BillTimeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onInvoiceCreated: (invoiceId: string) => void;
+}
+
+const ALL_PROJECTS = 'all';
+
+const firstOfLastMonth = () => {
+  const date = new Date();
+  return new Date(date.getFullYear(), date.getMonth() - 1, 1).toISOString().split('T')[0];
+};
+
+const BillTimeDialog = ({ open, onOpenChange, onInvoiceCreated }: BillTimeDialogProps) => {
+  const { toast } = useToast();
+  const { baseCurrency } = useCurrency();
+  const [clients, setClients] = useState<Client[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [lines, setLines] = useState<UnbilledLine[]>([]);
+  const [loadingLines, setLoadingLines] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [formData, setFormData] = useState({
+    client_id: '',
+    project_id: ALL_PROJECTS,
+    start_date: firstOfLastMonth(),
+    end_date: new Date().toISOString().split('T')[0]
+  });
+
+  useEffect(() => {
+    if (open) {
+      fetchClients();
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (formData.client_id) {
+      fetchProjects(formData.client_id);
+    } else {
+      setProjects([]);
+    }
+  }, [formData.client_id]);
+
+  useEffect(() => {
+    if (projects.length > 0 && formData.start_date && formData.end_date) {
+      fetchUnbilledTime();
+    } else {
+      setLines([]);
+    }
+  }, [projects, formData.project_id, formData.start_date, formData.end_date, baseCurrency]);
+
+  const fetchClients = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('clients')
+        .select('id, name, currency')
+        .order('name');
+
+      if (error) throw error;
+      setClients(data || []);
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+    }
+  };
+
+  const fetchProjects = async (clientId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, billing_rate, currency')
+        .eq('client_id', clientId)
+        .order('name');
+
+      if (error) throw error;
+      setProjects(data || []);
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    }
+  };
+
+  const fetchUnbilledTime = async () => {
+    const projectIds = formData.project_id === ALL_PROJECTS
+      ? projects.map(p => p.id)
+      : [formData.project_id];
+
+    setLoadingLines(true);
+    try {
+      const { data, error } = await supabase
+        .from('time_entries')
+        .select(`
+          id,
+          hours,
+          project_id,
+          task_id,
+          user_id,
+          tasks (title),
+          profiles (first_name, last_name, hourly_rate)
+        `)
+        .in('project_id', projectIds)
+        .gte('date', formData.start_date)
+        .lte('date', formData.end_date)
+        .is('invoice_item_id', null)
+        .gt('hours', 0);
+
+      if (error) throw error;
+
+      // Group the same way create_invoice_from_time_entries does: project, task and member
+      const grouped = new Map<string, UnbilledLine>();
+      data?.forEach(entry => {
+        const project = projects.find(p => p.id === entry.project_id);
+        const key = `${entry.project_id}:${entry.task_id}:${entry.user_id}`;
+        const existing = grouped.get(key);
+
+        if (existing) {
+          existing.hours += entry.hours;
+          existing.entryCount += 1;
+          return;
+        }
+
+        grouped.set(key, {
+          key,
+          projectName: project?.name || '',
+          taskTitle: entry.tasks?.title || '',
+          memberName: `${entry.profiles?.first_name || ''} ${entry.profiles?.last_name || ''}`.trim(),
+          hours: entry.hours,
+          // Hourly rates are in the base currency, so they only price projects billed in it
+          rate: project?.billing_rate ?? (project?.currency === baseCurrency ? entry.profiles?.hourly_rate : null) ?? null,
+          currency: project?.currency || DEFAULT_CURRENCY,
+          entryCount: 1,
+        });
+      });
+
+      setLines(
+        [...grouped.values()].sort((a, b) =>
+          `${a.projectName}${a.taskTitle}${a.memberName}`.localeCompare(`${b.projectName}${b.taskTitle}${b.memberName}`)
+        )
+      );
+    } catch (error) {
+      console.error('Error fetching unbilled time:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load unbilled time entries",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingLines(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!formData.client_id) return;
+
+    setCreating(true);
+    try {
+      const { data: invoiceId, error } = await supabase.rpc('create_invoice_from_time_entries', {
+        p_client_id: formData.client_id,
+        p_start_date: formData.start_date,
+        p_end_date: formData.end_date,
+        p_project_id: formData.project_id === ALL_PROJECTS ? undefined : formData.project_id,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Draft invoice created",
+        description: `Billed ${totalHours} hours of time. Review the draft before sending it.`,
+      });
+
+      onOpenChange(false);
+      onInvoiceCreated(invoiceId);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const totalHours = roundCurrency(lines.reduce((sum, line) => sum + line.hours, 0));
+  const totalAmount = roundCurrency(lines.reduce((sum, line) => sum + roundCurrency(line.hours * (line.rate ?? 0)), 0));
+  // Rates are in each project's currency; create_invoice_from_time_entries refuses to mix them
+  const lineCurrencies = [...new Set(lines.map(line => line.currency))];
+  const hasMixedCurrencies = lineCurrencies.length > 1;
+  const currency = lineCurrencies[0]
+    || projects.find(p => p.id === formData.project_id)?.currency
+    || clients.find(c => c.id === formData.client_id)?.currency
+    || DEFAULT_CURRENCY;
+  const unpricedMembers = [...new Set(lines.filter(line => line.rate === null).map(line => line.memberName))];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Bill Unbilled Time
+          </DialogTitle>
+          <DialogDescription>
+            Turn a client's uninvoiced time entries into a draft invoice. Billed entries are linked to their invoice line and cannot be billed again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="bill_client_id">Client</Label>
+            <Select
+              value={formData.client_id}
+              onValueChange={(value) => setFormData({ ...formData, client_id: value, project_id: ALL_PROJECTS })}
+            >
+              <SelectTrigger id="bill_client_id">
+                <SelectValue placeholder="Select a client" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bill_project_id">Project</Label>
+            <Select
+              value={formData.project_id}
+              onValueChange={(value) => setFormData({ ...formData, project_id: value })}
+              disabled={!formData.client_id}
+            >
+              <SelectTrigger id="bill_project_id">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROJECTS}>All client projects</SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bill_start_date">From</Label>
+            <Input
+              id="bill_start_date"
+              type="date"
+              value={formData.start_date}
+              onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bill_end_date">To</Label>
+            <Input
+              id="bill_end_date"
+              type="date"
+              value={formData.end_date}
+              onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+            />
+          </div>
+        </div>
+
+        {formData.client_id && (
+          <div className="border rounded-lg">
+            <div className="grid grid-cols-12 gap-2 p-2 text-xs font-medium text-muted-foreground border-b">
+              <span className="col-span-6">Work</span>
+              <span className="col-span-2 text-right">Hours</span>
+              <span className="col-span-2 text-right">Rate</span>
+              <span className="col-span-2 text-right">Amount</span>
+            </div>
+            {loadingLines ? (
+              <div className="flex items-center justify-center h-24">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              </div>
+            ) : lines.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground py-6">
+                No unbilled time for this selection
+              </p>
+            ) : (
+              <>
+                {lines.map((line) => (
+                  <div key={line.key} className="grid grid-cols-12 gap-2 p-2 text-sm">
+                    <div className="col-span-6">
+                      <p className="font-medium">{line.taskTitle}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {line.projectName} • {line.memberName} • {line.entryCount} {line.entryCount === 1 ? 'entry' : 'entries'}
+                      </p>
+                    </div>
+                    <span className="col-span-2 text-right">{line.hours}</span>
+                    <span className={`col-span-2 text-right ${line.rate === null ? 'text-red-600' : ''}`}>
+                      {formatCurrency(line.rate ?? 0, line.currency)}
+                    </span>
+                    <span className="col-span-2 text-right font-medium">
+                      {formatCurrency(roundCurrency(line.hours * (line.rate ?? 0)), line.currency)}
+                    </span>
+                  </div>
+                ))}
+                <div className="grid grid-cols-12 gap-2 p-2 text-sm font-bold border-t">
+                  <span className="col-span-6">Total</span>
+                  <span className="col-span-2 text-right">{totalHours}</span>
+                  <span className="col-span-2"></span>
+                  <span className="col-span-2 text-right">{hasMixedCurrencies ? '-' : formatCurrency(totalAmount, currency)}</span>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {hasMixedCurrencies && (
+          <p className="text-sm text-red-600">
+            This time is billed in {lineCurrencies.join(' and ')}. Pick a single project so the invoice has one currency.
+          </p>
+        )}
+
+        {unpricedMembers.length > 0 && (
+          <p className="text-sm text-red-600">
+            No rate to bill {unpricedMembers.join(', ')}. Set a billing rate on the project, or an hourly rate in their profile for projects billed in {baseCurrency}.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={creating || lines.length === 0 || hasMixedCurrencies || unpricedMembers.length > 0}>
+            {creating ? 'Creating...' : 'Create Draft Invoice'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BillTimeDialog;
@@ -0,0 +1,315 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Building, Save, Upload } from 'lucide-react';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/lib/currency';
+
+interface CompanySettingsFormProps {
+  onSaved?: () => void;
+}
+
+const CompanySettingsForm = ({ onSaved }: CompanySettingsFormProps) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(false);
+  const [uploadingLogo, setUploadingLogo] = useState(false);
+  const [formData, setFormData] = useState({
+    company_name: '',
+    address: '',
+    email: '',
+    phone: '',
+    website: '',
+    tax_id: '',
+    base_currency: DEFAULT_CURRENCY,
+    logo_url: '',
+    payment_instructions: '',
+    invoice_footer: ''
+  });
+
+  useEffect(() => {
+    fetchCompanySettings();
+  }, []);
+
+  const fetchCompanySettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('company_settings')
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return;
+
+      setFormData({
+        company_name: data.company_name,
+        address: data.address || '',
+        email: data.email || '',
+        phone: data.phone || '',
+        website: data.website || '',
+        tax_id: data.tax_id || '',
+        base_currency: data.base_currency,
+        logo_url: data.logo_url || '',
+        payment_instructions: data.payment_instructions || '',
+        invoice_footer: data.invoice_footer || ''
+      });
+    } catch (error) {
+      console.error('Error fetching company settings:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const { error } = await supabase
+        .from('company_settings')
+        .update({
+          company_name: formData.company_name,
+          address: formData.address || null,
+          email: formData.email || null,
+          phone: formData.phone || null,
+          website: formData.website || null,
+          tax_id: formData.tax_id || null,
+          base_currency: formData.base_currency,
+          logo_url: formData.logo_url || null,
+          payment_instructions: formData.payment_instructions || null,
+          invoice_footer: formData.invoice_footer || null
+        })
+        .eq('id', 1);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Company settings updated successfully",
+      });
+
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogoChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast({
+        title: "Error",
+        description: "Please select an image file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (file.size > 2 * 1024 * 1024) {
+      toast({
+        title: "Error",
+        description: "Logo must be less than 2MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploadingLogo(true);
+    try {
+      const fileExt = file.name.split('.').pop();
+      const filePath = `logos/${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('company-assets')
+        .upload(filePath, file);
+
+      if (uploadError) throw uploadError;
+
+      const { data } = supabase.storage
+        .from('company-assets')
+        .getPublicUrl(filePath);
+
+      setFormData({ ...formData, logo_url: data.publicUrl });
+
+      toast({
+        title: "Logo uploaded",
+        description: "Save the settings to use the new logo on invoices",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setUploadingLogo(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building className="h-5 w-5" />
+          Company & Invoicing
+        </CardTitle>
+        <CardDescription>
+          Company details, logo and payment instructions shown on printed invoices
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex items-center gap-4 mb-6">
+            <div className="h-16 w-32 border rounded flex items-center justify-center bg-muted overflow-hidden">
+              {formData.logo_url ? (
+                <img src={formData.logo_url} alt="Company logo" className="max-h-full max-w-full object-contain" />
+              ) : (
+                <span className="text-xs text-muted-foreground">No logo</span>
+              )}
+            </div>
+            <div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleLogoChange}
+                className="hidden"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploadingLogo}
+              >
+                <Upload className={`h-4 w-4 mr-2 ${uploadingLogo ? 'animate-spin' : ''}`} />
+                {uploadingLogo ? 'Uploading...' : 'Upload Logo'}
+              </Button>
+              <p className="text-sm text-muted-foreground mt-1">
+                PNG or SVG with a transparent background works best (max 2MB)
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="company_name">Company Name</Label>
+              <Input
+                id="company_name"
+                value={formData.company_name}
+                onChange={(e) => setFormData({ ...formData, company_name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tax_id">Tax ID</Label>
+              <Input
+                id="tax_id"
+                value={formData.tax_id}
+                onChange={(e) => setFormData({ ...formData, tax_id: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company_email">Email</Label>
+              <Input
+                id="company_email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company_phone">Phone</Label>
+              <Input
+                id="company_phone"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="company_website">Website</Label>
+              <Input
+                id="company_website"
+                value={formData.website}
+                onChange={(e) => setFormData({ ...formData, website: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="base_currency">Base Currency</Label>
+              <Select
+                value={formData.base_currency}
+                onValueChange={(value) => setFormData({ ...formData, base_currency: value })}
+              >
+                <SelectTrigger id="base_currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([...CURRENCIES, formData.base_currency])].map((currency) => (
+                    <SelectItem key={currency} value={currency}>
+                      {currency}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Revenue and budget totals are reported in this currency
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="company_address">Address</Label>
+            <Textarea
+              id="company_address"
+              value={formData.address}
+              onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment_instructions">Payment Instructions</Label>
+            <Textarea
+              id="payment_instructions"
+              value={formData.payment_instructions}
+              onChange={(e) => setFormData({ ...formData, payment_instructions: e.target.value })}
+              rows={4}
+              placeholder="Bank name, account number, SWIFT/IBAN, payment reference..."
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invoice_footer">Invoice Footer</Label>
+            <Input
+              id="invoice_footer"
+              value={formData.invoice_footer}
+              onChange={(e) => setFormData({ ...formData, invoice_footer: e.target.value })}
+              placeholder="Thank you for your business!"
+            />
+          </div>
+
+          <Button type="submit" disabled={loading}>
+            <Save className="h-4 w-4 mr-2" />
+            {loading ? 'Saving...' : 'Save Company Settings'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CompanySettingsForm;
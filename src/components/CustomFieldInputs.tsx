@@ -0,0 +1,59 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CustomField } from '@/lib/custom-fields';
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: Record<string, string>;
+  profiles: { id: string; first_name: string; last_name: string }[];
+  onChange: (values: Record<string, string>) => void;
+}
+
+// Form rows for custom fields, laid out like the rest of the task and project dialogs
+const CustomFieldInputs = ({ fields, values, profiles, onChange }: CustomFieldInputsProps) => {
+  const setValue = (fieldId: string, value: string) => onChange({ ...values, [fieldId]: value });
+
+  return (
+    <>
+      {fields.map((field) => {
+        const id = `custom_field_${field.id}`;
+        const value = values[field.id] || '';
+
+        return (
+          <div key={field.id} className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor={id} className="text-right">{field.name}</Label>
+            {field.field_type === 'select' || field.field_type === 'user' ? (
+              <Select value={value || 'none'} onValueChange={(v) => setValue(field.id, v === 'none' ? '' : v)}>
+                <SelectTrigger id={id} className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not set</SelectItem>
+                  {field.field_type === 'select'
+                    ? field.options.map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))
+                    : profiles.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>{p.first_name} {p.last_name}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={id}
+                type={field.field_type === 'number' ? 'number' : field.field_type === 'date' ? 'date' : 'text'}
+                step={field.field_type === 'number' ? 'any' : undefined}
+                value={value}
+                onChange={(e) => setValue(field.id, e.target.value)}
+                className="col-span-3"
+              />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default CustomFieldInputs;
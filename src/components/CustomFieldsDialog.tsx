@@ -0,0 +1,284 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Edit, Trash2 } from 'lucide-react';
+import { CUSTOM_FIELD_TYPE_LABELS, CustomField, CustomFieldEntity, CustomFieldType } from '@/lib/custom-fields';
+
+interface CustomFieldsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fields: CustomField[];
+  projects: { id: string; name: string }[];
+  onSaved: () => void;
+}
+
+const emptyForm = () => ({
+  entity_type: 'task' as CustomFieldEntity,
+  project_id: 'all',
+  name: '',
+  field_type: 'text' as CustomFieldType,
+  options: '',
+  sort_order: '0',
+});
+
+const parseOptions = (options: string) =>
+  Array.from(new Set(options.split(',').map(option => option.trim()).filter(Boolean)));
+
+const CustomFieldsDialog = ({ open, onOpenChange, fields, projects, onSaved }: CustomFieldsDialogProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [editingField, setEditingField] = useState<CustomField | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) resetForm();
+  }, [open]);
+
+  const resetForm = () => {
+    setEditingField(null);
+    setFormData(emptyForm());
+  };
+
+  const handleEdit = (field: CustomField) => {
+    setEditingField(field);
+    setFormData({
+      entity_type: field.entity_type,
+      project_id: field.project_id || 'all',
+      name: field.name,
+      field_type: field.field_type,
+      options: field.options.join(', '),
+      sort_order: field.sort_order.toString(),
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const options = formData.field_type === 'select' ? parseOptions(formData.options) : [];
+    if (formData.field_type === 'select' && options.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select fields need at least one option",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const fieldData = {
+        entity_type: formData.entity_type,
+        project_id: formData.entity_type === 'task' && formData.project_id !== 'all' ? formData.project_id : null,
+        name: formData.name.trim(),
+        options,
+        sort_order: parseInt(formData.sort_order) || 0,
+      };
+
+      if (editingField) {
+        // The type stays fixed once values may have been stored in its column
+        const { error } = await supabase
+          .from('custom_fields')
+          .update(fieldData)
+          .eq('id', editingField.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('custom_fields')
+          .insert([{ ...fieldData, field_type: formData.field_type, created_by: profile?.id }]);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: `Field "${fieldData.name}" saved`,
+      });
+
+      resetForm();
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (field: CustomField) => {
+    if (!confirm(`Delete the field "${field.name}"? Values stored in it are deleted too.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('custom_fields')
+        .delete()
+        .eq('id', field.id);
+
+      if (error) throw error;
+
+      if (editingField?.id === field.id) resetForm();
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getScope = (field: CustomField) => {
+    if (field.entity_type === 'project') return 'Projects';
+    if (!field.project_id) return 'Tasks in every project';
+    return `Tasks in ${projects.find(p => p.id === field.project_id)?.name || 'a removed project'}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Custom Fields</DialogTitle>
+          <DialogDescription>
+            Extra fields shown in the task and project dialogs. Task fields can be limited to one project.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {fields.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No custom fields yet</p>
+          ) : (
+            fields.map((field) => (
+              <div key={field.id} className="flex items-center gap-2 border rounded-md p-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{field.name}</span>
+                    <Badge variant="secondary">{CUSTOM_FIELD_TYPE_LABELS[field.field_type]}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {getScope(field)}
+                    {field.options.length > 0 && ` • ${field.options.join(', ')}`}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleEdit(field)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(field)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <form onSubmit={handleSave} className="space-y-4 border-t pt-4">
+          <h3 className="font-medium">{editingField ? `Edit "${editingField.name}"` : 'Add Field'}</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="field_name">Name</Label>
+              <Input
+                id="field_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Story points"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="field_type">Type</Label>
+              <Select
+                value={formData.field_type}
+                onValueChange={(value: CustomFieldType) => setFormData({ ...formData, field_type: value })}
+                disabled={!!editingField}
+              >
+                <SelectTrigger id="field_type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="field_entity">Applies to</Label>
+              <Select
+                value={formData.entity_type}
+                onValueChange={(value: CustomFieldEntity) => setFormData({ ...formData, entity_type: value })}
+                disabled={!!editingField}
+              >
+                <SelectTrigger id="field_entity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="task">Tasks</SelectItem>
+                  <SelectItem value="project">Projects</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.entity_type === 'task' && (
+              <div className="space-y-2">
+                <Label htmlFor="field_project">Project</Label>
+                <Select
+                  value={formData.project_id}
+                  onValueChange={(value) => setFormData({ ...formData, project_id: value })}
+                >
+                  <SelectTrigger id="field_project">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Every project</SelectItem>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {formData.field_type === 'select' && (
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="field_options">Options</Label>
+                <Input
+                  id="field_options"
+                  value={formData.options}
+                  onChange={(e) => setFormData({ ...formData, options: e.target.value })}
+                  placeholder="Comma separated, e.g. Staging, Production"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="field_sort_order">Order</Label>
+              <Input
+                id="field_sort_order"
+                type="number"
+                value={formData.sort_order}
+                onChange={(e) => setFormData({ ...formData, sort_order: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingField && (
+              <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>
+            )}
+            <Button type="submit" disabled={saving || !formData.name.trim()}>
+              {editingField ? 'Save' : 'Add'} Field
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomFieldsDialog;
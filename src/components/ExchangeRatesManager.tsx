@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrency } from '@/hooks/useCurrency';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeftRight, Plus, Trash2 } from 'lucide-react';
+import { CURRENCIES, ExchangeRate } from '@/lib/currency';
+
+const ExchangeRatesManager = () => {
+  const { profile } = useAuth();
+  const { baseCurrency, rates, loading, refetch } = useCurrency();
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    currency: '',
+    rate: '',
+    effective_date: new Date().toISOString().split('T')[0]
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rate = Number(formData.rate);
+    if (!formData.currency || !rate || rate <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Select a currency and enter a rate greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // One rate per currency and day; entering it again corrects it
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert({
+          base_currency: baseCurrency,
+          currency: formData.currency,
+          rate,
+          effective_date: formData.effective_date,
+          created_by: profile?.id
+        }, { onConflict: 'base_currency,currency,effective_date' });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `1 ${formData.currency} = ${rate} ${baseCurrency} from ${formData.effective_date}`,
+      });
+
+      setFormData({ ...formData, currency: '', rate: '' });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!confirm(`Delete the ${rate.currency} rate from ${rate.effective_date}?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('base_currency', baseCurrency)
+        .eq('currency', rate.currency)
+        .eq('effective_date', rate.effective_date);
+
+      if (error) throw error;
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const sortedRates = [...rates].sort((a, b) =>
+    a.currency.localeCompare(b.currency) || b.effective_date.localeCompare(a.effective_date)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="h-5 w-5" />
+          Exchange Rates
+        </CardTitle>
+        <CardDescription>
+          Rates into {baseCurrency} used for revenue and budget totals. Each amount uses the latest rate on or before its date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="grid grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="rate_currency">Currency</Label>
+            <Select value={formData.currency} onValueChange={(value) => setFormData({ ...formData, currency: value })}>
+              <SelectTrigger id="rate_currency">
+                <SelectValue placeholder="Select" />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.filter(currency => currency !== baseCurrency).map((currency) => (
+                  <SelectItem key={currency} value={currency}>
+                    {currency}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate_value">1 unit = ? {baseCurrency}</Label>
+            <Input
+              id="rate_value"
+              type="number"
+              step="0.00000001"
+              min="0"
+              value={formData.rate}
+              onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate_effective_date">Effective From</Label>
+            <Input
+              id="rate_effective_date"
+              type="date"
+              value={formData.effective_date}
+              onChange={(e) => setFormData({ ...formData, effective_date: e.target.value })}
+              required
+            />
+          </div>
+          <Button type="submit" disabled={saving}>
+            <Plus className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Add Rate'}
+          </Button>
+        </form>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-16">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : sortedRates.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-4">
+            No exchange rates for {baseCurrency} yet
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {sortedRates.map((rate) => (
+              <div key={`${rate.currency}-${rate.effective_date}`} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                <span className="font-medium">
+                  1 {rate.currency} = {rate.rate} {baseCurrency}
+                </span>
+                <div className="flex items-center gap-4">
+                  <span className="text-muted-foreground">
+                    from {new Date(`${rate.effective_date}T00:00:00`).toLocaleDateString()}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(rate)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExchangeRatesManager;
@@ -0,0 +1,502 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrency } from '@/hooks/useCurrency';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Edit, Paperclip, Plus, Trash2 } from 'lucide-react';
+import { ExpenseCategory, EXPENSE_CATEGORY_LABELS, getExpenseCategoryColor } from '@/lib/expenses';
+import { CURRENCIES, DEFAULT_CURRENCY, formatCurrency } from '@/lib/currency';
+
+interface Expense {
+  id: string;
+  description: string;
+  category: string;
+  amount: number;
+  currency: string;
+  expense_date: string;
+  vendor: string | null;
+  project_id: string | null;
+  receipt_path: string | null;
+  notes: string | null;
+  projects?: { name: string } | null;
+}
+
+interface Project {
+  id: string;
+  name: string;
+  currency: string;
+}
+
+const NO_PROJECT = 'none';
+const ALL_PROJECTS = 'all';
+
+const emptyForm = () => ({
+  description: '',
+  category: 'other' as ExpenseCategory,
+  amount: '',
+  currency: DEFAULT_CURRENCY,
+  expense_date: new Date().toISOString().split('T')[0],
+  vendor: '',
+  project_id: '',
+  notes: ''
+});
+
+const ExpenseList = () => {
+  const { isAdmin, profile } = useAuth();
+  const { baseCurrency, sumInBase } = useCurrency();
+  const { toast } = useToast();
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [projectFilter, setProjectFilter] = useState(ALL_PROJECTS);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    fetchExpenses();
+    fetchProjects();
+  }, []);
+
+  const fetchExpenses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('expenses')
+        .select(`
+          *,
+          projects (name)
+        `)
+        .order('expense_date', { ascending: false });
+
+      if (error) throw error;
+      setExpenses(data || []);
+    } catch (error) {
+      console.error('Error fetching expenses:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch expenses",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, currency')
+        .order('name');
+
+      if (error) throw error;
+      setProjects(data || []);
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    }
+  };
+
+  const openDialog = (expense: Expense | null) => {
+    setEditingExpense(expense);
+    setReceiptFile(null);
+    setFormData(expense
+      ? {
+          description: expense.description,
+          category: expense.category as ExpenseCategory,
+          amount: expense.amount.toString(),
+          currency: expense.currency,
+          expense_date: expense.expense_date,
+          vendor: expense.vendor || '',
+          project_id: expense.project_id || '',
+          notes: expense.notes || ''
+        }
+      : { ...emptyForm(), currency: baseCurrency });
+    setShowDialog(true);
+  };
+
+  const handleReceiptChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] || null;
+    if (file && file.size > 10 * 1024 * 1024) {
+      toast({
+        title: "Error",
+        description: "Receipt must be less than 10MB",
+        variant: "destructive",
+      });
+      event.target.value = '';
+      return;
+    }
+    setReceiptFile(file);
+  };
+
+  const uploadReceipt = async (file: File) => {
+    const fileExt = file.name.split('.').pop();
+    const filePath = `${formData.expense_date.slice(0, 7)}/${Date.now()}.${fileExt}`;
+
+    const { error } = await supabase.storage
+      .from('expense-receipts')
+      .upload(filePath, file);
+
+    if (error) throw error;
+    return filePath;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = Number(formData.amount);
+    if (!amount || amount <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Amount must be greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      let receiptPath = editingExpense?.receipt_path || null;
+      if (receiptFile) {
+        receiptPath = await uploadReceipt(receiptFile);
+      }
+
+      const expenseData = {
+        description: formData.description.trim(),
+        category: formData.category,
+        amount,
+        currency: formData.currency,
+        expense_date: formData.expense_date,
+        vendor: formData.vendor || null,
+        project_id: formData.project_id || null,
+        receipt_path: receiptPath,
+        notes: formData.notes || null
+      };
+
+      if (editingExpense) {
+        const { error } = await supabase
+          .from('expenses')
+          .update(expenseData)
+          .eq('id', editingExpense.id);
+
+        if (error) throw error;
+
+        // A replaced receipt is no longer referenced by anything
+        if (receiptFile && editingExpense.receipt_path) {
+          await supabase.storage.from('expense-receipts').remove([editingExpense.receipt_path]);
+        }
+      } else {
+        const { error } = await supabase
+          .from('expenses')
+          .insert([{ ...expenseData, created_by: profile?.id }]);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: editingExpense ? "Expense updated successfully" : "Expense recorded successfully",
+      });
+
+      setShowDialog(false);
+      fetchExpenses();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (expense: Expense) => {
+    if (!confirm(`Delete the expense "${expense.description}"?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('expenses')
+        .delete()
+        .eq('id', expense.id);
+
+      if (error) throw error;
+
+      if (expense.receipt_path) {
+        await supabase.storage.from('expense-receipts').remove([expense.receipt_path]);
+      }
+
+      toast({
+        title: "Success",
+        description: "Expense deleted",
+      });
+
+      fetchExpenses();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Receipts are private, so they are opened through a short-lived signed URL
+  const openReceipt = async (expense: Expense) => {
+    if (!expense.receipt_path) return;
+
+    try {
+      const { data, error } = await supabase.storage
+        .from('expense-receipts')
+        .createSignedUrl(expense.receipt_path, 60);
+
+      if (error) throw error;
+      window.open(data.signedUrl, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const filteredExpenses = expenses.filter(expense =>
+    projectFilter === ALL_PROJECTS ||
+    (projectFilter === NO_PROJECT ? !expense.project_id : expense.project_id === projectFilter)
+  );
+  const total = sumInBase(filteredExpenses.map(expense => ({
+    amount: expense.amount,
+    currency: expense.currency,
+    date: expense.expense_date,
+  })));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Expenses</CardTitle>
+          <CardDescription>
+            {formatCurrency(total.total, baseCurrency)} in {filteredExpenses.length} expense{filteredExpenses.length === 1 ? '' : 's'}
+            {total.missingCurrencies.length > 0 && ` (excluding ${total.missingCurrencies.join(', ')} without an exchange rate)`}
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select value={projectFilter} onValueChange={setProjectFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_PROJECTS}>All expenses</SelectItem>
+              <SelectItem value={NO_PROJECT}>Company overhead</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Expense
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {filteredExpenses.length === 0 && (
+              <p className="text-center text-muted-foreground py-4">No expenses recorded</p>
+            )}
+            {filteredExpenses.map((expense) => (
+              <div key={expense.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex-1">
+                  <p className="font-medium">{expense.description}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {expense.projects?.name || 'Company overhead'}
+                    {expense.vendor && ` • ${expense.vendor}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(`${expense.expense_date}T00:00:00`).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="text-right">
+                    <p className="font-medium">{formatCurrency(expense.amount, expense.currency)}</p>
+                    <Badge variant="secondary" className={getExpenseCategoryColor(expense.category)}>
+                      {EXPENSE_CATEGORY_LABELS[expense.category as ExpenseCategory] || expense.category}
+                    </Badge>
+                  </div>
+                  <div className="flex gap-2">
+                    {expense.receipt_path && (
+                      <Button variant="ghost" size="sm" onClick={() => openReceipt(expense)}>
+                        <Paperclip className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(expense)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    {isAdmin && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(expense)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingExpense ? 'Edit Expense' : 'Add Expense'}</DialogTitle>
+            <DialogDescription>
+              Project expenses count against that project's profitability; leave the project empty for company overhead
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <fieldset disabled={saving} className="grid grid-cols-2 gap-4 py-4">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="expense_description">Description</Label>
+                <Input
+                  id="expense_description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense_category">Category</Label>
+                <Select
+                  value={formData.category}
+                  onValueChange={(value) => setFormData({ ...formData, category: value as ExpenseCategory })}
+                >
+                  <SelectTrigger id="expense_category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(EXPENSE_CATEGORY_LABELS).map(([category, label]) => (
+                      <SelectItem key={category} value={category}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense_project">Project</Label>
+                <Select
+                  value={formData.project_id || NO_PROJECT}
+                  onValueChange={(value) => setFormData({ ...formData, project_id: value === NO_PROJECT ? '' : value })}
+                >
+                  <SelectTrigger id="expense_project">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PROJECT}>Company overhead</SelectItem>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense_amount">Amount</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="expense_amount"
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    required
+                  />
+                  <Select value={formData.currency} onValueChange={(value) => setFormData({ ...formData, currency: value })}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[...new Set([...CURRENCIES, formData.currency])].map((currency) => (
+                        <SelectItem key={currency} value={currency}>
+                          {currency}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense_date">Date</Label>
+                <Input
+                  id="expense_date"
+                  type="date"
+                  value={formData.expense_date}
+                  onChange={(e) => setFormData({ ...formData, expense_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense_vendor">Vendor</Label>
+                <Input
+                  id="expense_vendor"
+                  value={formData.vendor}
+                  onChange={(e) => setFormData({ ...formData, vendor: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense_receipt">Receipt</Label>
+                <Input
+                  id="expense_receipt"
+                  type="file"
+                  accept="image/*,application/pdf"
+                  onChange={handleReceiptChange}
+                />
+                {editingExpense?.receipt_path && !receiptFile && (
+                  <p className="text-xs text-muted-foreground">A receipt is attached; choose a file to replace it</p>
+                )}
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="expense_notes">Notes</Label>
+                <Textarea
+                  id="expense_notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                />
+              </div>
+            </fieldset>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : editingExpense ? 'Update Expense' : 'Add Expense'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ExpenseList;
@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Download } from 'lucide-react';
+import {
+  ExportDataset,
+  ExportFormat,
+  ExportRows,
+  EXPORT_DATASET_LABELS,
+  EXPORT_FORMAT_LABELS,
+  ExpenseExportRow,
+  InvoiceExportRow,
+  PaymentExportRow,
+  buildExportFile,
+  downloadFile,
+} from '@/lib/exports';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DATE_FIELD_LABELS: Record<ExportDataset, string> = {
+  invoices: 'issue date',
+  payments: 'payment date',
+  expenses: 'expense date',
+};
+
+const firstOfYear = () => `${new Date().getFullYear()}-01-01`;
+
+const ExportDialog = ({ open, onOpenChange }: ExportDialogProps) => {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+  const [formData, setFormData] = useState({
+    dataset: 'invoices' as ExportDataset,
+    format: 'csv' as ExportFormat,
+    start_date: firstOfYear(),
+    end_date: new Date().toISOString().split('T')[0]
+  });
+
+  // Drafts and voided invoices are not accounting records, so only issued invoices are exported
+  const fetchRows = async (): Promise<ExportRows> => {
+    const { dataset, start_date, end_date } = formData;
+
+    if (dataset === 'invoices') {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select(`
+          *,
+          clients (name, email),
+          projects (name),
+          invoice_items (description, quantity, unit_price, amount, tax_rate, tax_amount, sort_order)
+        `)
+        .in('status', ['sent', 'overdue', 'paid'])
+        .gte('issue_date', start_date)
+        .lte('issue_date', end_date)
+        .order('issue_date');
+
+      if (error) throw error;
+      return { dataset, rows: (data || []) as InvoiceExportRow[] };
+    }
+
+    if (dataset === 'payments') {
+      const { data, error } = await supabase
+        .from('payments')
+        .select(`
+          *,
+          invoices (invoice_number, currency, clients (name))
+        `)
+        .gte('payment_date', start_date)
+        .lte('payment_date', end_date)
+        .order('payment_date');
+
+      if (error) throw error;
+      return { dataset, rows: (data || []) as PaymentExportRow[] };
+    }
+
+    const { data, error } = await supabase
+      .from('expenses')
+      .select(`
+        *,
+        projects (name)
+      `)
+      .gte('expense_date', start_date)
+      .lte('expense_date', end_date)
+      .order('expense_date');
+
+    if (error) throw error;
+    return { dataset, rows: (data || []) as ExpenseExportRow[] };
+  };
+
+  const handleExport = async () => {
+    if (formData.start_date > formData.end_date) {
+      toast({
+        title: "Error",
+        description: "The start date must be on or before the end date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const data = await fetchRows();
+      if (data.rows.length === 0) {
+        toast({
+          title: "Nothing to export",
+          description: `No ${EXPORT_DATASET_LABELS[data.dataset].toLowerCase()} in this date range`,
+        });
+        return;
+      }
+
+      const file = buildExportFile(data, formData.format);
+      const suffix = formData.format === 'xero' ? '-xero' : '';
+      downloadFile(
+        file.content,
+        `${data.dataset}-${formData.start_date}-to-${formData.end_date}${suffix}.${file.extension}`,
+        file.mimeType
+      );
+
+      toast({
+        title: "Success",
+        description: `Exported ${data.rows.length} ${EXPORT_DATASET_LABELS[data.dataset].toLowerCase()}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export for Accounting</DialogTitle>
+          <DialogDescription>
+            Download invoices, payments or expenses as CSV or in a format Xero or QuickBooks can import
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Data</Label>
+              <Select
+                value={formData.dataset}
+                onValueChange={(value) => setFormData({ ...formData, dataset: value as ExportDataset })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EXPORT_DATASET_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select
+                value={formData.format}
+                onValueChange={(value) => setFormData({ ...formData, format: value as ExportFormat })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EXPORT_FORMAT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export_start_date">From</Label>
+              <Input
+                id="export_start_date"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export_end_date">To</Label>
+              <Input
+                id="export_end_date"
+                type="date"
+                value={formData.end_date}
+                onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Filtered by {DATE_FIELD_LABELS[formData.dataset]}.
+            {formData.dataset === 'invoices' && ' Draft and void invoices are not included.'}
+            {formData.format !== 'csv' && ' Amounts are exported in each record\'s own currency; check account names after importing.'}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting}>
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,388 @@
+import { useState, useEffect } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { useCurrency } from '@/hooks/useCurrency';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/currency';
+
+interface MonthlyRevenue {
+  month: string;
+  invoiced: number;
+  collected: number;
+  missing_currencies: string[];
+}
+
+interface AgingBucket {
+  bucket: string;
+  invoice_count: number;
+  amount: number;
+  missing_currencies: string[];
+}
+
+interface ClientRevenue {
+  client_id: string;
+  client_name: string;
+  invoiced: number;
+  collected: number;
+  missing_currencies: string[];
+}
+
+interface ProjectRevenue {
+  project_id: string | null;
+  project_name: string;
+  invoiced: number;
+  missing_currencies: string[];
+}
+
+type ReportPeriod = 'month' | 'quarter' | 'ytd' | 'year';
+
+const REPORT_PERIOD_LABELS: Record<ReportPeriod, string> = {
+  month: 'This month',
+  quarter: 'Last 3 months',
+  ytd: 'Year to date',
+  year: 'Last 12 months',
+};
+
+const AGING_BUCKET_LABELS: Record<string, string> = {
+  current: 'Not yet due',
+  '0-30': '0–30 days',
+  '31-60': '31–60 days',
+  '61-90': '61–90 days',
+  '90+': '90+ days',
+};
+
+const revenueChartConfig = {
+  invoiced: { label: 'Invoiced', color: 'hsl(var(--primary))' },
+  collected: { label: 'Collected', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const agingChartConfig = {
+  amount: { label: 'Outstanding', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const getPeriodRange = (period: ReportPeriod) => {
+  const today = new Date();
+  const start = new Date(today.getFullYear(), today.getMonth(), 1);
+  if (period === 'quarter') start.setMonth(start.getMonth() - 2);
+  if (period === 'ytd') start.setMonth(0);
+  if (period === 'year') start.setMonth(start.getMonth() - 11);
+  return { start: toDateString(start), end: toDateString(today) };
+};
+
+const formatMonth = (month: string) =>
+  new Date(`${month}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+
+// Currencies left out of any of the rows for want of an exchange rate
+const getMissingCurrencies = (rows: { missing_currencies: string[] }[]) =>
+  [...new Set(rows.flatMap(row => row.missing_currencies))].sort();
+
+const percentChange = (current: number, previous: number) =>
+  previous > 0 ? Math.round(((current - previous) / previous) * 100) : null;
+
+const FinanceReports = () => {
+  const { baseCurrency } = useCurrency();
+  const { toast } = useToast();
+  const [monthly, setMonthly] = useState<MonthlyRevenue[]>([]);
+  const [aging, setAging] = useState<AgingBucket[]>([]);
+  const [byClient, setByClient] = useState<ClientRevenue[]>([]);
+  const [byProject, setByProject] = useState<ProjectRevenue[]>([]);
+  const [period, setPeriod] = useState<ReportPeriod>('ytd');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTrends();
+  }, []);
+
+  useEffect(() => {
+    fetchBreakdown();
+  }, [period]);
+
+  // 24 months so the current month and year-to-date can be compared with the year before
+  const fetchTrends = async () => {
+    try {
+      const [monthlyResult, agingResult] = await Promise.all([
+        supabase.rpc('get_monthly_revenue', { p_months: 24 }),
+        supabase.rpc('get_ar_aging'),
+      ]);
+
+      if (monthlyResult.error) throw monthlyResult.error;
+      if (agingResult.error) throw agingResult.error;
+
+      setMonthly(monthlyResult.data || []);
+      setAging(agingResult.data || []);
+    } catch (error) {
+      console.error('Error fetching finance reports:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load finance reports",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchBreakdown = async () => {
+    const { start, end } = getPeriodRange(period);
+
+    try {
+      const [clientResult, projectResult] = await Promise.all([
+        supabase.rpc('get_revenue_by_client', { p_start_date: start, p_end_date: end }),
+        supabase.rpc('get_revenue_by_project', { p_start_date: start, p_end_date: end }),
+      ]);
+
+      if (clientResult.error) throw clientResult.error;
+      if (projectResult.error) throw projectResult.error;
+
+      setByClient(clientResult.data || []);
+      setByProject(projectResult.data || []);
+    } catch (error) {
+      console.error('Error fetching revenue breakdown:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load revenue breakdown",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderCurrencyTooltip = (value: unknown, name: unknown, labels: ChartConfig) => (
+    <div className="flex w-full justify-between gap-4">
+      <span className="text-muted-foreground">{labels[String(name)]?.label || String(name)}</span>
+      <span className="font-mono font-medium">{formatCurrency(Number(value), baseCurrency)}</span>
+    </div>
+  );
+
+  const getComparisons = () => {
+    if (monthly.length === 0) return [];
+
+    const current = monthly[monthly.length - 1];
+    const lastMonth = monthly[monthly.length - 2];
+    const lastYear = monthly[monthly.length - 13];
+    const currentYear = current.month.slice(0, 4);
+    const previousYear = String(Number(currentYear) - 1);
+    const monthOfYear = current.month.slice(5, 7);
+
+    const sumMonths = (rows: MonthlyRevenue[], key: 'invoiced' | 'collected') =>
+      rows.reduce((sum, row) => sum + row[key], 0);
+    const thisYtd = monthly.filter(row => row.month.startsWith(currentYear));
+    const lastYtd = monthly.filter(row => row.month.startsWith(previousYear) && row.month.slice(5, 7) <= monthOfYear);
+
+    return [
+      {
+        label: 'This month vs last month',
+        invoiced: [current.invoiced, lastMonth?.invoiced || 0],
+        collected: [current.collected, lastMonth?.collected || 0],
+      },
+      {
+        label: 'This month vs same month last year',
+        invoiced: [current.invoiced, lastYear?.invoiced || 0],
+        collected: [current.collected, lastYear?.collected || 0],
+      },
+      {
+        label: 'Year to date vs same period last year',
+        invoiced: [sumMonths(thisYtd, 'invoiced'), sumMonths(lastYtd, 'invoiced')],
+        collected: [sumMonths(thisYtd, 'collected'), sumMonths(lastYtd, 'collected')],
+      },
+    ];
+  };
+
+  const renderChange = (current: number, previous: number) => {
+    const change = percentChange(current, previous);
+    if (change === null) return <span className="text-xs text-muted-foreground">no prior revenue</span>;
+
+    return (
+      <span className={`text-xs ${change < 0 ? 'text-red-600' : 'text-green-600'}`}>
+        {change > 0 ? '+' : ''}{change}% from {formatCurrency(previous, baseCurrency)}
+      </span>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const chartMonths = monthly.slice(-12).map(row => ({ ...row, label: formatMonth(row.month) }));
+  const agingData = aging.map(row => ({ ...row, label: AGING_BUCKET_LABELS[row.bucket] || row.bucket }));
+  const totalOutstanding = aging.reduce((sum, row) => sum + row.amount, 0);
+  const topProjectRevenue = Math.max(...byProject.map(row => row.invoiced), 0);
+  const missingCurrencies = getMissingCurrencies([...monthly, ...aging, ...byClient, ...byProject]);
+
+  return (
+    <div className="space-y-4">
+      {missingCurrencies.length > 0 && (
+        <p className="text-sm text-red-600">
+          No exchange rate to {baseCurrency} for {missingCurrencies.join(', ')}. Amounts in these currencies are left out of the reports below until an admin adds a rate in Settings.
+        </p>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {getComparisons().map((comparison) => (
+          <Card key={comparison.label}>
+            <CardHeader className="pb-2">
+              <CardDescription>{comparison.label}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div>
+                <p className="text-sm text-muted-foreground">Invoiced</p>
+                <p className="text-xl font-bold">{formatCurrency(comparison.invoiced[0], baseCurrency)}</p>
+                {renderChange(comparison.invoiced[0], comparison.invoiced[1])}
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Collected</p>
+                <p className="text-xl font-bold">{formatCurrency(comparison.collected[0], baseCurrency)}</p>
+                {renderChange(comparison.collected[0], comparison.collected[1])}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Monthly Revenue</CardTitle>
+            <CardDescription>Invoiced (before tax) and collected over the last 12 months, in {baseCurrency}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={revenueChartConfig} className="h-[280px] w-full aspect-auto">
+              <BarChart data={chartMonths}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={(value) => formatCurrency(value, baseCurrency)} />
+                <ChartTooltip
+                  content={<ChartTooltipContent formatter={(value, name) => renderCurrencyTooltip(value, name, revenueChartConfig)} />}
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="invoiced" fill="var(--color-invoiced)" radius={4} />
+                <Bar dataKey="collected" fill="var(--color-collected)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Accounts Receivable Aging</CardTitle>
+            <CardDescription>
+              {formatCurrency(totalOutstanding, baseCurrency)} outstanding on sent and overdue invoices, by days past due
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={agingChartConfig} className="h-[280px] w-full aspect-auto">
+              <BarChart data={agingData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={(value) => formatCurrency(value, baseCurrency)} />
+                <ChartTooltip
+                  content={<ChartTooltipContent formatter={(value, name) => renderCurrencyTooltip(value, name, agingChartConfig)} />}
+                />
+                <Bar dataKey="amount" fill="var(--color-amount)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+            <div className="grid grid-cols-5 gap-2 mt-2 text-center text-xs text-muted-foreground">
+              {aging.map((row) => (
+                <span key={row.bucket}>
+                  {row.invoice_count} invoice{row.invoice_count === 1 ? '' : 's'}
+                </span>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex justify-end">
+        <Select value={period} onValueChange={(value) => setPeriod(value as ReportPeriod)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(REPORT_PERIOD_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Revenue by Client</CardTitle>
+            <CardDescription>{REPORT_PERIOD_LABELS[period]}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {byClient.length === 0 ? (
+              <p className="text-center text-muted-foreground py-4">No revenue in this period</p>
+            ) : (
+              <ChartContainer
+                config={revenueChartConfig}
+                className="w-full aspect-auto"
+                style={{ height: Math.max(byClient.length * 40, 120) }}
+              >
+                <BarChart data={byClient} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(value) => formatCurrency(value, baseCurrency)} />
+                  <YAxis type="category" dataKey="client_name" tickLine={false} axisLine={false} width={120} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent formatter={(value, name) => renderCurrencyTooltip(value, name, revenueChartConfig)} />}
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="invoiced" fill="var(--color-invoiced)" radius={4} />
+                  <Bar dataKey="collected" fill="var(--color-collected)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Revenue by Project</CardTitle>
+            <CardDescription>Invoiced before tax, {REPORT_PERIOD_LABELS[period].toLowerCase()}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {byProject.length === 0 ? (
+              <p className="text-center text-muted-foreground py-4">No revenue in this period</p>
+            ) : (
+              <div className="space-y-3">
+                {byProject.map((row) => (
+                  <div key={row.project_id || 'none'} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className={row.project_id ? 'font-medium' : 'text-muted-foreground'}>{row.project_name}</span>
+                      <span>{formatCurrency(row.invoiced, baseCurrency)}</span>
+                    </div>
+                    <div className="h-2 rounded-full bg-muted">
+                      <div
+                        className="h-2 rounded-full bg-primary"
+                        style={{ width: `${topProjectRevenue > 0 ? (row.invoiced / topProjectRevenue) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default FinanceReports;
@@ -0,0 +1,430 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import LineItemsEditor from '@/components/LineItemsEditor';
+import {
+  InvoiceLineItem,
+  InvoiceStatus,
+  calculateInvoiceTotals,
+  emptyLineItem,
+} from '@/lib/invoices';
+import { CURRENCIES, DEFAULT_CURRENCY, formatCurrency } from '@/lib/currency';
+
+interface Client {
+  id: string;
+  name: string;
+  currency: string;
+}
+
+interface Project {
+  id: string;
+  name: string;
+  client_id?: string | null;
+  currency: string;
+}
+
+interface InvoiceEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoiceId: string | null;
+  onSaved: () => void;
+}
+
+const NO_PROJECT = 'none';
+
+const defaultDueDate = () => {
+  const due = new Date();
+  due.setDate(due.getDate() + 30);
+  return due.toISOString().split('T')[0];
+};
+
+const InvoiceEditor = ({ open, onOpenChange, invoiceId, onSaved }: InvoiceEditorProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [clients, setClients] = useState<Client[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [loadingInvoice, setLoadingInvoice] = useState(false);
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [status, setStatus] = useState<InvoiceStatus>('draft');
+  const [amountPaid, setAmountPaid] = useState(0);
+  const [formData, setFormData] = useState({
+    client_id: '',
+    project_id: '',
+    currency: DEFAULT_CURRENCY,
+    issue_date: new Date().toISOString().split('T')[0],
+    due_date: defaultDueDate(),
+    notes: ''
+  });
+  const [lineItems, setLineItems] = useState<InvoiceLineItem[]>([emptyLineItem()]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    fetchClients();
+    fetchProjects();
+
+    if (invoiceId) {
+      fetchInvoice(invoiceId);
+    } else {
+      resetForm();
+    }
+  }, [open, invoiceId]);
+
+  const fetchClients = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('clients')
+        .select('id, name, currency')
+        .order('name');
+
+      if (error) throw error;
+      setClients(data || []);
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+    }
+  };
+
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, client_id, currency')
+        .order('name');
+
+      if (error) throw error;
+      setProjects(data || []);
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    }
+  };
+
+  const fetchInvoice = async (id: string) => {
+    setLoadingInvoice(true);
+    try {
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (invoiceError) throw invoiceError;
+
+      const { data: items, error: itemsError } = await supabase
+        .from('invoice_items')
+        .select('*')
+        .eq('invoice_id', id)
+        .order('sort_order');
+
+      if (itemsError) throw itemsError;
+
+      setInvoiceNumber(invoice.invoice_number);
+      setStatus(invoice.status || 'draft');
+      setAmountPaid(invoice.amount_paid || 0);
+      setFormData({
+        client_id: invoice.client_id,
+        project_id: invoice.project_id || '',
+        currency: invoice.currency,
+        issue_date: invoice.issue_date,
+        due_date: invoice.due_date,
+        notes: invoice.notes || ''
+      });
+      setLineItems(
+        items && items.length > 0
+          ? items.map(item => ({
+              id: item.id,
+              description: item.description,
+              quantity: item.quantity,
+              unit_price: item.unit_price,
+              tax_rate: item.tax_rate,
+            }))
+          : [emptyLineItem()]
+      );
+    } catch (error) {
+      console.error('Error loading invoice:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load invoice",
+        variant: "destructive",
+      });
+      onOpenChange(false);
+    } finally {
+      setLoadingInvoice(false);
+    }
+  };
+
+  const resetForm = () => {
+    setInvoiceNumber('');
+    setStatus('draft');
+    setAmountPaid(0);
+    setFormData({
+      client_id: '',
+      project_id: '',
+      currency: DEFAULT_CURRENCY,
+      issue_date: new Date().toISOString().split('T')[0],
+      due_date: defaultDueDate(),
+      notes: ''
+    });
+    setLineItems([emptyLineItem()]);
+  };
+
+  const handleClientChange = (clientId: string) => {
+    const currentProject = projects.find(p => p.id === formData.project_id);
+    const client = clients.find(c => c.id === clientId);
+    setFormData({
+      ...formData,
+      client_id: clientId,
+      // Drop a project that belongs to a different client
+      project_id: currentProject && currentProject.client_id && currentProject.client_id !== clientId ? '' : formData.project_id,
+      // Bill in the client's currency unless payments already fixed it
+      currency: amountPaid > 0 ? formData.currency : client?.currency || formData.currency
+    });
+  };
+
+  const handleProjectChange = (value: string) => {
+    const projectId = value === NO_PROJECT ? '' : value;
+    const project = projects.find(p => p.id === projectId);
+    setFormData({
+      ...formData,
+      project_id: projectId,
+      client_id: formData.client_id || project?.client_id || '',
+      currency: amountPaid > 0 ? formData.currency : project?.currency || formData.currency
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!profile?.id) return;
+
+    if (!formData.client_id) {
+      toast({
+        title: "Validation Error",
+        description: "Please select a client",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const items = lineItems.filter(item => item.description.trim());
+    if (items.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Add at least one line item with a description",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (items.some(item => item.quantity <= 0 || item.unit_price < 0 || item.tax_rate < 0 || item.tax_rate > 100)) {
+      toast({
+        title: "Validation Error",
+        description: "Quantities must be positive and tax rates between 0 and 100",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.due_date < formData.issue_date) {
+      toast({
+        title: "Validation Error",
+        description: "Due date cannot be before the issue date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (calculateInvoiceTotals(items).total_amount < amountPaid) {
+      toast({
+        title: "Validation Error",
+        description: `The total cannot be less than the ${formatCurrency(amountPaid, formData.currency)} already paid`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Header, number and line items are saved in one transaction
+      const { error } = await supabase.rpc('save_invoice', {
+        p_invoice_id: invoiceId || undefined,
+        p_invoice: {
+          client_id: formData.client_id,
+          project_id: formData.project_id || null,
+          currency: formData.currency,
+          issue_date: formData.issue_date,
+          due_date: formData.due_date,
+          notes: formData.notes || null
+        },
+        p_items: items.map(item => ({
+          id: item.id || null,
+          description: item.description.trim(),
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          tax_rate: item.tax_rate
+        }))
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: invoiceId ? "Invoice updated successfully" : "Invoice created successfully",
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const availableProjects = formData.client_id
+    ? projects.filter(p => !p.client_id || p.client_id === formData.client_id)
+    : projects;
+  const isLocked = status === 'paid' || status === 'cancelled';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {invoiceId ? `Edit Invoice ${invoiceNumber}` : 'New Invoice'}
+          </DialogTitle>
+          <DialogDescription>
+            {invoiceId
+              ? isLocked
+                ? `This invoice is ${status} and can no longer be edited`
+                : 'Update invoice details and line items'
+              : 'The invoice number is assigned automatically when the invoice is saved'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadingInvoice ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <fieldset disabled={isLocked || saving} className="space-y-6 py-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="client_id">Client</Label>
+                  <Select value={formData.client_id} onValueChange={handleClientChange} disabled={isLocked}>
+                    <SelectTrigger id="client_id">
+                      <SelectValue placeholder="Select a client" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {clients.map((client) => (
+                        <SelectItem key={client.id} value={client.id}>
+                          {client.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="project_id">Project</Label>
+                  <Select value={formData.project_id || NO_PROJECT} onValueChange={handleProjectChange} disabled={isLocked}>
+                    <SelectTrigger id="project_id">
+                      <SelectValue placeholder="Select a project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                      {availableProjects.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {project.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="currency">Currency</Label>
+                  <Select
+                    value={formData.currency}
+                    onValueChange={(value) => setFormData({ ...formData, currency: value })}
+                    disabled={isLocked || amountPaid > 0}
+                  >
+                    <SelectTrigger id="currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[...new Set([...CURRENCIES, formData.currency])].map((currency) => (
+                        <SelectItem key={currency} value={currency}>
+                          {currency}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="issue_date">Issue Date</Label>
+                  <Input
+                    id="issue_date"
+                    type="date"
+                    value={formData.issue_date}
+                    onChange={(e) => setFormData({ ...formData, issue_date: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="due_date">Due Date</Label>
+                  <Input
+                    id="due_date"
+                    type="date"
+                    value={formData.due_date}
+                    onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <LineItemsEditor
+                lineItems={lineItems}
+                currency={formData.currency}
+                onChange={setLineItems}
+              />
+
+              <div className="space-y-2">
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={3}
+                  placeholder="Payment terms or a message for the client"
+                />
+              </div>
+            </fieldset>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              {!isLocked && (
+                <Button type="submit" disabled={saving}>
+                  {saving ? 'Saving...' : invoiceId ? 'Update Invoice' : 'Create Invoice'}
+                </Button>
+              )}
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InvoiceEditor;
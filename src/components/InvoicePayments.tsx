@@ -0,0 +1,333 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Trash2 } from 'lucide-react';
+import {
+  InvoiceStatus,
+  PaymentMethod,
+  PAYMENT_METHOD_LABELS,
+  getOutstandingBalance,
+} from '@/lib/invoices';
+import { formatCurrency } from '@/lib/currency';
+
+interface PaymentInvoice {
+  invoice_number: string;
+  total_amount: number;
+  amount_paid: number;
+  currency: string;
+  status: InvoiceStatus;
+}
+
+interface Payment {
+  id: string;
+  amount: number;
+  payment_date: string;
+  method: string;
+  reference: string | null;
+  notes: string | null;
+  recorder?: { first_name: string; last_name: string } | null;
+}
+
+interface InvoicePaymentsProps {
+  invoiceId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+const emptyForm = () => ({
+  amount: '',
+  payment_date: new Date().toISOString().split('T')[0],
+  method: 'bank_transfer' as PaymentMethod,
+  reference: '',
+  notes: ''
+});
+
+const InvoicePayments = ({ invoiceId, onOpenChange, onChanged }: InvoicePaymentsProps) => {
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+  const [invoice, setInvoice] = useState<PaymentInvoice | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    if (invoiceId) {
+      fetchPayments(invoiceId);
+    } else {
+      setInvoice(null);
+      setPayments([]);
+    }
+  }, [invoiceId]);
+
+  const fetchPayments = async (id: string) => {
+    setLoading(true);
+    try {
+      const [invoiceResult, paymentsResult] = await Promise.all([
+        supabase
+          .from('invoices')
+          .select('invoice_number, total_amount, amount_paid, currency, status')
+          .eq('id', id)
+          .single(),
+        supabase
+          .from('payments')
+          .select(`
+            *,
+            recorder:profiles!payments_recorded_by_fkey (first_name, last_name)
+          `)
+          .eq('invoice_id', id)
+          .order('payment_date', { ascending: false }),
+      ]);
+
+      if (invoiceResult.error) throw invoiceResult.error;
+      if (paymentsResult.error) throw paymentsResult.error;
+
+      const balance = getOutstandingBalance(invoiceResult.data);
+      setInvoice(invoiceResult.data);
+      setPayments(paymentsResult.data || []);
+      setFormData({ ...emptyForm(), amount: balance > 0 ? balance.toString() : '' });
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load payments",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invoiceId || !invoice) return;
+
+    const amount = Number(formData.amount);
+    if (!amount || amount <= 0) {
+      toast({
+        title: "Error",
+        description: "Payment amount must be greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (amount > getOutstandingBalance(invoice)) {
+      toast({
+        title: "Error",
+        description: `Payment exceeds the outstanding balance of ${formatCurrency(getOutstandingBalance(invoice), invoice.currency)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('payments')
+        .insert({
+          invoice_id: invoiceId,
+          amount,
+          payment_date: formData.payment_date,
+          method: formData.method,
+          reference: formData.reference || null,
+          notes: formData.notes || null
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: amount === getOutstandingBalance(invoice)
+          ? `Invoice ${invoice.invoice_number} is now fully paid`
+          : `Payment of ${formatCurrency(amount, invoice.currency)} recorded`,
+      });
+
+      fetchPayments(invoiceId);
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (payment: Payment) => {
+    if (!invoiceId || !invoice || !confirm(`Remove the payment of ${formatCurrency(payment.amount, invoice.currency)}? The invoice balance will be reopened.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('payments')
+        .delete()
+        .eq('id', payment.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Payment removed",
+      });
+
+      fetchPayments(invoiceId);
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const balance = invoice ? getOutstandingBalance(invoice) : 0;
+  const canRecordPayment = invoice && ['sent', 'overdue'].includes(invoice.status) && balance > 0;
+
+  return (
+    <Dialog open={!!invoiceId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Payments</DialogTitle>
+          <DialogDescription>
+            Payments received against invoice {invoice?.invoice_number}. The invoice is marked paid once the balance reaches zero.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !invoice ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">Total</p>
+                <p className="font-bold">{formatCurrency(invoice.total_amount, invoice.currency)}</p>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">Paid</p>
+                <p className="font-bold text-green-600">{formatCurrency(invoice.amount_paid, invoice.currency)}</p>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">Balance</p>
+                <p className={`font-bold ${balance > 0 ? 'text-red-600' : ''}`}>{formatCurrency(balance, invoice.currency)}</p>
+              </div>
+            </div>
+
+            {canRecordPayment && (
+              <form onSubmit={handleSubmit} className="space-y-4 p-4 border rounded-lg">
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="payment_amount">Amount</Label>
+                    <Input
+                      id="payment_amount"
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      max={balance}
+                      value={formData.amount}
+                      onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="payment_date">Date</Label>
+                    <Input
+                      id="payment_date"
+                      type="date"
+                      value={formData.payment_date}
+                      onChange={(e) => setFormData({ ...formData, payment_date: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="payment_method">Method</Label>
+                    <Select
+                      value={formData.method}
+                      onValueChange={(value) => setFormData({ ...formData, method: value as PaymentMethod })}
+                    >
+                      <SelectTrigger id="payment_method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PAYMENT_METHOD_LABELS).map(([method, label]) => (
+                          <SelectItem key={method} value={method}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="payment_reference">Reference</Label>
+                    <Input
+                      id="payment_reference"
+                      value={formData.reference}
+                      onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                      placeholder="Transaction ID, cheque number..."
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="payment_notes">Notes</Label>
+                    <Input
+                      id="payment_notes"
+                      value={formData.notes}
+                      onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <Button type="submit" disabled={saving}>
+                  {saving ? 'Recording...' : 'Record Payment'}
+                </Button>
+              </form>
+            )}
+
+            {invoice.status === 'draft' && (
+              <p className="text-sm text-muted-foreground">Send the invoice before recording payments against it.</p>
+            )}
+
+            <div className="space-y-3">
+              {payments.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">No payments recorded</p>
+              ) : (
+                payments.map((payment) => (
+                  <div key={payment.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="space-y-1">
+                      <p className="font-medium">{formatCurrency(payment.amount, invoice.currency)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(`${payment.payment_date}T00:00:00`).toLocaleDateString()}
+                        {' • '}
+                        {PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] || payment.method}
+                        {payment.reference && ` • ${payment.reference}`}
+                        {payment.recorder && ` • ${payment.recorder.first_name} ${payment.recorder.last_name}`}
+                      </p>
+                      {payment.notes && <p className="text-sm">{payment.notes}</p>}
+                    </div>
+                    {isAdmin && invoice.status !== 'cancelled' && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(payment)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InvoicePayments;
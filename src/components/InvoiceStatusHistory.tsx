@@ -0,0 +1,102 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowRight } from 'lucide-react';
+import { getInvoiceStatusColor } from '@/lib/invoices';
+
+interface StatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  note: string | null;
+  created_at: string;
+  changer?: { first_name: string; last_name: string } | null;
+}
+
+interface InvoiceStatusHistoryProps {
+  invoiceId: string | null;
+  invoiceNumber: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const InvoiceStatusHistory = ({ invoiceId, invoiceNumber, onOpenChange }: InvoiceStatusHistoryProps) => {
+  const [changes, setChanges] = useState<StatusChange[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (invoiceId) {
+      fetchHistory(invoiceId);
+    }
+  }, [invoiceId]);
+
+  const fetchHistory = async (id: string) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('invoice_status_history')
+        .select(`
+          *,
+          changer:profiles!invoice_status_history_changed_by_fkey (first_name, last_name)
+        `)
+        .eq('invoice_id', id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setChanges(data || []);
+    } catch (error) {
+      console.error('Error fetching invoice status history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!invoiceId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Status History</DialogTitle>
+          <DialogDescription>
+            Every status change of invoice {invoiceNumber}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">No status changes recorded</p>
+        ) : (
+          <div className="space-y-3">
+            {changes.map((change) => (
+              <div key={change.id} className="p-3 border rounded-lg space-y-1">
+                <div className="flex items-center gap-2">
+                  {change.from_status && (
+                    <>
+                      <Badge variant="secondary" className={getInvoiceStatusColor(change.from_status)}>
+                        {change.from_status}
+                      </Badge>
+                      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    </>
+                  )}
+                  <Badge variant="secondary" className={getInvoiceStatusColor(change.to_status)}>
+                    {change.to_status}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(change.created_at).toLocaleString()}
+                  {' • '}
+                  {change.changer ? `${change.changer.first_name} ${change.changer.last_name}` : 'System'}
+                </p>
+                {change.note && <p className="text-sm">{change.note}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InvoiceStatusHistory;
@@ -10,6 +10,9 @@ import {
   Users, 
   FolderOpen, 
   CheckSquare, 
+  Flag,
+  Gauge,
+  Timer,
   UserCheck, 
   DollarSign, 
   MessageSquare, 
@@ -24,6 +27,9 @@ const menuItems = [
   { title: 'Team', url: '/team', icon: Users },
   { title: 'Projects', url: '/projects', icon: FolderOpen },
   { title: 'Tasks', url: '/tasks', icon: CheckSquare },
+  { title: 'Sprints', url: '/sprints', icon: Flag },
+  { title: 'Workload', url: '/workload', icon: Gauge },
+  { title: 'Timesheet', url: '/timesheet', icon: Timer },
   { title: 'Clients', url: '/clients', icon: UserCheck },
   { title: 'Finance', url: '/finance', icon: DollarSign },
   { title: 'Messages', url: '/messages', icon: MessageSquare },
@@ -34,6 +40,8 @@ const menuItems = [
 
 interface LayoutProps {
   children: React.ReactNode;
+  // Render only the auth guard, without sidebar and header (used by print views)
+  bare?: boolean;
 }
 
 function AppSidebar() {
@@ -110,7 +118,7 @@ function AppSidebar() {
   );
 }
 
-export default function Layout({ children }: LayoutProps) {
+export default function Layout({ children, bare = false }: LayoutProps) {
   const { user, loading } = useAuth();
 
   if (loading) {
@@ -125,6 +133,10 @@ export default function Layout({ children }: LayoutProps) {
     return <Navigate to="/auth" replace />;
   }
 
+  if (bare) {
+    return <>{children}</>;
+  }
+
   return (
     <SidebarProvider>
       <div className="min-h-screen flex w-full">
@@ -0,0 +1,123 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  InvoiceLineItem,
+  calculateInvoiceTotals,
+  calculateLineAmount,
+  emptyLineItem,
+} from '@/lib/invoices';
+import { formatCurrency } from '@/lib/currency';
+
+interface LineItemsEditorProps {
+  lineItems: InvoiceLineItem[];
+  currency: string;
+  onChange: (lineItems: InvoiceLineItem[]) => void;
+}
+
+// Editable line item grid with running totals, shared by invoices and recurring invoice templates
+const LineItemsEditor = ({ lineItems, currency, onChange }: LineItemsEditorProps) => {
+  const updateLineItem = (index: number, changes: Partial<InvoiceLineItem>) => {
+    onChange(lineItems.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const removeLineItem = (index: number) => {
+    const remaining = lineItems.filter((_, i) => i !== index);
+    onChange(remaining.length > 0 ? remaining : [emptyLineItem()]);
+  };
+
+  const totals = calculateInvoiceTotals(lineItems);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Line Items</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...lineItems, emptyLineItem()])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Line
+        </Button>
+      </div>
+      <div className="border rounded-lg">
+        <div className="grid grid-cols-12 gap-2 p-2 text-xs font-medium text-muted-foreground border-b">
+          <span className="col-span-5">Description</span>
+          <span className="col-span-2">Quantity</span>
+          <span className="col-span-2">Unit Price</span>
+          <span className="col-span-1">Tax %</span>
+          <span className="col-span-1 text-right">Amount</span>
+          <span className="col-span-1"></span>
+        </div>
+        {lineItems.map((item, index) => (
+          <div key={item.id || `new-${index}`} className="grid grid-cols-12 gap-2 p-2 items-center">
+            <Input
+              className="col-span-5"
+              value={item.description}
+              onChange={(e) => updateLineItem(index, { description: e.target.value })}
+              placeholder="Service or product"
+            />
+            <Input
+              className="col-span-2"
+              type="number"
+              step="0.25"
+              min="0"
+              value={item.quantity}
+              onChange={(e) => updateLineItem(index, { quantity: parseFloat(e.target.value) || 0 })}
+            />
+            <Input
+              className="col-span-2"
+              type="number"
+              step="0.01"
+              min="0"
+              value={item.unit_price}
+              onChange={(e) => updateLineItem(index, { unit_price: parseFloat(e.target.value) || 0 })}
+            />
+            <Input
+              className="col-span-1"
+              type="number"
+              step="0.01"
+              min="0"
+              max="100"
+              value={item.tax_rate}
+              onChange={(e) => updateLineItem(index, { tax_rate: parseFloat(e.target.value) || 0 })}
+            />
+            <span className="col-span-1 text-right text-sm font-medium">
+              {formatCurrency(calculateLineAmount(item), currency)}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="col-span-1"
+              onClick={() => removeLineItem(index)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end">
+        <div className="w-64 space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Subtotal</span>
+            <span>{formatCurrency(totals.amount, currency)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Tax</span>
+            <span>{formatCurrency(totals.tax_amount, currency)}</span>
+          </div>
+          <div className="flex justify-between font-bold text-base border-t pt-1">
+            <span>Total</span>
+            <span>{formatCurrency(totals.total_amount, currency)}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LineItemsEditor;
@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { toDateString } from '@/lib/time-entries';
+
+export interface EditableTimeEntry {
+  id: string;
+  task_id: string;
+  date: string;
+  hours: number;
+  description: string | null;
+}
+
+interface TaskOption {
+  id: string;
+  title: string;
+  project_id: string;
+  projects?: { name: string } | null;
+}
+
+interface LogTimeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry?: EditableTimeEntry | null;
+  defaultTaskId?: string | null;
+  onSaved: () => void;
+}
+
+const LogTimeDialog = ({ open, onOpenChange, entry, defaultTaskId, onSaved }: LogTimeDialogProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<TaskOption[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    task_id: '',
+    date: toDateString(new Date()),
+    hours: '',
+    description: ''
+  });
+
+  useEffect(() => {
+    if (open) {
+      fetchTasks();
+      setFormData({
+        task_id: entry?.task_id || defaultTaskId || '',
+        date: entry?.date || toDateString(new Date()),
+        hours: entry ? String(entry.hours) : '',
+        description: entry?.description || ''
+      });
+    }
+  }, [open, entry, defaultTaskId]);
+
+  const fetchTasks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, project_id, projects (name)')
+        .order('title');
+
+      if (error) throw error;
+      setTasks(data || []);
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const hours = parseFloat(formData.hours);
+    if (!formData.task_id || !hours || hours <= 0 || hours > 24) {
+      toast({
+        title: "Error",
+        description: "Choose a task and enter between 0 and 24 hours",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const entryData = {
+        task_id: formData.task_id,
+        date: formData.date,
+        hours,
+        description: formData.description || null,
+      };
+
+      if (entry) {
+        const { error } = await supabase
+          .from('time_entries')
+          .update(entryData)
+          .eq('id', entry.id);
+
+        if (error) throw error;
+      } else {
+        const task = tasks.find(t => t.id === formData.task_id);
+        const { error } = await supabase
+          .from('time_entries')
+          .insert([{ ...entryData, user_id: profile?.id || '', project_id: task?.project_id || '' }]);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: entry ? "Time entry updated" : `Logged ${hours}h`,
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{entry ? 'Edit Time Entry' : 'Log Time'}</DialogTitle>
+          <DialogDescription>
+            {entry ? 'Update the time recorded against this task' : 'Record time spent on a task'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Task</Label>
+              <Select value={formData.task_id} onValueChange={(value) => setFormData({ ...formData, task_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a task" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tasks.map((task) => (
+                    <SelectItem key={task.id} value={task.id}>
+                      {task.title}{task.projects?.name ? ` (${task.projects.name})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="entry_date">Date</Label>
+                <Input
+                  id="entry_date"
+                  type="date"
+                  value={formData.date}
+                  max={toDateString(new Date())}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="entry_hours">Hours</Label>
+                <Input
+                  id="entry_hours"
+                  type="number"
+                  step="0.25"
+                  min="0.25"
+                  max="24"
+                  value={formData.hours}
+                  onChange={(e) => setFormData({ ...formData, hours: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry_description">Description</Label>
+              <Textarea
+                id="entry_description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+                placeholder="What did you work on?"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : entry ? 'Update' : 'Log Time'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LogTimeDialog;
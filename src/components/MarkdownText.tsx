@@ -0,0 +1,120 @@
+import { Fragment, ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+
+interface MarkdownTextProps {
+  text: string;
+  className?: string;
+}
+
+// Bold, italics, inline code, links and @mentions. Links are limited to http(s) so
+// comment text can never inject script URLs.
+const INLINE_PATTERN = /(`[^`]+`)|(\*\*[^*]+\*\*)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|(@\[[^\]]+\]\([0-9a-f-]{36}\))|(\[[^\]]+\]\(https?:\/\/[^)\s]+\))/g;
+
+const renderInline = (text: string): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [token, code, bold, italic, mention, link] = match;
+    const index = match.index ?? 0;
+
+    if (index > lastIndex) nodes.push(text.slice(lastIndex, index));
+
+    if (code) {
+      nodes.push(<code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-xs">{code.slice(1, -1)}</code>);
+    } else if (bold) {
+      nodes.push(<strong key={index}>{renderInline(bold.slice(2, -2))}</strong>);
+    } else if (italic) {
+      nodes.push(<em key={index}>{renderInline(italic.slice(1, -1))}</em>);
+    } else if (mention) {
+      const name = mention.slice(2, mention.indexOf(']'));
+      nodes.push(<span key={index} className="rounded bg-primary/10 px-1 font-medium text-primary">@{name}</span>);
+    } else if (link) {
+      const label = link.slice(1, link.indexOf(']'));
+      const href = link.slice(link.indexOf('](') + 2, -1);
+      nodes.push(
+        <a key={index} href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+          {label}
+        </a>
+      );
+    }
+
+    lastIndex = index + token.length;
+  }
+
+  if (lastIndex < text.length) nodes.push(text.slice(lastIndex));
+  return nodes;
+};
+
+const renderLines = (lines: string[]) =>
+  lines.map((line, index) => (
+    <Fragment key={index}>
+      {index > 0 && <br />}
+      {renderInline(line)}
+    </Fragment>
+  ));
+
+// A small, safe subset of markdown for comments: paragraphs, lists, quotes and code blocks
+const MarkdownText = ({ text, className }: MarkdownTextProps) => {
+  const blocks: ReactNode[] = [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith('```')) code.push(lines[i++]);
+      i++;
+      blocks.push(
+        <pre key={blocks.length} className="rounded bg-muted p-2 font-mono text-xs overflow-x-auto whitespace-pre">
+          {code.join('\n')}
+        </pre>
+      );
+    } else if (/^\s*[-*] /.test(line)) {
+      const items: string[] = [];
+      while (i < lines.length && /^\s*[-*] /.test(lines[i])) items.push(lines[i++].replace(/^\s*[-*] /, ''));
+      blocks.push(
+        <ul key={blocks.length} className="list-disc pl-5 space-y-0.5">
+          {items.map((item, index) => <li key={index}>{renderInline(item)}</li>)}
+        </ul>
+      );
+    } else if (/^\s*\d+\. /.test(line)) {
+      const items: string[] = [];
+      while (i < lines.length && /^\s*\d+\. /.test(lines[i])) items.push(lines[i++].replace(/^\s*\d+\. /, ''));
+      blocks.push(
+        <ol key={blocks.length} className="list-decimal pl-5 space-y-0.5">
+          {items.map((item, index) => <li key={index}>{renderInline(item)}</li>)}
+        </ol>
+      );
+    } else if (line.startsWith('> ')) {
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].startsWith('> ')) quote.push(lines[i++].slice(2));
+      blocks.push(
+        <blockquote key={blocks.length} className="border-l-2 pl-3 text-muted-foreground">
+          {renderLines(quote)}
+        </blockquote>
+      );
+    } else if (line.trim() === '') {
+      i++;
+    } else {
+      const paragraph: string[] = [];
+      while (
+        i < lines.length
+        && lines[i].trim() !== ''
+        && !lines[i].startsWith('```')
+        && !lines[i].startsWith('> ')
+        && !/^\s*([-*]|\d+\.) /.test(lines[i])
+      ) {
+        paragraph.push(lines[i++]);
+      }
+      blocks.push(<p key={blocks.length}>{renderLines(paragraph)}</p>);
+    }
+  }
+
+  return <div className={cn('space-y-2 text-sm break-words', className)}>{blocks}</div>;
+};
+
+export default MarkdownText;
@@ -0,0 +1,115 @@
+import { useRef, useState } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { formatMention, getMentionQuery } from '@/lib/mentions';
+
+export interface MentionProfile {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  profiles: MentionProfile[];
+  placeholder?: string;
+  rows?: number;
+  autoFocus?: boolean;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Textarea that suggests profiles while typing "@name" and inserts them as mention tokens
+const MentionTextarea = ({ value, onChange, profiles, placeholder, rows = 3, autoFocus }: MentionTextareaProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = mention
+    ? profiles
+        .filter(p => `${p.first_name} ${p.last_name}`.toLowerCase().includes(mention.query))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(getMentionQuery(text, caret));
+    setHighlighted(0);
+  };
+
+  const insertMention = (profile: MentionProfile) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+
+    const caret = textarea.selectionStart;
+    const token = `${formatMention(profile)} `;
+    const next = value.slice(0, mention.start) + token + value.slice(caret);
+    onChange(next);
+    setMention(null);
+
+    requestAnimationFrame(() => {
+      const position = mention.start + token.length;
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertMention(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setMention(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        rows={rows}
+        autoFocus={autoFocus}
+        placeholder={placeholder}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setMention(null)}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((profile, index) => (
+            <button
+              key={profile.id}
+              type="button"
+              className={cn(
+                'w-full rounded-sm px-2 py-1.5 text-left text-sm',
+                index === highlighted ? 'bg-accent text-accent-foreground' : 'hover:bg-accent'
+              )}
+              // Keep focus in the textarea so the caret position is still known
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertMention(profile);
+              }}
+            >
+              {profile.first_name} {profile.last_name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
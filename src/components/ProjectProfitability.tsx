@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { useCurrency } from '@/hooks/useCurrency';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/currency';
+
+interface ProfitabilityRow {
+  project_id: string;
+  project_name: string;
+  status: string;
+  budget: number | null;
+  budget_currency: string;
+  budget_base: number | null;
+  revenue: number;
+  expenses: number;
+  hours: number;
+  labor_cost: number;
+  profit: number;
+  missing_currencies: string[] | null;
+}
+
+const ProjectProfitability = () => {
+  const { baseCurrency } = useCurrency();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<ProfitabilityRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchProfitability();
+  }, []);
+
+  const fetchProfitability = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_profitability')
+        .select('*')
+        .order('project_name');
+
+      if (error) throw error;
+      setRows((data || []) as ProfitabilityRow[]);
+    } catch (error) {
+      console.error('Error fetching project profitability:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load project profitability",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      revenue: sum.revenue + row.revenue,
+      expenses: sum.expenses + row.expenses,
+      labor_cost: sum.labor_cost + row.labor_cost,
+      profit: sum.profit + row.profit,
+    }),
+    { revenue: 0, expenses: 0, labor_cost: 0, profit: 0 }
+  );
+  const missingCurrencies = [...new Set(rows.flatMap(row => row.missing_currencies || []))];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Project Profitability</CardTitle>
+        <CardDescription>
+          Invoiced revenue (before tax) against expenses and labor cost from logged time, in {baseCurrency}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">No projects yet</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="border rounded-lg overflow-x-auto">
+              <div className="grid grid-cols-12 gap-2 p-3 text-xs font-medium text-muted-foreground border-b min-w-[800px]">
+                <span className="col-span-3">Project</span>
+                <span className="col-span-2 text-right">Revenue</span>
+                <span className="col-span-2 text-right">Expenses</span>
+                <span className="col-span-2 text-right">Labor</span>
+                <span className="col-span-1 text-right">Profit</span>
+                <span className="col-span-2">Budget Used</span>
+              </div>
+              {rows.map((row) => {
+                const cost = row.expenses + row.labor_cost;
+                const budgetUsed = row.budget_base ? Math.round((cost / row.budget_base) * 100) : null;
+                const margin = row.revenue > 0 ? Math.round((row.profit / row.revenue) * 100) : null;
+
+                return (
+                  <div key={row.project_id} className="grid grid-cols-12 gap-2 p-3 text-sm items-center border-b last:border-b-0 min-w-[800px]">
+                    <div className="col-span-3">
+                      <p className="font-medium">{row.project_name}</p>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">{row.status.replace('_', ' ')}</Badge>
+                        {row.missing_currencies && row.missing_currencies.length > 0 && (
+                          <span className="text-xs text-red-600">Missing {row.missing_currencies.join(', ')} rate</span>
+                        )}
+                      </div>
+                    </div>
+                    <span className="col-span-2 text-right">{formatCurrency(row.revenue, baseCurrency)}</span>
+                    <span className="col-span-2 text-right">{formatCurrency(row.expenses, baseCurrency)}</span>
+                    <div className="col-span-2 text-right">
+                      <p>{formatCurrency(row.labor_cost, baseCurrency)}</p>
+                      <p className="text-xs text-muted-foreground">{row.hours}h</p>
+                    </div>
+                    <div className="col-span-1 text-right">
+                      <p className={`font-medium ${row.profit < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatCurrency(row.profit, baseCurrency)}
+                      </p>
+                      {margin !== null && <p className="text-xs text-muted-foreground">{margin}%</p>}
+                    </div>
+                    <div className="col-span-2">
+                      {budgetUsed !== null ? (
+                        <>
+                          <Progress value={Math.min(budgetUsed, 100)} className="h-2" />
+                          <p className={`text-xs mt-1 ${budgetUsed > 100 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                            {budgetUsed}% of {formatCurrency(row.budget || 0, row.budget_currency)}
+                          </p>
+                        </>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">
+                          {row.budget ? `No ${row.budget_currency} rate` : 'No budget'}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              <div className="grid grid-cols-12 gap-2 p-3 text-sm font-bold border-t min-w-[800px]">
+                <span className="col-span-3">Total</span>
+                <span className="col-span-2 text-right">{formatCurrency(totals.revenue, baseCurrency)}</span>
+                <span className="col-span-2 text-right">{formatCurrency(totals.expenses, baseCurrency)}</span>
+                <span className="col-span-2 text-right">{formatCurrency(totals.labor_cost, baseCurrency)}</span>
+                <span className={`col-span-1 text-right ${totals.profit < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {formatCurrency(totals.profit, baseCurrency)}
+                </span>
+                <span className="col-span-2"></span>
+              </div>
+            </div>
+
+            {missingCurrencies.length > 0 && (
+              <p className="text-sm text-red-600">
+                Amounts in {missingCurrencies.join(', ')} are left out until an exchange rate to {baseCurrency} is added in Settings.
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Labor cost uses each member's hourly rate from their profile. Company overhead expenses are not assigned to projects.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProjectProfitability;
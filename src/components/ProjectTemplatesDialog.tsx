@@ -0,0 +1,350 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Trash2, X } from 'lucide-react';
+import { TaskPriority } from '@/lib/tasks';
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  project_template_tasks: { phase: string | null; default_role: string | null; estimated_hours: number | null }[];
+}
+
+interface TemplateTaskRow {
+  phase: string;
+  title: string;
+  priority: TaskPriority;
+  estimated_hours: string;
+  start_offset_days: string;
+  due_offset_days: string;
+  default_role: string;
+}
+
+interface ProjectTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: ProjectTemplate[];
+  onSaved: () => void;
+}
+
+const NEW_TEMPLATE = 'new';
+
+const emptyRow = (): TemplateTaskRow => ({
+  phase: '',
+  title: '',
+  priority: 'medium',
+  estimated_hours: '',
+  start_offset_days: '',
+  due_offset_days: '',
+  default_role: '',
+});
+
+const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const ProjectTemplatesDialog = ({ open, onOpenChange, templates, onSaved }: ProjectTemplatesDialogProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [templateId, setTemplateId] = useState(NEW_TEMPLATE);
+  const [formData, setFormData] = useState({ name: '', description: '' });
+  const [rows, setRows] = useState<TemplateTaskRow[]>([emptyRow()]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) selectTemplate(templates[0]?.id || NEW_TEMPLATE);
+  }, [open]);
+
+  const selectTemplate = async (id: string) => {
+    setTemplateId(id);
+
+    const template = templates.find(t => t.id === id);
+    if (!template) {
+      setFormData({ name: '', description: '' });
+      setRows([emptyRow()]);
+      return;
+    }
+
+    setFormData({ name: template.name, description: template.description || '' });
+    try {
+      const { data, error } = await supabase
+        .from('project_template_tasks')
+        .select('*')
+        .eq('template_id', id)
+        .order('sort_order');
+
+      if (error) throw error;
+
+      setRows((data || []).map(task => ({
+        phase: task.phase || '',
+        title: task.title,
+        priority: task.priority,
+        estimated_hours: task.estimated_hours?.toString() || '',
+        start_offset_days: task.start_offset_days?.toString() || '',
+        due_offset_days: task.due_offset_days?.toString() || '',
+        default_role: task.default_role || '',
+      })));
+    } catch (error) {
+      console.error('Error fetching template tasks:', error);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<TemplateTaskRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const tasks = rows.filter(row => row.title.trim());
+    if (tasks.some(row => {
+      const start = toNumber(row.start_offset_days);
+      const due = toNumber(row.due_offset_days);
+      return start !== null && due !== null && start > due;
+    })) {
+      toast({
+        title: "Error",
+        description: "A task's start offset can't be after its due offset",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      let id = templateId;
+
+      if (templateId === NEW_TEMPLATE) {
+        const { data, error } = await supabase
+          .from('project_templates')
+          .insert([{ name: formData.name, description: formData.description || null, created_by: profile?.id }])
+          .select()
+          .single();
+
+        if (error) throw error;
+        id = data.id;
+      } else {
+        const { error } = await supabase
+          .from('project_templates')
+          .update({ name: formData.name, description: formData.description || null })
+          .eq('id', templateId);
+
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase
+          .from('project_template_tasks')
+          .delete()
+          .eq('template_id', templateId);
+
+        if (deleteError) throw deleteError;
+      }
+
+      if (tasks.length > 0) {
+        const { error } = await supabase
+          .from('project_template_tasks')
+          .insert(tasks.map((row, index) => ({
+            template_id: id,
+            phase: row.phase.trim() || null,
+            title: row.title.trim(),
+            priority: row.priority,
+            estimated_hours: toNumber(row.estimated_hours),
+            start_offset_days: toNumber(row.start_offset_days),
+            due_offset_days: toNumber(row.due_offset_days),
+            default_role: row.default_role.trim() || null,
+            sort_order: index,
+          })));
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: `Template saved with ${tasks.length} task${tasks.length === 1 ? '' : 's'}`,
+      });
+
+      setTemplateId(id);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (templateId === NEW_TEMPLATE || !confirm('Delete this template? Projects created from it are not affected.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('project_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) throw error;
+
+      selectTemplate(NEW_TEMPLATE);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Project Templates</DialogTitle>
+          <DialogDescription>
+            Tasks are created when a project is started from the template. Offsets are days after the project start date.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="flex gap-2">
+            <Select value={templateId} onValueChange={selectTemplate}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_TEMPLATE}>New template</SelectItem>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {templateId !== NEW_TEMPLATE && (
+              <Button type="button" variant="outline" onClick={handleDelete}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template_name">Name</Label>
+              <Input
+                id="template_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Client website"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template_description">Description</Label>
+              <Textarea
+                id="template_description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={1}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_2fr_110px_70px_70px_70px_1fr_32px] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Phase</span>
+              <span>Task</span>
+              <span>Priority</span>
+              <span>Est. h</span>
+              <span>Start +d</span>
+              <span>Due +d</span>
+              <span>Role</span>
+              <span />
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_2fr_110px_70px_70px_70px_1fr_32px] gap-2">
+                <Input
+                  value={row.phase}
+                  onChange={(e) => updateRow(index, { phase: e.target.value })}
+                  placeholder="Design"
+                  className="h-8 text-sm"
+                />
+                <Input
+                  value={row.title}
+                  onChange={(e) => updateRow(index, { title: e.target.value })}
+                  placeholder="Task title"
+                  className="h-8 text-sm"
+                />
+                <Select value={row.priority} onValueChange={(value: TaskPriority) => updateRow(index, { priority: value })}>
+                  <SelectTrigger className="h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="urgent">Urgent</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  value={row.estimated_hours}
+                  onChange={(e) => updateRow(index, { estimated_hours: e.target.value })}
+                  className="h-8 text-sm"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  value={row.start_offset_days}
+                  onChange={(e) => updateRow(index, { start_offset_days: e.target.value })}
+                  className="h-8 text-sm"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  value={row.due_offset_days}
+                  onChange={(e) => updateRow(index, { due_offset_days: e.target.value })}
+                  className="h-8 text-sm"
+                />
+                <Input
+                  value={row.default_role}
+                  onChange={(e) => updateRow(index, { default_role: e.target.value })}
+                  placeholder="developer"
+                  className="h-8 text-sm"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => setRows([...rows, emptyRow()])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Task
+            </Button>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={saving || !formData.name.trim()}>
+              {templateId === NEW_TEMPLATE ? 'Create' : 'Save'} Template
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectTemplatesDialog;
@@ -0,0 +1,358 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { addDays, toDateString } from '@/lib/time-entries';
+import { TaskStatus } from '@/lib/tasks';
+
+export interface TimelineProject {
+  id: string;
+  name: string;
+  status: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+interface TimelineTask {
+  id: string;
+  title: string;
+  project_id: string;
+  parent_task_id: string | null;
+  status: TaskStatus;
+  start_date: string | null;
+  due_date: string | null;
+}
+
+type Zoom = 'week' | 'month';
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+  kind: 'project' | 'task';
+  id: string;
+  mode: DragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+interface ProjectTimelineProps {
+  projects: TimelineProject[];
+  canEdit: boolean;
+  onChanged: () => void;
+}
+
+const DAY_WIDTH: Record<Zoom, number> = { week: 28, month: 8 };
+const LABEL_WIDTH = 240;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00`) - Date.parse(`${from}T00:00:00`)) / 86400000);
+
+// due_date is a timestamp; the timeline works in whole days
+const toDay = (value?: string | null) => (value ? value.slice(0, 10) : null);
+
+const ProjectTimeline = ({ projects, canEdit, onChanged }: ProjectTimelineProps) => {
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<TimelineTask[]>([]);
+  const [zoom, setZoom] = useState<Zoom>('week');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  useEffect(() => {
+    fetchTasks();
+  }, []);
+
+  const fetchTasks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, project_id, parent_task_id, status, start_date, due_date')
+        .order('due_date', { ascending: true, nullsFirst: false });
+
+      if (error) throw error;
+      setTasks(data || []);
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+    }
+  };
+
+  const dayWidth = DAY_WIDTH[zoom];
+  const today = toDateString(new Date());
+
+  // Span every scheduled date plus a week either side
+  const allDates = [
+    today,
+    ...projects.flatMap(project => [project.start_date, project.end_date]),
+    ...tasks.flatMap(task => [task.start_date, toDay(task.due_date)]),
+  ].filter((date): date is string => !!date).sort();
+  const rangeStart = addDays(allDates[0], -7);
+  const rangeEnd = addDays(allDates[allDates.length - 1], 14);
+  const totalDays = daysBetween(rangeStart, rangeEnd) + 1;
+  const days = Array.from({ length: totalDays }, (_, index) => addDays(rangeStart, index));
+  const months = days.reduce<{ label: string; days: number }[]>((acc, day) => {
+    const label = new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+    if (acc.length > 0 && acc[acc.length - 1].label === label) acc[acc.length - 1].days += 1;
+    else acc.push({ label, days: 1 });
+    return acc;
+  }, []);
+
+  const offset = (date: string) => daysBetween(rangeStart, date) * dayWidth;
+
+  // Apply an in-progress drag to a bar's dates
+  const withDrag = (kind: 'project' | 'task', id: string, start: string, end: string) => {
+    if (!drag || drag.kind !== kind || drag.id !== id || drag.deltaDays === 0) return { start, end };
+    const delta = drag.deltaDays;
+    if (drag.mode === 'move') return { start: addDays(start, delta), end: addDays(end, delta) };
+    if (drag.mode === 'start') return { start: addDays(start, Math.min(delta, daysBetween(start, end))), end };
+    return { start, end: addDays(end, Math.max(delta, -daysBetween(start, end))) };
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const deltaDays = Math.round((e.clientX - drag.originX) / dayWidth);
+      if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+    };
+    const handleUp = () => {
+      setDrag(null);
+      if (drag.deltaDays !== 0) saveDrag(drag);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, dayWidth]);
+
+  const saveDrag = async (finished: DragState) => {
+    try {
+      if (finished.kind === 'project') {
+        const project = projects.find(p => p.id === finished.id);
+        if (!project?.start_date || !project.end_date) return;
+        const { start, end } = withDrag('project', project.id, project.start_date, project.end_date);
+
+        const { error } = await supabase
+          .from('projects')
+          .update({ start_date: start, end_date: end })
+          .eq('id', project.id);
+
+        if (error) throw error;
+        onChanged();
+      } else {
+        const task = tasks.find(t => t.id === finished.id);
+        const due = toDay(task?.due_date);
+        if (!task || !due) return;
+        const { start, end } = withDrag('task', task.id, task.start_date || due, due);
+
+        const { error } = await supabase
+          .from('tasks')
+          .update({ start_date: task.start_date ? start : null, due_date: end })
+          .eq('id', task.id);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "Schedule updated",
+      });
+
+      fetchTasks();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startDrag = (e: React.PointerEvent, kind: 'project' | 'task', id: string, mode: DragMode) => {
+    if (!canEdit) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ kind, id, mode, originX: e.clientX, deltaDays: 0 });
+  };
+
+  const renderBar = (
+    kind: 'project' | 'task',
+    id: string,
+    start: string,
+    end: string,
+    className: string,
+    title: string,
+    resizable = true
+  ) => {
+    const dates = withDrag(kind, id, start, end);
+    return (
+      <div
+        className={cn('absolute top-1.5 h-5 rounded', className, canEdit && 'cursor-grab active:cursor-grabbing')}
+        style={{ left: offset(dates.start), width: (daysBetween(dates.start, dates.end) + 1) * dayWidth }}
+        title={`${title}: ${new Date(`${dates.start}T00:00:00`).toLocaleDateString()} – ${new Date(`${dates.end}T00:00:00`).toLocaleDateString()}`}
+        onPointerDown={(e) => startDrag(e, kind, id, 'move')}
+      >
+        {canEdit && resizable && (
+          <>
+            <div className="absolute left-0 top-0 h-full w-1.5 cursor-ew-resize" onPointerDown={(e) => startDrag(e, kind, id, 'start')} />
+            <div className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize" onPointerDown={(e) => startDrag(e, kind, id, 'end')} />
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const toggleProject = (projectId: string) => {
+    const next = new Set(collapsed);
+    if (next.has(projectId)) next.delete(projectId);
+    else next.add(projectId);
+    setCollapsed(next);
+  };
+
+  const rowClass = 'flex border-b last:border-b-0';
+  const labelClass = 'sticky left-0 z-10 shrink-0 bg-background border-r px-3 py-1.5 text-sm truncate';
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-primary/70" /> Project</span>
+            <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-blue-400" /> Task</span>
+            <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-red-500" /> Due outside project dates</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label>Zoom</Label>
+            <Select value={zoom} onValueChange={(value: Zoom) => setZoom(value)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="week">Days</SelectItem>
+                <SelectItem value="month">Months</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className={cn('border rounded-lg overflow-x-auto', drag && 'select-none')}>
+          <div style={{ width: LABEL_WIDTH + totalDays * dayWidth }}>
+            <div className={rowClass}>
+              <div className={labelClass} style={{ width: LABEL_WIDTH }} />
+              <div className="flex">
+                {months.map((month, index) => (
+                  <div key={index} className="border-l px-1 py-1 text-xs font-medium truncate" style={{ width: month.days * dayWidth }}>
+                    {month.label}
+                  </div>
+                ))}
+              </div>
+            </div>
+            {zoom === 'week' && (
+              <div className={rowClass}>
+                <div className={labelClass} style={{ width: LABEL_WIDTH }} />
+                <div className="flex">
+                  {days.map(day => (
+                    <div
+                      key={day}
+                      className={cn('text-center text-[10px] text-muted-foreground py-0.5', day === today && 'font-bold text-primary')}
+                      style={{ width: dayWidth }}
+                    >
+                      {Number(day.slice(8))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {projects.map((project) => {
+              const projectTasks = tasks.filter(task => task.project_id === project.id);
+              const isCollapsed = collapsed.has(project.id);
+
+              return (
+                <div key={project.id}>
+                  <div className={cn(rowClass, 'bg-muted/30')}>
+                    <button
+                      type="button"
+                      className={cn(labelClass, 'flex items-center gap-1 font-medium text-left bg-muted')}
+                      style={{ width: LABEL_WIDTH }}
+                      onClick={() => toggleProject(project.id)}
+                    >
+                      {isCollapsed ? <ChevronRight className="h-3 w-3 shrink-0" /> : <ChevronDown className="h-3 w-3 shrink-0" />}
+                      <span className="truncate">{project.name}</span>
+                    </button>
+                    <div className="relative h-8 flex-1">
+                      <div className="absolute top-0 h-full w-px bg-primary/40" style={{ left: offset(today) }} />
+                      {project.start_date && project.end_date ? (
+                        renderBar('project', project.id, project.start_date, project.end_date, 'bg-primary/70', project.name)
+                      ) : (
+                        <span className="absolute top-1.5 text-xs text-muted-foreground" style={{ left: offset(today) + 8 }}>
+                          No start/end date set
+                        </span>
+                      )}
+                    </div>
+                  </div>
+
+                  {!isCollapsed && projectTasks.map((task) => {
+                    const due = toDay(task.due_date);
+                    const start = task.start_date || due;
+                    const outside = !!due && (
+                      (!!project.end_date && due > project.end_date) || (!!project.start_date && due < project.start_date)
+                    );
+                    const color = outside
+                      ? 'bg-red-500'
+                      : task.status === 'completed' ? 'bg-green-400' : 'bg-blue-400';
+
+                    return (
+                      <div key={task.id} className={rowClass}>
+                        <div
+                          className={cn(labelClass, 'flex items-center gap-1', task.parent_task_id ? 'pl-8' : 'pl-6')}
+                          style={{ width: LABEL_WIDTH }}
+                          title={task.title}
+                        >
+                          {outside && <AlertTriangle className="h-3 w-3 shrink-0 text-red-500" />}
+                          <span className={cn('truncate', task.status === 'completed' && 'line-through text-muted-foreground')}>
+                            {task.title}
+                          </span>
+                        </div>
+                        <div className="relative h-8 flex-1">
+                          <div className="absolute top-0 h-full w-px bg-primary/40" style={{ left: offset(today) }} />
+                          {due ? (
+                            task.start_date
+                              ? renderBar('task', task.id, start, due, color, task.title)
+                              : renderBar('task', task.id, due, due, cn(color, 'rotate-45 !w-3 !h-3 top-2.5 rounded-sm'), task.title, false)
+                          ) : (
+                            <span className="absolute top-1.5 text-xs text-muted-foreground" style={{ left: offset(today) + 8 }}>
+                              No due date
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {projects.length === 0 && (
+          <p className="text-center text-muted-foreground py-4">No projects found</p>
+        )}
+        {!canEdit && projects.length > 0 && (
+          <p className="text-xs text-muted-foreground">Only admins and project managers can reschedule from the timeline.</p>
+        )}
+        {canEdit && (
+          <p className="text-xs text-muted-foreground">
+            Drag a bar to move it, or drag its edges to change the start or end date.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProjectTimeline;
@@ -0,0 +1,461 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import LineItemsEditor from '@/components/LineItemsEditor';
+import {
+  InvoiceLineItem,
+  RecurringCadence,
+  RECURRING_CADENCE_LABELS,
+  emptyLineItem,
+} from '@/lib/invoices';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/lib/currency';
+
+interface Client {
+  id: string;
+  name: string;
+  currency: string;
+}
+
+interface Project {
+  id: string;
+  name: string;
+  client_id?: string | null;
+  currency: string;
+}
+
+interface RecurringInvoiceEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templateId: string | null;
+  onSaved: () => void;
+}
+
+const NO_PROJECT = 'none';
+
+const firstOfNextMonth = () => {
+  const date = new Date();
+  const next = new Date(date.getFullYear(), date.getMonth() + 1, 1);
+  return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-01`;
+};
+
+const emptyForm = () => ({
+  name: '',
+  client_id: '',
+  project_id: '',
+  currency: DEFAULT_CURRENCY,
+  cadence: 'monthly' as RecurringCadence,
+  next_run_date: firstOfNextMonth(),
+  end_date: '',
+  payment_terms_days: '30',
+  notes: ''
+});
+
+const RecurringInvoiceEditor = ({ open, onOpenChange, templateId, onSaved }: RecurringInvoiceEditorProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [clients, setClients] = useState<Client[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [loadingTemplate, setLoadingTemplate] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const [lineItems, setLineItems] = useState<InvoiceLineItem[]>([emptyLineItem()]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    fetchClients();
+    fetchProjects();
+
+    if (templateId) {
+      fetchTemplate(templateId);
+    } else {
+      setFormData(emptyForm());
+      setLineItems([{ ...emptyLineItem(), description: 'Monthly retainer – {period}' }]);
+    }
+  }, [open, templateId]);
+
+  const fetchClients = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('clients')
+        .select('id, name, currency')
+        .order('name');
+
+      if (error) throw error;
+      setClients(data || []);
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+    }
+  };
+
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, client_id, currency')
+        .order('name');
+
+      if (error) throw error;
+      setProjects(data || []);
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    }
+  };
+
+  const fetchTemplate = async (id: string) => {
+    setLoadingTemplate(true);
+    try {
+      const { data: template, error } = await supabase
+        .from('recurring_invoices')
+        .select(`
+          *,
+          recurring_invoice_items (*)
+        `)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      setFormData({
+        name: template.name,
+        client_id: template.client_id,
+        project_id: template.project_id || '',
+        currency: template.currency,
+        cadence: template.cadence as RecurringCadence,
+        next_run_date: template.next_run_date,
+        end_date: template.end_date || '',
+        payment_terms_days: template.payment_terms_days.toString(),
+        notes: template.notes || ''
+      });
+
+      const items = [...(template.recurring_invoice_items || [])].sort((a, b) => a.sort_order - b.sort_order);
+      setLineItems(
+        items.length > 0
+          ? items.map(item => ({
+              id: item.id,
+              description: item.description,
+              quantity: item.quantity,
+              unit_price: item.unit_price,
+              tax_rate: item.tax_rate,
+            }))
+          : [emptyLineItem()]
+      );
+    } catch (error) {
+      console.error('Error loading recurring invoice:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load recurring invoice",
+        variant: "destructive",
+      });
+      onOpenChange(false);
+    } finally {
+      setLoadingTemplate(false);
+    }
+  };
+
+  const handleClientChange = (clientId: string) => {
+    const currentProject = projects.find(p => p.id === formData.project_id);
+    const client = clients.find(c => c.id === clientId);
+    setFormData({
+      ...formData,
+      client_id: clientId,
+      project_id: currentProject && currentProject.client_id && currentProject.client_id !== clientId ? '' : formData.project_id,
+      currency: client?.currency || formData.currency
+    });
+  };
+
+  const handleProjectChange = (value: string) => {
+    const projectId = value === NO_PROJECT ? '' : value;
+    const project = projects.find(p => p.id === projectId);
+    setFormData({
+      ...formData,
+      project_id: projectId,
+      client_id: formData.client_id || project?.client_id || '',
+      currency: project?.currency || formData.currency
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!profile?.id) return;
+
+    if (!formData.name.trim() || !formData.client_id) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter a name and select a client",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const items = lineItems.filter(item => item.description.trim());
+    if (items.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Add at least one line item with a description",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (items.some(item => item.quantity <= 0 || item.unit_price < 0 || item.tax_rate < 0 || item.tax_rate > 100)) {
+      toast({
+        title: "Validation Error",
+        description: "Quantities must be positive and tax rates between 0 and 100",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.end_date && formData.end_date < formData.next_run_date) {
+      toast({
+        title: "Validation Error",
+        description: "End date cannot be before the next run date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const templateData = {
+        name: formData.name.trim(),
+        client_id: formData.client_id,
+        project_id: formData.project_id || null,
+        currency: formData.currency,
+        cadence: formData.cadence,
+        next_run_date: formData.next_run_date,
+        end_date: formData.end_date || null,
+        payment_terms_days: parseInt(formData.payment_terms_days) || 0,
+        notes: formData.notes || null
+      };
+
+      let savedTemplateId = templateId;
+
+      if (templateId) {
+        const { error } = await supabase
+          .from('recurring_invoices')
+          .update(templateData)
+          .eq('id', templateId);
+
+        if (error) throw error;
+      } else {
+        const { data: newTemplate, error } = await supabase
+          .from('recurring_invoices')
+          .insert([{ ...templateData, created_by: profile.id }])
+          .select()
+          .single();
+
+        if (error) throw error;
+        savedTemplateId = newTemplate.id;
+      }
+
+      // Template lines are copied into each invoice, so nothing links to them and they can be replaced wholesale
+      const { error: deleteError } = await supabase
+        .from('recurring_invoice_items')
+        .delete()
+        .eq('recurring_invoice_id', savedTemplateId);
+
+      if (deleteError) throw deleteError;
+
+      const { error: itemsError } = await supabase
+        .from('recurring_invoice_items')
+        .insert(items.map((item, index) => ({
+          recurring_invoice_id: savedTemplateId,
+          description: item.description.trim(),
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          tax_rate: item.tax_rate,
+          sort_order: index
+        })));
+
+      if (itemsError) throw itemsError;
+
+      toast({
+        title: "Success",
+        description: templateId ? "Recurring invoice updated successfully" : "Recurring invoice created successfully",
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const availableProjects = formData.client_id
+    ? projects.filter(p => !p.client_id || p.client_id === formData.client_id)
+    : projects;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{templateId ? 'Edit Recurring Invoice' : 'New Recurring Invoice'}</DialogTitle>
+          <DialogDescription>
+            A draft invoice is created on each run date and admins are notified to review and send it.
+            Use {'{period}'} in a description to insert the billed month.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadingTemplate ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <fieldset disabled={saving} className="space-y-6 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring_name">Name</Label>
+                <Input
+                  id="recurring_name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Acme monthly retainer"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="recurring_client_id">Client</Label>
+                  <Select value={formData.client_id} onValueChange={handleClientChange}>
+                    <SelectTrigger id="recurring_client_id">
+                      <SelectValue placeholder="Select a client" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {clients.map((client) => (
+                        <SelectItem key={client.id} value={client.id}>
+                          {client.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring_project_id">Project</Label>
+                  <Select value={formData.project_id || NO_PROJECT} onValueChange={handleProjectChange}>
+                    <SelectTrigger id="recurring_project_id">
+                      <SelectValue placeholder="Select a project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                      {availableProjects.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {project.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring_currency">Currency</Label>
+                  <Select value={formData.currency} onValueChange={(value) => setFormData({ ...formData, currency: value })}>
+                    <SelectTrigger id="recurring_currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[...new Set([...CURRENCIES, formData.currency])].map((currency) => (
+                        <SelectItem key={currency} value={currency}>
+                          {currency}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring_cadence">Repeats</Label>
+                  <Select
+                    value={formData.cadence}
+                    onValueChange={(value) => setFormData({ ...formData, cadence: value as RecurringCadence })}
+                  >
+                    <SelectTrigger id="recurring_cadence">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(RECURRING_CADENCE_LABELS).map(([cadence, label]) => (
+                        <SelectItem key={cadence} value={cadence}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring_next_run_date">Next Invoice Date</Label>
+                  <Input
+                    id="recurring_next_run_date"
+                    type="date"
+                    value={formData.next_run_date}
+                    onChange={(e) => setFormData({ ...formData, next_run_date: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring_end_date">End Date</Label>
+                  <Input
+                    id="recurring_end_date"
+                    type="date"
+                    value={formData.end_date}
+                    onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring_payment_terms">Payment Terms (days)</Label>
+                  <Input
+                    id="recurring_payment_terms"
+                    type="number"
+                    min="0"
+                    value={formData.payment_terms_days}
+                    onChange={(e) => setFormData({ ...formData, payment_terms_days: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <LineItemsEditor
+                lineItems={lineItems}
+                currency={formData.currency}
+                onChange={setLineItems}
+              />
+
+              <div className="space-y-2">
+                <Label htmlFor="recurring_notes">Notes</Label>
+                <Textarea
+                  id="recurring_notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={3}
+                  placeholder="Copied onto every invoice"
+                />
+              </div>
+            </fieldset>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : templateId ? 'Update Template' : 'Create Template'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecurringInvoiceEditor;
@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Edit, Pause, Play, Plus, Repeat, Trash2 } from 'lucide-react';
+import RecurringInvoiceEditor from '@/components/RecurringInvoiceEditor';
+import { RecurringCadence, RECURRING_CADENCE_LABELS, calculateInvoiceTotals } from '@/lib/invoices';
+import { formatCurrency } from '@/lib/currency';
+
+interface RecurringInvoice {
+  id: string;
+  name: string;
+  currency: string;
+  cadence: string;
+  next_run_date: string;
+  end_date: string | null;
+  last_run_date: string | null;
+  is_active: boolean;
+  clients?: { name: string } | null;
+  projects?: { name: string } | null;
+  recurring_invoice_items?: { description: string; quantity: number; unit_price: number; tax_rate: number }[];
+}
+
+interface RecurringInvoiceListProps {
+  onInvoicesGenerated: () => void;
+}
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const RecurringInvoiceList = ({ onInvoicesGenerated }: RecurringInvoiceListProps) => {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<RecurringInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const fetchTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('recurring_invoices')
+        .select(`
+          *,
+          clients (name),
+          projects (name),
+          recurring_invoice_items (description, quantity, unit_price, tax_rate)
+        `)
+        .order('next_run_date');
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error fetching recurring invoices:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch recurring invoices",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (templateId: string | null) => {
+    setEditingTemplateId(templateId);
+    setShowEditor(true);
+  };
+
+  // The daily job does this automatically; running it by hand creates anything already due
+  const handleRunNow = async () => {
+    setRunning(true);
+    try {
+      const { data: created, error } = await supabase.rpc('generate_recurring_invoices');
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: created
+          ? `Created ${created} draft invoice${created === 1 ? '' : 's'}`
+          : 'No recurring invoices are due',
+      });
+
+      fetchTemplates();
+      if (created) onInvoicesGenerated();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleToggleActive = async (template: RecurringInvoice) => {
+    try {
+      const { error } = await supabase
+        .from('recurring_invoices')
+        .update({ is_active: !template.is_active })
+        .eq('id', template.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${template.name} ${template.is_active ? 'paused' : 'resumed'}`,
+      });
+
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (template: RecurringInvoice) => {
+    if (!confirm(`Delete recurring invoice "${template.name}"? Invoices it already created are kept.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('recurring_invoices')
+        .delete()
+        .eq('id', template.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Recurring invoice deleted",
+      });
+
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Recurring Invoices</CardTitle>
+          <CardDescription>Retainers and other invoices created automatically on a schedule</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRunNow} disabled={running}>
+            <Repeat className={`h-4 w-4 mr-2 ${running ? 'animate-spin' : ''}`} />
+            {running ? 'Running...' : 'Run Due Now'}
+          </Button>
+          <Button onClick={() => openEditor(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {templates.length === 0 && (
+              <p className="text-center text-muted-foreground py-4">No recurring invoices yet</p>
+            )}
+            {templates.map((template) => {
+              const totals = calculateInvoiceTotals(template.recurring_invoice_items || []);
+
+              return (
+                <div key={template.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="flex-1">
+                    <p className="font-medium">{template.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {template.clients?.name}
+                      {template.projects?.name && ` • ${template.projects.name}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {RECURRING_CADENCE_LABELS[template.cadence as RecurringCadence]}
+                      {template.is_active && ` • Next invoice ${formatDate(template.next_run_date)}`}
+                      {template.end_date && ` • Ends ${formatDate(template.end_date)}`}
+                      {template.last_run_date && ` • Last run ${formatDate(template.last_run_date)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <div className="text-right">
+                      <p className="font-medium">{formatCurrency(totals.total_amount, template.currency)}</p>
+                      <Badge variant="secondary" className={template.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                        {template.is_active ? 'active' : 'paused'}
+                      </Badge>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => openEditor(template.id)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleToggleActive(template)}>
+                        {template.is_active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(template)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <RecurringInvoiceEditor
+        open={showEditor}
+        onOpenChange={setShowEditor}
+        templateId={editingTemplateId}
+        onSaved={fetchTemplates}
+      />
+    </Card>
+  );
+};
+
+export default RecurringInvoiceList;
@@ -0,0 +1,54 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { formatHours } from '@/lib/time-entries';
+import { Sprint, SprintTask, getBurndown, getCountedSprintTasks } from '@/lib/sprints';
+
+interface SprintBurndownProps {
+  sprint: Sprint;
+  tasks: SprintTask[];
+}
+
+const burndownChartConfig = {
+  ideal: { label: 'Ideal', color: 'hsl(var(--muted-foreground))' },
+  remaining: { label: 'Remaining', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const SprintBurndown = ({ sprint, tasks }: SprintBurndownProps) => {
+  const data = getBurndown(sprint, tasks);
+  const unestimated = getCountedSprintTasks(sprint.id, tasks).filter(task => !task.estimated_hours).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Burndown</CardTitle>
+        <CardDescription>
+          Estimated hours left in the sprint at the end of each day
+          {unestimated > 0 && ` • ${unestimated} task${unestimated === 1 ? ' has' : 's have'} no estimate`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={burndownChartConfig} className="h-[280px] w-full aspect-auto">
+          <LineChart data={data}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+            <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value) => formatHours(value)} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Line dataKey="ideal" stroke="var(--color-ideal)" strokeDasharray="4 4" dot={false} />
+            <Line dataKey="remaining" stroke="var(--color-remaining)" strokeWidth={2} dot={false} connectNulls={false} />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SprintBurndown;
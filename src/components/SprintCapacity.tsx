@@ -0,0 +1,87 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatHours } from '@/lib/time-entries';
+
+export interface CapacityRow {
+  profile_id: string;
+  first_name: string;
+  last_name: string;
+  weekly_hours: number;
+  working_days: number;
+  leave_days: number;
+  capacity_hours: number;
+  committed_hours: number;
+}
+
+interface SprintCapacityProps {
+  rows: CapacityRow[];
+  unassignedHours: number;
+}
+
+const SprintCapacity = ({ rows, unassignedHours }: SprintCapacityProps) => {
+  const totalCapacity = rows.reduce((total, row) => total + row.capacity_hours, 0);
+  const totalCommitted = rows.reduce((total, row) => total + row.committed_hours, 0) + unassignedHours;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Capacity</CardTitle>
+        <CardDescription>
+          {formatHours(totalCommitted)} estimated against {formatHours(totalCapacity)} available, after approved leave
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add members to the project to plan its capacity</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead className="text-center">Hours/week</TableHead>
+                <TableHead className="text-center">Leave</TableHead>
+                <TableHead className="text-center">Available</TableHead>
+                <TableHead className="text-center">Committed</TableHead>
+                <TableHead className="w-32">Load</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const load = row.capacity_hours > 0 ? (row.committed_hours / row.capacity_hours) * 100 : row.committed_hours > 0 ? 100 : 0;
+                const overloaded = row.committed_hours > row.capacity_hours;
+
+                return (
+                  <TableRow key={row.profile_id}>
+                    <TableCell className="font-medium">{row.first_name} {row.last_name}</TableCell>
+                    <TableCell className="text-center">{row.weekly_hours}</TableCell>
+                    <TableCell className="text-center">
+                      {row.leave_days > 0 ? `${row.leave_days} of ${row.working_days} days` : '-'}
+                    </TableCell>
+                    <TableCell className="text-center">{formatHours(row.capacity_hours)}</TableCell>
+                    <TableCell className={`text-center ${overloaded ? 'text-red-600 font-medium' : ''}`}>
+                      {formatHours(row.committed_hours)}
+                    </TableCell>
+                    <TableCell>
+                      <Progress value={Math.min(load, 100)} className={overloaded ? 'h-2 [&>div]:bg-red-500' : 'h-2'} />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {unassignedHours > 0 && (
+                <TableRow>
+                  <TableCell className="text-muted-foreground">Unassigned</TableCell>
+                  <TableCell colSpan={3} />
+                  <TableCell className="text-center">{formatHours(unassignedHours)}</TableCell>
+                  <TableCell />
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SprintCapacity;
@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Download, FileText, Paperclip, X } from 'lucide-react';
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_BUCKET,
+  formatFileSize,
+  getAttachmentError,
+  getAttachmentLimitsSummary,
+  getAttachmentPath,
+  isImageAttachment,
+} from '@/lib/attachments';
+
+interface Attachment {
+  id: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  storage_path: string;
+  uploaded_by: string;
+  created_at: string;
+  uploader?: { first_name: string; last_name: string } | null;
+}
+
+interface TaskAttachmentsProps {
+  taskId: string;
+}
+
+// Signed links stay valid for an hour; the drawer refetches them whenever it opens
+const SIGNED_URL_SECONDS = 60 * 60;
+
+const TaskAttachments = ({ taskId }: TaskAttachmentsProps) => {
+  const { profile, isProjectManager } = useAuth();
+  const { toast } = useToast();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [taskId]);
+
+  const fetchAttachments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('task_attachments')
+        .select(`
+          *,
+          uploader:profiles!task_attachments_uploaded_by_fkey (first_name, last_name)
+        `)
+        .eq('task_id', taskId)
+        .order('created_at');
+
+      if (error) throw error;
+      setAttachments(data || []);
+
+      if (data && data.length > 0) {
+        const { data: signed, error: signError } = await supabase.storage
+          .from(ATTACHMENT_BUCKET)
+          .createSignedUrls(data.map(attachment => attachment.storage_path), SIGNED_URL_SECONDS);
+
+        if (signError) throw signError;
+
+        const next: Record<string, string> = {};
+        signed?.forEach(item => {
+          if (item.path && item.signedUrl) next[item.path] = item.signedUrl;
+        });
+        setUrls(next);
+      }
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!profile || files.length === 0) return;
+
+    const problems = files.map(getAttachmentError).filter((problem): problem is string => !!problem);
+    if (problems.length > 0) {
+      toast({
+        title: "Error",
+        description: problems.join('. '),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      for (const file of files) {
+        const path = getAttachmentPath(profile.user_id, taskId, file.name);
+
+        const { error: uploadError } = await supabase.storage
+          .from(ATTACHMENT_BUCKET)
+          .upload(path, file, { contentType: file.type });
+
+        if (uploadError) throw uploadError;
+
+        const { error } = await supabase
+          .from('task_attachments')
+          .insert([{
+            task_id: taskId,
+            uploaded_by: profile.id,
+            storage_path: path,
+            file_name: file.name,
+            content_type: file.type,
+            size_bytes: file.size,
+          }]);
+
+        // Don't leave a stored file behind without the row that points at it
+        if (error) {
+          await supabase.storage.from(ATTACHMENT_BUCKET).remove([path]);
+          throw error;
+        }
+      }
+
+      toast({
+        title: "Success",
+        description: files.length === 1 ? "File attached" : `${files.length} files attached`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+      fetchAttachments();
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!confirm(`Delete ${attachment.file_name}?`)) return;
+
+    try {
+      const { error: storageError } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .remove([attachment.storage_path]);
+
+      if (storageError) throw storageError;
+
+      const { error } = await supabase
+        .from('task_attachments')
+        .delete()
+        .eq('id', attachment.id);
+
+      if (error) throw error;
+      fetchAttachments();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Attachments</Label>
+        {attachments.length > 0 && (
+          <span className="text-xs text-muted-foreground">{attachments.length}</span>
+        )}
+      </div>
+      {attachments.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          {attachments.map((attachment) => {
+            const url = urls[attachment.storage_path];
+            const canDelete = attachment.uploaded_by === profile?.id || isProjectManager;
+
+            return (
+              <div key={attachment.id} className="group relative border rounded-lg overflow-hidden">
+                {isImageAttachment(attachment.content_type) && url ? (
+                  <a href={url} target="_blank" rel="noopener noreferrer">
+                    <img src={url} alt={attachment.file_name} className="h-24 w-full object-cover bg-muted" />
+                  </a>
+                ) : (
+                  <div className="h-24 flex items-center justify-center bg-muted">
+                    <FileText className="h-8 w-8 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="p-2 text-xs space-y-0.5">
+                  <p className="font-medium truncate" title={attachment.file_name}>{attachment.file_name}</p>
+                  <p className="text-muted-foreground truncate">
+                    {formatFileSize(attachment.size_bytes)}
+                    {attachment.uploader && ` • ${attachment.uploader.first_name}`}
+                    {' • '}{new Date(attachment.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100">
+                  {url && (
+                    <Button variant="secondary" size="sm" className="h-6 w-6 p-0" asChild>
+                      <a href={url} download={attachment.file_name} title="Download">
+                        <Download className="h-3 w-3" />
+                      </a>
+                    </Button>
+                  )}
+                  {canDelete && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      title="Delete"
+                      onClick={() => handleDelete(attachment)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+        <Paperclip className="h-4 w-4" />
+        {uploading ? 'Uploading…' : 'Attach files'}
+        <Input
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          onChange={handleUpload}
+          disabled={uploading}
+          className="hidden"
+        />
+      </label>
+      <p className="text-xs text-muted-foreground">{getAttachmentLimitsSummary()}</p>
+    </div>
+  );
+};
+
+export default TaskAttachments;
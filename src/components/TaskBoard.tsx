@@ -0,0 +1,405 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Ban, Calendar, Gauge, Link2, MessageSquare, User } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import WipLimitsDialog, { WipLimit } from '@/components/WipLimitsDialog';
+import {
+  TASK_STATUSES,
+  TASK_STATUS_LABELS,
+  TaskDependency,
+  TaskStatus,
+  getOpenBlockers,
+  getPositionBetween,
+  getTaskPriorityColor,
+} from '@/lib/tasks';
+
+export interface BoardTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  priority: string;
+  position: number;
+  project_id: string;
+  assigned_to?: string;
+  due_date?: string;
+  created_at: string;
+  projects?: { name: string };
+  assignee?: { first_name: string; last_name: string };
+}
+
+export interface BoardMove {
+  status: TaskStatus;
+  position: number;
+  assigned_to?: string | null;
+}
+
+interface ColumnCount {
+  project_id: string;
+  status: TaskStatus;
+  task_count: number;
+}
+
+type Swimlane = 'none' | 'project' | 'assignee';
+
+interface Lane {
+  key: string;
+  label: string;
+}
+
+interface TaskBoardProps {
+  tasks: BoardTask[];
+  projects: { id: string; name: string }[];
+  dependencies: TaskDependency[];
+  selectedIds: string[];
+  onToggleSelect: (taskId: string) => void;
+  onMove: (task: BoardTask, move: BoardMove) => void;
+  onOpenTask: (task: BoardTask) => void;
+}
+
+const ALL_LANES = 'all';
+const UNASSIGNED = 'none';
+
+const byPosition = (a: BoardTask, b: BoardTask) =>
+  a.position - b.position || b.created_at.localeCompare(a.created_at);
+
+const TaskBoard = ({ tasks, projects, dependencies, selectedIds, onToggleSelect, onMove, onOpenTask }: TaskBoardProps) => {
+  const { isAdmin, isProjectManager } = useAuth();
+  const { toast } = useToast();
+  const [swimlane, setSwimlane] = useState<Swimlane>('none');
+  const [limits, setLimits] = useState<WipLimit[]>([]);
+  const [columnCounts, setColumnCounts] = useState<ColumnCount[]>([]);
+  const [showLimits, setShowLimits] = useState(false);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ lane: string; status: TaskStatus; beforeId: string | null } | null>(null);
+
+  useEffect(() => {
+    fetchLimits();
+  }, []);
+
+  // The board may show only some of a column's tasks, so limits are checked against counts from the server
+  useEffect(() => {
+    fetchColumnCounts([...new Set(tasks.map(task => task.project_id))]
+      .filter(projectId => limits.some(limit => limit.project_id === projectId)));
+  }, [tasks, limits]);
+
+  const fetchLimits = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_wip_limits')
+        .select('project_id, status, wip_limit');
+
+      if (error) throw error;
+      setLimits(data || []);
+    } catch (error) {
+      console.error('Error fetching WIP limits:', error);
+    }
+  };
+
+  const fetchColumnCounts = async (projectIds: string[]) => {
+    if (projectIds.length === 0) {
+      setColumnCounts([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_task_column_counts', { p_project_ids: projectIds });
+
+      if (error) throw error;
+      setColumnCounts(data || []);
+    } catch (error) {
+      console.error('Error fetching column counts:', error);
+    }
+  };
+
+  const getLaneKey = (task: BoardTask) => {
+    if (swimlane === 'project') return task.project_id;
+    if (swimlane === 'assignee') return task.assigned_to || UNASSIGNED;
+    return ALL_LANES;
+  };
+
+  const getLimit = (projectId: string, status: TaskStatus) =>
+    limits.find(limit => limit.project_id === projectId && limit.status === status)?.wip_limit;
+
+  const countInColumn = (projectId: string, status: TaskStatus, excludeId?: string) => {
+    const count = columnCounts.find(column => column.project_id === projectId && column.status === status)?.task_count || 0;
+    const excluded = tasks.some(task => task.id === excludeId && task.project_id === projectId && task.status === status);
+    return count - (excluded ? 1 : 0);
+  };
+
+  // Projects whose tasks in this column already exceed their limit
+  const getOverLimit = (status: TaskStatus, laneTasks: BoardTask[]) =>
+    [...new Set(laneTasks.map(task => task.project_id))]
+      .map(projectId => ({ projectId, count: countInColumn(projectId, status), limit: getLimit(projectId, status) }))
+      .filter(({ count, limit }) => limit !== undefined && count > limit);
+
+  const lanes: Lane[] = (() => {
+    if (swimlane === 'project') {
+      const ids = new Set(tasks.map(task => task.project_id));
+      return projects
+        .filter(project => ids.has(project.id))
+        .map(project => ({ key: project.id, label: project.name }));
+    }
+    if (swimlane === 'assignee') {
+      const assignees = new Map<string, string>();
+      tasks.forEach(task => {
+        const key = task.assigned_to || UNASSIGNED;
+        if (!assignees.has(key)) {
+          assignees.set(key, task.assignee ? `${task.assignee.first_name} ${task.assignee.last_name}` : 'Unassigned');
+        }
+      });
+      return [...assignees.entries()]
+        .map(([key, label]) => ({ key, label }))
+        .sort((a, b) => Number(a.key === UNASSIGNED) - Number(b.key === UNASSIGNED) || a.label.localeCompare(b.label));
+    }
+    return [{ key: ALL_LANES, label: '' }];
+  })();
+
+  const handleDrop = (lane: string, status: TaskStatus, beforeId: string | null) => {
+    const task = tasks.find(t => t.id === draggedId);
+    setDraggedId(null);
+    setDropTarget(null);
+    if (!task) return;
+
+    // Projects are changed from the task form so their time entries move with them
+    if (swimlane === 'project' && lane !== task.project_id) {
+      toast({
+        title: "Error",
+        description: "Tasks can't be moved between projects on the board",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const limit = getLimit(task.project_id, status);
+    if (status !== task.status && limit !== undefined && countInColumn(task.project_id, status, task.id) >= limit) {
+      toast({
+        title: "WIP limit reached",
+        description: `${task.projects?.name || 'This project'} allows at most ${limit} task${limit === 1 ? '' : 's'} in ${TASK_STATUS_LABELS[status]}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const cell = tasks
+      .filter(t => t.status === status && getLaneKey(t) === lane && t.id !== task.id)
+      .sort(byPosition);
+    const index = beforeId ? cell.findIndex(t => t.id === beforeId) : cell.length;
+    const insertAt = index === -1 ? cell.length : index;
+    const position = getPositionBetween(cell[insertAt - 1]?.position, cell[insertAt]?.position);
+
+    const move: BoardMove = { status, position };
+    if (swimlane === 'assignee' && lane !== (task.assigned_to || UNASSIGNED)) {
+      move.assigned_to = lane === UNASSIGNED ? null : lane;
+    }
+
+    if (move.status === task.status && move.position === task.position && move.assigned_to === undefined) return;
+    onMove(task, move);
+  };
+
+  const isDropTarget = (lane: string, status: TaskStatus, beforeId: string | null) =>
+    dropTarget?.lane === lane && dropTarget.status === status && dropTarget.beforeId === beforeId;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Label>Swimlanes</Label>
+          <Select value={swimlane} onValueChange={(value: Swimlane) => setSwimlane(value)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="project">By project</SelectItem>
+              <SelectItem value="assignee">By assignee</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {(isAdmin || isProjectManager) && (
+          <Button variant="outline" onClick={() => setShowLimits(true)}>
+            <Gauge className="h-4 w-4 mr-2" />
+            WIP Limits
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[960px] space-y-4">
+          <div className="grid grid-cols-4 gap-4">
+            {TASK_STATUSES.map((status) => {
+              const columnTasks = tasks.filter(task => task.status === status);
+              const overLimit = getOverLimit(status, columnTasks);
+
+              return (
+                <div key={status} className="flex items-center justify-between px-1">
+                  <span className="font-medium">{TASK_STATUS_LABELS[status]}</span>
+                  <Badge
+                    variant="secondary"
+                    className={cn(overLimit.length > 0 && 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200')}
+                    title={overLimit.length > 0
+                      ? `Over WIP limit: ${overLimit.map(o => `${projects.find(p => p.id === o.projectId)?.name} (${o.count}/${o.limit})`).join(', ')}`
+                      : undefined}
+                  >
+                    {columnTasks.length}
+                  </Badge>
+                </div>
+              );
+            })}
+          </div>
+
+          {lanes.map((lane) => (
+            <div key={lane.key} className="space-y-2">
+              {swimlane !== 'none' && (
+                <p className="text-sm font-medium text-muted-foreground">{lane.label}</p>
+              )}
+              <div className="grid grid-cols-4 gap-4">
+                {TASK_STATUSES.map((status) => {
+                  const cellTasks = tasks
+                    .filter(task => task.status === status && getLaneKey(task) === lane.key)
+                    .sort(byPosition);
+                  const laneLimit = swimlane === 'project' ? getLimit(lane.key, status) : undefined;
+
+                  return (
+                    <div
+                      key={status}
+                      className={cn(
+                        'min-h-[120px] rounded-lg bg-muted/50 p-2 space-y-2 transition-colors',
+                        isDropTarget(lane.key, status, null) && 'bg-muted',
+                        laneLimit !== undefined && cellTasks.length > laneLimit && 'ring-1 ring-red-400'
+                      )}
+                      onDragOver={(e) => {
+                        if (!draggedId) return;
+                        e.preventDefault();
+                        if (!isDropTarget(lane.key, status, null)) setDropTarget({ lane: lane.key, status, beforeId: null });
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleDrop(lane.key, status, null);
+                      }}
+                    >
+                      {laneLimit !== undefined && (
+                        <p className={cn('text-xs text-right', cellTasks.length > laneLimit ? 'text-red-600' : 'text-muted-foreground')}>
+                          {cellTasks.length}/{laneLimit}
+                        </p>
+                      )}
+                      {cellTasks.map((task) => {
+                        const blockers = task.status === 'completed' ? [] : getOpenBlockers(task.id, dependencies, tasks);
+                        const blocking = dependencies.filter(dependency => dependency.blocking_task_id === task.id).length;
+
+                        return (
+                          <Card
+                            key={task.id}
+                            draggable
+                            onDragStart={(e) => {
+                              e.dataTransfer.effectAllowed = 'move';
+                              setDraggedId(task.id);
+                            }}
+                            onDragEnd={() => {
+                              setDraggedId(null);
+                              setDropTarget(null);
+                            }}
+                            onDragOver={(e) => {
+                              if (!draggedId) return;
+                              e.preventDefault();
+                              e.stopPropagation();
+                              if (!isDropTarget(lane.key, status, task.id)) setDropTarget({ lane: lane.key, status, beforeId: task.id });
+                            }}
+                            onDrop={(e) => {
+                              e.preventDefault();
+                              e.stopPropagation();
+                              handleDrop(lane.key, status, task.id);
+                            }}
+                            className={cn(
+                              'cursor-grab active:cursor-grabbing',
+                              draggedId === task.id && 'opacity-50',
+                              selectedIds.includes(task.id) && 'ring-2 ring-primary',
+                              isDropTarget(lane.key, status, task.id) && 'border-t-2 border-t-primary'
+                            )}
+                          >
+                            <CardContent className="p-3 space-y-2">
+                              <div className="flex items-start justify-between gap-2">
+                                <Checkbox
+                                  className="mt-0.5"
+                                  checked={selectedIds.includes(task.id)}
+                                  onCheckedChange={() => onToggleSelect(task.id)}
+                                />
+                                <p className="text-sm font-medium flex-1">{task.title}</p>
+                                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => onOpenTask(task)}>
+                                  <MessageSquare className="h-3 w-3" />
+                                </Button>
+                              </div>
+                              {swimlane !== 'project' && task.projects?.name && (
+                                <p className="text-xs text-muted-foreground">{task.projects.name}</p>
+                              )}
+                              {(blockers.length > 0 || blocking > 0) && (
+                                <div className="flex gap-2 text-xs">
+                                  {blockers.length > 0 && (
+                                    <span className="flex items-center text-red-600" title={blockers.map(blocker => blocker.title).join(', ')}>
+                                      <Ban className="h-3 w-3 mr-1" />
+                                      Blocked by {blockers.length}
+                                    </span>
+                                  )}
+                                  {blocking > 0 && (
+                                    <span className="flex items-center text-muted-foreground">
+                                      <Link2 className="h-3 w-3 mr-1" />
+                                      Blocks {blocking}
+                                    </span>
+                                  )}
+                                </div>
+                              )}
+                              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                                <Badge variant="outline" className={getTaskPriorityColor(task.priority)}>
+                                  {task.priority}
+                                </Badge>
+                                <div className="flex items-center gap-2">
+                                  {task.due_date && (
+                                    <span className="flex items-center">
+                                      <Calendar className="h-3 w-3 mr-1" />
+                                      {new Date(task.due_date).toLocaleDateString()}
+                                    </span>
+                                  )}
+                                  {swimlane !== 'assignee' && task.assignee && (
+                                    <span className="flex items-center">
+                                      <User className="h-3 w-3 mr-1" />
+                                      {task.assignee.first_name}
+                                    </span>
+                                  )}
+                                </div>
+                              </div>
+                            </CardContent>
+                          </Card>
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          {tasks.length === 0 && (
+            <p className="text-center text-muted-foreground py-8">No tasks found</p>
+          )}
+        </div>
+      </div>
+
+      <WipLimitsDialog
+        open={showLimits}
+        onOpenChange={setShowLimits}
+        projects={projects}
+        limits={limits}
+        onSaved={fetchLimits}
+      />
+    </div>
+  );
+};
+
+export default TaskBoard;
@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { Trash2, X } from 'lucide-react';
+import { TASK_STATUSES, TASK_STATUS_LABELS, TaskPriority, TaskStatus } from '@/lib/tasks';
+
+export interface BulkTaskChanges {
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  assigned_to?: string | null;
+  project_id?: string;
+  due_date?: string | null;
+}
+
+interface BulkUpdateResult {
+  updated: number;
+  skipped: number;
+  previous: Json;
+}
+
+interface TaskBulkActionsProps {
+  selectedIds: string[];
+  projects: { id: string; name: string }[];
+  profiles: { id: string; first_name: string; last_name: string }[];
+  confirmChanges: (changes: BulkTaskChanges) => Promise<boolean>;
+  onClear: () => void;
+  onChanged: () => void;
+}
+
+const plural = (count: number) => `${count} task${count === 1 ? '' : 's'}`;
+
+const TaskBulkActions = ({ selectedIds, projects, profiles, confirmChanges, onClear, onChanged }: TaskBulkActionsProps) => {
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+  const [dueDate, setDueDate] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const handleUndo = async (previous: Json) => {
+    try {
+      const { data: restored, error } = await supabase.rpc('undo_bulk_task_update', { p_previous: previous });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Restored ${plural(restored || 0)}`,
+      });
+
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const applyChanges = async (changes: BulkTaskChanges, summary: string) => {
+    setWorking(true);
+    try {
+      if (!(await confirmChanges(changes))) return;
+
+      const { data, error } = await supabase.rpc('bulk_update_tasks', {
+        p_task_ids: selectedIds,
+        p_changes: changes as Json,
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as BulkUpdateResult;
+      toast({
+        title: "Success",
+        description: `${summary} for ${plural(result.updated)}${
+          result.skipped > 0 ? `. ${plural(result.skipped)} skipped because you can't edit them` : ''
+        }`,
+        action: result.updated > 0 ? (
+          <ToastAction altText="Undo the bulk change" onClick={() => handleUndo(result.previous)}>Undo</ToastAction>
+        ) : undefined,
+      });
+
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRestore = async (taskIds: string[]) => {
+    try {
+      const { data: restored, error } = await supabase.rpc('restore_deleted_tasks', { p_task_ids: taskIds });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Restored ${plural(restored || 0)}`,
+      });
+
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete ${plural(selectedIds.length)} and their subtasks?`)) return;
+
+    const taskIds = selectedIds;
+    setWorking(true);
+    try {
+      const { data: deleted, error } = await supabase.rpc('bulk_delete_tasks', { p_task_ids: taskIds });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Deleted ${plural(deleted || 0)}`,
+        action: deleted > 0 ? (
+          <ToastAction altText="Undo the bulk delete" onClick={() => handleRestore(taskIds)}>Undo</ToastAction>
+        ) : undefined,
+      });
+
+      onClear();
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const getProfileName = (id: string) => {
+    const match = profiles.find(p => p.id === id);
+    return match ? `${match.first_name} ${match.last_name}` : 'member';
+  };
+
+  if (selectedIds.length === 0) return null;
+
+  return (
+    <Card className="sticky top-2 z-20 border-primary">
+      <CardContent className="p-3 flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium mr-2">{selectedIds.length} selected</span>
+        <Select
+          value=""
+          disabled={working}
+          onValueChange={(value: TaskStatus) => applyChanges({ status: value }, `Status set to ${TASK_STATUS_LABELS[value]}`)}
+        >
+          <SelectTrigger className="w-32 h-8">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            {TASK_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>{TASK_STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value=""
+          disabled={working}
+          onValueChange={(value: TaskPriority) => applyChanges({ priority: value }, `Priority set to ${value}`)}
+        >
+          <SelectTrigger className="w-32 h-8">
+            <SelectValue placeholder="Priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="low">Low</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="high">High</SelectItem>
+            <SelectItem value="urgent">Urgent</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value=""
+          disabled={working}
+          onValueChange={(value) => value === 'none'
+            ? applyChanges({ assigned_to: null }, 'Assignee removed')
+            : applyChanges({ assigned_to: value }, `Assigned to ${getProfileName(value)}`)}
+        >
+          <SelectTrigger className="w-36 h-8">
+            <SelectValue placeholder="Assignee" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Unassigned</SelectItem>
+            {profiles.map((p) => (
+              <SelectItem key={p.id} value={p.id}>{p.first_name} {p.last_name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value=""
+          disabled={working}
+          onValueChange={(value) => applyChanges(
+            { project_id: value },
+            `Moved to ${projects.find(p => p.id === value)?.name || 'project'}`
+          )}
+        >
+          <SelectTrigger className="w-36 h-8">
+            <SelectValue placeholder="Project" />
+          </SelectTrigger>
+          <SelectContent>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-1">
+          <Input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="w-36 h-8"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={working || !dueDate}
+            onClick={() => applyChanges(
+              { due_date: dueDate },
+              `Due date set to ${new Date(`${dueDate}T00:00:00`).toLocaleDateString()}`
+            )}
+          >
+            Set due
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={working}
+            onClick={() => applyChanges({ due_date: null }, 'Due date cleared')}
+          >
+            Clear due
+          </Button>
+        </div>
+        <div className="flex items-center gap-1 ml-auto">
+          {isAdmin && (
+            <Button variant="destructive" size="sm" disabled={working} onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClear} title="Clear selection">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaskBulkActions;
@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, X } from 'lucide-react';
+
+interface ChecklistItem {
+  id: string;
+  title: string;
+  is_completed: boolean;
+  position: number;
+}
+
+interface TaskChecklistProps {
+  taskId: string;
+  onChanged?: () => void;
+}
+
+const TaskChecklist = ({ taskId, onChanged }: TaskChecklistProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [newItem, setNewItem] = useState('');
+
+  useEffect(() => {
+    fetchItems();
+  }, [taskId]);
+
+  const fetchItems = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('task_checklist_items')
+        .select('id, title, is_completed, position')
+        .eq('task_id', taskId)
+        .order('position')
+        .order('created_at');
+
+      if (error) throw error;
+      setItems(data || []);
+    } catch (error) {
+      console.error('Error fetching checklist:', error);
+    }
+  };
+
+  // Every change refreshes both this list and the counts shown on task cards
+  const runChange = async (change: () => PromiseLike<{ error: Error | null }>) => {
+    try {
+      const { error } = await change();
+      if (error) throw error;
+
+      fetchItems();
+      onChanged?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.trim()) return;
+
+    const position = items.length > 0 ? Math.max(...items.map(item => item.position)) + 1 : 0;
+    await runChange(() => supabase
+      .from('task_checklist_items')
+      .insert([{ task_id: taskId, title: newItem.trim(), position, created_by: profile?.id }]));
+    setNewItem('');
+  };
+
+  const completed = items.filter(item => item.is_completed).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Checklist</Label>
+        {items.length > 0 && (
+          <span className="text-xs text-muted-foreground">{completed}/{items.length}</span>
+        )}
+      </div>
+      {items.map((item) => (
+        <div key={item.id} className="group flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={item.is_completed}
+            onCheckedChange={(checked) => runChange(() => supabase
+              .from('task_checklist_items')
+              .update({ is_completed: checked === true })
+              .eq('id', item.id))}
+          />
+          <span className={item.is_completed ? 'flex-1 line-through text-muted-foreground' : 'flex-1'}>
+            {item.title}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+            onClick={() => runChange(() => supabase.from('task_checklist_items').delete().eq('id', item.id))}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          placeholder="Add an item"
+          className="h-8 text-sm"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={!newItem.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default TaskChecklist;
@@ -0,0 +1,133 @@
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { X } from 'lucide-react';
+import { TASK_STATUS_LABELS, TaskDependency, TaskStatus, getTaskStatusColor, wouldCreateCycle } from '@/lib/tasks';
+
+export interface DependencyTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+}
+
+interface TaskDependenciesProps {
+  taskId: string;
+  tasks: DependencyTask[];
+  dependencies: TaskDependency[];
+  onChanged: () => void;
+}
+
+const TaskDependencies = ({ taskId, tasks, dependencies, onChanged }: TaskDependenciesProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const blockedBy = dependencies.filter(dependency => dependency.blocked_task_id === taskId);
+  const blocks = dependencies.filter(dependency => dependency.blocking_task_id === taskId);
+  const findTask = (id: string) => tasks.find(task => task.id === id);
+
+  const handleAdd = async (blockingId: string, blockedId: string) => {
+    try {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .insert([{ blocking_task_id: blockingId, blocked_task_id: blockedId, created_by: profile?.id }]);
+
+      if (error) throw error;
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async (dependency: TaskDependency) => {
+    try {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .delete()
+        .eq('id', dependency.id);
+
+      if (error) throw error;
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderSection = (
+    label: string,
+    links: TaskDependency[],
+    getLinkedId: (dependency: TaskDependency) => string,
+    candidates: DependencyTask[],
+    onAdd: (otherId: string) => void
+  ) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      {links.map((dependency) => {
+        const linked = findTask(getLinkedId(dependency));
+        return (
+          <div key={dependency.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg text-sm">
+            <span className="truncate">{linked?.title || 'Hidden task'}</span>
+            <div className="flex items-center gap-1">
+              {linked && (
+                <Badge variant="secondary" className={getTaskStatusColor(linked.status)}>
+                  {TASK_STATUS_LABELS[linked.status]}
+                </Badge>
+              )}
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleRemove(dependency)}>
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+      <Select value="" onValueChange={onAdd}>
+        <SelectTrigger className="h-8 text-sm">
+          <SelectValue placeholder="Add a task" />
+        </SelectTrigger>
+        <SelectContent>
+          {candidates.map((task) => (
+            <SelectItem key={task.id} value={task.id}>
+              {task.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  // Offer only tasks that aren't linked yet and wouldn't close a loop
+  const linkedIds = new Set([...blockedBy.map(d => d.blocking_task_id), ...blocks.map(d => d.blocked_task_id)]);
+  const unlinked = tasks.filter(task => task.id !== taskId && !linkedIds.has(task.id));
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {renderSection(
+        'Blocked by',
+        blockedBy,
+        dependency => dependency.blocking_task_id,
+        unlinked.filter(task => !wouldCreateCycle(task.id, taskId, dependencies)),
+        (otherId) => handleAdd(otherId, taskId)
+      )}
+      {renderSection(
+        'Blocks',
+        blocks,
+        dependency => dependency.blocked_task_id,
+        unlinked.filter(task => !wouldCreateCycle(taskId, task.id, dependencies)),
+        (otherId) => handleAdd(taskId, otherId)
+      )}
+    </div>
+  );
+};
+
+export default TaskDependencies;
@@ -0,0 +1,356 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { Edit, History, Trash2 } from 'lucide-react';
+import MarkdownText from '@/components/MarkdownText';
+import MentionTextarea, { MentionProfile } from '@/components/MentionTextarea';
+import TaskDependencies, { DependencyTask } from '@/components/TaskDependencies';
+import TaskSubtasks, { Subtask } from '@/components/TaskSubtasks';
+import TaskChecklist from '@/components/TaskChecklist';
+import TaskAttachments from '@/components/TaskAttachments';
+import TaskRecurrenceEditor from '@/components/TaskRecurrenceEditor';
+import { TaskDependency, TaskRecurrence } from '@/lib/tasks';
+
+export interface DetailTask {
+  id: string;
+  title: string;
+  description?: string;
+  status: string;
+  priority: string;
+  project_id: string;
+  parent_task_id?: string | null;
+  recurrence_id?: string | null;
+  projects?: { name: string };
+  assignee?: { first_name: string; last_name: string };
+}
+
+interface Comment {
+  id: string;
+  user_id: string;
+  comment: string;
+  created_at: string;
+  updated_at: string;
+  author?: { first_name: string; last_name: string; avatar_url: string | null } | null;
+}
+
+interface Activity {
+  id: string;
+  field: string;
+  from_value: string | null;
+  to_value: string | null;
+  created_at: string;
+  changer?: { first_name: string; last_name: string } | null;
+}
+
+type ThreadItem = ({ kind: 'comment' } & Comment) | ({ kind: 'activity' } & Activity);
+
+interface TaskDetailDrawerProps {
+  task: DetailTask | null;
+  profiles: MentionProfile[];
+  tasks: (DependencyTask & Subtask & { parent_task_id?: string | null })[];
+  dependencies: TaskDependency[];
+  onDependenciesChanged: () => void;
+  onTasksChanged: () => void;
+  onChecklistChanged: () => void;
+  recurrences: TaskRecurrence[];
+  onRecurrenceChanged: () => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'status',
+  assigned_to: 'assignee',
+  priority: 'priority',
+};
+
+const TaskDetailDrawer = ({
+  task,
+  profiles,
+  tasks,
+  dependencies,
+  onDependenciesChanged,
+  onTasksChanged,
+  onChecklistChanged,
+  recurrences,
+  onRecurrenceChanged,
+  onOpenChange,
+}: TaskDetailDrawerProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [activity, setActivity] = useState<Activity[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [newComment, setNewComment] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  useEffect(() => {
+    if (task) {
+      setNewComment('');
+      setEditingId(null);
+      fetchThread(task.id);
+    }
+  }, [task?.id]);
+
+  const fetchThread = async (taskId: string) => {
+    setLoading(true);
+    try {
+      const [commentsResult, activityResult] = await Promise.all([
+        supabase
+          .from('task_comments')
+          .select(`
+            *,
+            author:profiles!task_comments_user_id_fkey (first_name, last_name, avatar_url)
+          `)
+          .eq('task_id', taskId)
+          .order('created_at'),
+        supabase
+          .from('task_activity')
+          .select(`
+            *,
+            changer:profiles!task_activity_changed_by_fkey (first_name, last_name)
+          `)
+          .eq('task_id', taskId)
+          .order('created_at'),
+      ]);
+
+      if (commentsResult.error) throw commentsResult.error;
+      if (activityResult.error) throw activityResult.error;
+
+      setComments(commentsResult.data || []);
+      setActivity(activityResult.data || []);
+    } catch (error) {
+      console.error('Error fetching task thread:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!task || !profile || !newComment.trim()) return;
+
+    setPosting(true);
+    try {
+      const { error } = await supabase
+        .from('task_comments')
+        .insert([{ task_id: task.id, user_id: profile.id, comment: newComment.trim() }]);
+
+      if (error) throw error;
+
+      setNewComment('');
+      fetchThread(task.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleSaveEdit = async (comment: Comment) => {
+    if (!task || !editText.trim()) return;
+
+    try {
+      const { error } = await supabase
+        .from('task_comments')
+        .update({ comment: editText.trim() })
+        .eq('id', comment.id);
+
+      if (error) throw error;
+
+      setEditingId(null);
+      fetchThread(task.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    if (!task || !confirm('Delete this comment?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('task_comments')
+        .delete()
+        .eq('id', comment.id);
+
+      if (error) throw error;
+
+      fetchThread(task.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatValue = (field: string, value: string | null) => {
+    if (!value) return field === 'assigned_to' ? 'unassigned' : 'none';
+    if (field === 'assigned_to') {
+      const member = profiles.find(p => p.id === value);
+      return member ? `${member.first_name} ${member.last_name}` : 'a former member';
+    }
+    return value.replace('_', ' ');
+  };
+
+  const thread: ThreadItem[] = [
+    ...comments.map(comment => ({ kind: 'comment' as const, ...comment })),
+    ...activity.map(change => ({ kind: 'activity' as const, ...change })),
+  ].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  return (
+    <Sheet open={!!task} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{task?.title}</SheetTitle>
+          <SheetDescription>
+            {task?.parent_task_id && `Subtask of ${tasks.find(t => t.id === task.parent_task_id)?.title || 'another task'} • `}
+            {task?.projects?.name}
+            {task?.assignee && ` • ${task.assignee.first_name} ${task.assignee.last_name}`}
+          </SheetDescription>
+          {task && (
+            <div className="flex gap-2">
+              <Badge variant="secondary">{task.status.replace('_', ' ')}</Badge>
+              <Badge variant="outline">{task.priority}</Badge>
+            </div>
+          )}
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          <div className="space-y-4 py-4">
+            {task?.description && (
+              <MarkdownText text={task.description} className="p-3 bg-muted rounded-lg" />
+            )}
+
+            {task && !task.parent_task_id && (
+              <TaskSubtasks
+                parent={task}
+                subtasks={tasks.filter(t => t.parent_task_id === task.id)}
+                onChanged={onTasksChanged}
+              />
+            )}
+
+            {task && <TaskChecklist taskId={task.id} onChanged={onChecklistChanged} />}
+            {task && <TaskAttachments taskId={task.id} />}
+
+            {task && !task.parent_task_id && (
+              <TaskRecurrenceEditor
+                taskId={task.id}
+                recurrence={recurrences.find(r => r.id === task.recurrence_id)}
+                onChanged={onRecurrenceChanged}
+              />
+            )}
+
+            {task && (
+              <TaskDependencies
+                taskId={task.id}
+                tasks={tasks}
+                dependencies={dependencies}
+                onChanged={onDependenciesChanged}
+              />
+            )}
+
+            {loading ? (
+              <div className="flex items-center justify-center h-24">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : thread.length === 0 ? (
+              <p className="text-center text-muted-foreground py-4">No comments yet</p>
+            ) : (
+              thread.map((item) => item.kind === 'activity' ? (
+                <div key={item.id} className="flex items-center gap-2 text-xs text-muted-foreground pl-2">
+                  <History className="h-3 w-3 shrink-0" />
+                  <span>
+                    <span className="font-medium">
+                      {item.changer ? `${item.changer.first_name} ${item.changer.last_name}` : 'System'}
+                    </span>
+                    {' '}changed {FIELD_LABELS[item.field] || item.field} from {formatValue(item.field, item.from_value)} to{' '}
+                    {formatValue(item.field, item.to_value)}
+                    {' • '}{new Date(item.created_at).toLocaleString()}
+                  </span>
+                </div>
+              ) : (
+                <div key={item.id} className="flex gap-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={item.author?.avatar_url || undefined} />
+                    <AvatarFallback>
+                      {item.author?.first_name[0]}{item.author?.last_name[0]}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm">
+                        <span className="font-medium">{item.author?.first_name} {item.author?.last_name}</span>
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {new Date(item.created_at).toLocaleString()}
+                          {item.updated_at !== item.created_at && ' (edited)'}
+                        </span>
+                      </p>
+                      {item.user_id === profile?.id && editingId !== item.id && (
+                        <div className="flex">
+                          <Button variant="ghost" size="sm" onClick={() => { setEditingId(item.id); setEditText(item.comment); }}>
+                            <Edit className="h-3 w-3" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(item)}>
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    {editingId === item.id ? (
+                      <div className="space-y-2">
+                        <MentionTextarea value={editText} onChange={setEditText} profiles={profiles} rows={3} autoFocus />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={() => handleSaveEdit(item)} disabled={!editText.trim()}>
+                            Save
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <MarkdownText text={item.comment} />
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="space-y-2 border-t pt-4">
+          <MentionTextarea
+            value={newComment}
+            onChange={setNewComment}
+            profiles={profiles}
+            placeholder="Write a comment… Use @ to mention someone, **bold**, *italic*, `code` and - lists"
+          />
+          <div className="flex justify-end">
+            <Button onClick={handlePost} disabled={posting || !newComment.trim()}>
+              {posting ? 'Posting...' : 'Comment'}
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TaskDetailDrawer;
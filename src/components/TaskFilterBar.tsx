@@ -0,0 +1,360 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowDown, ArrowUp, Bookmark, Search, Trash2, X } from 'lucide-react';
+import { TASK_STATUSES, TASK_STATUS_LABELS } from '@/lib/tasks';
+import {
+  DEFAULT_TASK_FILTERS,
+  TASK_SORT_LABELS,
+  TaskListFilters,
+  TaskSortColumn,
+  getTaskViewQuery,
+  hasActiveTaskFilters,
+  parseFieldFilter,
+  toFieldFilter,
+} from '@/lib/task-filters';
+import { CustomField } from '@/lib/custom-fields';
+
+interface SavedView {
+  id: string;
+  name: string;
+  query: string;
+}
+
+interface TaskFilterBarProps {
+  filters: TaskListFilters;
+  projects: { id: string; name: string }[];
+  profiles: { id: string; first_name: string; last_name: string }[];
+  customFields: CustomField[];
+  onChange: (changes: Partial<TaskListFilters>) => void;
+  onApplyView: (query: string) => void;
+}
+
+const TaskFilterBar = ({ filters, projects, profiles, customFields, onChange, onApplyView }: TaskFilterBarProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [search, setSearch] = useState(filters.search);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [fieldId, setFieldId] = useState(parseFieldFilter(filters.field)?.fieldId || 'none');
+  const [fieldValue, setFieldValue] = useState(parseFieldFilter(filters.field)?.value || '');
+
+  useEffect(() => {
+    if (profile) fetchViews();
+  }, [profile?.id]);
+
+  useEffect(() => {
+    setSearch(filters.search);
+  }, [filters.search]);
+
+  // Search as the user types, without a request per keystroke
+  useEffect(() => {
+    if (search === filters.search) return;
+    const timeout = setTimeout(() => onChange({ search }), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  useEffect(() => {
+    const parsed = parseFieldFilter(filters.field);
+    setFieldId(parsed?.fieldId || 'none');
+    setFieldValue(parsed?.value || '');
+  }, [filters.field]);
+
+  // Typed custom field values are debounced the same way as the search box
+  useEffect(() => {
+    const next = fieldId === 'none' ? '' : toFieldFilter(fieldId, fieldValue);
+    if (next === filters.field) return;
+    const timeout = setTimeout(() => onChange({ field: next }), 300);
+    return () => clearTimeout(timeout);
+  }, [fieldId, fieldValue]);
+
+  const fetchViews = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('task_saved_views')
+        .select('id, name, query')
+        .eq('user_id', profile?.id)
+        .order('name');
+
+      if (error) throw error;
+      setViews(data || []);
+    } catch (error) {
+      console.error('Error fetching saved views:', error);
+    }
+  };
+
+  // Only fields for the filtered project (or every task field when no project is picked) are offered
+  const filterFields = customFields.filter(field =>
+    field.entity_type === 'task' && (filters.project === 'all' || !field.project_id || field.project_id === filters.project)
+  );
+  const selectedField = customFields.find(field => field.id === fieldId);
+
+  const currentQuery = getTaskViewQuery(filters);
+  const activeView = views.find(view => view.query === currentQuery);
+
+  const handleSaveView = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !viewName.trim()) return;
+
+    try {
+      const { error } = await supabase
+        .from('task_saved_views')
+        .upsert([{ user_id: profile.id, name: viewName.trim(), query: currentQuery }], { onConflict: 'user_id,name' });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Saved view "${viewName.trim()}"`,
+      });
+
+      setShowSaveDialog(false);
+      fetchViews();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteView = async (view: SavedView) => {
+    if (!confirm(`Delete the saved view "${view.name}"?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('task_saved_views')
+        .delete()
+        .eq('id', view.id);
+
+      if (error) throw error;
+      fetchViews();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search title and description"
+            className="pl-8"
+          />
+        </div>
+        <Select value={activeView?.id || 'none'} onValueChange={(value) => {
+          const view = views.find(v => v.id === value);
+          if (view) onApplyView(view.query);
+        }}>
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="Saved views" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none" disabled>{views.length > 0 ? 'Saved views' : 'No saved views'}</SelectItem>
+            {views.map((view) => (
+              <SelectItem key={view.id} value={view.id}>{view.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {activeView ? (
+          <Button variant="outline" size="sm" onClick={() => handleDeleteView(activeView)}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete view
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => { setViewName(''); setShowSaveDialog(true); }}>
+            <Bookmark className="h-4 w-4 mr-2" />
+            Save view
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <Select value={filters.project} onValueChange={(value) => onChange({ project: value })}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Project" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All projects</SelectItem>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.assignee} onValueChange={(value) => onChange({ assignee: value })}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Assignee" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Anyone</SelectItem>
+            <SelectItem value="me">Assigned to me</SelectItem>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+            {profiles.map((p) => (
+              <SelectItem key={p.id} value={p.id}>{p.first_name} {p.last_name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.status} onValueChange={(value) => onChange({ status: value })}>
+          <SelectTrigger className="w-36">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any status</SelectItem>
+            {TASK_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>{TASK_STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.priority} onValueChange={(value) => onChange({ priority: value })}>
+          <SelectTrigger className="w-36">
+            <SelectValue placeholder="Priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any priority</SelectItem>
+            <SelectItem value="low">Low</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="high">High</SelectItem>
+            <SelectItem value="urgent">Urgent</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="space-y-1">
+          <Label htmlFor="due_from" className="text-xs text-muted-foreground">Due from</Label>
+          <Input
+            id="due_from"
+            type="date"
+            value={filters.dueFrom}
+            max={filters.dueTo || undefined}
+            onChange={(e) => onChange({ dueFrom: e.target.value })}
+            className="w-40"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="due_to" className="text-xs text-muted-foreground">Due to</Label>
+          <Input
+            id="due_to"
+            type="date"
+            value={filters.dueTo}
+            min={filters.dueFrom || undefined}
+            onChange={(e) => onChange({ dueTo: e.target.value })}
+            className="w-40"
+          />
+        </div>
+        {filterFields.length > 0 && (
+          <div className="flex items-center gap-1">
+            <Select value={selectedField ? fieldId : 'none'} onValueChange={(value) => { setFieldId(value); setFieldValue(''); }}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Any custom field</SelectItem>
+                {filterFields.map((field) => (
+                  <SelectItem key={field.id} value={field.id}>{field.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedField && (selectedField.field_type === 'select' || selectedField.field_type === 'user') && (
+              <Select value={fieldValue || 'none'} onValueChange={(value) => setFieldValue(value === 'none' ? '' : value)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Any value</SelectItem>
+                  {selectedField.field_type === 'select'
+                    ? selectedField.options.map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))
+                    : profiles.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>{p.first_name} {p.last_name}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            )}
+            {selectedField && (selectedField.field_type === 'text' || selectedField.field_type === 'number' || selectedField.field_type === 'date') && (
+              <Input
+                type={selectedField.field_type === 'text' ? 'text' : selectedField.field_type}
+                value={fieldValue}
+                onChange={(e) => setFieldValue(e.target.value)}
+                placeholder={selectedField.field_type === 'text' ? 'Contains' : undefined}
+                className="w-40"
+              />
+            )}
+          </div>
+        )}
+        <div className="flex items-center gap-1 ml-auto">
+          <Select value={filters.sort} onValueChange={(value: TaskSortColumn) => onChange({ sort: value })}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TASK_SORT_LABELS) as TaskSortColumn[]).map((column) => (
+                <SelectItem key={column} value={column}>{TASK_SORT_LABELS[column]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-10"
+            title={filters.direction === 'asc' ? 'Ascending' : 'Descending'}
+            onClick={() => onChange({ direction: filters.direction === 'asc' ? 'desc' : 'asc' })}
+          >
+            {filters.direction === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+          </Button>
+          {hasActiveTaskFilters(filters) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-10"
+              onClick={() => onChange({ ...DEFAULT_TASK_FILTERS, sort: filters.sort, direction: filters.direction })}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>Keep the current filters and sorting for later</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveView} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view_name">Name</Label>
+              <Input
+                id="view_name"
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                placeholder="e.g. My urgent tasks"
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={!viewName.trim()}>Save View</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TaskFilterBar;
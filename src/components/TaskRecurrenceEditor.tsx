@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Repeat } from 'lucide-react';
+import {
+  RECURRENCE_PRESETS,
+  RecurrenceSpawnOn,
+  TaskRecurrence,
+  describeRecurrence,
+  getRecurrencePreset,
+  isValidRecurrenceRule,
+} from '@/lib/tasks';
+
+interface TaskRecurrenceEditorProps {
+  taskId: string;
+  recurrence?: TaskRecurrence;
+  onChanged: () => void;
+}
+
+const TaskRecurrenceEditor = ({ taskId, recurrence, onChanged }: TaskRecurrenceEditorProps) => {
+  const { toast } = useToast();
+  const active = recurrence?.is_active ? recurrence : undefined;
+  const [preset, setPreset] = useState('none');
+  const [customRule, setCustomRule] = useState('');
+  const [spawnOn, setSpawnOn] = useState<RecurrenceSpawnOn>('completion');
+  const [endDate, setEndDate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setPreset(active ? getRecurrencePreset(active.rrule) : 'none');
+    setCustomRule(active ? active.rrule : '');
+    setSpawnOn(active?.spawn_on || 'completion');
+    setEndDate(active?.end_date || '');
+  }, [taskId, active?.id, active?.rrule, active?.spawn_on, active?.end_date]);
+
+  const rrule = preset === 'custom' ? customRule.trim().toUpperCase() : RECURRENCE_PRESETS[preset];
+  const ruleValid = preset === 'none' || isValidRecurrenceRule(rrule || '');
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('set_task_recurrence', {
+        p_task_id: taskId,
+        p_rrule: preset === 'none' ? null : rrule,
+        p_spawn_on: spawnOn,
+        p_end_date: endDate || null,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: preset === 'none' ? "Task no longer repeats" : `Task repeats: ${describeRecurrence(rrule)}`,
+      });
+
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1">
+          <Repeat className="h-3 w-3" />
+          Repeat
+        </Label>
+        {active && (
+          <span className="text-xs text-muted-foreground">
+            Next due {new Date(`${active.next_due_date}T00:00:00`).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={preset} onValueChange={setPreset}>
+          <SelectTrigger className="h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+            <SelectItem value="custom">Custom rule</SelectItem>
+          </SelectContent>
+        </Select>
+        {preset !== 'none' && (
+          <Select value={spawnOn} onValueChange={(value: RecurrenceSpawnOn) => setSpawnOn(value)}>
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="completion">Create next when completed</SelectItem>
+              <SelectItem value="schedule">Create next when period starts</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      {preset === 'custom' && (
+        <div className="space-y-1">
+          <Input
+            value={customRule}
+            onChange={(e) => setCustomRule(e.target.value)}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+            className="h-8 text-sm font-mono"
+          />
+          <p className={ruleValid ? 'text-xs text-muted-foreground' : 'text-xs text-destructive'}>
+            {ruleValid
+              ? describeRecurrence(rrule)
+              : 'Use FREQ=DAILY, WEEKLY, MONTHLY or YEARLY with optional INTERVAL, BYDAY and BYMONTHDAY'}
+          </p>
+        </div>
+      )}
+      {preset !== 'none' && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor="recurrence_end_date" className="text-xs text-muted-foreground shrink-0">Until</Label>
+          <Input
+            id="recurrence_end_date"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="h-8 text-sm"
+          />
+        </div>
+      )}
+      {(preset !== 'none' || active) && (
+        <Button size="sm" variant="outline" onClick={handleSave} disabled={saving || !ruleValid}>
+          {preset === 'none' ? 'Stop repeating' : active ? 'Update repeat' : 'Start repeating'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TaskRecurrenceEditor;
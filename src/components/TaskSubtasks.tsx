@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { Plus } from 'lucide-react';
+import { formatHours } from '@/lib/time-entries';
+import { TaskStatus } from '@/lib/tasks';
+
+export interface Subtask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  estimated_hours?: number;
+  assignee?: { first_name: string; last_name: string };
+}
+
+interface TaskSubtasksProps {
+  parent: { id: string; project_id: string };
+  subtasks: Subtask[];
+  onChanged: () => void;
+}
+
+const TaskSubtasks = ({ parent, subtasks, onChanged }: TaskSubtasksProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [formData, setFormData] = useState({ title: '', estimated_hours: '' });
+  const [saving, setSaving] = useState(false);
+
+  const completed = subtasks.filter(subtask => subtask.status === 'completed').length;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.title.trim()) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .insert([{
+          title: formData.title.trim(),
+          estimated_hours: formData.estimated_hours ? parseFloat(formData.estimated_hours) : null,
+          parent_task_id: parent.id,
+          project_id: parent.project_id,
+          created_by: profile?.id || '',
+        }]);
+
+      if (error) throw error;
+
+      setFormData({ title: '', estimated_hours: '' });
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (subtask: Subtask, checked: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update({
+          status: checked ? 'completed' : 'todo',
+          completed_at: checked ? new Date().toISOString() : null,
+        })
+        .eq('id', subtask.id);
+
+      if (error) throw error;
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Subtasks</Label>
+        {subtasks.length > 0 && (
+          <span className="text-xs text-muted-foreground">{completed}/{subtasks.length} done</span>
+        )}
+      </div>
+      {subtasks.length > 0 && <Progress value={(completed / subtasks.length) * 100} className="h-1.5" />}
+      {subtasks.map((subtask) => (
+        <div key={subtask.id} className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={subtask.status === 'completed'}
+            onCheckedChange={(checked) => handleToggle(subtask, checked === true)}
+          />
+          <span className={subtask.status === 'completed' ? 'flex-1 line-through text-muted-foreground' : 'flex-1'}>
+            {subtask.title}
+          </span>
+          {subtask.assignee && (
+            <span className="text-xs text-muted-foreground">{subtask.assignee.first_name}</span>
+          )}
+          {subtask.estimated_hours ? (
+            <span className="text-xs text-muted-foreground">{formatHours(subtask.estimated_hours)}</span>
+          ) : null}
+        </div>
+      ))}
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          value={formData.title}
+          onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+          placeholder="Add a subtask"
+          className="h-8 text-sm"
+        />
+        <Input
+          type="number"
+          step="0.5"
+          min="0"
+          value={formData.estimated_hours}
+          onChange={(e) => setFormData({ ...formData, estimated_hours: e.target.value })}
+          placeholder="Est. h"
+          className="h-8 w-20 text-sm"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={saving || !formData.title.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default TaskSubtasks;
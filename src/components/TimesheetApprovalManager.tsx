@@ -0,0 +1,317 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { ClipboardCheck, Eye, UserCheck, UserX } from 'lucide-react';
+import TimesheetGrid, { GridTimeEntry } from '@/components/TimesheetGrid';
+import {
+  TimesheetStatus,
+  TIMESHEET_STATUS_LABELS,
+  addDays,
+  formatHours,
+  getTimesheetStatusColor,
+} from '@/lib/time-entries';
+
+interface TimesheetSubmission {
+  id: string;
+  user_id: string;
+  week_start: string;
+  status: string;
+  total_hours: number;
+  notes: string | null;
+  submitted_at: string;
+  approved_by: string | null;
+  review_notes: string | null;
+  profiles?: {
+    first_name: string;
+    last_name: string;
+    avatar_url?: string;
+    role: string;
+  };
+  approver?: {
+    first_name: string;
+    last_name: string;
+  };
+}
+
+const formatWeek = (weekStart: string) =>
+  `${new Date(`${weekStart}T00:00:00`).toLocaleDateString()} - ${new Date(`${addDays(weekStart, 6)}T00:00:00`).toLocaleDateString()}`;
+
+const TimesheetApprovalManager = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [submissions, setSubmissions] = useState<TimesheetSubmission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedSubmission, setSelectedSubmission] = useState<TimesheetSubmission | null>(null);
+  const [weekEntries, setWeekEntries] = useState<GridTimeEntry[]>([]);
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    fetchSubmissions();
+  }, []);
+
+  useEffect(() => {
+    if (selectedSubmission) {
+      setReviewNotes(selectedSubmission.review_notes || '');
+      fetchWeekEntries(selectedSubmission);
+    }
+  }, [selectedSubmission]);
+
+  const fetchSubmissions = async () => {
+    try {
+      const { data: submissionData, error: submissionError } = await supabase
+        .from('timesheet_submissions')
+        .select('*')
+        .order('week_start', { ascending: false })
+        .order('submitted_at', { ascending: false });
+
+      if (submissionError) throw submissionError;
+
+      const userIds = submissionData?.map(submission => submission.user_id) || [];
+      const approverIds = submissionData?.filter(submission => submission.approved_by).map(submission => submission.approved_by) || [];
+      const allUserIds = [...new Set([...userIds, ...approverIds])];
+
+      const { data: profilesData, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, first_name, last_name, avatar_url, role')
+        .in('id', allUserIds);
+
+      if (profilesError) throw profilesError;
+
+      // Pending weeks first so the queue reads top-down
+      const submissionsWithProfiles = (submissionData?.map(submission => ({
+        ...submission,
+        profiles: profilesData?.find(p => p.id === submission.user_id),
+        approver: profilesData?.find(p => p.id === submission.approved_by),
+      })) || []).sort((a, b) => Number(b.status === 'pending') - Number(a.status === 'pending'));
+
+      setSubmissions(submissionsWithProfiles);
+    } catch (error) {
+      console.error('Error fetching timesheet submissions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWeekEntries = async (submission: TimesheetSubmission) => {
+    setWeekEntries([]);
+    try {
+      const { data, error } = await supabase
+        .from('time_entries')
+        .select('id, task_id, date, hours, invoice_item_id, tasks (title), projects (name)')
+        .eq('user_id', submission.user_id)
+        .gte('date', submission.week_start)
+        .lte('date', addDays(submission.week_start, 6))
+        .order('created_at');
+
+      if (error) throw error;
+      setWeekEntries(data || []);
+    } catch (error) {
+      console.error('Error fetching timesheet entries:', error);
+    }
+  };
+
+  const handleApproveReject = async (status: 'approved' | 'rejected') => {
+    if (!selectedSubmission) return;
+
+    if (status === 'rejected' && !reviewNotes.trim()) {
+      toast({
+        title: "Error",
+        description: "Add a note explaining what needs to change",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const { error } = await supabase
+        .from('timesheet_submissions')
+        .update({
+          status,
+          review_notes: reviewNotes.trim() || null,
+        })
+        .eq('id', selectedSubmission.id);
+
+      if (error) throw error;
+
+      toast({
+        title: `Timesheet ${status}`,
+        description: `The timesheet has been ${status}.`,
+      });
+
+      setSelectedSubmission(null);
+      fetchSubmissions();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (!profile || !['admin', 'project_manager'].includes(profile.role)) {
+    return null;
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Timesheet Approvals
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const pendingCount = submissions.filter(submission => submission.status === 'pending').length;
+  const canReview = selectedSubmission?.status === 'pending'
+    && (selectedSubmission.user_id !== profile.id || profile.role === 'admin');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Timesheet Approvals
+        </CardTitle>
+        <CardDescription>
+          {pendingCount > 0 ? `${pendingCount} week${pendingCount === 1 ? '' : 's'} awaiting approval` : 'No timesheets awaiting approval'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {submissions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No timesheets submitted yet
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {submissions.map((submission) => (
+              <div key={submission.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  {submission.profiles && (
+                    <Avatar className="h-10 w-10">
+                      <AvatarImage src={submission.profiles.avatar_url} />
+                      <AvatarFallback>
+                        {submission.profiles.first_name[0]}{submission.profiles.last_name[0]}
+                      </AvatarFallback>
+                    </Avatar>
+                  )}
+                  <div>
+                    <p className="font-medium">
+                      {submission.profiles?.first_name} {submission.profiles?.last_name}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatWeek(submission.week_start)}
+                      <span className="ml-2">({formatHours(submission.total_hours)})</span>
+                    </p>
+                    {submission.approver && (
+                      <p className="text-xs text-muted-foreground">
+                        {submission.status} by {submission.approver.first_name} {submission.approver.last_name}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <Badge className={getTimesheetStatusColor(submission.status)}>
+                    {TIMESHEET_STATUS_LABELS[submission.status as TimesheetStatus]}
+                  </Badge>
+                  <Button variant="outline" size="sm" onClick={() => setSelectedSubmission(submission)}>
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selectedSubmission} onOpenChange={(open) => !open && setSelectedSubmission(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedSubmission?.profiles?.first_name} {selectedSubmission?.profiles?.last_name}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedSubmission && `${formatWeek(selectedSubmission.week_start)} • submitted ${new Date(selectedSubmission.submitted_at).toLocaleString()}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedSubmission && (
+            <div className="space-y-4">
+              <TimesheetGrid weekStart={selectedSubmission.week_start} entries={weekEntries} />
+
+              {selectedSubmission.notes && (
+                <div>
+                  <Label>Notes</Label>
+                  <div className="mt-1 p-2 bg-muted rounded text-sm">{selectedSubmission.notes}</div>
+                </div>
+              )}
+
+              {canReview ? (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="review_notes">Review Notes</Label>
+                    <Textarea
+                      id="review_notes"
+                      value={reviewNotes}
+                      onChange={(e) => setReviewNotes(e.target.value)}
+                      rows={2}
+                      placeholder="Required when rejecting"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => handleApproveReject('approved')}
+                      disabled={isProcessing}
+                      className="flex-1"
+                    >
+                      <UserCheck className="h-4 w-4 mr-2" />
+                      {isProcessing ? 'Processing...' : 'Approve'}
+                    </Button>
+                    <Button
+                      onClick={() => handleApproveReject('rejected')}
+                      disabled={isProcessing}
+                      className="flex-1"
+                      variant="destructive"
+                    >
+                      <UserX className="h-4 w-4 mr-2" />
+                      {isProcessing ? 'Processing...' : 'Reject'}
+                    </Button>
+                  </div>
+                </>
+              ) : selectedSubmission.review_notes && (
+                <div>
+                  <Label>Review Notes</Label>
+                  <div className="mt-1 p-2 bg-muted rounded text-sm">{selectedSubmission.review_notes}</div>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default TimesheetApprovalManager;
@@ -0,0 +1,133 @@
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { X } from 'lucide-react';
+import { formatHours, getWeekDays } from '@/lib/time-entries';
+
+export interface GridTimeEntry {
+  id: string;
+  task_id: string;
+  date: string;
+  hours: number;
+  invoice_item_id: string | null;
+  tasks?: { title: string } | null;
+  projects?: { name: string } | null;
+}
+
+export interface GridTask {
+  id: string;
+  title: string;
+  projectName?: string;
+}
+
+interface TimesheetGridProps {
+  weekStart: string;
+  entries: GridTimeEntry[];
+  extraTasks?: GridTask[];
+  editable?: boolean;
+  onCellChange?: (taskId: string, date: string, hours: number) => void;
+  onRemoveTask?: (taskId: string) => void;
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' });
+
+// Tasks × days for one member's week. A cell is only editable when it holds at most one
+// entry that has not been invoiced; anything else is changed from the entries list.
+const TimesheetGrid = ({ weekStart, entries, extraTasks = [], editable = false, onCellChange, onRemoveTask }: TimesheetGridProps) => {
+  const days = getWeekDays(weekStart);
+
+  const tasks = new Map<string, GridTask>();
+  entries.forEach(entry => {
+    if (!tasks.has(entry.task_id)) {
+      tasks.set(entry.task_id, { id: entry.task_id, title: entry.tasks?.title || 'Task', projectName: entry.projects?.name });
+    }
+  });
+  extraTasks.forEach(task => {
+    if (!tasks.has(task.id)) tasks.set(task.id, task);
+  });
+
+  const cellEntries = (taskId: string, date: string) =>
+    entries.filter(entry => entry.task_id === taskId && entry.date === date);
+  const sumHours = (list: GridTimeEntry[]) => list.reduce((sum, entry) => sum + entry.hours, 0);
+
+  if (tasks.size === 0) {
+    return <p className="text-center text-muted-foreground py-4">No time logged this week</p>;
+  }
+
+  return (
+    <div className="border rounded-lg overflow-x-auto">
+      <div className="grid grid-cols-[minmax(180px,2fr)_repeat(7,minmax(64px,1fr))_minmax(64px,1fr)] gap-2 p-3 text-xs font-medium text-muted-foreground border-b min-w-[760px]">
+        <span>Task</span>
+        {days.map(day => (
+          <span key={day} className="text-center">{formatDay(day)}</span>
+        ))}
+        <span className="text-right">Total</span>
+      </div>
+
+      {[...tasks.values()].map(task => {
+        const taskEntries = entries.filter(entry => entry.task_id === task.id);
+
+        return (
+          <div
+            key={task.id}
+            className="grid grid-cols-[minmax(180px,2fr)_repeat(7,minmax(64px,1fr))_minmax(64px,1fr)] gap-2 p-3 items-center border-b text-sm min-w-[760px]"
+          >
+            <div className="flex items-center gap-1 min-w-0">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{task.title}</p>
+                {task.projectName && <p className="text-xs text-muted-foreground truncate">{task.projectName}</p>}
+              </div>
+              {editable && onRemoveTask && taskEntries.length === 0 && (
+                <Button variant="ghost" size="sm" onClick={() => onRemoveTask(task.id)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+            {days.map(day => {
+              const cell = cellEntries(task.id, day);
+              const hours = sumHours(cell);
+              const cellEditable = editable && cell.length <= 1 && !cell.some(entry => entry.invoice_item_id);
+
+              return cellEditable ? (
+                <Input
+                  key={`${day}:${hours}`}
+                  type="number"
+                  step="0.25"
+                  min="0"
+                  max="24"
+                  defaultValue={hours || ''}
+                  className="h-8 text-center px-1"
+                  onBlur={(e) => {
+                    const value = parseFloat(e.target.value) || 0;
+                    if (value !== hours) onCellChange?.(task.id, day, value);
+                  }}
+                />
+              ) : (
+                <span
+                  key={day}
+                  className="text-center"
+                  title={cell.length > 1 ? `${cell.length} entries` : cell.some(entry => entry.invoice_item_id) ? 'Invoiced' : undefined}
+                >
+                  {hours ? formatHours(hours) : '–'}
+                </span>
+              );
+            })}
+            <span className="text-right font-medium">{formatHours(sumHours(taskEntries))}</span>
+          </div>
+        );
+      })}
+
+      <div className="grid grid-cols-[minmax(180px,2fr)_repeat(7,minmax(64px,1fr))_minmax(64px,1fr)] gap-2 p-3 text-sm font-bold min-w-[760px]">
+        <span>Total</span>
+        {days.map(day => (
+          <span key={day} className="text-center">
+            {formatHours(sumHours(entries.filter(entry => entry.date === day)))}
+          </span>
+        ))}
+        <span className="text-right">{formatHours(sumHours(entries))}</span>
+      </div>
+    </div>
+  );
+};
+
+export default TimesheetGrid;
@@ -0,0 +1,310 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ChevronLeft, ChevronRight, Lock, Send, Undo2 } from 'lucide-react';
+import TimesheetGrid, { GridTask, GridTimeEntry } from '@/components/TimesheetGrid';
+import {
+  TimesheetStatus,
+  TIMESHEET_STATUS_LABELS,
+  addDays,
+  formatHours,
+  getTimesheetStatusColor,
+  getWeekStart,
+  isTimesheetLocked,
+} from '@/lib/time-entries';
+
+interface Submission {
+  id: string;
+  status: string;
+  total_hours: number;
+  submitted_at: string;
+  review_notes: string | null;
+  approver?: { first_name: string; last_name: string } | null;
+}
+
+interface TaskOption {
+  id: string;
+  title: string;
+  project_id: string;
+  projects?: { name: string } | null;
+}
+
+interface WeeklyTimesheetProps {
+  onChanged?: () => void;
+}
+
+const WeeklyTimesheet = ({ onChanged }: WeeklyTimesheetProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [weekStart, setWeekStart] = useState(getWeekStart(new Date()));
+  const [entries, setEntries] = useState<GridTimeEntry[]>([]);
+  const [submission, setSubmission] = useState<Submission | null>(null);
+  const [tasks, setTasks] = useState<TaskOption[]>([]);
+  const [addedTasks, setAddedTasks] = useState<GridTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchTasks();
+  }, []);
+
+  useEffect(() => {
+    if (profile) {
+      setAddedTasks([]);
+      fetchWeek();
+    }
+  }, [profile, weekStart]);
+
+  const fetchTasks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, project_id, projects (name)')
+        .neq('status', 'completed')
+        .order('title');
+
+      if (error) throw error;
+      setTasks(data || []);
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+    }
+  };
+
+  const fetchWeek = async () => {
+    if (!profile) return;
+
+    try {
+      const [entriesResult, submissionResult] = await Promise.all([
+        supabase
+          .from('time_entries')
+          .select('id, task_id, date, hours, invoice_item_id, tasks (title), projects (name)')
+          .eq('user_id', profile.id)
+          .gte('date', weekStart)
+          .lte('date', addDays(weekStart, 6))
+          .order('created_at'),
+        supabase
+          .from('timesheet_submissions')
+          .select('id, status, total_hours, submitted_at, review_notes, approver:profiles!timesheet_submissions_approved_by_fkey (first_name, last_name)')
+          .eq('user_id', profile.id)
+          .eq('week_start', weekStart)
+          .maybeSingle(),
+      ]);
+
+      if (entriesResult.error) throw entriesResult.error;
+      if (submissionResult.error) throw submissionResult.error;
+
+      setEntries(entriesResult.data || []);
+      setSubmission(submissionResult.data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load timesheet",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const locked = isTimesheetLocked(submission?.status);
+
+  const handleCellChange = async (taskId: string, date: string, hours: number) => {
+    if (!profile) return;
+
+    const existing = entries.find(entry => entry.task_id === taskId && entry.date === date);
+
+    try {
+      if (hours < 0 || hours > 24) {
+        throw new Error('Hours must be between 0 and 24');
+      }
+
+      if (existing && hours === 0) {
+        const { error } = await supabase.from('time_entries').delete().eq('id', existing.id);
+        if (error) throw error;
+      } else if (existing) {
+        const { error } = await supabase.from('time_entries').update({ hours }).eq('id', existing.id);
+        if (error) throw error;
+      } else if (hours > 0) {
+        const task = tasks.find(t => t.id === taskId);
+        const { error } = await supabase
+          .from('time_entries')
+          .insert([{ task_id: taskId, user_id: profile.id, project_id: task?.project_id || '', date, hours }]);
+        if (error) throw error;
+      }
+
+      fetchWeek();
+      onChanged?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      fetchWeek();
+    }
+  };
+
+  const handleAddTask = (taskId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+    setAddedTasks([...addedTasks, { id: task.id, title: task.title, projectName: task.projects?.name }]);
+  };
+
+  const handleSubmitWeek = async () => {
+    if (!profile) return;
+
+    setSubmitting(true);
+    try {
+      // A rejected week is resubmitted in place so its history stays on one row
+      const { error } = submission
+        ? await supabase.from('timesheet_submissions').update({ status: 'pending' }).eq('id', submission.id)
+        : await supabase.from('timesheet_submissions').insert([{ user_id: profile.id, week_start: weekStart }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Timesheet submitted for approval",
+      });
+
+      fetchWeek();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRecall = async () => {
+    if (!submission || !confirm('Recall this timesheet? You can edit the week and submit it again.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('timesheet_submissions')
+        .delete()
+        .eq('id', submission.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Timesheet recalled",
+      });
+
+      fetchWeek();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const weekEnd = addDays(weekStart, 6);
+  const isCurrentWeek = weekStart === getWeekStart(new Date());
+  const totalHours = entries.reduce((sum, entry) => sum + entry.hours, 0);
+  const gridTaskIds = new Set([...entries.map(entry => entry.task_id), ...addedTasks.map(task => task.id)]);
+  const availableTasks = tasks.filter(task => !gridTaskIds.has(task.id));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Weekly Timesheet</CardTitle>
+          <CardDescription>
+            {new Date(`${weekStart}T00:00:00`).toLocaleDateString()} – {new Date(`${weekEnd}T00:00:00`).toLocaleDateString()}
+            {' • '}{formatHours(totalHours)} logged
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, -7))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setWeekStart(getWeekStart(new Date()))} disabled={isCurrentWeek}>
+            This Week
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, 7))} disabled={isCurrentWeek}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <>
+            {submission && (
+              <div className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  {locked && <Lock className="h-4 w-4 text-muted-foreground" />}
+                  <div>
+                    <Badge variant="secondary" className={getTimesheetStatusColor(submission.status)}>
+                      {TIMESHEET_STATUS_LABELS[submission.status as TimesheetStatus]}
+                    </Badge>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatHours(submission.total_hours)} submitted {new Date(submission.submitted_at).toLocaleDateString()}
+                      {submission.approver && ` • reviewed by ${submission.approver.first_name} ${submission.approver.last_name}`}
+                    </p>
+                    {submission.review_notes && (
+                      <p className="text-sm text-muted-foreground">{submission.review_notes}</p>
+                    )}
+                  </div>
+                </div>
+                {submission.status === 'pending' && (
+                  <Button variant="outline" size="sm" onClick={handleRecall}>
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Recall
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <TimesheetGrid
+              weekStart={weekStart}
+              entries={entries}
+              extraTasks={addedTasks}
+              editable={!locked}
+              onCellChange={handleCellChange}
+              onRemoveTask={(taskId) => setAddedTasks(addedTasks.filter(task => task.id !== taskId))}
+            />
+
+            {!locked && (
+              <div className="flex items-center justify-between gap-4">
+                <Select value="" onValueChange={handleAddTask}>
+                  <SelectTrigger className="w-72">
+                    <SelectValue placeholder="Add a task row" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableTasks.map((task) => (
+                      <SelectItem key={task.id} value={task.id}>
+                        {task.title}{task.projects?.name ? ` (${task.projects.name})` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleSubmitWeek} disabled={submitting || entries.length === 0}>
+                  <Send className="h-4 w-4 mr-2" />
+                  {submitting ? 'Submitting...' : submission ? 'Resubmit Week' : 'Submit Week'}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WeeklyTimesheet;
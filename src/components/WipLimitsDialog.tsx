@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { TASK_STATUSES, TASK_STATUS_LABELS, TaskStatus } from '@/lib/tasks';
+
+export interface WipLimit {
+  project_id: string;
+  status: TaskStatus;
+  wip_limit: number;
+}
+
+interface WipLimitsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projects: { id: string; name: string }[];
+  limits: WipLimit[];
+  onSaved: () => void;
+}
+
+const emptyLimits = (): Record<TaskStatus, string> => ({ todo: '', in_progress: '', review: '', completed: '' });
+
+const WipLimitsDialog = ({ open, onOpenChange, projects, limits, onSaved }: WipLimitsDialogProps) => {
+  const { toast } = useToast();
+  const [projectId, setProjectId] = useState('');
+  const [values, setValues] = useState(emptyLimits());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setProjectId(projects[0]?.id || '');
+    }
+  }, [open]);
+
+  useEffect(() => {
+    const next = emptyLimits();
+    limits
+      .filter(limit => limit.project_id === projectId)
+      .forEach(limit => { next[limit.status] = String(limit.wip_limit); });
+    setValues(next);
+  }, [projectId, limits]);
+
+  const handleSave = async () => {
+    if (!projectId) return;
+
+    setSaving(true);
+    try {
+      const toSave = TASK_STATUSES
+        .filter(status => parseInt(values[status]) > 0)
+        .map(status => ({ project_id: projectId, status, wip_limit: parseInt(values[status]) }));
+      const toClear = TASK_STATUSES.filter(status => !(parseInt(values[status]) > 0));
+
+      if (toSave.length > 0) {
+        const { error } = await supabase
+          .from('project_wip_limits')
+          .upsert(toSave, { onConflict: 'project_id,status' });
+
+        if (error) throw error;
+      }
+
+      if (toClear.length > 0) {
+        const { error } = await supabase
+          .from('project_wip_limits')
+          .delete()
+          .eq('project_id', projectId)
+          .in('status', toClear);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "WIP limits saved",
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>WIP Limits</DialogTitle>
+          <DialogDescription>
+            Cap how many of a project's tasks can sit in each column. Leave blank for no limit.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Project</Label>
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a project" />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {TASK_STATUSES.map((status) => (
+              <div key={status} className="space-y-2">
+                <Label htmlFor={`wip_${status}`}>{TASK_STATUS_LABELS[status]}</Label>
+                <Input
+                  id={`wip_${status}`}
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={values[status]}
+                  onChange={(e) => setValues({ ...values, [status]: e.target.value })}
+                  placeholder="No limit"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !projectId}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WipLimitsDialog;
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_CURRENCY, ExchangeRate, convertToBase } from '@/lib/currency';
+
+export interface BaseCurrencyTotal {
+  total: number;
+  missingCurrencies: string[];
+}
+
+// Loads the base currency and its exchange rates for reporting totals across currencies
+export function useCurrency() {
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRates = useCallback(async () => {
+    try {
+      const { data: settings, error: settingsError } = await supabase
+        .from('company_settings')
+        .select('base_currency')
+        .maybeSingle();
+
+      if (settingsError) throw settingsError;
+
+      const base = settings?.base_currency || DEFAULT_CURRENCY;
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('currency, rate, effective_date')
+        .eq('base_currency', base);
+
+      if (error) throw error;
+
+      setBaseCurrency(base);
+      setRates(data || []);
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  // Sums amounts in the base currency; amounts without a rate are left out and reported
+  const sumInBase = useCallback((amounts: { amount: number; currency: string; date?: string }[]): BaseCurrencyTotal => {
+    const missing = new Set<string>();
+    const total = amounts.reduce((sum, { amount, currency, date }) => {
+      const converted = convertToBase(amount, currency, baseCurrency, rates, date);
+      if (converted === null) {
+        missing.add(currency);
+        return sum;
+      }
+      return sum + converted;
+    }, 0);
+
+    return { total: Math.round(total * 100) / 100, missingCurrencies: [...missing] };
+  }, [baseCurrency, rates]);
+
+  return { baseCurrency, rates, loading, sumInBase, refetch: fetchRates };
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface RunningTimer {
+  id: string;
+  task_id: string;
+  started_at: string;
+  tasks: { title: string } | null;
+}
+
+// Tracks the current member's running timer; starting and stopping go through RPCs so the
+// elapsed time is measured by the database clock, not the browser's
+export function useTaskTimer() {
+  const { profile } = useAuth();
+  const [timer, setTimer] = useState<RunningTimer | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const fetchTimer = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('task_timers')
+        .select('id, task_id, started_at, tasks (title)')
+        .eq('user_id', profile.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setTimer(data);
+    } catch (error) {
+      console.error('Error fetching running timer:', error);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    fetchTimer();
+  }, [fetchTimer]);
+
+  useEffect(() => {
+    if (!timer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const startTimer = useCallback(async (taskId: string) => {
+    const { error } = await supabase.rpc('start_task_timer', { p_task_id: taskId });
+    if (error) throw error;
+    await fetchTimer();
+  }, [fetchTimer]);
+
+  // Resolves to the logged time entry id, or null when under a minute had elapsed
+  const stopTimer = useCallback(async (description?: string) => {
+    const { data, error } = await supabase.rpc('stop_task_timer', { p_description: description || null });
+    if (error) throw error;
+    setTimer(null);
+    return data;
+  }, []);
+
+  const elapsedSeconds = timer ? Math.max((now - new Date(timer.started_at).getTime()) / 1000, 0) : 0;
+
+  return { timer, elapsedSeconds, startTimer, stopTimer, refetch: fetchTimer };
+}
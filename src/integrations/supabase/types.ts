@@ -20,6 +20,7 @@ export type Database = {
           company: string | null
           created_at: string
           created_by: string | null
+          currency: string
           email: string
           id: string
           name: string
@@ -33,6 +34,7 @@ export type Database = {
           company?: string | null
           created_at?: string
           created_by?: string | null
+          currency?: string
           email: string
           id?: string
           name: string
@@ -46,6 +48,7 @@ export type Database = {
           company?: string | null
           created_at?: string
           created_by?: string | null
+          currency?: string
           email?: string
           id?: string
           name?: string
@@ -64,6 +67,180 @@ export type Database = {
           },
         ]
       }
+      company_settings: {
+        Row: {
+          address: string | null
+          base_currency: string
+          company_name: string
+          email: string | null
+          id: number
+          invoice_footer: string | null
+          logo_url: string | null
+          payment_instructions: string | null
+          phone: string | null
+          tax_id: string | null
+          updated_at: string
+          website: string | null
+        }
+        Insert: {
+          address?: string | null
+          base_currency?: string
+          company_name?: string
+          email?: string | null
+          id?: number
+          invoice_footer?: string | null
+          logo_url?: string | null
+          payment_instructions?: string | null
+          phone?: string | null
+          tax_id?: string | null
+          updated_at?: string
+          website?: string | null
+        }
+        Update: {
+          address?: string | null
+          base_currency?: string
+          company_name?: string
+          email?: string | null
+          id?: number
+          invoice_footer?: string | null
+          logo_url?: string | null
+          payment_instructions?: string | null
+          phone?: string | null
+          tax_id?: string | null
+          updated_at?: string
+          website?: string | null
+        }
+        Relationships: []
+      }
+      custom_field_values: {
+        Row: {
+          date_value: string | null
+          field_id: string
+          id: string
+          number_value: number | null
+          project_id: string | null
+          task_id: string | null
+          text_value: string | null
+          updated_at: string
+          updated_by: string | null
+          user_value: string | null
+        }
+        Insert: {
+          date_value?: string | null
+          field_id: string
+          id?: string
+          number_value?: number | null
+          project_id?: string | null
+          task_id?: string | null
+          text_value?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          user_value?: string | null
+        }
+        Update: {
+          date_value?: string | null
+          field_id?: string
+          id?: string
+          number_value?: number | null
+          project_id?: string | null
+          task_id?: string | null
+          text_value?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          user_value?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_field_values_field_id_fkey"
+            columns: ["field_id"]
+            isOneToOne: false
+            referencedRelation: "custom_fields"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "custom_field_values_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "custom_field_values_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "custom_field_values_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "custom_field_values_user_value_fkey"
+            columns: ["user_value"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_fields: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          entity_type: string
+          field_type: string
+          id: string
+          name: string
+          options: string[]
+          project_id: string | null
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          entity_type: string
+          field_type: string
+          id?: string
+          name: string
+          options?: string[]
+          project_id?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          entity_type?: string
+          field_type?: string
+          id?: string
+          name?: string
+          options?: string[]
+          project_id?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_fields_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "custom_fields_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       daily_attendance: {
         Row: {
           check_in_time: string | null
@@ -100,12 +277,225 @@ export type Database = {
         }
         Relationships: []
       }
+      exchange_rates: {
+        Row: {
+          base_currency: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          effective_date: string
+          id: string
+          rate: number
+          updated_at: string
+        }
+        Insert: {
+          base_currency: string
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          effective_date?: string
+          id?: string
+          rate: number
+          updated_at?: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          effective_date?: string
+          id?: string
+          rate?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expenses: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          description: string
+          expense_date: string
+          id: string
+          notes: string | null
+          project_id: string | null
+          receipt_path: string | null
+          updated_at: string
+          vendor: string | null
+        }
+        Insert: {
+          amount: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          description: string
+          expense_date?: string
+          id?: string
+          notes?: string | null
+          project_id?: string | null
+          receipt_path?: string | null
+          updated_at?: string
+          vendor?: string | null
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          description?: string
+          expense_date?: string
+          id?: string
+          notes?: string | null
+          project_id?: string | null
+          receipt_path?: string | null
+          updated_at?: string
+          vendor?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expenses_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_items: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string
+          id: string
+          invoice_id: string
+          quantity: number
+          sort_order: number
+          tax_amount: number
+          tax_rate: number
+          unit_price: number
+        }
+        Insert: {
+          amount?: number
+          created_at?: string
+          description: string
+          id?: string
+          invoice_id: string
+          quantity?: number
+          sort_order?: number
+          tax_amount?: number
+          tax_rate?: number
+          unit_price?: number
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string
+          id?: string
+          invoice_id?: string
+          quantity?: number
+          sort_order?: number
+          tax_amount?: number
+          tax_rate?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_number_sequences: {
+        Row: {
+          last_value: number
+          year: number
+        }
+        Insert: {
+          last_value?: number
+          year: number
+        }
+        Update: {
+          last_value?: number
+          year?: number
+        }
+        Relationships: []
+      }
+      invoice_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["invoice_status"] | null
+          id: string
+          invoice_id: string
+          note: string | null
+          to_status: Database["public"]["Enums"]["invoice_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["invoice_status"] | null
+          id?: string
+          invoice_id: string
+          note?: string | null
+          to_status: Database["public"]["Enums"]["invoice_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["invoice_status"] | null
+          id?: string
+          invoice_id?: string
+          note?: string | null
+          to_status?: Database["public"]["Enums"]["invoice_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_status_history_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       invoices: {
         Row: {
           amount: number
+          amount_paid: number
           client_id: string
           created_at: string
           created_by: string
+          currency: string
           due_date: string
           id: string
           invoice_number: string
@@ -113,6 +503,7 @@ export type Database = {
           notes: string | null
           paid_date: string | null
           project_id: string | null
+          recurring_invoice_id: string | null
           status: Database["public"]["Enums"]["invoice_status"] | null
           tax_amount: number | null
           total_amount: number
@@ -120,9 +511,11 @@ export type Database = {
         }
         Insert: {
           amount: number
+          amount_paid?: number
           client_id: string
           created_at?: string
           created_by: string
+          currency?: string
           due_date: string
           id?: string
           invoice_number: string
@@ -130,6 +523,7 @@ export type Database = {
           notes?: string | null
           paid_date?: string | null
           project_id?: string | null
+          recurring_invoice_id?: string | null
           status?: Database["public"]["Enums"]["invoice_status"] | null
           tax_amount?: number | null
           total_amount: number
@@ -137,9 +531,11 @@ export type Database = {
         }
         Update: {
           amount?: number
+          amount_paid?: number
           client_id?: string
           created_at?: string
           created_by?: string
+          currency?: string
           due_date?: string
           id?: string
           invoice_number?: string
@@ -147,6 +543,7 @@ export type Database = {
           notes?: string | null
           paid_date?: string | null
           project_id?: string | null
+          recurring_invoice_id?: string | null
           status?: Database["public"]["Enums"]["invoice_status"] | null
           tax_amount?: number | null
           total_amount?: number
@@ -174,6 +571,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "invoices_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
         ]
       }
       leave_applications: {
@@ -304,33 +708,87 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      payments: {
         Row: {
-          avatar_url: string | null
+          amount: number
           created_at: string
-          email: string
-          first_name: string
-          hourly_rate: number | null
           id: string
-          is_active: boolean | null
-          last_name: string
-          phone: string | null
-          role: Database["public"]["Enums"]["user_role"]
+          invoice_id: string
+          method: string
+          notes: string | null
+          payment_date: string
+          recorded_by: string | null
+          reference: string | null
           updated_at: string
-          user_id: string
-          working_hours_per_week: number | null
         }
         Insert: {
-          avatar_url?: string | null
+          amount: number
           created_at?: string
-          email: string
-          first_name: string
-          hourly_rate?: number | null
           id?: string
-          is_active?: boolean | null
-          last_name: string
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
+          invoice_id: string
+          method?: string
+          notes?: string | null
+          payment_date?: string
+          recorded_by?: string | null
+          reference?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          method?: string
+          notes?: string | null
+          payment_date?: string
+          recorded_by?: string | null
+          reference?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          email: string
+          first_name: string
+          hourly_rate: number | null
+          id: string
+          is_active: boolean | null
+          last_name: string
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string
+          user_id: string
+          working_hours_per_week: number | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          email: string
+          first_name: string
+          hourly_rate?: number | null
+          id?: string
+          is_active?: boolean | null
+          last_name: string
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
           updated_at?: string
           user_id: string
           working_hours_per_week?: number | null
@@ -352,145 +810,765 @@ export type Database = {
         }
         Relationships: []
       }
-      project_members: {
+      project_members: {
+        Row: {
+          allocated_hours: number | null
+          created_at: string
+          id: string
+          project_id: string
+          role: string | null
+          user_id: string
+        }
+        Insert: {
+          allocated_hours?: number | null
+          created_at?: string
+          id?: string
+          project_id: string
+          role?: string | null
+          user_id: string
+        }
+        Update: {
+          allocated_hours?: number | null
+          created_at?: string
+          id?: string
+          project_id?: string
+          role?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_members_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_template_tasks: {
+        Row: {
+          created_at: string
+          default_role: string | null
+          description: string | null
+          due_offset_days: number | null
+          estimated_hours: number | null
+          id: string
+          phase: string | null
+          priority: Database["public"]["Enums"]["task_priority"]
+          sort_order: number
+          start_offset_days: number | null
+          template_id: string
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          default_role?: string | null
+          description?: string | null
+          due_offset_days?: number | null
+          estimated_hours?: number | null
+          id?: string
+          phase?: string | null
+          priority?: Database["public"]["Enums"]["task_priority"]
+          sort_order?: number
+          start_offset_days?: number | null
+          template_id: string
+          title: string
+        }
+        Update: {
+          created_at?: string
+          default_role?: string | null
+          description?: string | null
+          due_offset_days?: number | null
+          estimated_hours?: number | null
+          id?: string
+          phase?: string | null
+          priority?: Database["public"]["Enums"]["task_priority"]
+          sort_order?: number
+          start_offset_days?: number | null
+          template_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_template_tasks_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "project_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_wip_limits: {
+        Row: {
+          created_at: string
+          id: string
+          project_id: string
+          status: Database["public"]["Enums"]["task_status"]
+          updated_at: string
+          wip_limit: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          project_id: string
+          status: Database["public"]["Enums"]["task_status"]
+          updated_at?: string
+          wip_limit: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          project_id?: string
+          status?: Database["public"]["Enums"]["task_status"]
+          updated_at?: string
+          wip_limit?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_wip_limits_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          actual_hours: number | null
+          billing_rate: number | null
+          budget: number | null
+          client_id: string | null
+          created_at: string
+          currency: string
+          description: string | null
+          end_date: string | null
+          estimated_hours: number | null
+          id: string
+          name: string
+          project_manager_id: string | null
+          start_date: string | null
+          status: Database["public"]["Enums"]["project_status"] | null
+          updated_at: string
+        }
+        Insert: {
+          actual_hours?: number | null
+          billing_rate?: number | null
+          budget?: number | null
+          client_id?: string | null
+          created_at?: string
+          currency?: string
+          description?: string | null
+          end_date?: string | null
+          estimated_hours?: number | null
+          id?: string
+          name: string
+          project_manager_id?: string | null
+          start_date?: string | null
+          status?: Database["public"]["Enums"]["project_status"] | null
+          updated_at?: string
+        }
+        Update: {
+          actual_hours?: number | null
+          billing_rate?: number | null
+          budget?: number | null
+          client_id?: string | null
+          created_at?: string
+          currency?: string
+          description?: string | null
+          end_date?: string | null
+          estimated_hours?: number | null
+          id?: string
+          name?: string
+          project_manager_id?: string | null
+          start_date?: string | null
+          status?: Database["public"]["Enums"]["project_status"] | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_project_manager_id_fkey"
+            columns: ["project_manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoice_items: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          quantity: number
+          recurring_invoice_id: string
+          sort_order: number
+          tax_rate: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          quantity?: number
+          recurring_invoice_id: string
+          sort_order?: number
+          tax_rate?: number
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          quantity?: number
+          recurring_invoice_id?: string
+          sort_order?: number
+          tax_rate?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoice_items_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoices: {
+        Row: {
+          anchor_date: string
+          cadence: string
+          client_id: string
+          created_at: string
+          created_by: string
+          currency: string
+          end_date: string | null
+          id: string
+          is_active: boolean
+          last_run_date: string | null
+          name: string
+          next_run_date: string
+          notes: string | null
+          payment_terms_days: number
+          project_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          anchor_date?: string
+          cadence?: string
+          client_id: string
+          created_at?: string
+          created_by: string
+          currency?: string
+          end_date?: string | null
+          id?: string
+          is_active?: boolean
+          last_run_date?: string | null
+          name: string
+          next_run_date: string
+          notes?: string | null
+          payment_terms_days?: number
+          project_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          anchor_date?: string
+          cadence?: string
+          client_id?: string
+          created_at?: string
+          created_by?: string
+          currency?: string
+          end_date?: string | null
+          id?: string
+          is_active?: boolean
+          last_run_date?: string | null
+          name?: string
+          next_run_date?: string
+          notes?: string | null
+          payment_terms_days?: number
+          project_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoices_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoices_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sprints: {
+        Row: {
+          committed_hours: number | null
+          completed_hours: number | null
+          created_at: string
+          created_by: string | null
+          end_date: string
+          goal: string | null
+          id: string
+          name: string
+          project_id: string
+          start_date: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          committed_hours?: number | null
+          completed_hours?: number | null
+          created_at?: string
+          created_by?: string | null
+          end_date: string
+          goal?: string | null
+          id?: string
+          name: string
+          project_id: string
+          start_date: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          committed_hours?: number | null
+          completed_hours?: number | null
+          created_at?: string
+          created_by?: string | null
+          end_date?: string
+          goal?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+          start_date?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sprints_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sprints_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_activity: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          field: string
+          from_value: string | null
+          id: string
+          task_id: string
+          to_value: string | null
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          field: string
+          from_value?: string | null
+          id?: string
+          task_id: string
+          to_value?: string | null
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          field?: string
+          from_value?: string | null
+          id?: string
+          task_id?: string
+          to_value?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_activity_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_activity_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string
+          id: string
+          size_bytes: number
+          storage_path: string
+          task_id: string
+          uploaded_by: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name: string
+          id?: string
+          size_bytes: number
+          storage_path: string
+          task_id: string
+          uploaded_by: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          id?: string
+          size_bytes?: number
+          storage_path?: string
+          task_id?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_attachments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_attachments_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_checklist_items: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_completed: boolean
+          position: number
+          task_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_completed?: boolean
+          position?: number
+          task_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_completed?: boolean
+          position?: number
+          task_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_checklist_items_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_checklist_items_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_comments: {
+        Row: {
+          comment: string
+          created_at: string
+          id: string
+          task_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          comment: string
+          created_at?: string
+          id?: string
+          task_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          comment?: string
+          created_at?: string
+          id?: string
+          task_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_dependencies: {
+        Row: {
+          blocked_task_id: string
+          blocking_task_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+        }
+        Insert: {
+          blocked_task_id: string
+          blocking_task_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+        }
+        Update: {
+          blocked_task_id?: string
+          blocking_task_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_dependencies_blocked_task_id_fkey"
+            columns: ["blocked_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_blocking_task_id_fkey"
+            columns: ["blocking_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_recurrences: {
         Row: {
-          allocated_hours: number | null
           created_at: string
+          created_by: string | null
+          end_date: string | null
           id: string
-          project_id: string
-          role: string | null
-          user_id: string
+          is_active: boolean
+          next_due_date: string
+          next_spawn_date: string
+          rrule: string
+          spawn_on: string
+          updated_at: string
         }
         Insert: {
-          allocated_hours?: number | null
           created_at?: string
+          created_by?: string | null
+          end_date?: string | null
           id?: string
-          project_id: string
-          role?: string | null
-          user_id: string
+          is_active?: boolean
+          next_due_date: string
+          next_spawn_date: string
+          rrule: string
+          spawn_on?: string
+          updated_at?: string
         }
         Update: {
-          allocated_hours?: number | null
           created_at?: string
+          created_by?: string | null
+          end_date?: string | null
           id?: string
-          project_id?: string
-          role?: string | null
-          user_id?: string
+          is_active?: boolean
+          next_due_date?: string
+          next_spawn_date?: string
+          rrule?: string
+          spawn_on?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "project_members_project_id_fkey"
-            columns: ["project_id"]
-            isOneToOne: false
-            referencedRelation: "projects"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "project_members_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "task_recurrences_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      projects: {
+      task_saved_views: {
         Row: {
-          actual_hours: number | null
-          budget: number | null
-          client_id: string | null
           created_at: string
-          description: string | null
-          end_date: string | null
-          estimated_hours: number | null
           id: string
           name: string
-          project_manager_id: string | null
-          start_date: string | null
-          status: Database["public"]["Enums"]["project_status"] | null
+          query: string
           updated_at: string
+          user_id: string
         }
         Insert: {
-          actual_hours?: number | null
-          budget?: number | null
-          client_id?: string | null
           created_at?: string
-          description?: string | null
-          end_date?: string | null
-          estimated_hours?: number | null
           id?: string
           name: string
-          project_manager_id?: string | null
-          start_date?: string | null
-          status?: Database["public"]["Enums"]["project_status"] | null
+          query?: string
           updated_at?: string
+          user_id: string
         }
         Update: {
-          actual_hours?: number | null
-          budget?: number | null
-          client_id?: string | null
           created_at?: string
-          description?: string | null
-          end_date?: string | null
-          estimated_hours?: number | null
           id?: string
           name?: string
-          project_manager_id?: string | null
-          start_date?: string | null
-          status?: Database["public"]["Enums"]["project_status"] | null
+          query?: string
           updated_at?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "projects_client_id_fkey"
-            columns: ["client_id"]
-            isOneToOne: false
-            referencedRelation: "clients"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "projects_project_manager_id_fkey"
-            columns: ["project_manager_id"]
+            foreignKeyName: "task_saved_views_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      task_comments: {
+      task_timers: {
         Row: {
-          comment: string
           created_at: string
           id: string
+          started_at: string
           task_id: string
           user_id: string
         }
         Insert: {
-          comment: string
           created_at?: string
           id?: string
+          started_at?: string
           task_id: string
           user_id: string
         }
         Update: {
-          comment?: string
           created_at?: string
           id?: string
+          started_at?: string
           task_id?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "task_comments_task_id_fkey"
+            foreignKeyName: "task_timers_task_id_fkey"
             columns: ["task_id"]
             isOneToOne: false
             referencedRelation: "tasks"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "task_comments_user_id_fkey"
+            foreignKeyName: "task_timers_user_id_fkey"
             columns: ["user_id"]
-            isOneToOne: false
+            isOneToOne: true
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
@@ -503,12 +1581,18 @@ export type Database = {
           completed_at: string | null
           created_at: string
           created_by: string
+          deleted_at: string | null
           description: string | null
           due_date: string | null
           estimated_hours: number | null
           id: string
+          parent_task_id: string | null
+          position: number
           priority: Database["public"]["Enums"]["task_priority"] | null
           project_id: string
+          recurrence_id: string | null
+          sprint_id: string | null
+          start_date: string | null
           status: Database["public"]["Enums"]["task_status"] | null
           title: string
           updated_at: string
@@ -519,12 +1603,18 @@ export type Database = {
           completed_at?: string | null
           created_at?: string
           created_by: string
+          deleted_at?: string | null
           description?: string | null
           due_date?: string | null
           estimated_hours?: number | null
           id?: string
+          parent_task_id?: string | null
+          position?: number
           priority?: Database["public"]["Enums"]["task_priority"] | null
           project_id: string
+          recurrence_id?: string | null
+          sprint_id?: string | null
+          start_date?: string | null
           status?: Database["public"]["Enums"]["task_status"] | null
           title: string
           updated_at?: string
@@ -535,12 +1625,18 @@ export type Database = {
           completed_at?: string | null
           created_at?: string
           created_by?: string
+          deleted_at?: string | null
           description?: string | null
           due_date?: string | null
           estimated_hours?: number | null
           id?: string
+          parent_task_id?: string | null
+          position?: number
           priority?: Database["public"]["Enums"]["task_priority"] | null
           project_id?: string
+          recurrence_id?: string | null
+          sprint_id?: string | null
+          start_date?: string | null
           status?: Database["public"]["Enums"]["task_status"] | null
           title?: string
           updated_at?: string
@@ -560,6 +1656,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_parent_task_id_fkey"
+            columns: ["parent_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_project_id_fkey"
             columns: ["project_id"]
@@ -567,6 +1670,80 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_recurrence_id_fkey"
+            columns: ["recurrence_id"]
+            isOneToOne: false
+            referencedRelation: "task_recurrences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_sprint_id_fkey"
+            columns: ["sprint_id"]
+            isOneToOne: false
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timesheet_submissions: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          review_notes: string | null
+          status: string
+          submitted_at: string
+          total_hours: number
+          updated_at: string
+          user_id: string
+          week_start: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          review_notes?: string | null
+          status?: string
+          submitted_at?: string
+          total_hours?: number
+          updated_at?: string
+          user_id: string
+          week_start: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          review_notes?: string | null
+          status?: string
+          submitted_at?: string
+          total_hours?: number
+          updated_at?: string
+          user_id?: string
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheet_submissions_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timesheet_submissions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       time_entries: {
@@ -576,6 +1753,7 @@ export type Database = {
           description: string | null
           hours: number
           id: string
+          invoice_item_id: string | null
           project_id: string
           task_id: string
           user_id: string
@@ -586,6 +1764,7 @@ export type Database = {
           description?: string | null
           hours: number
           id?: string
+          invoice_item_id?: string | null
           project_id: string
           task_id: string
           user_id: string
@@ -596,11 +1775,19 @@ export type Database = {
           description?: string | null
           hours?: number
           id?: string
+          invoice_item_id?: string | null
           project_id?: string
           task_id?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "time_entries_invoice_item_id_fkey"
+            columns: ["invoice_item_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_items"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "time_entries_project_id_fkey"
             columns: ["project_id"]
@@ -706,17 +1893,289 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      project_profitability: {
+        Row: {
+          budget: number | null
+          budget_base: number | null
+          budget_currency: string | null
+          client_id: string | null
+          expenses: number | null
+          hours: number | null
+          labor_cost: number | null
+          missing_currencies: string[] | null
+          profit: number | null
+          project_id: string | null
+          project_name: string | null
+          revenue: number | null
+          status: Database["public"]["Enums"]["project_status"] | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      advance_recurring_date: {
+        Args: {
+          p_anchor: string
+          p_cadence: string
+          p_date: string
+        }
+        Returns: string
+      }
       auto_mark_absent_members: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      bulk_delete_tasks: {
+        Args: {
+          p_task_ids: string[]
+        }
+        Returns: number
+      }
+      bulk_update_tasks: {
+        Args: {
+          p_changes: Json
+          p_task_ids: string[]
+        }
+        Returns: Json
+      }
+      complete_sprint: {
+        Args: {
+          p_next_sprint_id?: string
+          p_sprint_id: string
+        }
+        Returns: number
+      }
+      convert_to_base_currency: {
+        Args: {
+          p_amount: number
+          p_currency: string
+          p_date?: string
+        }
+        Returns: number
+      }
+      create_invoice_from_time_entries: {
+        Args: {
+          p_client_id: string
+          p_due_date?: string
+          p_end_date: string
+          p_project_id?: string
+          p_start_date: string
+        }
+        Returns: string
+      }
+      create_project_from_template: {
+        Args: {
+          p_member_ids?: string[]
+          p_project: Json
+          p_role_members?: Json
+          p_template_id: string
+        }
+        Returns: string
+      }
+      discard_recurring_instance: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: string
+      }
+      generate_invoice_number: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      generate_recurring_invoices: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      generate_recurring_tasks: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_ar_aging: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          amount: number
+          bucket: string
+          invoice_count: number
+          missing_currencies: string[]
+        }[]
+      }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_finance_summary: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          missing_currencies: string[]
+          overdue_amount: number
+          paid_last_month: number
+          paid_this_month: number
+          pending_amount: number
+          total_revenue: number
+        }[]
+      }
+      get_monthly_revenue: {
+        Args: {
+          p_months?: number
+        }
+        Returns: {
+          collected: number
+          invoiced: number
+          missing_currencies: string[]
+          month: string
+        }[]
+      }
+      get_related_tasks: {
+        Args: {
+          p_task_ids: string[]
+        }
+        Returns: {
+          actual_hours: number | null
+          assigned_to: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string
+          description: string | null
+          due_date: string | null
+          estimated_hours: number | null
+          id: string
+          parent_task_id: string | null
+          position: number
+          priority: Database["public"]["Enums"]["task_priority"] | null
+          project_id: string
+          recurrence_id: string | null
+          sprint_id: string | null
+          start_date: string | null
+          status: Database["public"]["Enums"]["task_status"] | null
+          title: string
+          updated_at: string
+        }[]
+      }
+      get_revenue_by_client: {
+        Args: {
+          p_end_date: string
+          p_start_date: string
+        }
+        Returns: {
+          client_id: string
+          client_name: string
+          collected: number
+          invoiced: number
+          missing_currencies: string[]
+        }[]
+      }
+      get_revenue_by_project: {
+        Args: {
+          p_end_date: string
+          p_start_date: string
+        }
+        Returns: {
+          invoiced: number
+          missing_currencies: string[]
+          project_id: string | null
+          project_name: string
+        }[]
+      }
+      get_sprint_capacity: {
+        Args: {
+          p_sprint_id: string
+        }
+        Returns: {
+          capacity_hours: number
+          committed_hours: number
+          first_name: string
+          last_name: string
+          leave_days: number
+          profile_id: string
+          weekly_hours: number
+          working_days: number
+        }[]
+      }
+      get_task_column_counts: {
+        Args: {
+          p_project_ids: string[]
+        }
+        Returns: {
+          project_id: string
+          status: Database["public"]["Enums"]["task_status"]
+          task_count: number
+        }[]
+      }
+      get_task_dependencies: {
+        Args: {
+          p_task_ids: string[]
+        }
+        Returns: {
+          blocked_task_id: string
+          blocking_task_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+        }[]
+      }
+      is_scheduled_job: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_timesheet_week_locked: {
+        Args: {
+          p_date: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      mark_overdue_invoices: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      next_recurrence_date: {
+        Args: {
+          p_date: string
+          p_rrule: string
+        }
+        Returns: string
+      }
+      restore_deleted_tasks: {
+        Args: {
+          p_task_ids: string[]
+        }
+        Returns: number
+      }
+      save_invoice: {
+        Args: {
+          p_invoice: Json
+          p_invoice_id?: string
+          p_items: Json
+        }
+        Returns: string
+      }
+      set_task_recurrence: {
+        Args: {
+          p_end_date?: string
+          p_rrule: string
+          p_spawn_on?: string
+          p_task_id: string
+        }
+        Returns: string
+      }
+      start_task_timer: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: string
+      }
+      stop_task_timer: {
+        Args: {
+          p_description?: string
+        }
+        Returns: string
+      }
+      undo_bulk_task_update: {
+        Args: {
+          p_previous: Json
+        }
+        Returns: number
+      }
     }
     Enums: {
       invoice_status: "draft" | "sent" | "paid" | "overdue" | "cancelled"
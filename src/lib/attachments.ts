@@ -0,0 +1,53 @@
+// Task attachment limits; the task-attachments bucket enforces the same types and overall size cap
+
+export const ATTACHMENT_BUCKET = 'task-attachments';
+
+interface AttachmentRule {
+  label: string;
+  types: string[];
+  maxBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+const ATTACHMENT_RULES: AttachmentRule[] = [
+  { label: 'Images', types: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'], maxBytes: 5 * MB },
+  { label: 'PDFs', types: ['application/pdf'], maxBytes: 10 * MB },
+  { label: 'Text and CSV files', types: ['text/plain', 'text/csv'], maxBytes: 2 * MB },
+  {
+    label: 'Office documents',
+    types: [
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ],
+    maxBytes: 10 * MB,
+  },
+  { label: 'ZIP archives', types: ['application/zip'], maxBytes: 10 * MB },
+];
+
+export const ATTACHMENT_ACCEPT = ATTACHMENT_RULES.flatMap(rule => rule.types).join(',');
+
+export const isImageAttachment = (contentType: string) => contentType.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+};
+
+// Returns why a file can't be attached, or null when it is fine
+export const getAttachmentError = (file: File) => {
+  const rule = ATTACHMENT_RULES.find(r => r.types.includes(file.type));
+  if (!rule) return `${file.name}: this file type isn't supported`;
+  if (file.size > rule.maxBytes) return `${file.name}: ${rule.label.toLowerCase()} must be ${formatFileSize(rule.maxBytes)} or smaller`;
+  return null;
+};
+
+export const getAttachmentLimitsSummary = () =>
+  ATTACHMENT_RULES.map(rule => `${rule.label} up to ${formatFileSize(rule.maxBytes)}`).join(', ');
+
+// Storage keys keep the original name readable but free of path separators and odd characters
+export const getAttachmentPath = (userId: string, taskId: string, fileName: string) =>
+  `${userId}/${taskId}/${Date.now()}-${fileName.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
@@ -0,0 +1,46 @@
+// Currency formatting and conversion into the company's base currency
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Currencies offered in pickers; any ISO 4217 code is accepted by the database
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'INR', 'BDT', 'AED', 'SGD', 'JPY'];
+
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+export const formatCurrency = (value: number, currency: string = DEFAULT_CURRENCY) =>
+  new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+
+// Rate in effect on the given date: the latest one on or before it, otherwise the earliest one after it
+export const findExchangeRate = (rates: ExchangeRate[], currency: string, date: string) => {
+  const candidates = rates
+    .filter(rate => rate.currency === currency)
+    .sort((a, b) => a.effective_date.localeCompare(b.effective_date));
+
+  if (candidates.length === 0) return null;
+
+  const effective = candidates.filter(rate => rate.effective_date <= date);
+  return effective.length > 0 ? effective[effective.length - 1] : candidates[0];
+};
+
+// Returns null when no rate is known, so callers can report it instead of mixing currencies
+export const convertToBase = (
+  amount: number,
+  currency: string,
+  baseCurrency: string,
+  rates: ExchangeRate[],
+  date: string = new Date().toISOString().split('T')[0]
+) => {
+  if (currency === baseCurrency) return amount;
+
+  const rate = findExchangeRate(rates, currency, date);
+  return rate ? Math.round(amount * rate.rate * 100) / 100 : null;
+};
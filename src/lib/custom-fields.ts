@@ -0,0 +1,132 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Admin-defined fields on tasks and projects. Form inputs hold every value as a string;
+// each field type is stored in its own typed column of custom_field_values.
+
+export type CustomFieldType = 'text' | 'number' | 'select' | 'date' | 'user';
+
+export type CustomFieldEntity = 'task' | 'project';
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Select',
+  date: 'Date',
+  user: 'User',
+};
+
+export interface CustomField {
+  id: string;
+  entity_type: CustomFieldEntity;
+  project_id: string | null;
+  name: string;
+  field_type: CustomFieldType;
+  options: string[];
+  sort_order: number;
+}
+
+export interface CustomFieldValue {
+  field_id: string;
+  text_value: string | null;
+  number_value: number | null;
+  date_value: string | null;
+  user_value: string | null;
+}
+
+type ValueColumn = 'text_value' | 'number_value' | 'date_value' | 'user_value';
+
+const VALUE_COLUMNS: Record<CustomFieldType, ValueColumn> = {
+  text: 'text_value',
+  number: 'number_value',
+  select: 'text_value',
+  date: 'date_value',
+  user: 'user_value',
+};
+
+export const getValueColumn = (type: CustomFieldType) => VALUE_COLUMNS[type];
+
+// Fields shown for a task in the given project (or a project), in their configured order
+export const getFieldsFor = (fields: CustomField[], entity: CustomFieldEntity, projectId?: string) =>
+  fields
+    .filter(field => field.entity_type === entity && (!field.project_id || field.project_id === projectId))
+    .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+
+// Form inputs keyed by field id
+export const toFieldInputs = (fields: CustomField[], values: CustomFieldValue[]) => {
+  const inputs: Record<string, string> = {};
+  values.forEach(value => {
+    const field = fields.find(f => f.id === value.field_id);
+    const stored = field ? value[getValueColumn(field.field_type)] : null;
+    if (stored !== null && stored !== undefined) inputs[value.field_id] = String(stored);
+  });
+  return inputs;
+};
+
+export const isValidFieldInput = (field: CustomField, input: string) => {
+  if (!input.trim()) return true;
+  if (field.field_type === 'number') return !isNaN(Number(input));
+  if (field.field_type === 'select') return field.options.includes(input);
+  return true;
+};
+
+// Fills in the value for the field's type and clears the other columns
+const toValueColumns = (field: CustomField, input: string) => ({
+  text_value: null,
+  number_value: null,
+  date_value: null,
+  user_value: null,
+  [getValueColumn(field.field_type)]: field.field_type === 'number' ? Number(input) : input.trim(),
+});
+
+export const formatFieldValue = (
+  field: CustomField,
+  input: string,
+  profiles: { id: string; first_name: string; last_name: string }[]
+) => {
+  if (!input) return '';
+  if (field.field_type === 'date') return new Date(`${input}T00:00:00`).toLocaleDateString();
+  if (field.field_type === 'user') {
+    const member = profiles.find(p => p.id === input);
+    return member ? `${member.first_name} ${member.last_name}` : 'a former member';
+  }
+  return input;
+};
+
+// Writes the inputs for one task or project; empty inputs remove the stored value
+export const saveCustomFieldValues = async (
+  target: { task_id: string } | { project_id: string },
+  fields: CustomField[],
+  inputs: Record<string, string>,
+  updatedBy?: string
+) => {
+  const targetColumn = 'task_id' in target ? 'task_id' : 'project_id';
+  const targetId = 'task_id' in target ? target.task_id : target.project_id;
+  const filled = fields.filter(field => inputs[field.id]?.trim());
+  const cleared = fields.filter(field => !inputs[field.id]?.trim());
+
+  if (filled.length > 0) {
+    const { error } = await supabase
+      .from('custom_field_values')
+      .upsert(
+        filled.map(field => ({
+          field_id: field.id,
+          [targetColumn]: targetId,
+          ...toValueColumns(field, inputs[field.id]),
+          updated_by: updatedBy || null,
+        })),
+        { onConflict: `field_id,${targetColumn}` }
+      );
+
+    if (error) throw error;
+  }
+
+  if (cleared.length > 0) {
+    const { error } = await supabase
+      .from('custom_field_values')
+      .delete()
+      .eq(targetColumn, targetId)
+      .in('field_id', cleared.map(field => field.id));
+
+    if (error) throw error;
+  }
+};
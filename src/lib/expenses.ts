@@ -0,0 +1,25 @@
+// Shared expense helpers used by the Finance page
+
+export type ExpenseCategory = 'software' | 'hardware' | 'contractor' | 'travel' | 'office' | 'marketing' | 'other';
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  software: 'Software & Subscriptions',
+  hardware: 'Hardware',
+  contractor: 'Contractors',
+  travel: 'Travel',
+  office: 'Office',
+  marketing: 'Marketing',
+  other: 'Other',
+};
+
+export const getExpenseCategoryColor = (category: string) => {
+  switch (category) {
+    case 'software': return 'bg-blue-100 text-blue-800';
+    case 'hardware': return 'bg-purple-100 text-purple-800';
+    case 'contractor': return 'bg-orange-100 text-orange-800';
+    case 'travel': return 'bg-yellow-100 text-yellow-800';
+    case 'office': return 'bg-green-100 text-green-800';
+    case 'marketing': return 'bg-pink-100 text-pink-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
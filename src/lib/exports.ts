@@ -0,0 +1,312 @@
+// Accounting exports for the Finance page: plain CSV, Xero CSV import layouts and QuickBooks IIF
+import { Tables } from '@/integrations/supabase/types';
+import { ExpenseCategory, EXPENSE_CATEGORY_LABELS } from '@/lib/expenses';
+import { PaymentMethod, PAYMENT_METHOD_LABELS, getOutstandingBalance } from '@/lib/invoices';
+
+export type ExportDataset = 'invoices' | 'payments' | 'expenses';
+export type ExportFormat = 'csv' | 'xero' | 'iif';
+
+export const EXPORT_DATASET_LABELS: Record<ExportDataset, string> = {
+  invoices: 'Invoices',
+  payments: 'Payments',
+  expenses: 'Expenses',
+};
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xero: 'Xero CSV',
+  iif: 'QuickBooks IIF',
+};
+
+export type InvoiceExportRow = Tables<'invoices'> & {
+  clients: Pick<Tables<'clients'>, 'name' | 'email'> | null;
+  projects: Pick<Tables<'projects'>, 'name'> | null;
+  invoice_items: Pick<Tables<'invoice_items'>, 'description' | 'quantity' | 'unit_price' | 'amount' | 'tax_rate' | 'tax_amount' | 'sort_order'>[];
+};
+
+export type PaymentExportRow = Tables<'payments'> & {
+  invoices: (Pick<Tables<'invoices'>, 'invoice_number' | 'currency'> & {
+    clients: Pick<Tables<'clients'>, 'name'> | null;
+  }) | null;
+};
+
+export type ExpenseExportRow = Tables<'expenses'> & {
+  projects: Pick<Tables<'projects'>, 'name'> | null;
+};
+
+type ExportValue = string | number | null | undefined;
+
+interface ExportColumn<Row> {
+  header: string;
+  value: (row: Row) => ExportValue;
+}
+
+// Columns copied straight from the table, keyed by the generated row type so a renamed column fails the build
+type ColumnMapping<Row> = { [K in keyof Row]?: string };
+
+const mapColumns = <Row>(mapping: ColumnMapping<Row>): ExportColumn<Row>[] =>
+  (Object.keys(mapping) as (keyof Row)[]).map((key) => ({
+    header: mapping[key] as string,
+    value: (row: Row) => row[key] as ExportValue,
+  }));
+
+const INVOICE_COLUMN_MAPPING: ColumnMapping<Tables<'invoices'>> = {
+  invoice_number: 'Invoice Number',
+  status: 'Status',
+  issue_date: 'Issue Date',
+  due_date: 'Due Date',
+  paid_date: 'Paid Date',
+  currency: 'Currency',
+  amount: 'Subtotal',
+  tax_amount: 'Tax',
+  total_amount: 'Total',
+  amount_paid: 'Amount Paid',
+  notes: 'Notes',
+};
+
+const PAYMENT_COLUMN_MAPPING: ColumnMapping<Tables<'payments'>> = {
+  payment_date: 'Payment Date',
+  amount: 'Amount',
+  reference: 'Reference',
+  notes: 'Notes',
+};
+
+const EXPENSE_COLUMN_MAPPING: ColumnMapping<Tables<'expenses'>> = {
+  expense_date: 'Date',
+  description: 'Description',
+  vendor: 'Vendor',
+  amount: 'Amount',
+  currency: 'Currency',
+  notes: 'Notes',
+};
+
+const INVOICE_COLUMNS: ExportColumn<InvoiceExportRow>[] = [
+  ...mapColumns<InvoiceExportRow>(INVOICE_COLUMN_MAPPING),
+  { header: 'Balance Due', value: (invoice) => getOutstandingBalance(invoice) },
+  { header: 'Client', value: (invoice) => invoice.clients?.name },
+  { header: 'Project', value: (invoice) => invoice.projects?.name },
+];
+
+const PAYMENT_COLUMNS: ExportColumn<PaymentExportRow>[] = [
+  { header: 'Invoice Number', value: (payment) => payment.invoices?.invoice_number },
+  { header: 'Client', value: (payment) => payment.invoices?.clients?.name },
+  ...mapColumns<PaymentExportRow>(PAYMENT_COLUMN_MAPPING),
+  { header: 'Currency', value: (payment) => payment.invoices?.currency },
+  { header: 'Method', value: (payment) => PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] || payment.method },
+];
+
+const EXPENSE_COLUMNS: ExportColumn<ExpenseExportRow>[] = [
+  ...mapColumns<ExpenseExportRow>(EXPENSE_COLUMN_MAPPING),
+  { header: 'Category', value: (expense) => EXPENSE_CATEGORY_LABELS[expense.category as ExpenseCategory] || expense.category },
+  { header: 'Project', value: (expense) => expense.projects?.name || 'Company overhead' },
+];
+
+// Account names and codes an accountant can remap on import. Xero codes follow its default chart of accounts.
+const IIF_ACCOUNTS = {
+  receivable: 'Accounts Receivable',
+  income: 'Services',
+  salesTax: 'Sales Tax Payable',
+  undepositedFunds: 'Undeposited Funds',
+  bank: 'Checking',
+};
+
+const XERO_SALES_ACCOUNT = '200';
+
+const XERO_EXPENSE_ACCOUNTS: Record<ExpenseCategory, string> = {
+  software: '485',
+  hardware: '429',
+  contractor: '412',
+  travel: '493',
+  office: '453',
+  marketing: '400',
+  other: '429',
+};
+
+// Spreadsheets run text starting with =, +, -, @, a tab or a carriage return as a formula, so
+// such text (but not a plain number like a negative amount) gets an apostrophe to show as typed
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+const escapeCsv = (value: ExportValue) => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (FORMULA_PREFIX.test(text) && !NUMBER.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (headers: string[], rows: ExportValue[][]) =>
+  [headers, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+
+// IIF is tab-delimited with no quoting, so tabs and line breaks inside values become spaces
+const toIif = (rows: ExportValue[][]) =>
+  rows.map(row => row.map(value => (value === null || value === undefined ? '' : String(value).replace(/[\t\r\n]+/g, ' '))).join('\t')).join('\r\n');
+
+const formatColumns = <Row>(columns: ExportColumn<Row>[], rows: Row[]) =>
+  toCsv(columns.map(column => column.header), rows.map(row => columns.map(column => column.value(row))));
+
+// QuickBooks and US-region Xero organisations both expect MM/DD/YYYY
+const formatUsDate = (date: string | null) => {
+  if (!date) return '';
+  const [year, month, day] = date.split('-');
+  return `${month}/${day}/${year}`;
+};
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+const sortedItems = (invoice: InvoiceExportRow) =>
+  [...invoice.invoice_items].sort((a, b) => a.sort_order - b.sort_order);
+
+const toXeroInvoices = (invoices: InvoiceExportRow[]) =>
+  toCsv(
+    ['*ContactName', 'EmailAddress', '*InvoiceNumber', 'Reference', '*InvoiceDate', '*DueDate', '*Description', '*Quantity', '*UnitAmount', '*AccountCode', '*TaxType', 'TaxAmount', 'Currency'],
+    invoices.flatMap(invoice =>
+      sortedItems(invoice).map(item => [
+        invoice.clients?.name,
+        invoice.clients?.email,
+        invoice.invoice_number,
+        invoice.projects?.name,
+        formatUsDate(invoice.issue_date),
+        formatUsDate(invoice.due_date),
+        item.description,
+        item.quantity,
+        formatAmount(item.unit_price),
+        XERO_SALES_ACCOUNT,
+        item.tax_rate > 0 ? 'Tax on Sales' : 'Tax Exempt',
+        formatAmount(item.tax_amount),
+        invoice.currency,
+      ])
+    )
+  );
+
+// Xero has no payment import, so payments use its bank statement layout for reconciliation
+const toXeroPayments = (payments: PaymentExportRow[]) =>
+  toCsv(
+    ['*Date', '*Amount', 'Payee', 'Description', 'Reference'],
+    payments.map(payment => [
+      formatUsDate(payment.payment_date),
+      formatAmount(payment.amount),
+      payment.invoices?.clients?.name,
+      `Payment for ${payment.invoices?.invoice_number || 'invoice'}`,
+      payment.reference,
+    ])
+  );
+
+// Expenses are imported into Xero as bills
+const toXeroExpenses = (expenses: ExpenseExportRow[]) =>
+  toCsv(
+    ['*ContactName', '*InvoiceNumber', '*InvoiceDate', '*DueDate', '*Description', '*Quantity', '*UnitAmount', '*AccountCode', '*TaxType', 'Currency'],
+    expenses.map(expense => [
+      expense.vendor || 'Unknown vendor',
+      `EXP-${expense.id.slice(0, 8).toUpperCase()}`,
+      formatUsDate(expense.expense_date),
+      formatUsDate(expense.expense_date),
+      expense.description,
+      1,
+      formatAmount(expense.amount),
+      XERO_EXPENSE_ACCOUNTS[expense.category as ExpenseCategory] || XERO_EXPENSE_ACCOUNTS.other,
+      'Tax Exempt',
+      expense.currency,
+    ])
+  );
+
+// Each transaction is a TRNS line, balancing SPL lines and ENDTRNS; SPL amounts carry the opposite sign
+const toIifInvoices = (invoices: InvoiceExportRow[]) =>
+  toIif([
+    ['!TRNS', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO', 'DUEDATE'],
+    ['!SPL', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO', 'QNTY', 'PRICE'],
+    ['!ENDTRNS'],
+    ...invoices.flatMap(invoice => {
+      const date = formatUsDate(invoice.issue_date);
+      const name = invoice.clients?.name;
+      const taxAmount = invoice.tax_amount || 0;
+
+      return [
+        ['TRNS', 'INVOICE', date, IIF_ACCOUNTS.receivable, name, formatAmount(invoice.total_amount), invoice.invoice_number, invoice.projects?.name, formatUsDate(invoice.due_date)],
+        ...sortedItems(invoice).map(item => [
+          'SPL', 'INVOICE', date, IIF_ACCOUNTS.income, name, formatAmount(-item.amount), invoice.invoice_number, item.description, -item.quantity, formatAmount(item.unit_price),
+        ]),
+        ...(taxAmount > 0
+          ? [['SPL', 'INVOICE', date, IIF_ACCOUNTS.salesTax, name, formatAmount(-taxAmount), invoice.invoice_number, 'Tax']]
+          : []),
+        ['ENDTRNS'],
+      ];
+    }),
+  ]);
+
+const toIifPayments = (payments: PaymentExportRow[]) =>
+  toIif([
+    ['!TRNS', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO'],
+    ['!SPL', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO'],
+    ['!ENDTRNS'],
+    ...payments.flatMap(payment => {
+      const date = formatUsDate(payment.payment_date);
+      const name = payment.invoices?.clients?.name;
+      const invoiceNumber = payment.invoices?.invoice_number;
+
+      return [
+        ['TRNS', 'PAYMENT', date, IIF_ACCOUNTS.undepositedFunds, name, formatAmount(payment.amount), payment.reference, `Payment for ${invoiceNumber || 'invoice'}`],
+        ['SPL', 'PAYMENT', date, IIF_ACCOUNTS.receivable, name, formatAmount(-payment.amount), invoiceNumber, payment.notes],
+        ['ENDTRNS'],
+      ];
+    }),
+  ]);
+
+const toIifExpenses = (expenses: ExpenseExportRow[]) =>
+  toIif([
+    ['!TRNS', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'MEMO'],
+    ['!SPL', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'MEMO'],
+    ['!ENDTRNS'],
+    ...expenses.flatMap(expense => {
+      const date = formatUsDate(expense.expense_date);
+      const account = EXPENSE_CATEGORY_LABELS[expense.category as ExpenseCategory] || EXPENSE_CATEGORY_LABELS.other;
+
+      return [
+        ['TRNS', 'CHECK', date, IIF_ACCOUNTS.bank, expense.vendor, formatAmount(-expense.amount), expense.description],
+        ['SPL', 'CHECK', date, account, expense.vendor, formatAmount(expense.amount), expense.projects?.name || expense.notes],
+        ['ENDTRNS'],
+      ];
+    }),
+  ]);
+
+export type ExportRows =
+  | { dataset: 'invoices'; rows: InvoiceExportRow[] }
+  | { dataset: 'payments'; rows: PaymentExportRow[] }
+  | { dataset: 'expenses'; rows: ExpenseExportRow[] };
+
+export const buildExportFile = (data: ExportRows, format: ExportFormat) => {
+  if (format === 'iif') {
+    const content = data.dataset === 'invoices'
+      ? toIifInvoices(data.rows)
+      : data.dataset === 'payments'
+        ? toIifPayments(data.rows)
+        : toIifExpenses(data.rows);
+    return { content, extension: 'iif', mimeType: 'text/plain' };
+  }
+
+  let content: string;
+  if (format === 'xero') {
+    content = data.dataset === 'invoices'
+      ? toXeroInvoices(data.rows)
+      : data.dataset === 'payments'
+        ? toXeroPayments(data.rows)
+        : toXeroExpenses(data.rows);
+  } else {
+    content = data.dataset === 'invoices'
+      ? formatColumns(INVOICE_COLUMNS, data.rows)
+      : data.dataset === 'payments'
+        ? formatColumns(PAYMENT_COLUMNS, data.rows)
+        : formatColumns(EXPENSE_COLUMNS, data.rows);
+  }
+  return { content, extension: 'csv', mimeType: 'text/csv' };
+};
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
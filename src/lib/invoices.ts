@@ -0,0 +1,108 @@
+// Shared invoice helpers used by the Finance page and its dialogs
+
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
+
+// Mirrors validate_invoice_status_transition() in the database. 'overdue' is set by
+// mark_overdue_invoices() and 'paid' by recording payments that cover the total; moving an
+// overdue invoice back to 'sent' also needs a future due date.
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['paid', 'overdue', 'cancelled'],
+  overdue: ['paid', 'sent', 'cancelled'],
+  paid: ['sent', 'overdue'],
+  cancelled: [],
+};
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  paid: 'Paid',
+  overdue: 'Overdue',
+  cancelled: 'Cancelled',
+};
+
+// Statuses a user can pick by hand from the given status. Paid is reached (and left) through
+// the payment ledger only.
+export const getManualStatusOptions = (status: InvoiceStatus, dueDate: string) => {
+  const today = new Date().toISOString().split('T')[0];
+  if (status === 'paid') return [];
+
+  return INVOICE_STATUS_TRANSITIONS[status].filter(next =>
+    next !== 'overdue' && next !== 'paid' && !(status === 'overdue' && next === 'sent' && dueDate < today)
+  );
+};
+
+export type PaymentMethod = 'bank_transfer' | 'card' | 'cash' | 'cheque' | 'online' | 'other';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  bank_transfer: 'Bank Transfer',
+  card: 'Card',
+  cash: 'Cash',
+  cheque: 'Cheque',
+  online: 'Online',
+  other: 'Other',
+};
+
+export const getOutstandingBalance = (invoice: { total_amount: number; amount_paid: number | null }) =>
+  Math.max(roundCurrency(invoice.total_amount - (invoice.amount_paid || 0)), 0);
+
+export type RecurringCadence = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export const RECURRING_CADENCE_LABELS: Record<RecurringCadence, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+export interface InvoiceLineItem {
+  id?: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  tax_rate: number;
+}
+
+export const emptyLineItem = (): InvoiceLineItem => ({
+  description: '',
+  quantity: 1,
+  unit_price: 0,
+  tax_rate: 0,
+});
+
+export interface InvoiceTotals {
+  amount: number;
+  tax_amount: number;
+  total_amount: number;
+}
+
+// Round to cents the same way the database does (DECIMAL(12,2))
+export const roundCurrency = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const calculateLineAmount = (item: InvoiceLineItem) =>
+  roundCurrency((item.quantity || 0) * (item.unit_price || 0));
+
+export const calculateLineTax = (item: InvoiceLineItem) =>
+  roundCurrency(calculateLineAmount(item) * (item.tax_rate || 0) / 100);
+
+export const calculateInvoiceTotals = (items: InvoiceLineItem[]): InvoiceTotals => {
+  const amount = roundCurrency(items.reduce((sum, item) => sum + calculateLineAmount(item), 0));
+  const tax_amount = roundCurrency(items.reduce((sum, item) => sum + calculateLineTax(item), 0));
+
+  return {
+    amount,
+    tax_amount,
+    total_amount: roundCurrency(amount + tax_amount),
+  };
+};
+
+export const getInvoiceStatusColor = (status: string) => {
+  switch (status) {
+    case 'draft': return 'bg-gray-100 text-gray-800';
+    case 'sent': return 'bg-blue-100 text-blue-800';
+    case 'paid': return 'bg-green-100 text-green-800';
+    case 'overdue': return 'bg-red-100 text-red-800';
+    case 'cancelled': return 'bg-gray-100 text-gray-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
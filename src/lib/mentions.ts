@@ -0,0 +1,11 @@
+// Mentions are stored inline in comment text as @[Display Name](profile-id)
+
+export const formatMention = (profile: { id: string; first_name: string; last_name: string }) =>
+  `@[${profile.first_name} ${profile.last_name}](${profile.id})`;
+
+// The partial "@name" being typed right before the caret, if any
+export const getMentionQuery = (text: string, caret: number) => {
+  const match = /(^|\s)@([\w-]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2].toLowerCase(), start: caret - match[2].length - 1 };
+};
@@ -0,0 +1,30 @@
+// Client-side PDF export. The PDF libraries are loaded on demand to keep them out of the main bundle.
+export const exportElementToPdf = async (element: HTMLElement, fileName: string) => {
+  const [{ default: html2canvas }, { jsPDF }] = await Promise.all([
+    import('html2canvas'),
+    import('jspdf'),
+  ]);
+
+  const canvas = await html2canvas(element, {
+    scale: 2,
+    useCORS: true,
+    backgroundColor: '#ffffff',
+  });
+
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const imageHeight = (canvas.height * pageWidth) / canvas.width;
+  const imageData = canvas.toDataURL('image/png');
+
+  // Long invoices are sliced across pages by shifting the same image upwards
+  let offset = 0;
+  pdf.addImage(imageData, 'PNG', 0, offset, pageWidth, imageHeight);
+  while (imageHeight + offset > pageHeight) {
+    offset -= pageHeight;
+    pdf.addPage();
+    pdf.addImage(imageData, 'PNG', 0, offset, pageWidth, imageHeight);
+  }
+
+  pdf.save(fileName);
+};
@@ -0,0 +1,98 @@
+import { addDays, toDateString } from '@/lib/time-entries';
+
+// Sprint planning helpers shared by the backlog, capacity and burndown views
+
+export type SprintStatus = 'planned' | 'active' | 'completed';
+
+export interface Sprint {
+  id: string;
+  project_id: string;
+  name: string;
+  goal: string | null;
+  start_date: string;
+  end_date: string;
+  status: SprintStatus;
+  committed_hours: number | null;
+  completed_hours: number | null;
+}
+
+export interface SprintTask {
+  id: string;
+  parent_task_id?: string | null;
+  sprint_id?: string | null;
+  status: string;
+  estimated_hours?: number | null;
+  completed_at?: string | null;
+}
+
+export const SPRINT_LENGTH_DAYS = 14;
+
+export const SPRINT_STATUS_LABELS: Record<SprintStatus, string> = {
+  planned: 'Planned',
+  active: 'Active',
+  completed: 'Completed',
+};
+
+export const getSprintStatusColor = (status: string) => {
+  switch (status) {
+    case 'planned': return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
+    case 'active': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
+    case 'completed': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+    default: return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
+  }
+};
+
+const isWeekday = (date: string) => {
+  const day = new Date(`${date}T00:00:00`).getDay();
+  return day !== 0 && day !== 6;
+};
+
+export const getSprintDays = (sprint: Pick<Sprint, 'start_date' | 'end_date'>) => {
+  const days: string[] = [];
+  for (let day = sprint.start_date; day <= sprint.end_date; day = addDays(day, 1)) days.push(day);
+  return days;
+};
+
+// A parent whose subtasks are in the same sprint is counted through its subtasks, as its estimate is their sum
+export const getCountedSprintTasks = <T extends SprintTask>(sprintId: string, tasks: T[]) => {
+  const inSprint = tasks.filter(task => task.sprint_id === sprintId);
+  return inSprint.filter(task => !inSprint.some(other => other.parent_task_id === task.id));
+};
+
+export const sumEstimates = (tasks: SprintTask[]) =>
+  tasks.reduce((total, task) => total + (task.estimated_hours || 0), 0);
+
+export interface BurndownPoint {
+  day: string;
+  label: string;
+  ideal: number;
+  remaining: number | null;
+}
+
+// Ideal work burns evenly over weekdays; remaining work drops as tasks are completed.
+// Closed sprints start from the hours committed when they closed, since unfinished tasks moved out.
+export const getBurndown = (sprint: Sprint, tasks: SprintTask[]): BurndownPoint[] => {
+  const counted = getCountedSprintTasks(sprint.id, tasks);
+  const total = sprint.status === 'completed' && sprint.committed_hours !== null
+    ? sprint.committed_hours
+    : sumEstimates(counted);
+
+  const days = getSprintDays(sprint);
+  const workingDays = days.filter(isWeekday).length;
+  const today = toDateString(new Date());
+  let workedDays = 0;
+
+  return days.map(day => {
+    if (isWeekday(day)) workedDays += 1;
+    const done = sumEstimates(counted.filter(task =>
+      task.status === 'completed' && task.completed_at && toDateString(new Date(task.completed_at)) <= day
+    ));
+
+    return {
+      day,
+      label: new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      ideal: workingDays > 0 ? Math.round(total * (1 - workedDays / workingDays) * 100) / 100 : 0,
+      remaining: day > today ? null : Math.max(Math.round((total - done) * 100) / 100, 0),
+    };
+  });
+};
@@ -0,0 +1,108 @@
+// Task list filters, sorting and paging, kept in the URL query string so views can be saved and shared
+
+export type TaskSortColumn = 'created_at' | 'updated_at' | 'title' | 'due_date' | 'priority' | 'status' | 'estimated_hours';
+
+export interface TaskListFilters {
+  search: string;
+  project: string;
+  assignee: string;
+  priority: string;
+  status: string;
+  dueFrom: string;
+  dueTo: string;
+  field: string;
+  sort: TaskSortColumn;
+  direction: 'asc' | 'desc';
+  page: number;
+}
+
+export const TASK_PAGE_SIZE = 24;
+
+// The board isn't paged, so it stops at this many tasks and asks for narrower filters
+export const BOARD_TASK_LIMIT = 200;
+
+export const TASK_SORT_LABELS: Record<TaskSortColumn, string> = {
+  created_at: 'Created',
+  updated_at: 'Last updated',
+  title: 'Title',
+  due_date: 'Due date',
+  priority: 'Priority',
+  status: 'Status',
+  estimated_hours: 'Estimate',
+};
+
+export const DEFAULT_TASK_FILTERS: TaskListFilters = {
+  search: '',
+  project: 'all',
+  assignee: 'all',
+  priority: 'all',
+  status: 'all',
+  dueFrom: '',
+  dueTo: '',
+  field: '',
+  sort: 'created_at',
+  direction: 'desc',
+  page: 1,
+};
+
+// URL parameter for each filter; only values that differ from the defaults are written
+const PARAM_NAMES: Record<keyof TaskListFilters, string> = {
+  search: 'q',
+  project: 'project',
+  assignee: 'assignee',
+  priority: 'priority',
+  status: 'status',
+  dueFrom: 'due_from',
+  dueTo: 'due_to',
+  field: 'field',
+  sort: 'sort',
+  direction: 'dir',
+  page: 'page',
+};
+
+export const parseTaskFilters = (params: URLSearchParams): TaskListFilters => {
+  const value = (key: keyof TaskListFilters) => params.get(PARAM_NAMES[key]);
+  const sort = value('sort') as TaskSortColumn;
+  const page = parseInt(value('page') || '');
+
+  return {
+    search: value('search') || DEFAULT_TASK_FILTERS.search,
+    project: value('project') || DEFAULT_TASK_FILTERS.project,
+    assignee: value('assignee') || DEFAULT_TASK_FILTERS.assignee,
+    priority: value('priority') || DEFAULT_TASK_FILTERS.priority,
+    status: value('status') || DEFAULT_TASK_FILTERS.status,
+    dueFrom: value('dueFrom') || DEFAULT_TASK_FILTERS.dueFrom,
+    dueTo: value('dueTo') || DEFAULT_TASK_FILTERS.dueTo,
+    field: value('field') || DEFAULT_TASK_FILTERS.field,
+    sort: sort in TASK_SORT_LABELS ? sort : DEFAULT_TASK_FILTERS.sort,
+    direction: value('direction') === 'asc' ? 'asc' : value('direction') === 'desc' ? 'desc' : DEFAULT_TASK_FILTERS.direction,
+    page: page > 0 ? page : DEFAULT_TASK_FILTERS.page,
+  };
+};
+
+export const toTaskFilterParams = (filters: TaskListFilters) => {
+  const params = new URLSearchParams();
+  (Object.keys(PARAM_NAMES) as (keyof TaskListFilters)[]).forEach(key => {
+    if (filters[key] !== DEFAULT_TASK_FILTERS[key]) params.set(PARAM_NAMES[key], String(filters[key]));
+  });
+  return params;
+};
+
+// Saved views and the active-view check ignore the page number
+export const getTaskViewQuery = (filters: TaskListFilters) =>
+  toTaskFilterParams({ ...filters, page: DEFAULT_TASK_FILTERS.page }).toString();
+
+export const hasActiveTaskFilters = (filters: TaskListFilters) =>
+  getTaskViewQuery({ ...filters, sort: DEFAULT_TASK_FILTERS.sort, direction: DEFAULT_TASK_FILTERS.direction }) !== '';
+
+// The custom field filter is written as <field id>:<value>; the value may itself contain colons
+export const toFieldFilter = (fieldId: string, value: string) => (value ? `${fieldId}:${value}` : '');
+
+export const parseFieldFilter = (field: string) => {
+  const separator = field.indexOf(':');
+  if (separator < 0) return null;
+  return { fieldId: field.slice(0, separator), value: field.slice(separator + 1) };
+};
+
+// Characters with a meaning in PostgREST filter strings are dropped from free-text search
+export const toSearchPattern = (search: string) => `%${search.replace(/[,()%*\\]/g, ' ').trim()}%`;
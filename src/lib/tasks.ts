@@ -0,0 +1,117 @@
+// Shared task helpers used by the task list and board views
+
+export type TaskStatus = 'todo' | 'in_progress' | 'review' | 'completed';
+
+export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export const TASK_STATUSES: TaskStatus[] = ['todo', 'in_progress', 'review', 'completed'];
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: 'To Do',
+  in_progress: 'In Progress',
+  review: 'Review',
+  completed: 'Completed',
+};
+
+export const getTaskStatusColor = (status: string) => {
+  switch (status) {
+    case 'todo': return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
+    case 'in_progress': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
+    case 'review': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+    case 'completed': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+    default: return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
+  }
+};
+
+export const getTaskPriorityColor = (priority: string) => {
+  switch (priority) {
+    case 'low': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+    case 'medium': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+    case 'high': return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
+    case 'urgent': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+    default: return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
+  }
+};
+
+// Board position for a card dropped between two neighbours (either may be missing at the ends)
+export const getPositionBetween = (before?: number, after?: number) => {
+  if (before === undefined && after === undefined) return 0;
+  if (before === undefined) return after - 1000;
+  if (after === undefined) return before + 1000;
+  return (before + after) / 2;
+};
+
+export interface TaskDependency {
+  id: string;
+  blocking_task_id: string;
+  blocked_task_id: string;
+}
+
+// Tasks that still block the given task, i.e. blockers that are not completed yet
+export const getOpenBlockers = <T extends { id: string; status: string }>(taskId: string, dependencies: TaskDependency[], tasks: T[]) =>
+  dependencies
+    .filter(dependency => dependency.blocked_task_id === taskId)
+    .map(dependency => tasks.find(task => task.id === dependency.blocking_task_id))
+    .filter((task): task is T => !!task && task.status !== 'completed');
+
+// Mirrors prevent_task_dependency_cycle(): a link is refused when the blocker is already
+// waiting, directly or through other tasks, on the task it would block
+export const wouldCreateCycle = (blockingId: string, blockedId: string, dependencies: TaskDependency[]) => {
+  if (blockingId === blockedId) return true;
+
+  const visited = new Set<string>();
+  const queue = [blockedId];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    for (const dependency of dependencies) {
+      if (dependency.blocking_task_id !== current || visited.has(dependency.blocked_task_id)) continue;
+      if (dependency.blocked_task_id === blockingId) return true;
+      visited.add(dependency.blocked_task_id);
+      queue.push(dependency.blocked_task_id);
+    }
+  }
+  return false;
+};
+
+export type RecurrenceSpawnOn = 'completion' | 'schedule';
+
+export interface TaskRecurrence {
+  id: string;
+  rrule: string;
+  spawn_on: RecurrenceSpawnOn;
+  next_due_date: string;
+  end_date: string | null;
+  is_active: boolean;
+}
+
+export const RECURRENCE_PRESETS: Record<string, string> = {
+  daily: 'FREQ=DAILY',
+  weekly: 'FREQ=WEEKLY',
+  monthly: 'FREQ=MONTHLY',
+};
+
+const WEEKDAY = '(MO|TU|WE|TH|FR|SA|SU)';
+
+// Mirrors the task_recurrences_rrule_check constraint
+const RRULE_PATTERN = new RegExp(
+  `^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;(INTERVAL=[1-9][0-9]{0,2}|BYDAY=${WEEKDAY}(,${WEEKDAY})*|BYMONTHDAY=([1-9]|[12][0-9]|3[01])))*$`
+);
+
+export const isValidRecurrenceRule = (rrule: string) => RRULE_PATTERN.test(rrule);
+
+export const getRecurrencePreset = (rrule: string) =>
+  Object.keys(RECURRENCE_PRESETS).find(preset => RECURRENCE_PRESETS[preset] === rrule) || 'custom';
+
+const RECURRENCE_UNITS: Record<string, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+const WEEKDAY_LABELS: Record<string, string> = { MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun' };
+
+// Human-readable summary of a rule, e.g. "Every 2 weeks on Mon, Thu"
+export const describeRecurrence = (rrule: string) => {
+  const parts = Object.fromEntries(rrule.split(';').map(part => part.split('=')));
+  const interval = Number(parts.INTERVAL || 1);
+  const unit = RECURRENCE_UNITS[parts.FREQ] || 'period';
+  let description = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  if (parts.BYDAY) description += ` on ${parts.BYDAY.split(',').map((day: string) => WEEKDAY_LABELS[day] || day).join(', ')}`;
+  if (parts.BYMONTHDAY) description += ` on day ${parts.BYMONTHDAY}`;
+  return description;
+};
@@ -0,0 +1,47 @@
+// Shared helpers for time tracking on tasks and the timesheet
+
+export const formatElapsed = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  return [hours, minutes, secs].map((part, index) => (index === 0 ? String(part) : String(part).padStart(2, '0'))).join(':');
+};
+
+export const formatHours = (hours: number | null | undefined) => `${Math.round((hours || 0) * 100) / 100}h`;
+
+export const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export type TimesheetStatus = 'pending' | 'approved' | 'rejected';
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  pending: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const getTimesheetStatusColor = (status: string) => {
+  switch (status) {
+    case 'approved': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+    case 'rejected': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+    case 'pending': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+    default: return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
+  }
+};
+
+// Pending and approved weeks are locked by the database; rejected weeks can be edited and resubmitted
+export const isTimesheetLocked = (status: string | null | undefined) => status === 'pending' || status === 'approved';
+
+// Timesheet weeks start on Monday, matching date_trunc('week') in the database
+export const getWeekStart = (date: Date) => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return toDateString(monday);
+};
+
+export const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return toDateString(new Date(year, month - 1, day + days));
+};
+
+export const getWeekDays = (weekStart: string) => Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
@@ -0,0 +1,143 @@
+import { addDays, getWeekDays } from '@/lib/time-entries';
+
+// Team workload per member and week: capacity after approved leave, project allocations
+// (project_members.allocated_hours is hours per week) and open task estimates spread over the days they're planned for
+
+export const WORKLOAD_WEEKS = 6;
+
+export interface WorkloadMember {
+  id: string;
+  first_name: string;
+  last_name: string;
+  working_hours_per_week: number | null;
+}
+
+export interface WorkloadAllocation {
+  id: string;
+  project_id: string;
+  user_id: string;
+  allocated_hours: number | null;
+  projects: { name: string; status: string | null; start_date: string | null; end_date: string | null } | null;
+}
+
+export interface WorkloadTask {
+  id: string;
+  title: string;
+  project_id: string;
+  assigned_to: string | null;
+  parent_task_id: string | null;
+  estimated_hours: number | null;
+  start_date: string | null;
+  due_date: string | null;
+  status: string;
+  projects?: { name: string } | null;
+}
+
+export interface WorkloadLeave {
+  user_id: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface WorkloadCell {
+  weekStart: string;
+  capacity: number;
+  leaveDays: number;
+  allocated: number;
+  allocations: WorkloadAllocation[];
+  taskHours: number;
+  tasks: { task: WorkloadTask; hours: number }[];
+}
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+const getWorkdays = (weekStart: string) => getWeekDays(weekStart).slice(0, 5);
+
+// Open tasks are spread evenly over the weekdays from their start (or today) to their due date.
+// Overdue tasks land on today, and tasks without a due date aren't scheduled.
+export const getTaskHoursByDay = (task: WorkloadTask, today: string) => {
+  const hoursByDay: Record<string, number> = {};
+  if (!task.estimated_hours || !task.due_date || task.status === 'completed') return hoursByDay;
+
+  // due_date is a timestamp, while days here are yyyy-MM-dd
+  const due = task.due_date.slice(0, 10);
+  const from = task.start_date && task.start_date > today ? task.start_date : today;
+  const to = due > from ? due : from;
+
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    const weekday = new Date(`${day}T00:00:00`).getDay();
+    if (weekday !== 0 && weekday !== 6) days.push(day);
+  }
+  if (days.length === 0) days.push(from);
+
+  days.forEach(day => {
+    hoursByDay[day] = task.estimated_hours / days.length;
+  });
+  return hoursByDay;
+};
+
+const isActiveInWeek = (allocation: WorkloadAllocation, weekStart: string) => {
+  const project = allocation.projects;
+  if (!project || project.status === 'completed' || project.status === 'cancelled') return false;
+  const weekEnd = addDays(weekStart, 6);
+  return (!project.start_date || project.start_date <= weekEnd) && (!project.end_date || project.end_date >= weekStart);
+};
+
+export const getWorkloadWeeks = (firstWeek: string, count = WORKLOAD_WEEKS) =>
+  Array.from({ length: count }, (_, index) => addDays(firstWeek, index * 7));
+
+export const buildWorkload = (
+  members: WorkloadMember[],
+  allocations: WorkloadAllocation[],
+  tasks: WorkloadTask[],
+  leave: WorkloadLeave[],
+  weeks: string[],
+  today: string
+) => {
+  // Parents are counted through their subtasks, since a parent's estimate is their sum
+  const counted = tasks.filter(task => task.assigned_to && !tasks.some(other => other.parent_task_id === task.id));
+  const taskDays = counted.map(task => ({ task, hoursByDay: getTaskHoursByDay(task, today) }));
+
+  const workload: Record<string, WorkloadCell[]> = {};
+  members.forEach(member => {
+    const weeklyHours = member.working_hours_per_week ?? 40;
+    const memberLeave = leave.filter(l => l.user_id === member.id);
+    const memberAllocations = allocations.filter(a => a.user_id === member.id && a.allocated_hours);
+    const memberTasks = taskDays.filter(t => t.task.assigned_to === member.id);
+
+    workload[member.id] = weeks.map(weekStart => {
+      const workdays = getWorkdays(weekStart);
+      const leaveDays = workdays.filter(day => memberLeave.some(l => l.start_date <= day && l.end_date >= day)).length;
+      const weekAllocations = memberAllocations.filter(a => isActiveInWeek(a, weekStart));
+      const weekTasks = memberTasks
+        .map(({ task, hoursByDay }) => ({ task, hours: round(workdays.reduce((total, day) => total + (hoursByDay[day] || 0), 0)) }))
+        .filter(t => t.hours > 0)
+        .sort((a, b) => b.hours - a.hours);
+
+      return {
+        weekStart,
+        capacity: round(weeklyHours / 5 * (5 - leaveDays)),
+        leaveDays,
+        allocated: weekAllocations.reduce((total, a) => total + (a.allocated_hours || 0), 0),
+        allocations: weekAllocations,
+        taskHours: round(weekTasks.reduce((total, t) => total + t.hours, 0)),
+        tasks: weekTasks,
+      };
+    });
+  });
+
+  return workload;
+};
+
+export const isOverAllocated = (cell: WorkloadCell) => cell.allocated > cell.capacity || cell.taskHours > cell.capacity;
+
+// Estimated open tasks with no due date can't be placed in a week, so they're listed separately
+export const getUnscheduledTasks = (tasks: WorkloadTask[]) =>
+  tasks.filter(task =>
+    task.assigned_to
+    && task.status !== 'completed'
+    && task.estimated_hours
+    && !task.due_date
+    && !tasks.some(other => other.parent_task_id === task.id)
+  );
@@ -7,8 +7,10 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Mail, Phone, Globe, Building, MapPin, Edit, Trash2 } from 'lucide-react';
+import { Plus, Mail, Phone, Globe, Building, MapPin, Edit, Trash2, Banknote } from 'lucide-react';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/lib/currency';
 
 interface Client {
   id: string;
@@ -19,6 +21,7 @@ interface Client {
   website?: string;
   address?: string;
   notes?: string;
+  currency: string;
   created_by?: string;
   created_at: string;
   updated_at: string;
@@ -38,6 +41,7 @@ export default function Clients() {
     company: '',
     website: '',
     address: '',
+    currency: DEFAULT_CURRENCY,
     notes: ''
   });
 
@@ -78,6 +82,7 @@ export default function Clients() {
         company: formData.company || null,
         website: formData.website || null,
         address: formData.address || null,
+        currency: formData.currency,
         notes: formData.notes || null
       };
 
@@ -127,6 +132,7 @@ export default function Clients() {
       company: '',
       website: '',
       address: '',
+      currency: DEFAULT_CURRENCY,
       notes: ''
     });
   };
@@ -140,6 +146,7 @@ export default function Clients() {
       company: client.company || '',
       website: client.website || '',
       address: client.address || '',
+      currency: client.currency,
       notes: client.notes || ''
     });
     setShowAddDialog(true);
@@ -253,6 +260,26 @@ export default function Clients() {
                       placeholder="https://"
                     />
                   </div>
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="currency" className="text-right">Currency</Label>
+                    <div className="col-span-3">
+                      <Select value={formData.currency} onValueChange={(value) => setFormData({ ...formData, currency: value })}>
+                        <SelectTrigger id="currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[...new Set([...CURRENCIES, formData.currency])].map((currency) => (
+                            <SelectItem key={currency} value={currency}>
+                              {currency}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Default currency for this client's projects and invoices
+                      </p>
+                    </div>
+                  </div>
                   <div className="grid grid-cols-4 items-center gap-4">
                     <Label htmlFor="address" className="text-right">Address</Label>
                     <Textarea
@@ -341,6 +368,11 @@ export default function Clients() {
                   </div>
                 )}
                 
+                <div className="flex items-center text-sm">
+                  <Banknote className="h-4 w-4 mr-2 text-muted-foreground" />
+                  <span className="text-muted-foreground">Billed in {client.currency}</span>
+                </div>
+
                 {client.address && (
                   <div className="flex items-start text-sm">
                     <MapPin className="h-4 w-4 mr-2 text-muted-foreground mt-0.5" />
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useCurrency } from '@/hooks/useCurrency';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -14,6 +15,7 @@ import {
   AlertCircle,
   TrendingUp
 } from 'lucide-react';
+import { formatCurrency } from '@/lib/currency';
 
 interface DashboardStats {
   totalProjects: number;
@@ -21,7 +23,6 @@ interface DashboardStats {
   completedTasks: number;
   totalTasks: number;
   teamMembers: number;
-  totalRevenue: number;
   hoursThisMonth: number;
 }
 
@@ -30,6 +31,7 @@ interface Project {
   name: string;
   status: string;
   budget: number;
+  currency: string;
   actual_hours: number;
   estimated_hours: number;
   client: { name: string } | null;
@@ -46,17 +48,18 @@ interface Task {
 }
 
 const Dashboard = () => {
-  const { profile } = useAuth();
+  const { profile, isAdmin, isProjectManager } = useAuth();
+  const { baseCurrency, sumInBase } = useCurrency();
   const [stats, setStats] = useState<DashboardStats>({
     totalProjects: 0,
     activeProjects: 0,
     completedTasks: 0,
     totalTasks: 0,
     teamMembers: 0,
-    totalRevenue: 0,
     hoursThisMonth: 0,
   });
   const [recentProjects, setRecentProjects] = useState<Project[]>([]);
+  const [activeBudgets, setActiveBudgets] = useState<{ budget: number | null; currency: string }[]>([]);
   const [upcomingTasks, setUpcomingTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -76,6 +79,12 @@ const Dashboard = () => {
         .order('created_at', { ascending: false })
         .limit(5);
 
+      // Fetch budgets of every active project, not just the recent ones
+      const { data: budgets } = await supabase
+        .from('projects')
+        .select('budget, currency')
+        .eq('status', 'active');
+
       // Fetch tasks
       const { data: tasks } = await supabase
         .from('tasks')
@@ -87,6 +96,13 @@ const Dashboard = () => {
         .order('due_date', { ascending: true })
         .limit(10);
 
+      // Fetch time logged this month; members only see their own entries
+      const now = new Date();
+      const { data: timeEntries } = await supabase
+        .from('time_entries')
+        .select('hours')
+        .gte('date', `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-01`);
+
       // Fetch team members count
       const { count: teamCount } = await supabase
         .from('profiles')
@@ -96,8 +112,7 @@ const Dashboard = () => {
       // Calculate stats
       const activeProjects = projects?.filter(p => p.status === 'active').length || 0;
       const completedTasks = tasks?.filter(t => t.status === 'completed').length || 0;
-      const totalRevenue = projects?.reduce((sum, p) => sum + (p.budget || 0), 0) || 0;
-      const hoursThisMonth = projects?.reduce((sum, p) => sum + (p.actual_hours || 0), 0) || 0;
+      const hoursThisMonth = timeEntries?.reduce((sum, entry) => sum + entry.hours, 0) || 0;
 
       setStats({
         totalProjects: projects?.length || 0,
@@ -105,11 +120,11 @@ const Dashboard = () => {
         completedTasks,
         totalTasks: tasks?.length || 0,
         teamMembers: teamCount || 0,
-        totalRevenue,
         hoursThisMonth,
       });
 
       setRecentProjects(projects || []);
+      setActiveBudgets(budgets || []);
       setUpcomingTasks(tasks?.filter(t => t.status !== 'completed') || []);
       
     } catch (error) {
@@ -141,6 +156,9 @@ const Dashboard = () => {
     }
   };
 
+  // Budgets are in each project's currency, so they are summed in the base currency
+  const budgetTotal = sumInBase(activeBudgets.map(p => ({ amount: p.budget || 0, currency: p.currency })));
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -161,7 +179,7 @@ const Dashboard = () => {
       </div>
 
       {/* Stats Grid */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Projects</CardTitle>
@@ -204,15 +222,33 @@ const Dashboard = () => {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+            <CardTitle className="text-sm font-medium">Hours This Month</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{Math.round(stats.hoursThisMonth * 10) / 10}h</div>
+            <p className="text-xs text-muted-foreground">
+              {isAdmin || isProjectManager ? 'Logged by the team' : 'Logged by you'}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Active Budgets</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${stats.totalRevenue.toLocaleString()}</div>
+            <div className="text-2xl font-bold">{formatCurrency(budgetTotal.total, baseCurrency)}</div>
             <p className="text-xs text-muted-foreground">
               <TrendingUp className="h-3 w-3 inline mr-1" />
-              From active projects
+              Across all active projects
             </p>
+            {budgetTotal.missingCurrencies.length > 0 && (
+              <p className="text-xs text-red-600">
+                Excludes {budgetTotal.missingCurrencies.join(', ')} (no exchange rate)
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -247,7 +283,7 @@ const Dashboard = () => {
                         {project.status.replace('_', ' ')}
                       </Badge>
                       {project.budget && (
-                        <span className="text-sm font-medium">${project.budget.toLocaleString()}</span>
+                        <span className="text-sm font-medium">{formatCurrency(project.budget, project.currency)}</span>
                       )}
                     </div>
                   </div>
@@ -1,17 +1,40 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useCurrency } from '@/hooks/useCurrency';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { DollarSign, FileText, TrendingUp, Clock } from 'lucide-react';
+import { DollarSign, FileText, TrendingUp, Clock, Plus, Edit, Timer, Printer, History, CreditCard, Download } from 'lucide-react';
+import InvoiceEditor from '@/components/InvoiceEditor';
+import BillTimeDialog from '@/components/BillTimeDialog';
+import InvoiceStatusHistory from '@/components/InvoiceStatusHistory';
+import InvoicePayments from '@/components/InvoicePayments';
+import RecurringInvoiceList from '@/components/RecurringInvoiceList';
+import ExpenseList from '@/components/ExpenseList';
+import ProjectProfitability from '@/components/ProjectProfitability';
+import FinanceReports from '@/components/FinanceReports';
+import ExportDialog from '@/components/ExportDialog';
+import {
+  InvoiceStatus,
+  INVOICE_STATUS_LABELS,
+  getInvoiceStatusColor,
+  getManualStatusOptions,
+  getOutstandingBalance,
+} from '@/lib/invoices';
+import { formatCurrency } from '@/lib/currency';
 
 interface Invoice {
   id: string;
   invoice_number: string;
   amount: number;
   total_amount: number;
+  amount_paid: number;
+  currency: string;
   status: 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
   issue_date: string;
   due_date: string;
@@ -20,17 +43,28 @@ interface Invoice {
   projects?: { name: string };
 }
 
+interface FinanceSummary {
+  total_revenue: number;
+  paid_this_month: number;
+  paid_last_month: number;
+  pending_amount: number;
+  overdue_amount: number;
+  missing_currencies: string[];
+}
+
 export default function Finance() {
   const { isAdmin, isProjectManager } = useAuth();
   const { toast } = useToast();
+  const { baseCurrency } = useCurrency();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [summary, setSummary] = useState<FinanceSummary | null>(null);
   const [loading, setLoading] = useState(true);
-  const [stats, setStats] = useState({
-    totalRevenue: 0,
-    pendingAmount: 0,
-    paidThisMonth: 0,
-    overdueAmount: 0
-  });
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingInvoiceId, setEditingInvoiceId] = useState<string | null>(null);
+  const [showBillTime, setShowBillTime] = useState(false);
+  const [historyInvoice, setHistoryInvoice] = useState<Invoice | null>(null);
+  const [paymentsInvoiceId, setPaymentsInvoiceId] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
 
   useEffect(() => {
     fetchInvoices();
@@ -38,18 +72,23 @@ export default function Finance() {
 
   const fetchInvoices = async () => {
     try {
-      const { data, error } = await supabase
-        .from('invoices')
-        .select(`
-          *,
-          clients (name),
-          projects (name)
-        `)
-        .order('created_at', { ascending: false });
+      const [invoicesResult, summaryResult] = await Promise.all([
+        supabase
+          .from('invoices')
+          .select(`
+            *,
+            clients (name),
+            projects (name)
+          `)
+          .order('created_at', { ascending: false }),
+        supabase.rpc('get_finance_summary'),
+      ]);
 
-      if (error) throw error;
-      setInvoices(data || []);
-      calculateStats(data || []);
+      if (invoicesResult.error) throw invoicesResult.error;
+      if (summaryResult.error) throw summaryResult.error;
+
+      setInvoices(invoicesResult.data || []);
+      setSummary(summaryResult.data?.[0] || null);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -61,33 +100,56 @@ export default function Finance() {
     }
   };
 
-  const calculateStats = (invoices: Invoice[]) => {
-    const totalRevenue = invoices.filter(inv => inv.status === 'paid').reduce((sum, inv) => sum + inv.total_amount, 0);
-    const pendingAmount = invoices.filter(inv => ['draft', 'sent'].includes(inv.status)).reduce((sum, inv) => sum + inv.total_amount, 0);
-    const overdueAmount = invoices.filter(inv => inv.status === 'overdue').reduce((sum, inv) => sum + inv.total_amount, 0);
-    
-    const thisMonth = new Date();
-    thisMonth.setDate(1);
-    const paidThisMonth = invoices.filter(inv => 
-      inv.status === 'paid' && 
-      inv.paid_date && 
-      new Date(inv.paid_date) >= thisMonth
-    ).reduce((sum, inv) => sum + inv.total_amount, 0);
-
-    setStats({ totalRevenue, pendingAmount, paidThisMonth, overdueAmount });
+  const canManageInvoices = isAdmin || isProjectManager;
+
+  const openEditor = (invoiceId: string | null) => {
+    setEditingInvoiceId(invoiceId);
+    setShowEditor(true);
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'draft': return 'bg-gray-100 text-gray-800';
-      case 'sent': return 'bg-blue-100 text-blue-800';
-      case 'paid': return 'bg-green-100 text-green-800';
-      case 'overdue': return 'bg-red-100 text-red-800';
-      case 'cancelled': return 'bg-gray-100 text-gray-800';
-      default: return 'bg-gray-100 text-gray-800';
+  const handleTimeInvoiceCreated = (invoiceId: string) => {
+    fetchInvoices();
+    openEditor(invoiceId);
+  };
+
+  const handleStatusChange = async (invoice: Invoice, newStatus: InvoiceStatus) => {
+    if (newStatus === 'cancelled' && !confirm(`Void invoice ${invoice.invoice_number}? It will be kept for your records as cancelled and any billed time becomes billable again.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('invoices')
+        .update({ status: newStatus })
+        .eq('id', invoice.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Invoice ${invoice.invoice_number} marked as ${INVOICE_STATUS_LABELS[newStatus].toLowerCase()}`,
+      });
+
+      fetchInvoices();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
     }
   };
 
+  const stats = summary || {
+    total_revenue: 0,
+    paid_this_month: 0,
+    paid_last_month: 0,
+    pending_amount: 0,
+    overdue_amount: 0,
+    missing_currencies: [],
+  };
+  const monthOverMonth = stats.paid_last_month > 0
+    ? Math.round(((stats.paid_this_month - stats.paid_last_month) / stats.paid_last_month) * 100)
+    : null;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -98,9 +160,27 @@ export default function Finance() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Finance & Invoicing</h1>
-        <p className="text-muted-foreground">Manage your invoices and track financial performance</p>
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Finance & Invoicing</h1>
+          <p className="text-muted-foreground">Manage your invoices and track financial performance</p>
+        </div>
+        {canManageInvoices && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowExport(true)}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            <Button variant="outline" onClick={() => setShowBillTime(true)}>
+              <Timer className="h-4 w-4 mr-2" />
+              Bill Time
+            </Button>
+            <Button onClick={() => openEditor(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Invoice
+            </Button>
+          </div>
+        )}
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -110,7 +190,7 @@ export default function Finance() {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${stats.totalRevenue.toLocaleString()}</div>
+            <div className="text-2xl font-bold">{formatCurrency(stats.total_revenue, baseCurrency)}</div>
           </CardContent>
         </Card>
         <Card>
@@ -119,7 +199,7 @@ export default function Finance() {
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${stats.pendingAmount.toLocaleString()}</div>
+            <div className="text-2xl font-bold">{formatCurrency(stats.pending_amount, baseCurrency)}</div>
           </CardContent>
         </Card>
         <Card>
@@ -128,7 +208,12 @@ export default function Finance() {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${stats.paidThisMonth.toLocaleString()}</div>
+            <div className="text-2xl font-bold">{formatCurrency(stats.paid_this_month, baseCurrency)}</div>
+            {monthOverMonth !== null && (
+              <p className={`text-xs ${monthOverMonth < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {monthOverMonth > 0 ? '+' : ''}{monthOverMonth}% vs all of last month
+              </p>
+            )}
           </CardContent>
         </Card>
         <Card>
@@ -137,41 +222,170 @@ export default function Finance() {
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-red-600">${stats.overdueAmount.toLocaleString()}</div>
+            <div className="text-2xl font-bold text-red-600">{formatCurrency(stats.overdue_amount, baseCurrency)}</div>
           </CardContent>
         </Card>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Recent Invoices</CardTitle>
-          <CardDescription>Latest invoices and their status</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {invoices.slice(0, 10).map((invoice) => (
-              <div key={invoice.id} className="flex items-center justify-between p-4 border rounded-lg">
-                <div className="flex-1">
-                  <div className="flex items-center gap-4">
-                    <div>
-                      <p className="font-medium">{invoice.invoice_number}</p>
-                      <p className="text-sm text-muted-foreground">
-                        {invoice.clients?.name} • {invoice.projects?.name}
-                      </p>
+      {stats.missing_currencies.length > 0 && (
+        <p className="text-sm text-red-600">
+          No exchange rate to {baseCurrency} for {stats.missing_currencies.join(', ')}. Amounts in these currencies are left out of the totals above until an admin adds a rate in Settings.
+        </p>
+      )}
+
+      <Tabs defaultValue="invoices" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="invoices">Invoices</TabsTrigger>
+          {canManageInvoices && <TabsTrigger value="recurring">Recurring</TabsTrigger>}
+          {canManageInvoices && <TabsTrigger value="expenses">Expenses</TabsTrigger>}
+          {canManageInvoices && <TabsTrigger value="profitability">Profitability</TabsTrigger>}
+          {canManageInvoices && <TabsTrigger value="reports">Reports</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="invoices">
+          <Card>
+            <CardHeader>
+              <CardTitle>Invoices</CardTitle>
+              <CardDescription>All invoices and their status, newest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {invoices.length === 0 && (
+                  <p className="text-center text-muted-foreground py-4">No invoices yet</p>
+                )}
+                {invoices.map((invoice) => (
+                  <div key={invoice.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-4">
+                        <div>
+                          <p className="font-medium">{invoice.invoice_number}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {invoice.clients?.name} • {invoice.projects?.name}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {invoice.status === 'paid' && invoice.paid_date
+                              ? `Paid ${new Date(invoice.paid_date).toLocaleDateString()}`
+                              : `Due ${new Date(invoice.due_date).toLocaleDateString()}`}
+                            {invoice.status !== 'paid' && invoice.amount_paid > 0 && (
+                              ` • ${formatCurrency(invoice.amount_paid, invoice.currency)} paid, ${formatCurrency(getOutstandingBalance(invoice), invoice.currency)} outstanding`
+                            )}
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <div className="text-right">
+                        <p className="font-medium">{formatCurrency(invoice.total_amount, invoice.currency)}</p>
+                        <Badge variant="secondary" className={getInvoiceStatusColor(invoice.status)}>
+                          {invoice.status}
+                        </Badge>
+                      </div>
+                      {canManageInvoices && (
+                        <div className="flex gap-2">
+                          <Button variant="ghost" size="sm" asChild>
+                            <Link to={`/finance/invoices/${invoice.id}/print`}>
+                              <Printer className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(invoice.id)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setPaymentsInvoiceId(invoice.id)}>
+                            <CreditCard className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setHistoryInvoice(invoice)}>
+                            <History className="h-4 w-4" />
+                          </Button>
+                          {getManualStatusOptions(invoice.status, invoice.due_date).length > 0 && (
+                            <Select
+                              value={invoice.status}
+                              onValueChange={(value) => handleStatusChange(invoice, value as InvoiceStatus)}
+                            >
+                              <SelectTrigger className="w-32">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={invoice.status}>{INVOICE_STATUS_LABELS[invoice.status]}</SelectItem>
+                                {getManualStatusOptions(invoice.status, invoice.due_date).map((status) => (
+                                  <SelectItem key={status} value={status}>
+                                    {status === 'cancelled' ? 'Void' : INVOICE_STATUS_LABELS[status]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
-                </div>
-                <div className="text-right">
-                  <p className="font-medium">${invoice.total_amount.toLocaleString()}</p>
-                  <Badge variant="secondary" className={getStatusColor(invoice.status)}>
-                    {invoice.status}
-                  </Badge>
-                </div>
+                ))}
               </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {canManageInvoices && (
+          <TabsContent value="recurring">
+            <RecurringInvoiceList onInvoicesGenerated={fetchInvoices} />
+          </TabsContent>
+        )}
+
+        {canManageInvoices && (
+          <TabsContent value="expenses">
+            <ExpenseList />
+          </TabsContent>
+        )}
+
+        {canManageInvoices && (
+          <TabsContent value="profitability">
+            <ProjectProfitability />
+          </TabsContent>
+        )}
+
+        {canManageInvoices && (
+          <TabsContent value="reports">
+            <FinanceReports />
+          </TabsContent>
+        )}
+      </Tabs>
+
+      {canManageInvoices && (
+        <InvoiceEditor
+          open={showEditor}
+          onOpenChange={setShowEditor}
+          invoiceId={editingInvoiceId}
+          onSaved={fetchInvoices}
+        />
+      )}
+
+      {canManageInvoices && (
+        <BillTimeDialog
+          open={showBillTime}
+          onOpenChange={setShowBillTime}
+          onInvoiceCreated={handleTimeInvoiceCreated}
+        />
+      )}
+
+      {canManageInvoices && (
+        <InvoicePayments
+          invoiceId={paymentsInvoiceId}
+          onOpenChange={(open) => !open && setPaymentsInvoiceId(null)}
+          onChanged={fetchInvoices}
+        />
+      )}
+
+      {canManageInvoices && (
+        <ExportDialog
+          open={showExport}
+          onOpenChange={setShowExport}
+        />
+      )}
+
+      <InvoiceStatusHistory
+        invoiceId={historyInvoice?.id || null}
+        invoiceNumber={historyInvoice?.invoice_number || ''}
+        onOpenChange={(open) => !open && setHistoryInvoice(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
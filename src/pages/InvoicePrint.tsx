@@ -0,0 +1,310 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Printer, Download } from 'lucide-react';
+import { getOutstandingBalance } from '@/lib/invoices';
+import { formatCurrency } from '@/lib/currency';
+import { exportElementToPdf } from '@/lib/pdf';
+
+interface PrintableInvoice {
+  id: string;
+  invoice_number: string;
+  amount: number;
+  tax_amount: number | null;
+  total_amount: number;
+  amount_paid: number;
+  currency: string;
+  status: string | null;
+  issue_date: string;
+  due_date: string;
+  notes: string | null;
+  clients: {
+    name: string;
+    company: string | null;
+    email: string;
+    phone: string | null;
+    address: string | null;
+  } | null;
+  projects: { name: string } | null;
+}
+
+interface PrintableItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  tax_rate: number;
+  amount: number;
+}
+
+interface CompanySettings {
+  company_name: string;
+  address: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  tax_id: string | null;
+  logo_url: string | null;
+  payment_instructions: string | null;
+  invoice_footer: string | null;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+export default function InvoicePrint() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const sheetRef = useRef<HTMLDivElement>(null);
+  const [invoice, setInvoice] = useState<PrintableInvoice | null>(null);
+  const [items, setItems] = useState<PrintableItem[]>([]);
+  const [company, setCompany] = useState<CompanySettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (id) {
+      fetchInvoice(id);
+    }
+  }, [id]);
+
+  const fetchInvoice = async (invoiceId: string) => {
+    try {
+      const [invoiceResult, itemsResult, companyResult] = await Promise.all([
+        supabase
+          .from('invoices')
+          .select(`
+            *,
+            clients (name, company, email, phone, address),
+            projects (name)
+          `)
+          .eq('id', invoiceId)
+          .single(),
+        supabase
+          .from('invoice_items')
+          .select('id, description, quantity, unit_price, tax_rate, amount')
+          .eq('invoice_id', invoiceId)
+          .order('sort_order'),
+        supabase
+          .from('company_settings')
+          .select('*')
+          .maybeSingle(),
+      ]);
+
+      if (invoiceResult.error) throw invoiceResult.error;
+      if (itemsResult.error) throw itemsResult.error;
+      if (companyResult.error) throw companyResult.error;
+
+      setInvoice(invoiceResult.data);
+      setItems(itemsResult.data || []);
+      setCompany(companyResult.data);
+    } catch (error) {
+      console.error('Error loading invoice:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!sheetRef.current || !invoice) return;
+
+    setExporting(true);
+    try {
+      await exportElementToPdf(sheetRef.current, `${invoice.invoice_number}.pdf`);
+    } catch (error) {
+      console.error('Error exporting PDF:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!invoice) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen gap-4">
+        <p className="text-muted-foreground">Invoice not found</p>
+        <Button variant="outline" asChild>
+          <Link to="/finance">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Finance
+          </Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-muted print:bg-white">
+      <div className="flex items-center justify-between max-w-[210mm] mx-auto py-4 print:hidden">
+        <Button variant="outline" asChild>
+          <Link to="/finance">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Finance
+          </Link>
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button onClick={handleDownloadPdf} disabled={exporting}>
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? 'Generating...' : 'Download PDF'}
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={sheetRef}
+        className="bg-white text-gray-900 max-w-[210mm] min-h-[297mm] mx-auto p-12 shadow print:shadow-none print:p-0"
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            {company?.logo_url && (
+              <img
+                src={company.logo_url}
+                alt={company.company_name}
+                className="h-16 mb-4 object-contain"
+                crossOrigin="anonymous"
+              />
+            )}
+            <h2 className="text-xl font-bold">{company?.company_name || 'DevCabin'}</h2>
+            {company?.address && <p className="text-sm text-gray-600 whitespace-pre-line">{company.address}</p>}
+            {company?.email && <p className="text-sm text-gray-600">{company.email}</p>}
+            {company?.phone && <p className="text-sm text-gray-600">{company.phone}</p>}
+            {company?.website && <p className="text-sm text-gray-600">{company.website}</p>}
+            {company?.tax_id && <p className="text-sm text-gray-600">Tax ID: {company.tax_id}</p>}
+          </div>
+          <div className="text-right">
+            <h1 className="text-4xl font-bold tracking-tight text-gray-800">INVOICE</h1>
+            <p className="mt-2 font-medium">{invoice.invoice_number}</p>
+            {invoice.status === 'cancelled' && (
+              <p className="mt-1 font-bold text-red-600 uppercase">Void</p>
+            )}
+            {invoice.status === 'paid' && (
+              <p className="mt-1 font-bold text-green-600 uppercase">Paid</p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-8 mt-10">
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500">Bill To</p>
+            <p className="mt-1 font-medium">{invoice.clients?.name}</p>
+            {invoice.clients?.company && <p className="text-sm">{invoice.clients.company}</p>}
+            {invoice.clients?.address && <p className="text-sm whitespace-pre-line">{invoice.clients.address}</p>}
+            {invoice.clients?.email && <p className="text-sm">{invoice.clients.email}</p>}
+            {invoice.clients?.phone && <p className="text-sm">{invoice.clients.phone}</p>}
+          </div>
+          <div className="text-right text-sm space-y-1">
+            <p>
+              <span className="text-gray-500">Issue Date: </span>
+              {formatDate(invoice.issue_date)}
+            </p>
+            <p>
+              <span className="text-gray-500">Due Date: </span>
+              <span className="font-medium">{formatDate(invoice.due_date)}</span>
+            </p>
+            {invoice.projects?.name && (
+              <p>
+                <span className="text-gray-500">Project: </span>
+                {invoice.projects.name}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <table className="w-full mt-10 text-sm">
+          <thead>
+            <tr className="border-b-2 border-gray-800 text-left">
+              <th className="py-2">Description</th>
+              <th className="py-2 text-right">Qty</th>
+              <th className="py-2 text-right">Unit Price</th>
+              <th className="py-2 text-right">Tax</th>
+              <th className="py-2 text-right">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.id} className="border-b border-gray-200">
+                <td className="py-2 pr-4">{item.description}</td>
+                <td className="py-2 text-right">{item.quantity}</td>
+                <td className="py-2 text-right">{formatCurrency(item.unit_price, invoice.currency)}</td>
+                <td className="py-2 text-right">{item.tax_rate}%</td>
+                <td className="py-2 text-right">{formatCurrency(item.amount, invoice.currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex justify-end mt-6">
+          <div className="w-64 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Subtotal</span>
+              <span>{formatCurrency(invoice.amount, invoice.currency)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Tax</span>
+              <span>{formatCurrency(invoice.tax_amount || 0, invoice.currency)}</span>
+            </div>
+            <div className="flex justify-between border-t-2 border-gray-800 pt-2 text-base font-bold">
+              <span>{invoice.amount_paid > 0 ? 'Total' : 'Total Due'}</span>
+              <span>{formatCurrency(invoice.total_amount, invoice.currency)}</span>
+            </div>
+            {invoice.amount_paid > 0 && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Amount Paid</span>
+                  <span>-{formatCurrency(invoice.amount_paid, invoice.currency)}</span>
+                </div>
+                <div className="flex justify-between border-t border-gray-300 pt-2 text-base font-bold">
+                  <span>Balance Due</span>
+                  <span>{formatCurrency(getOutstandingBalance(invoice), invoice.currency)}</span>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        {invoice.notes && (
+          <div className="mt-10">
+            <p className="text-xs font-semibold uppercase text-gray-500">Notes</p>
+            <p className="mt-1 text-sm whitespace-pre-line">{invoice.notes}</p>
+          </div>
+        )}
+
+        {company?.payment_instructions && (
+          <div className="mt-8">
+            <p className="text-xs font-semibold uppercase text-gray-500">Payment Instructions</p>
+            <p className="mt-1 text-sm whitespace-pre-line">{company.payment_instructions}</p>
+          </div>
+        )}
+
+        {company?.invoice_footer && (
+          <p className="mt-12 pt-4 border-t text-center text-xs text-gray-500 whitespace-pre-line">
+            {company.invoice_footer}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,7 +12,13 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Calendar, DollarSign, Clock, Users, Edit, Trash2, CheckCircle2, Target } from 'lucide-react';
+import { Plus, Calendar, DollarSign, Clock, Users, Edit, Trash2, CheckCircle2, Target, Ban, LayoutGrid, GanttChart, LayoutTemplate, SlidersHorizontal } from 'lucide-react';
+import { CURRENCIES, DEFAULT_CURRENCY, formatCurrency } from '@/lib/currency';
+import ProjectTimeline from '@/components/ProjectTimeline';
+import ProjectTemplatesDialog, { ProjectTemplate } from '@/components/ProjectTemplatesDialog';
+import CustomFieldsDialog from '@/components/CustomFieldsDialog';
+import CustomFieldInputs from '@/components/CustomFieldInputs';
+import { CustomField, getFieldsFor, isValidFieldInput, saveCustomFieldValues, toFieldInputs } from '@/lib/custom-fields';
 
 interface Project {
   id: string;
@@ -22,6 +28,8 @@ interface Project {
   start_date?: string;
   end_date?: string;
   budget?: number;
+  billing_rate?: number;
+  currency: string;
   estimated_hours?: number;
   actual_hours?: number;
   client_id?: string;
@@ -33,12 +41,14 @@ interface Project {
   task_stats?: {
     total_tasks: number;
     completed_tasks: number;
+    blocked_tasks: number;
   };
 }
 
 interface Client {
   id: string;
   name: string;
+  currency: string;
 }
 
 interface Profile {
@@ -49,13 +59,21 @@ interface Profile {
 }
 
 export default function Projects() {
-  const { isAdmin, profile } = useAuth();
+  const { isAdmin, isProjectManager, profile } = useAuth();
   const { toast } = useToast();
   const [projects, setProjects] = useState<Project[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
   const [managers, setManagers] = useState<Profile[]>([]);
   const [allUsers, setAllUsers] = useState<Profile[]>([]);
+  const [view, setView] = useState<'grid' | 'timeline'>('grid');
   const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [templateId, setTemplateId] = useState('none');
+  const [roleMembers, setRoleMembers] = useState<Record<string, string>>({});
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [showCustomFields, setShowCustomFields] = useState(false);
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
@@ -66,6 +84,8 @@ export default function Projects() {
     start_date: '',
     end_date: '',
     budget: '',
+    billing_rate: '',
+    currency: DEFAULT_CURRENCY,
     estimated_hours: '',
     client_id: '',
     project_manager_id: ''
@@ -78,6 +98,8 @@ export default function Projects() {
     fetchClients();
     fetchManagers();
     fetchAllUsers();
+    fetchTemplates();
+    fetchCustomFields();
   }, []);
 
   const fetchProjects = async () => {
@@ -94,6 +116,17 @@ export default function Projects() {
 
       if (projectsError) throw projectsError;
 
+      // Tasks still waiting on a blocker that isn't completed, across all projects
+      const { data: dependencyData } = await supabase
+        .from('task_dependencies')
+        .select('blocked_task_id, blocking:tasks!task_dependencies_blocking_task_id_fkey (status)');
+
+      const blockedTaskIds = new Set(
+        (dependencyData || [])
+          .filter(dependency => dependency.blocking?.status !== 'completed')
+          .map(dependency => dependency.blocked_task_id)
+      );
+
       // Then get project members and task stats for each project
       const enrichedProjects = await Promise.all(
         (projectsData || []).map(async (project) => {
@@ -108,18 +141,20 @@ export default function Projects() {
           // Get task statistics
           const { data: tasksData } = await supabase
             .from('tasks')
-            .select('status')
+            .select('id, status')
             .eq('project_id', project.id);
 
           const totalTasks = tasksData?.length || 0;
           const completedTasks = tasksData?.filter(task => task.status === 'completed').length || 0;
+          const blockedTasks = tasksData?.filter(task => task.status !== 'completed' && blockedTaskIds.has(task.id)).length || 0;
 
           return {
             ...project,
             project_members: membersData || [],
             task_stats: {
               total_tasks: totalTasks,
-              completed_tasks: completedTasks
+              completed_tasks: completedTasks,
+              blocked_tasks: blockedTasks
             }
           };
         })
@@ -141,7 +176,7 @@ export default function Projects() {
     try {
       const { data, error } = await supabase
         .from('clients')
-        .select('id, name')
+        .select('id, name, currency')
         .order('name');
 
       if (error) throw error;
@@ -181,8 +216,56 @@ export default function Projects() {
     }
   };
 
+  const fetchTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_templates')
+        .select('id, name, description, project_template_tasks (phase, default_role, estimated_hours)')
+        .order('name');
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error fetching project templates:', error);
+    }
+  };
+
+  const fetchCustomFields = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('custom_fields')
+        .select('id, entity_type, project_id, name, field_type, options, sort_order')
+        .order('sort_order')
+        .order('name');
+
+      if (error) throw error;
+      setCustomFields((data || []) as CustomField[]);
+    } catch (error) {
+      console.error('Error fetching custom fields:', error);
+    }
+  };
+
+  const projectFields = getFieldsFor(customFields, 'project');
+
+  const selectedTemplate = templates.find(template => template.id === templateId);
+  const templateRoles = Array.from(new Set(
+    (selectedTemplate?.project_template_tasks || [])
+      .map(task => task.default_role)
+      .filter((role): role is string => !!role)
+  )).sort();
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const invalidField = projectFields.find(field => !isValidFieldInput(field, fieldValues[field.id] || ''));
+    if (invalidField) {
+      toast({
+        title: "Error",
+        description: `${invalidField.name} has an invalid value`,
+        variant: "destructive",
+      });
+      return;
+    }
     
     try {
       const projectData = {
@@ -192,6 +275,8 @@ export default function Projects() {
         start_date: formData.start_date || null,
         end_date: formData.end_date || null,
         budget: formData.budget ? parseFloat(formData.budget) : null,
+        billing_rate: formData.billing_rate ? parseFloat(formData.billing_rate) : null,
+        currency: formData.currency,
         estimated_hours: formData.estimated_hours ? parseInt(formData.estimated_hours) : null,
         client_id: formData.client_id || null,
         project_manager_id: formData.project_manager_id || null
@@ -210,15 +295,31 @@ export default function Projects() {
 
         // Update team members for existing project
         if (projectId) {
-          // Remove existing members
-          await supabase
+          // Keep existing members so their role and allocated hours survive the edit
+          const { data: existingMembers, error: existingError } = await supabase
             .from('project_members')
-            .delete()
+            .select('user_id')
             .eq('project_id', projectId);
 
+          if (existingError) throw existingError;
+          const existingIds = existingMembers?.map(m => m.user_id) || [];
+
+          // Remove members that were deselected
+          const removedIds = existingIds.filter(userId => !selectedMembers.includes(userId));
+          if (removedIds.length > 0) {
+            const { error: removeError } = await supabase
+              .from('project_members')
+              .delete()
+              .eq('project_id', projectId)
+              .in('user_id', removedIds);
+
+            if (removeError) throw removeError;
+          }
+
           // Add new members
-          if (selectedMembers.length > 0) {
-            const memberInserts = selectedMembers.map(userId => ({
+          const addedIds = selectedMembers.filter(userId => !existingIds.includes(userId));
+          if (addedIds.length > 0) {
+            const memberInserts = addedIds.map(userId => ({
               project_id: projectId,
               user_id: userId,
               role: 'developer'
@@ -236,6 +337,22 @@ export default function Projects() {
           title: "Success",
           description: "Project updated successfully",
         });
+      } else if (selectedTemplate) {
+        // The project, its members and the template's tasks are created together or not at all
+        const { data: newProjectId, error } = await supabase.rpc('create_project_from_template', {
+          p_template_id: selectedTemplate.id,
+          p_project: projectData,
+          p_member_ids: selectedMembers,
+          p_role_members: roleMembers,
+        });
+
+        if (error) throw error;
+        projectId = newProjectId;
+
+        toast({
+          title: "Success",
+          description: `Project created with ${selectedTemplate.project_template_tasks.length} tasks from "${selectedTemplate.name}"`,
+        });
       } else {
         const { data: newProject, error } = await supabase
           .from('projects')
@@ -267,6 +384,10 @@ export default function Projects() {
         });
       }
 
+      if (projectId && projectFields.length > 0) {
+        await saveCustomFieldValues({ project_id: projectId }, projectFields, fieldValues, profile?.id);
+      }
+
       setShowAddDialog(false);
       setEditingProject(null);
       resetForm();
@@ -281,6 +402,16 @@ export default function Projects() {
     }
   };
 
+  // New projects are budgeted in the client's currency by default
+  const handleClientChange = (clientId: string) => {
+    const client = clients.find(c => c.id === clientId);
+    setFormData({
+      ...formData,
+      client_id: clientId,
+      currency: !editingProject && client ? client.currency : formData.currency
+    });
+  };
+
   const resetForm = () => {
     setFormData({
       name: '',
@@ -289,10 +420,15 @@ export default function Projects() {
       start_date: '',
       end_date: '',
       budget: '',
+      billing_rate: '',
+      currency: DEFAULT_CURRENCY,
       estimated_hours: '',
       client_id: '',
       project_manager_id: ''
     });
+    setTemplateId('none');
+    setRoleMembers({});
+    setFieldValues({});
   };
 
   const handleEdit = async (project: Project) => {
@@ -304,6 +440,8 @@ export default function Projects() {
       start_date: project.start_date || '',
       end_date: project.end_date || '',
       budget: project.budget?.toString() || '',
+      billing_rate: project.billing_rate?.toString() || '',
+      currency: project.currency,
       estimated_hours: project.estimated_hours?.toString() || '',
       client_id: project.client_id || '',
       project_manager_id: project.project_manager_id || ''
@@ -322,6 +460,19 @@ export default function Projects() {
         console.error('Error loading team members:', error);
         setSelectedMembers([]);
       }
+
+      try {
+        const { data: values, error } = await supabase
+          .from('custom_field_values')
+          .select('field_id, text_value, number_value, date_value, user_value')
+          .eq('project_id', project.id);
+
+        if (error) throw error;
+        setFieldValues(toFieldInputs(customFields, values || []));
+      } catch (error) {
+        console.error('Error loading custom field values:', error);
+        setFieldValues({});
+      }
     }
 
     setShowAddDialog(true);
@@ -380,172 +531,297 @@ export default function Projects() {
           <p className="text-muted-foreground">Manage your projects and track progress</p>
         </div>
         {canManageProjects && (
-          <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
-            <DialogTrigger asChild>
-              <Button onClick={() => { resetForm(); setEditingProject(null); }}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Project
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>{editingProject ? 'Edit Project' : 'Add New Project'}</DialogTitle>
-                <DialogDescription>
-                  {editingProject ? 'Update project information' : 'Create a new project for your team'}
-                </DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleSubmit}>
-                <div className="grid gap-4 py-4">
-                  <div className="grid grid-cols-4 items-center gap-4">
-                    <Label htmlFor="name" className="text-right">Project Name</Label>
-                    <Input
-                      id="name"
-                      value={formData.name}
-                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                      className="col-span-3"
-                      required
-                    />
-                  </div>
-                  <div className="grid grid-cols-4 items-center gap-4">
-                    <Label htmlFor="description" className="text-right">Description</Label>
-                    <Textarea
-                      id="description"
-                      value={formData.description}
-                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                      className="col-span-3"
-                      rows={3}
-                    />
-                  </div>
-                  <div className="grid grid-cols-4 items-center gap-4">
-                    <Label htmlFor="status" className="text-right">Status</Label>
-                    <Select value={formData.status} onValueChange={(value: any) => setFormData({ ...formData, status: value })}>
-                      <SelectTrigger className="col-span-3">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="planning">Planning</SelectItem>
-                        <SelectItem value="active">Active</SelectItem>
-                        <SelectItem value="on_hold">On Hold</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
-                        <SelectItem value="cancelled">Cancelled</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="grid grid-cols-4 items-center gap-4">
-                    <Label htmlFor="client_id" className="text-right">Client</Label>
-                    <Select value={formData.client_id} onValueChange={(value) => setFormData({ ...formData, client_id: value })}>
-                      <SelectTrigger className="col-span-3">
-                        <SelectValue placeholder="Select a client" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {clients.map((client) => (
-                          <SelectItem key={client.id} value={client.id}>
-                            {client.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="grid grid-cols-4 items-center gap-4">
-                    <Label htmlFor="project_manager_id" className="text-right">Project Manager</Label>
-                    <Select value={formData.project_manager_id} onValueChange={(value) => setFormData({ ...formData, project_manager_id: value })}>
-                      <SelectTrigger className="col-span-3">
-                        <SelectValue placeholder="Select a project manager" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {managers.map((manager) => (
-                          <SelectItem key={manager.id} value={manager.id}>
-                            {manager.first_name} {manager.last_name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="grid grid-cols-4 items-center gap-4">
-                    <Label htmlFor="start_date" className="text-right">Start Date</Label>
-                    <Input
-                      id="start_date"
-                      type="date"
-                      value={formData.start_date}
-                      onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
-                      className="col-span-3"
-                    />
-                  </div>
-                  <div className="grid grid-cols-4 items-center gap-4">
-                    <Label htmlFor="end_date" className="text-right">End Date</Label>
-                    <Input
-                      id="end_date"
-                      type="date"
-                      value={formData.end_date}
-                      onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
-                      className="col-span-3"
-                    />
-                  </div>
-                  <div className="grid grid-cols-4 items-center gap-4">
-                    <Label htmlFor="budget" className="text-right">Budget</Label>
-                    <Input
-                      id="budget"
-                      type="number"
-                      step="0.01"
-                      value={formData.budget}
-                      onChange={(e) => setFormData({ ...formData, budget: e.target.value })}
-                      className="col-span-3"
-                      placeholder="0.00"
-                    />
-                  </div>
-                  <div className="grid grid-cols-4 items-center gap-4">
-                    <Label htmlFor="estimated_hours" className="text-right">Estimated Hours</Label>
-                    <Input
-                      id="estimated_hours"
-                      type="number"
-                      value={formData.estimated_hours}
-                      onChange={(e) => setFormData({ ...formData, estimated_hours: e.target.value })}
-                      className="col-span-3"
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowCustomFields(true)}>
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Custom Fields
+            </Button>
+            <Button variant="outline" onClick={() => setShowTemplates(true)}>
+              <LayoutTemplate className="h-4 w-4 mr-2" />
+              Templates
+            </Button>
+            <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+              <DialogTrigger asChild>
+                <Button onClick={() => { resetForm(); setEditingProject(null); }}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Project
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>{editingProject ? 'Edit Project' : 'Add New Project'}</DialogTitle>
+                  <DialogDescription>
+                    {editingProject ? 'Update project information' : 'Create a new project for your team'}
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                  <div className="grid gap-4 py-4">
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="name" className="text-right">Project Name</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        className="col-span-3"
+                        required
+                      />
+                    </div>
+                    {!editingProject && templates.length > 0 && (
+                      <div className="grid grid-cols-4 items-start gap-4">
+                        <Label className="text-right mt-2">Template</Label>
+                        <div className="col-span-3 space-y-2">
+                          <Select value={templateId} onValueChange={(value) => { setTemplateId(value); setRoleMembers({}); }}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Blank project</SelectItem>
+                              {templates.map((template) => (
+                                <SelectItem key={template.id} value={template.id}>
+                                  {template.name} ({template.project_template_tasks.length} tasks)
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {templateRoles.map((role) => (
+                            <div key={role} className="grid grid-cols-3 items-center gap-2">
+                              <span className="text-sm text-muted-foreground capitalize">{role}</span>
+                              <Select
+                                value={roleMembers[role] || 'none'}
+                                onValueChange={(value) => setRoleMembers({ ...roleMembers, [role]: value === 'none' ? '' : value })}
+                              >
+                                <SelectTrigger className="col-span-2">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">Leave unassigned</SelectItem>
+                                  {allUsers.map((user) => (
+                                    <SelectItem key={user.id} value={user.id}>{user.first_name} {user.last_name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          ))}
+                          {selectedTemplate && (
+                            <p className="text-xs text-muted-foreground">
+                              Task dates are counted from the start date, or from today if it is empty
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="description" className="text-right">Description</Label>
+                      <Textarea
+                        id="description"
+                        value={formData.description}
+                        onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                        className="col-span-3"
+                        rows={3}
+                      />
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="status" className="text-right">Status</Label>
+                      <Select value={formData.status} onValueChange={(value: any) => setFormData({ ...formData, status: value })}>
+                        <SelectTrigger className="col-span-3">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="planning">Planning</SelectItem>
+                          <SelectItem value="active">Active</SelectItem>
+                          <SelectItem value="on_hold">On Hold</SelectItem>
+                          <SelectItem value="completed">Completed</SelectItem>
+                          <SelectItem value="cancelled">Cancelled</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="client_id" className="text-right">Client</Label>
+                      <Select value={formData.client_id} onValueChange={handleClientChange}>
+                        <SelectTrigger className="col-span-3">
+                          <SelectValue placeholder="Select a client" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {clients.map((client) => (
+                            <SelectItem key={client.id} value={client.id}>
+                              {client.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="project_manager_id" className="text-right">Project Manager</Label>
+                      <Select value={formData.project_manager_id} onValueChange={(value) => setFormData({ ...formData, project_manager_id: value })}>
+                        <SelectTrigger className="col-span-3">
+                          <SelectValue placeholder="Select a project manager" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {managers.map((manager) => (
+                            <SelectItem key={manager.id} value={manager.id}>
+                              {manager.first_name} {manager.last_name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="start_date" className="text-right">Start Date</Label>
+                      <Input
+                        id="start_date"
+                        type="date"
+                        value={formData.start_date}
+                        onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                        className="col-span-3"
+                      />
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="end_date" className="text-right">End Date</Label>
+                      <Input
+                        id="end_date"
+                        type="date"
+                        value={formData.end_date}
+                        onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                        className="col-span-3"
+                      />
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="currency" className="text-right">Currency</Label>
+                      <Select value={formData.currency} onValueChange={(value) => setFormData({ ...formData, currency: value })}>
+                        <SelectTrigger id="currency" className="col-span-3">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[...new Set([...CURRENCIES, formData.currency])].map((currency) => (
+                            <SelectItem key={currency} value={currency}>
+                              {currency}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="budget" className="text-right">Budget</Label>
+                      <Input
+                        id="budget"
+                        type="number"
+                        step="0.01"
+                        value={formData.budget}
+                        onChange={(e) => setFormData({ ...formData, budget: e.target.value })}
+                        className="col-span-3"
+                        placeholder="0.00"
+                      />
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="billing_rate" className="text-right">Billing Rate</Label>
+                      <div className="col-span-3">
+                        <Input
+                          id="billing_rate"
+                          type="number"
+                          step="0.01"
+                          value={formData.billing_rate}
+                          onChange={(e) => setFormData({ ...formData, billing_rate: e.target.value })}
+                          placeholder="Use each member's hourly rate"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Hourly rate used when billing time on this project
+                        </p>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="estimated_hours" className="text-right">Estimated Hours</Label>
+                      <Input
+                        id="estimated_hours"
+                        type="number"
+                        value={formData.estimated_hours}
+                        onChange={(e) => setFormData({ ...formData, estimated_hours: e.target.value })}
+                        className="col-span-3"
+                      />
+                    </div>
+                    <CustomFieldInputs
+                      fields={projectFields}
+                      values={fieldValues}
+                      profiles={allUsers}
+                      onChange={setFieldValues}
                     />
-                  </div>
                   
-                  {/* Team Member Selection */}
-                  <div className="grid grid-cols-4 items-start gap-4">
-                    <Label className="text-right mt-2">Team Members</Label>
-                    <div className="col-span-3">
-                      <div className="max-h-40 overflow-y-auto border rounded-md p-3 space-y-2">
-                        {allUsers.map((user) => (
-                          <div key={user.id} className="flex items-center space-x-2">
-                            <Checkbox
-                              id={`member-${user.id}`}
-                              checked={selectedMembers.includes(user.id)}
-                              onCheckedChange={(checked) => {
-                                if (checked) {
-                                  setSelectedMembers([...selectedMembers, user.id]);
-                                } else {
-                                  setSelectedMembers(selectedMembers.filter(id => id !== user.id));
-                                }
-                              }}
-                            />
-                            <Label 
-                              htmlFor={`member-${user.id}`} 
-                              className="text-sm cursor-pointer"
-                            >
-                              {user.first_name} {user.last_name} ({user.role})
-                            </Label>
-                          </div>
-                        ))}
+                    {/* Team Member Selection */}
+                    <div className="grid grid-cols-4 items-start gap-4">
+                      <Label className="text-right mt-2">Team Members</Label>
+                      <div className="col-span-3">
+                        <div className="max-h-40 overflow-y-auto border rounded-md p-3 space-y-2">
+                          {allUsers.map((user) => (
+                            <div key={user.id} className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`member-${user.id}`}
+                                checked={selectedMembers.includes(user.id)}
+                                onCheckedChange={(checked) => {
+                                  if (checked) {
+                                    setSelectedMembers([...selectedMembers, user.id]);
+                                  } else {
+                                    setSelectedMembers(selectedMembers.filter(id => id !== user.id));
+                                  }
+                                }}
+                              />
+                              <Label 
+                                htmlFor={`member-${user.id}`} 
+                                className="text-sm cursor-pointer"
+                              >
+                                {user.first_name} {user.last_name} ({user.role})
+                              </Label>
+                            </div>
+                          ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Select team members to assign to this project
+                        </p>
                       </div>
-                      <p className="text-xs text-muted-foreground mt-1">
-                        Select team members to assign to this project
-                      </p>
                     </div>
                   </div>
-                </div>
-                <DialogFooter>
-                  <Button type="submit">{editingProject ? 'Update' : 'Create'} Project</Button>
-                </DialogFooter>
-              </form>
-            </DialogContent>
-          </Dialog>
+                  <DialogFooter>
+                    <Button type="submit">{editingProject ? 'Update' : 'Create'} Project</Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         )}
       </div>
 
+      <div className="flex justify-end gap-2">
+        <Button variant={view === 'grid' ? 'default' : 'outline'} size="sm" onClick={() => setView('grid')}>
+          <LayoutGrid className="h-4 w-4 mr-2" />
+          Grid
+        </Button>
+        <Button variant={view === 'timeline' ? 'default' : 'outline'} size="sm" onClick={() => setView('timeline')}>
+          <GanttChart className="h-4 w-4 mr-2" />
+          Timeline
+        </Button>
+      </div>
+
+      <ProjectTemplatesDialog
+        open={showTemplates}
+        onOpenChange={setShowTemplates}
+        templates={templates}
+        onSaved={fetchTemplates}
+      />
+
+      <CustomFieldsDialog
+        open={showCustomFields}
+        onOpenChange={setShowCustomFields}
+        fields={customFields}
+        projects={projects}
+        onSaved={fetchCustomFields}
+      />
+
+      {view === 'timeline' ? (
+        <ProjectTimeline
+          projects={projects}
+          canEdit={isAdmin || isProjectManager}
+          onChanged={fetchProjects}
+        />
+      ) : (
+      <>
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
         {projects.map((project) => (
           <Card key={project.id}>
@@ -616,7 +892,7 @@ export default function Projects() {
                 {project.budget && (
                   <div className="flex items-center">
                     <DollarSign className="h-4 w-4 mr-1 text-muted-foreground" />
-                    <span>${project.budget.toLocaleString()}</span>
+                    <span>{formatCurrency(project.budget, project.currency)}</span>
                   </div>
                 )}
                 {project.estimated_hours && (
@@ -655,6 +931,12 @@ export default function Projects() {
                       style={{ width: `${(project.task_stats.completed_tasks / project.task_stats.total_tasks) * 100}%` }}
                     ></div>
                   </div>
+                  {project.task_stats.blocked_tasks > 0 && (
+                    <div className="flex items-center gap-1 text-xs text-red-600 mt-1">
+                      <Ban className="h-3 w-3" />
+                      <span>{project.task_stats.blocked_tasks} blocked by unfinished dependencies</span>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -686,6 +968,8 @@ export default function Projects() {
           <p className="text-muted-foreground">No projects found</p>
         </div>
       )}
+      </>
+      )}
     </div>
   );
 }
\ No newline at end of file
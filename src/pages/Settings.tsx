@@ -12,6 +12,8 @@ import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
 import { User, Lock, Bell, Users, Shield, Save, Upload } from 'lucide-react';
+import CompanySettingsForm from '@/components/CompanySettingsForm';
+import ExchangeRatesManager from '@/components/ExchangeRatesManager';
 
 interface Profile {
   id: string;
@@ -47,6 +49,8 @@ export default function Settings() {
     new_password: '',
     confirm_password: ''
   });
+  // Bumped when company settings are saved so the rates list follows a new base currency
+  const [companySettingsVersion, setCompanySettingsVersion] = useState(0);
   const [notificationSettings, setNotificationSettings] = useState({
     email_notifications: true,
     task_updates: true,
@@ -308,11 +312,12 @@ export default function Settings() {
       </div>
 
       <Tabs defaultValue="profile" className="w-full">
-        <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-4' : 'grid-cols-3'}`}>
+        <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-5' : 'grid-cols-3'}`}>
           <TabsTrigger value="profile">Profile</TabsTrigger>
           <TabsTrigger value="security">Security</TabsTrigger>
           <TabsTrigger value="notifications">Notifications</TabsTrigger>
           {isAdmin && <TabsTrigger value="users">User Management</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="company">Company</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="profile" className="space-y-4">
@@ -622,6 +627,13 @@ export default function Settings() {
             </Card>
           </TabsContent>
         )}
+
+        {isAdmin && (
+          <TabsContent value="company" className="space-y-4">
+            <CompanySettingsForm onSaved={() => setCompanySettingsVersion(version => version + 1)} />
+            <ExchangeRatesManager key={companySettingsVersion} />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
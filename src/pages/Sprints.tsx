@@ -0,0 +1,671 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { Plus, Edit, Trash2, Play, CheckCircle2, ArrowLeft, ArrowRight, CornerDownRight, Target } from 'lucide-react';
+import SprintBurndown from '@/components/SprintBurndown';
+import SprintCapacity, { CapacityRow } from '@/components/SprintCapacity';
+import { addDays, formatHours, toDateString } from '@/lib/time-entries';
+import { getTaskPriorityColor, getTaskStatusColor } from '@/lib/tasks';
+import {
+  SPRINT_LENGTH_DAYS,
+  SPRINT_STATUS_LABELS,
+  Sprint,
+  getCountedSprintTasks,
+  getSprintStatusColor,
+  sumEstimates,
+} from '@/lib/sprints';
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+interface PlanningTask {
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  estimated_hours: number | null;
+  assigned_to: string | null;
+  parent_task_id: string | null;
+  sprint_id: string | null;
+  completed_at: string | null;
+  assignee?: { first_name: string; last_name: string } | null;
+}
+
+const BACKLOG = 'backlog';
+
+export default function Sprints() {
+  const { profile, isProjectManager } = useAuth();
+  const { toast } = useToast();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [sprintId, setSprintId] = useState('');
+  const [tasks, setTasks] = useState<PlanningTask[]>([]);
+  const [capacity, setCapacity] = useState<CapacityRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showSprintDialog, setShowSprintDialog] = useState(false);
+  const [editingSprint, setEditingSprint] = useState<Sprint | null>(null);
+  const [showCompleteDialog, setShowCompleteDialog] = useState(false);
+  const [moveUnfinishedTo, setMoveUnfinishedTo] = useState(BACKLOG);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    name: '',
+    goal: '',
+    start_date: '',
+    end_date: '',
+  });
+
+  useEffect(() => {
+    fetchProjects();
+  }, []);
+
+  useEffect(() => {
+    if (projectId) {
+      fetchSprints();
+      fetchTasks();
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (sprintId) fetchCapacity();
+    else setCapacity([]);
+  }, [sprintId]);
+
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setProjects(data || []);
+      if (data && data.length > 0) setProjectId(data[0].id);
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The active sprint is selected first, then the next planned one, then the latest closed one
+  const fetchSprints = async (selectId?: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('sprints')
+        .select('id, project_id, name, goal, start_date, end_date, status, committed_hours, completed_hours')
+        .eq('project_id', projectId)
+        .order('start_date');
+
+      if (error) throw error;
+
+      const rows = (data || []) as Sprint[];
+      setSprints(rows);
+
+      const keep = rows.find(sprint => sprint.id === (selectId || sprintId));
+      const preferred = keep
+        || rows.find(sprint => sprint.status === 'active')
+        || rows.find(sprint => sprint.status === 'planned')
+        || rows[rows.length - 1];
+      setSprintId(preferred?.id || '');
+    } catch (error) {
+      console.error('Error fetching sprints:', error);
+    }
+  };
+
+  const fetchTasks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select(`
+          id, title, status, priority, estimated_hours, assigned_to, parent_task_id, sprint_id, completed_at,
+          assignee:profiles!tasks_assigned_to_fkey (first_name, last_name)
+        `)
+        .eq('project_id', projectId)
+        .order('position');
+
+      if (error) throw error;
+      setTasks(data || []);
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+    }
+  };
+
+  const fetchCapacity = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_sprint_capacity', { p_sprint_id: sprintId });
+
+      if (error) throw error;
+      setCapacity(data || []);
+    } catch (error) {
+      console.error('Error fetching sprint capacity:', error);
+      setCapacity([]);
+    }
+  };
+
+  const sprint = sprints.find(s => s.id === sprintId);
+  const activeSprint = sprints.find(s => s.status === 'active');
+  const canPlan = isProjectManager && !!sprint && sprint.status !== 'completed';
+
+  const backlogTasks = tasks.filter(task => !task.sprint_id && task.status !== 'completed');
+  const sprintTasks = sprint ? tasks.filter(task => task.sprint_id === sprint.id) : [];
+  const countedTasks = sprint ? getCountedSprintTasks(sprint.id, tasks) : [];
+  const unassignedHours = sumEstimates(countedTasks.filter(task => !task.assigned_to));
+  const unfinishedCount = sprintTasks.filter(task => task.status !== 'completed').length;
+
+  const getTaskTitle = (id: string) => tasks.find(task => task.id === id)?.title;
+
+  const openSprintDialog = (existing: Sprint | null) => {
+    setEditingSprint(existing);
+    if (existing) {
+      setFormData({
+        name: existing.name,
+        goal: existing.goal || '',
+        start_date: existing.start_date,
+        end_date: existing.end_date,
+      });
+    } else {
+      // New sprints follow on from the last one
+      const last = sprints[sprints.length - 1];
+      const today = toDateString(new Date());
+      const start = last && last.end_date >= today ? addDays(last.end_date, 1) : today;
+      setFormData({
+        name: `Sprint ${sprints.length + 1}`,
+        goal: '',
+        start_date: start,
+        end_date: addDays(start, SPRINT_LENGTH_DAYS - 1),
+      });
+    }
+    setShowSprintDialog(true);
+  };
+
+  const handleSaveSprint = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.end_date < formData.start_date) {
+      toast({
+        title: "Error",
+        description: "The sprint can't end before it starts",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const sprintData = {
+        name: formData.name.trim(),
+        goal: formData.goal.trim() || null,
+        start_date: formData.start_date,
+        end_date: formData.end_date,
+      };
+
+      if (editingSprint) {
+        const { error } = await supabase
+          .from('sprints')
+          .update(sprintData)
+          .eq('id', editingSprint.id);
+
+        if (error) throw error;
+        fetchSprints(editingSprint.id);
+      } else {
+        const { data, error } = await supabase
+          .from('sprints')
+          .insert([{ ...sprintData, project_id: projectId, created_by: profile?.id }])
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        fetchSprints(data.id);
+      }
+
+      toast({
+        title: "Success",
+        description: `Sprint ${editingSprint ? 'updated' : 'created'} successfully`,
+      });
+
+      setShowSprintDialog(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleStartSprint = async () => {
+    if (!sprint) return;
+
+    if (activeSprint) {
+      toast({
+        title: "Error",
+        description: `Complete "${activeSprint.name}" before starting another sprint`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('sprints')
+        .update({ status: 'active' })
+        .eq('id', sprint.id);
+
+      if (error) throw error;
+      fetchSprints(sprint.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCompleteSprint = async () => {
+    if (!sprint) return;
+
+    try {
+      const { data: moved, error } = await supabase.rpc('complete_sprint', {
+        p_sprint_id: sprint.id,
+        p_next_sprint_id: moveUnfinishedTo === BACKLOG ? null : moveUnfinishedTo,
+      });
+
+      if (error) throw error;
+
+      const destination = sprints.find(s => s.id === moveUnfinishedTo)?.name || 'the backlog';
+      toast({
+        title: "Success",
+        description: moved
+          ? `Sprint completed. ${moved} unfinished task${moved === 1 ? '' : 's'} moved to ${destination}`
+          : 'Sprint completed with every task done',
+      });
+
+      setShowCompleteDialog(false);
+      fetchSprints(sprint.id);
+      fetchTasks();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteSprint = async () => {
+    if (!sprint || !confirm(`Delete "${sprint.name}"? Its tasks go back to the backlog.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('sprints')
+        .delete()
+        .eq('id', sprint.id);
+
+      if (error) throw error;
+
+      setSprintId('');
+      fetchSprints();
+      fetchTasks();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const moveTask = async (task: PlanningTask, targetSprintId: string | null) => {
+    if (task.sprint_id === targetSprintId) return;
+
+    // Subtasks follow their parent on the server; show the move straight away
+    setTasks(tasks.map(t => (t.id === task.id || (t.parent_task_id === task.id && t.status !== 'completed'))
+      ? { ...t, sprint_id: targetSprintId }
+      : t));
+
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ sprint_id: targetSprintId })
+        .eq('id', task.id);
+
+      if (error) throw error;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      fetchTasks();
+      if (sprintId) fetchCapacity();
+    }
+  };
+
+  const handleDrop = (target: string) => {
+    const task = tasks.find(t => t.id === draggedId);
+    setDraggedId(null);
+    setDropTarget(null);
+    if (task) moveTask(task, target === BACKLOG ? null : target);
+  };
+
+  const renderTask = (task: PlanningTask, inSprint: boolean) => (
+    <Card
+      key={task.id}
+      draggable={canPlan}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        setDraggedId(task.id);
+      }}
+      onDragEnd={() => {
+        setDraggedId(null);
+        setDropTarget(null);
+      }}
+      className={cn(canPlan && 'cursor-grab active:cursor-grabbing', draggedId === task.id && 'opacity-50')}
+    >
+      <CardContent className="p-3 flex items-start gap-2">
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className={cn('text-sm font-medium', task.status === 'completed' && 'line-through text-muted-foreground')}>
+            {task.title}
+          </p>
+          {task.parent_task_id && (
+            <span className="flex items-center text-xs text-muted-foreground">
+              <CornerDownRight className="h-3 w-3 mr-1" />
+              {getTaskTitle(task.parent_task_id)}
+            </span>
+          )}
+          <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+            <Badge variant="secondary" className={getTaskStatusColor(task.status)}>{task.status.replace('_', ' ')}</Badge>
+            <Badge variant="secondary" className={getTaskPriorityColor(task.priority)}>{task.priority}</Badge>
+            <span>{task.estimated_hours ? formatHours(task.estimated_hours) : 'No estimate'}</span>
+            {task.assignee && <span>• {task.assignee.first_name} {task.assignee.last_name}</span>}
+          </div>
+        </div>
+        {canPlan && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            title={inSprint ? 'Move to backlog' : `Add to ${sprint?.name}`}
+            onClick={() => moveTask(task, inSprint ? null : sprint?.id || null)}
+          >
+            {inSprint ? <ArrowLeft className="h-4 w-4" /> : <ArrowRight className="h-4 w-4" />}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderColumn = (key: string, title: string, description: string, columnTasks: PlanningTask[], inSprint: boolean) => (
+    <Card
+      className={cn('transition-colors', dropTarget === key && 'ring-2 ring-primary')}
+      onDragOver={(e) => {
+        if (!draggedId || !canPlan) return;
+        e.preventDefault();
+        if (dropTarget !== key) setDropTarget(key);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        handleDrop(key);
+      }}
+    >
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 min-h-[160px]">
+        {columnTasks.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {inSprint ? 'Drag tasks here from the backlog' : 'No open tasks without a sprint'}
+          </p>
+        ) : (
+          columnTasks.map(task => renderTask(task, inSprint))
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Sprints</h1>
+          <p className="text-muted-foreground">Plan iterations from the backlog and track their progress</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={projectId} onValueChange={(value) => { setProjectId(value); setSprintId(''); }}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Select a project" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isProjectManager && projectId && (
+            <Button onClick={() => openSprintDialog(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Sprint
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {projects.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            You aren't on any projects yet
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={sprintId} onValueChange={setSprintId}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder={sprints.length > 0 ? 'Select a sprint' : 'No sprints yet'} />
+              </SelectTrigger>
+              <SelectContent>
+                {sprints.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name} ({SPRINT_STATUS_LABELS[s.status]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {sprint && isProjectManager && (
+              <>
+                {sprint.status === 'planned' && (
+                  <Button variant="outline" size="sm" onClick={handleStartSprint}>
+                    <Play className="h-4 w-4 mr-2" />
+                    Start Sprint
+                  </Button>
+                )}
+                {sprint.status === 'active' && (
+                  <Button variant="outline" size="sm" onClick={() => { setMoveUnfinishedTo(BACKLOG); setShowCompleteDialog(true); }}>
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                    Complete Sprint
+                  </Button>
+                )}
+                {sprint.status !== 'completed' && (
+                  <Button variant="ghost" size="sm" onClick={() => openSprintDialog(sprint)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
+                {sprint.status === 'planned' && (
+                  <Button variant="ghost" size="sm" onClick={handleDeleteSprint}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+
+          {sprint && (
+            <Card>
+              <CardContent className="p-4 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+                <Badge variant="secondary" className={getSprintStatusColor(sprint.status)}>
+                  {SPRINT_STATUS_LABELS[sprint.status]}
+                </Badge>
+                <span>
+                  {new Date(`${sprint.start_date}T00:00:00`).toLocaleDateString()} – {new Date(`${sprint.end_date}T00:00:00`).toLocaleDateString()}
+                </span>
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <Target className="h-4 w-4" />
+                  {sprint.goal || 'No goal set'}
+                </span>
+                <span className="ml-auto text-muted-foreground">
+                  {sprint.status === 'completed' && sprint.committed_hours !== null
+                    ? `${formatHours(sprint.completed_hours)} of ${formatHours(sprint.committed_hours)} completed`
+                    : `${formatHours(sumEstimates(countedTasks.filter(task => task.status === 'completed')))} of ${formatHours(sumEstimates(countedTasks))} completed`}
+                </span>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            {renderColumn(
+              BACKLOG,
+              'Backlog',
+              `${backlogTasks.length} open task${backlogTasks.length === 1 ? '' : 's'} • ${formatHours(sumEstimates(backlogTasks.filter(task => !backlogTasks.some(t => t.parent_task_id === task.id))))} estimated`,
+              backlogTasks,
+              false
+            )}
+            {sprint ? renderColumn(
+              sprint.id,
+              sprint.name,
+              `${sprintTasks.length} task${sprintTasks.length === 1 ? '' : 's'} • ${formatHours(sumEstimates(countedTasks))} estimated`,
+              sprintTasks,
+              true
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  {isProjectManager ? 'Create a sprint to start planning' : 'No sprints planned for this project yet'}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {sprint && (
+            <div className="grid gap-4 lg:grid-cols-2">
+              <SprintCapacity rows={capacity} unassignedHours={unassignedHours} />
+              <SprintBurndown sprint={sprint} tasks={tasks} />
+            </div>
+          )}
+        </>
+      )}
+
+      <Dialog open={showSprintDialog} onOpenChange={setShowSprintDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSprint ? 'Edit Sprint' : 'New Sprint'}</DialogTitle>
+            <DialogDescription>
+              {projects.find(p => p.id === projectId)?.name}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveSprint} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sprint_name">Name</Label>
+              <Input
+                id="sprint_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sprint_goal">Goal</Label>
+              <Textarea
+                id="sprint_goal"
+                value={formData.goal}
+                onChange={(e) => setFormData({ ...formData, goal: e.target.value })}
+                placeholder="What should this sprint achieve?"
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sprint_start">Start Date</Label>
+                <Input
+                  id="sprint_start"
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sprint_end">End Date</Label>
+                <Input
+                  id="sprint_end"
+                  type="date"
+                  value={formData.end_date}
+                  min={formData.start_date || undefined}
+                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={!formData.name.trim()}>
+                {editingSprint ? 'Update' : 'Create'} Sprint
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showCompleteDialog} onOpenChange={setShowCompleteDialog}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Complete Sprint</DialogTitle>
+            <DialogDescription>
+              {unfinishedCount === 0
+                ? 'Every task in this sprint is done'
+                : `${unfinishedCount} unfinished task${unfinishedCount === 1 ? '' : 's'} will leave ${sprint?.name}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Move unfinished tasks to</Label>
+            <Select value={moveUnfinishedTo} onValueChange={setMoveUnfinishedTo}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BACKLOG}>Backlog</SelectItem>
+                {sprints.filter(s => s.status === 'planned').map((s) => (
+                  <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleCompleteSprint}>Complete Sprint</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useTaskTimer } from '@/hooks/useTaskTimer';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,10 +11,22 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Calendar, Clock, User, Edit, Trash2, CheckCircle2 } from 'lucide-react';
+import { Plus, Calendar, Clock, User, Edit, Trash2, CheckCircle2, Play, Square, Timer, MessageSquare, LayoutGrid, Columns3, Link2, Ban, ListChecks, CornerDownRight, Repeat } from 'lucide-react';
 import Countdown from '@/components/Countdown';
+import LogTimeDialog from '@/components/LogTimeDialog';
+import TaskDetailDrawer from '@/components/TaskDetailDrawer';
+import TaskBoard, { BoardMove } from '@/components/TaskBoard';
+import TaskFilterBar from '@/components/TaskFilterBar';
+import TaskBulkActions, { BulkTaskChanges } from '@/components/TaskBulkActions';
+import CustomFieldInputs from '@/components/CustomFieldInputs';
+import { formatElapsed, formatHours } from '@/lib/time-entries';
+import { TaskDependency, TaskPriority, TaskRecurrence, TaskStatus, describeRecurrence, getOpenBlockers, getTaskPriorityColor, getTaskStatusColor } from '@/lib/tasks';
+import { BOARD_TASK_LIMIT, TASK_PAGE_SIZE, TaskListFilters, parseFieldFilter, parseTaskFilters, toSearchPattern, toTaskFilterParams } from '@/lib/task-filters';
+import { CustomField, getFieldsFor, getValueColumn, isValidFieldInput, saveCustomFieldValues, toFieldInputs } from '@/lib/custom-fields';
+import { addDays } from '@/lib/time-entries';
 
 interface Task {
   id: string;
@@ -20,10 +34,14 @@ interface Task {
   description?: string;
   status: 'todo' | 'in_progress' | 'review' | 'completed';
   priority: 'low' | 'medium' | 'high' | 'urgent';
+  start_date?: string | null;
   due_date?: string;
   estimated_hours?: number;
   actual_hours?: number;
+  position: number;
   project_id: string;
+  parent_task_id?: string | null;
+  recurrence_id?: string | null;
   assigned_to?: string;
   created_by: string;
   completed_at?: string;
@@ -33,6 +51,15 @@ interface Task {
   creator?: { first_name: string; last_name: string };
 }
 
+interface ProjectTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  estimated_hours?: number;
+  parent_task_id?: string | null;
+  assignee?: { first_name: string; last_name: string };
+}
+
 interface Project {
   id: string;
   name: string;
@@ -47,55 +74,210 @@ interface Profile {
 export default function Tasks() {
   const { profile, isAdmin } = useAuth();
   const { toast } = useToast();
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const [pageTasks, setPageTasks] = useState<Task[]>([]);
+  const [totalTasks, setTotalTasks] = useState(0);
+  const [boardTasks, setBoardTasks] = useState<Task[]>([]);
+  const [boardTotal, setBoardTotal] = useState(0);
+  const [tasksLoading, setTasksLoading] = useState(true);
+  const [relatedTasks, setRelatedTasks] = useState<Task[]>([]);
+  const [projectTasks, setProjectTasks] = useState<ProjectTask[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
   const [projects, setProjects] = useState<Project[]>([]);
   const [profiles, setProfiles] = useState<Profile[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [checklistCounts, setChecklistCounts] = useState<Record<string, { done: number; total: number }>>({});
+  const [recurrences, setRecurrences] = useState<TaskRecurrence[]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [customFieldsLoaded, setCustomFieldsLoaded] = useState(false);
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
-  const [activeTab, setActiveTab] = useState('all');
+  const [view, setView] = useState<'list' | 'board'>('list');
+  const [logTimeTaskId, setLogTimeTaskId] = useState<string | null>(null);
+  const [detailTask, setDetailTask] = useState<Task | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const { timer, elapsedSeconds, startTimer, stopTimer } = useTaskTimer();
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     status: 'todo' as 'todo' | 'in_progress' | 'review' | 'completed',
     priority: 'medium' as 'low' | 'medium' | 'high' | 'urgent',
+    start_date: '',
     due_date: '',
     estimated_hours: '',
     project_id: '',
+    parent_task_id: '',
     assigned_to: ''
   });
 
   useEffect(() => {
-    fetchTasks();
     fetchProjects();
     fetchProfiles();
+    fetchRecurrences();
+    fetchCustomFields();
   }, []);
 
-  const fetchTasks = async () => {
+  const filters = parseTaskFilters(searchParams);
+  const filterQuery = searchParams.toString();
+
+  useEffect(() => {
+    if (filters.assignee === 'me' && !profile) return;
+    // A custom field filter needs the field's type to pick the value column
+    if (filters.field && !customFieldsLoaded) return;
+    fetchVisibleTasks();
+  }, [filterQuery, profile?.id, customFieldsLoaded, view]);
+
+  // The task form offers parents from the chosen project, and the drawer links tasks within the open task's project
+  const scopeProjectId = showAddDialog ? formData.project_id : detailTask?.project_id;
+
+  useEffect(() => {
+    fetchProjectTasks(scopeProjectId);
+  }, [scopeProjectId]);
+
+  // Any filter change starts again from the first page
+  const updateFilters = (changes: Partial<TaskListFilters>) => {
+    setSearchParams(toTaskFilterParams({ ...filters, page: 1, ...changes }));
+  };
+
+  // Both views share the filters; the list pages through the matches and the board shows them in one go
+  const queryTasks = () => {
+    let query = supabase
+      .from('tasks')
+      .select(`
+        *,
+        projects (name),
+        assignee:profiles!tasks_assigned_to_fkey (first_name, last_name),
+        creator:profiles!tasks_created_by_fkey (first_name, last_name),
+        custom_field_values (field_id)
+      `, { count: 'exact' });
+
+    if (filters.project !== 'all') query = query.eq('project_id', filters.project);
+    if (filters.assignee === 'me') query = query.eq('assigned_to', profile?.id);
+    else if (filters.assignee === 'unassigned') query = query.is('assigned_to', null);
+    else if (filters.assignee !== 'all') query = query.eq('assigned_to', filters.assignee);
+    if (filters.status !== 'all') query = query.eq('status', filters.status as TaskStatus);
+    if (filters.priority !== 'all') query = query.eq('priority', filters.priority as TaskPriority);
+    if (filters.dueFrom) query = query.gte('due_date', filters.dueFrom);
+    if (filters.dueTo) query = query.lt('due_date', addDays(filters.dueTo, 1));
+    if (filters.search.trim()) {
+      const pattern = toSearchPattern(filters.search);
+      query = query.or(`title.ilike.${pattern},description.ilike.${pattern}`);
+    }
+
+    // Field values are only embedded to filter on: the filters narrow them to matching values,
+    // and tasks left without one are dropped
+    const fieldFilter = parseFieldFilter(filters.field);
+    const filterField = fieldFilter && customFields.find(field => field.id === fieldFilter.fieldId);
+    if (filterField) {
+      query = query.eq('custom_field_values.field_id', filterField.id);
+      query = filterField.field_type === 'text'
+        ? query.ilike('custom_field_values.text_value', toSearchPattern(fieldFilter.value))
+        : query.eq(`custom_field_values.${getValueColumn(filterField.field_type)}`, fieldFilter.value);
+      query = query.not('custom_field_values', 'is', null);
+    }
+
+    return query.limit(1, { referencedTable: 'custom_field_values' });
+  };
+
+  const fetchVisibleTasks = () => (view === 'board' ? fetchBoardTasks() : fetchTaskPage());
+
+  const fetchTaskPage = async () => {
+    setTasksLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('tasks')
-        .select(`
-          *,
-          projects (name),
-          assignee:profiles!tasks_assigned_to_fkey (first_name, last_name),
-          creator:profiles!tasks_created_by_fkey (first_name, last_name)
-        `)
-        .order('created_at', { ascending: false });
+      const from = (filters.page - 1) * TASK_PAGE_SIZE;
+      const { data, error, count } = await queryTasks()
+        .order(filters.sort, { ascending: filters.direction === 'asc', nullsFirst: false })
+        .order('id')
+        .range(from, from + TASK_PAGE_SIZE - 1);
 
       if (error) throw error;
-      setTasks(data || []);
-    } catch (error: any) {
+      setPageTasks(data || []);
+      setTotalTasks(count || 0);
+
+      const taskIds = (data || []).map(task => task.id);
+      fetchTaskContext(taskIds);
+      fetchChecklistCounts(taskIds);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setTasksLoading(false);
+    }
+  };
+
+  const fetchBoardTasks = async () => {
+    setTasksLoading(true);
+    try {
+      const { data, error, count } = await queryTasks()
+        .order('position')
+        .order('id')
+        .limit(BOARD_TASK_LIMIT);
+
+      if (error) throw error;
+      setBoardTasks(data || []);
+      setBoardTotal(count || 0);
+      fetchTaskContext((data || []).map(task => task.id));
+    } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to fetch tasks",
+        description: (error as Error).message,
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      setTasksLoading(false);
+    }
+  };
+
+  // Parents, subtasks, blockers and dependencies of the tasks on screen
+  const fetchTaskContext = async (taskIds: string[]) => {
+    try {
+      const [relatedResult, dependenciesResult] = await Promise.all([
+        supabase.rpc('get_related_tasks', { p_task_ids: taskIds }),
+        supabase.rpc('get_task_dependencies', { p_task_ids: taskIds }),
+      ]);
+
+      if (relatedResult.error) throw relatedResult.error;
+      if (dependenciesResult.error) throw dependenciesResult.error;
+      setRelatedTasks(relatedResult.data || []);
+      setDependencies(dependenciesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching related tasks:', error);
     }
   };
 
+  const fetchProjectTasks = async (projectId?: string) => {
+    if (!projectId) {
+      setProjectTasks([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select(`
+          id, title, status, estimated_hours, parent_task_id,
+          assignee:profiles!tasks_assigned_to_fkey (first_name, last_name)
+        `)
+        .eq('project_id', projectId)
+        .order('title');
+
+      if (error) throw error;
+      setProjectTasks(data || []);
+    } catch (error) {
+      console.error('Error fetching project tasks:', error);
+    }
+  };
+
+  const refreshTasks = () => {
+    fetchVisibleTasks();
+    fetchProjectTasks(scopeProjectId);
+  };
+
+  const visibleTasks = view === 'board' ? boardTasks : pageTasks;
+
   const fetchProjects = async () => {
     try {
       const { data, error } = await supabase
@@ -124,8 +306,136 @@ export default function Tasks() {
     }
   };
 
+  const fetchChecklistCounts = async (taskIds: string[]) => {
+    try {
+      const { data, error } = await supabase
+        .from('task_checklist_items')
+        .select('task_id, is_completed')
+        .in('task_id', taskIds);
+
+      if (error) throw error;
+
+      const counts: Record<string, { done: number; total: number }> = {};
+      data?.forEach(item => {
+        counts[item.task_id] = counts[item.task_id] || { done: 0, total: 0 };
+        counts[item.task_id].total += 1;
+        if (item.is_completed) counts[item.task_id].done += 1;
+      });
+      setChecklistCounts(counts);
+    } catch (error) {
+      console.error('Error fetching checklists:', error);
+    }
+  };
+
+  const fetchRecurrences = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('task_recurrences')
+        .select('id, rrule, spawn_on, next_due_date, end_date, is_active');
+
+      if (error) throw error;
+      setRecurrences((data || []) as TaskRecurrence[]);
+    } catch (error) {
+      console.error('Error fetching task recurrences:', error);
+    }
+  };
+
+  const fetchCustomFields = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('custom_fields')
+        .select('id, entity_type, project_id, name, field_type, options, sort_order')
+        .eq('entity_type', 'task')
+        .order('sort_order')
+        .order('name');
+
+      if (error) throw error;
+      setCustomFields((data || []) as CustomField[]);
+    } catch (error) {
+      console.error('Error fetching custom fields:', error);
+    } finally {
+      setCustomFieldsLoaded(true);
+    }
+  };
+
+  const fetchFieldValues = async (taskId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('custom_field_values')
+        .select('field_id, text_value, number_value, date_value, user_value')
+        .eq('task_id', taskId);
+
+      if (error) throw error;
+      setFieldValues(toFieldInputs(customFields, data || []));
+    } catch (error) {
+      console.error('Error fetching custom field values:', error);
+    }
+  };
+
+  const taskFields = getFieldsFor(customFields, 'task', formData.project_id);
+
+  // Completing a repeating task creates its next instance, along with a copy of its checklist
+  const refreshAfterStatusChange = (task: Task, newStatus: string) => {
+    refreshTasks();
+    if (task.recurrence_id && newStatus === 'completed') fetchRecurrences();
+  };
+
+  // Starting a task that still waits on others is allowed, but only after a warning
+  const confirmStartBlocked = (task: Task, newStatus: string) => {
+    if (newStatus !== 'in_progress' || task.status === 'in_progress') return true;
+
+    const blockers = getOpenBlockers(task.id, dependencies, relatedTasks);
+    if (blockers.length === 0) return true;
+
+    return confirm(
+      `"${task.title}" is blocked by ${blockers.map(blocker => `"${blocker.title}"`).join(', ')}, which ${blockers.length === 1 ? "isn't" : "aren't"} completed yet. Start it anyway?`
+    );
+  };
+
+  // The selection can span pages, so its blockers are looked up rather than taken from the screen
+  const confirmBulkStart = async (changes: BulkTaskChanges) => {
+    if (changes.status !== 'in_progress') return true;
+
+    const [relatedResult, dependenciesResult] = await Promise.all([
+      supabase.rpc('get_related_tasks', { p_task_ids: selectedIds }),
+      supabase.rpc('get_task_dependencies', { p_task_ids: selectedIds }),
+    ]);
+    if (relatedResult.error) throw relatedResult.error;
+    if (dependenciesResult.error) throw dependenciesResult.error;
+
+    const related = relatedResult.data || [];
+    const blocked = related.filter(task =>
+      selectedIds.includes(task.id)
+      && task.status !== 'in_progress'
+      && getOpenBlockers(task.id, dependenciesResult.data || [], related).length > 0
+    );
+    if (blocked.length === 0) return true;
+
+    return confirm(
+      `${blocked.length} of the selected tasks ${blocked.length === 1 ? 'is' : 'are'} blocked by tasks that aren't completed yet. Start them anyway?`
+    );
+  };
+
+  const toggleSelected = (taskId: string) => {
+    setSelectedIds(selectedIds.includes(taskId)
+      ? selectedIds.filter(id => id !== taskId)
+      : [...selectedIds, taskId]);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (editingTask && !confirmStartBlocked(editingTask, formData.status)) return;
+
+    const invalidField = taskFields.find(field => !isValidFieldInput(field, fieldValues[field.id] || ''));
+    if (invalidField) {
+      toast({
+        title: "Error",
+        description: `${invalidField.name} has an invalid value`,
+        variant: "destructive",
+      });
+      return;
+    }
     
     try {
       const taskData = {
@@ -133,13 +443,17 @@ export default function Tasks() {
         description: formData.description || null,
         status: formData.status,
         priority: formData.priority,
+        start_date: formData.start_date || null,
         due_date: formData.due_date || null,
         estimated_hours: formData.estimated_hours ? parseFloat(formData.estimated_hours) : null,
         project_id: formData.project_id,
+        parent_task_id: formData.parent_task_id || null,
         assigned_to: formData.assigned_to || null,
         created_by: profile?.id || ''
       };
 
+      let taskId = '';
+
       if (editingTask) {
         const { error } = await supabase
           .from('tasks')
@@ -147,17 +461,21 @@ export default function Tasks() {
           .eq('id', editingTask.id);
 
         if (error) throw error;
+        taskId = editingTask.id;
         
         toast({
           title: "Success",
           description: "Task updated successfully",
         });
       } else {
-        const { error } = await supabase
+        const { data: newTask, error } = await supabase
           .from('tasks')
-          .insert([taskData]);
+          .insert([taskData])
+          .select('id')
+          .single();
 
         if (error) throw error;
+        taskId = newTask.id;
         
         toast({
           title: "Success",
@@ -165,10 +483,14 @@ export default function Tasks() {
         });
       }
 
+      if (taskFields.length > 0) {
+        await saveCustomFieldValues({ task_id: taskId }, taskFields, fieldValues, profile?.id);
+      }
+
       setShowAddDialog(false);
       setEditingTask(null);
       resetForm();
-      fetchTasks();
+      refreshTasks();
     } catch (error: any) {
       toast({
         title: "Error",
@@ -184,11 +506,14 @@ export default function Tasks() {
       description: '',
       status: 'todo',
       priority: 'medium',
+      start_date: '',
       due_date: '',
       estimated_hours: '',
       project_id: '',
+      parent_task_id: '',
       assigned_to: ''
     });
+    setFieldValues({});
   };
 
   const handleEdit = (task: Task) => {
@@ -198,15 +523,21 @@ export default function Tasks() {
       description: task.description || '',
       status: task.status,
       priority: task.priority,
+      start_date: task.start_date || '',
       due_date: task.due_date || '',
       estimated_hours: task.estimated_hours?.toString() || '',
       project_id: task.project_id,
+      parent_task_id: task.parent_task_id || '',
       assigned_to: task.assigned_to || ''
     });
+    setFieldValues({});
+    fetchFieldValues(task.id);
     setShowAddDialog(true);
   };
 
   const handleStatusChange = async (task: Task, newStatus: string) => {
+    if (!confirmStartBlocked(task, newStatus)) return;
+
     try {
       const updateData: any = { status: newStatus };
       if (newStatus === 'completed') {
@@ -225,7 +556,7 @@ export default function Tasks() {
         description: "Task status updated successfully",
       });
       
-      fetchTasks();
+      refreshAfterStatusChange(task, newStatus);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -235,6 +566,38 @@ export default function Tasks() {
     }
   };
 
+  const handleBoardMove = async (task: Task, move: BoardMove) => {
+    if (!confirmStartBlocked(task, move.status)) return;
+
+    const updateData: { status: TaskStatus; position: number; assigned_to?: string | null; completed_at?: string | null } = { ...move };
+    if (move.status !== task.status) {
+      updateData.completed_at = move.status === 'completed' ? new Date().toISOString() : null;
+    }
+
+    // Show the card in its new place straight away; the refetch below settles any differences
+    setBoardTasks(boardTasks.map(t => {
+      if (t.id !== task.id) return t;
+      return { ...t, status: move.status, position: move.position, assigned_to: move.assigned_to === undefined ? t.assigned_to : move.assigned_to };
+    }));
+
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update(updateData)
+        .eq('id', task.id);
+
+      if (error) throw error;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      refreshAfterStatusChange(task, move.status);
+    }
+  };
+
   const handleDelete = async (task: Task) => {
     if (!confirm('Are you sure you want to delete this task?')) return;
 
@@ -251,7 +614,7 @@ export default function Tasks() {
         description: "Task deleted successfully",
       });
       
-      fetchTasks();
+      refreshTasks();
     } catch (error: any) {
       toast({
         title: "Error",
@@ -261,42 +624,50 @@ export default function Tasks() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'todo': return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
-      case 'in_progress': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
-      case 'review': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
-      case 'completed': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
-      default: return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
+  const handleStartTimer = async (task: Task) => {
+    try {
+      await startTimer(task.id);
+      // Starting a new timer logs the one that was running
+      if (timer) refreshTasks();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
     }
   };
 
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case 'low': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
-      case 'medium': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
-      case 'high': return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
-      case 'urgent': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
-      default: return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
+  const handleStopTimer = async () => {
+    try {
+      const entryId = await stopTimer();
+
+      toast({
+        title: entryId ? "Success" : "Timer stopped",
+        description: entryId
+          ? `Logged ${formatHours(elapsedSeconds / 3600)} on ${timer?.tasks?.title}`
+          : "Less than a minute had passed, so no time was logged",
+      });
+
+      refreshTasks();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
     }
   };
 
-  const filterTasks = (status?: string) => {
-    if (!status || status === 'all') return tasks;
-    return tasks.filter(task => task.status === status);
-  };
+  const getTaskTitle = (id: string) => relatedTasks.find(task => task.id === id)?.title;
 
-  const getMyTasks = () => {
-    return tasks.filter(task => task.assigned_to === profile?.id);
-  };
+  const hasSubtasks = (taskId: string) => relatedTasks.some(task => task.parent_task_id === taskId);
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center min-h-[400px]">
-        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
-      </div>
-    );
-  }
+  // The drawer links tasks within the open task's project, and shows links made from elsewhere too
+  const drawerTasks = [
+    ...projectTasks,
+    ...relatedTasks.filter(task => !projectTasks.some(projectTask => projectTask.id === task.id)),
+  ];
 
   return (
     <div className="space-y-6">
@@ -357,6 +728,28 @@ export default function Tasks() {
                     </SelectContent>
                   </Select>
                 </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="parent_task_id" className="text-right">Parent Task</Label>
+                  <Select
+                    value={formData.parent_task_id || 'none'}
+                    onValueChange={(value) => setFormData({ ...formData, parent_task_id: value === 'none' ? '' : value })}
+                    disabled={!!editingTask && hasSubtasks(editingTask.id)}
+                  >
+                    <SelectTrigger className="col-span-3">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None (top-level task)</SelectItem>
+                      {projectTasks
+                        .filter(t => !t.parent_task_id && t.id !== editingTask?.id)
+                        .map((t) => (
+                          <SelectItem key={t.id} value={t.id}>
+                            {t.title}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div className="grid grid-cols-4 items-center gap-4">
                   <Label htmlFor="assigned_to" className="text-right">Assigned To</Label>
                   <Select value={formData.assigned_to} onValueChange={(value) => setFormData({ ...formData, assigned_to: value })}>
@@ -402,6 +795,19 @@ export default function Tasks() {
                     </Select>
                   </div>
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid grid-cols-4 items-center gap-4 col-span-1">
+                    <Label htmlFor="start_date" className="text-right">Start Date</Label>
+                    <Input
+                      id="start_date"
+                      type="date"
+                      value={formData.start_date}
+                      max={formData.due_date ? formData.due_date.slice(0, 10) : undefined}
+                      onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                      className="col-span-3"
+                    />
+                  </div>
+                </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div className="grid grid-cols-4 items-center gap-4 col-span-1">
                     <Label htmlFor="due_date" className="text-right">Due Date</Label>
@@ -422,9 +828,17 @@ export default function Tasks() {
                       value={formData.estimated_hours}
                       onChange={(e) => setFormData({ ...formData, estimated_hours: e.target.value })}
                       className="col-span-3"
+                      // A parent's estimate is the sum of its subtasks
+                      disabled={!!editingTask && hasSubtasks(editingTask.id)}
                     />
                   </div>
                 </div>
+                <CustomFieldInputs
+                  fields={taskFields}
+                  values={fieldValues}
+                  profiles={profiles}
+                  onChange={setFieldValues}
+                />
               </div>
               <DialogFooter>
                 <Button type="submit">{editingTask ? 'Update' : 'Create'} Task</Button>
@@ -435,43 +849,221 @@ export default function Tasks() {
         )}
       </div>
 
-      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-6">
-          <TabsTrigger value="all">All Tasks</TabsTrigger>
-          <TabsTrigger value="my">My Tasks</TabsTrigger>
-          <TabsTrigger value="todo">To Do</TabsTrigger>
-          <TabsTrigger value="in_progress">In Progress</TabsTrigger>
-          <TabsTrigger value="review">Review</TabsTrigger>
-          <TabsTrigger value="completed">Completed</TabsTrigger>
-        </TabsList>
-        
-        <TabsContent value="all" className="space-y-4">
-          <TaskGrid tasks={filterTasks()} onEdit={handleEdit} onDelete={handleDelete} onStatusChange={handleStatusChange} />
-        </TabsContent>
-        
-        <TabsContent value="my" className="space-y-4">
-          <TaskGrid tasks={getMyTasks()} onEdit={handleEdit} onDelete={handleDelete} onStatusChange={handleStatusChange} />
-        </TabsContent>
-        
-        <TabsContent value="todo" className="space-y-4">
-          <TaskGrid tasks={filterTasks('todo')} onEdit={handleEdit} onDelete={handleDelete} onStatusChange={handleStatusChange} />
-        </TabsContent>
-        
-        <TabsContent value="in_progress" className="space-y-4">
-          <TaskGrid tasks={filterTasks('in_progress')} onEdit={handleEdit} onDelete={handleDelete} onStatusChange={handleStatusChange} />
-        </TabsContent>
-        
-        <TabsContent value="review" className="space-y-4">
-          <TaskGrid tasks={filterTasks('review')} onEdit={handleEdit} onDelete={handleDelete} onStatusChange={handleStatusChange} />
-        </TabsContent>
-        
-        <TabsContent value="completed" className="space-y-4">
-          <TaskGrid tasks={filterTasks('completed')} onEdit={handleEdit} onDelete={handleDelete} onStatusChange={handleStatusChange} />
-        </TabsContent>
-      </Tabs>
+      {timer && (
+        <Card>
+          <CardContent className="flex items-center justify-between py-4">
+            <div className="flex items-center gap-3">
+              <Timer className="h-5 w-5 text-primary animate-pulse" />
+              <div>
+                <p className="font-medium">{timer.tasks?.title}</p>
+                <p className="text-sm text-muted-foreground">Timer running</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <span className="font-mono text-lg">{formatElapsed(elapsedSeconds)}</span>
+              <Button variant="outline" onClick={handleStopTimer}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant={view === 'list' ? 'default' : 'outline'} size="sm" onClick={() => setView('list')}>
+          <LayoutGrid className="h-4 w-4 mr-2" />
+          List
+        </Button>
+        <Button variant={view === 'board' ? 'default' : 'outline'} size="sm" onClick={() => setView('board')}>
+          <Columns3 className="h-4 w-4 mr-2" />
+          Board
+        </Button>
+      </div>
+
+      <TaskBulkActions
+        selectedIds={selectedIds}
+        projects={projects}
+        profiles={profiles}
+        confirmChanges={confirmBulkStart}
+        onClear={() => setSelectedIds([])}
+        onChanged={() => { refreshTasks(); fetchRecurrences(); }}
+      />
+
+      <TaskFilterBar
+        filters={filters}
+        projects={projects}
+        profiles={profiles}
+        customFields={customFields}
+        onChange={updateFilters}
+        onApplyView={(query) => setSearchParams(new URLSearchParams(query))}
+      />
+
+      {view === 'board' ? (
+      <div className="space-y-4">
+        {boardTotal > boardTasks.length && (
+          <p className="text-sm text-muted-foreground">
+            Showing {boardTasks.length} of {boardTotal} tasks. Narrow the filters to see the rest on the board.
+          </p>
+        )}
+
+        {tasksLoading && boardTasks.length === 0 ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <TaskBoard
+            tasks={boardTasks}
+            projects={projects}
+            dependencies={dependencies}
+            selectedIds={selectedIds}
+            onToggleSelect={toggleSelected}
+            onMove={(task, move) => handleBoardMove(task as Task, move)}
+            onOpenTask={(task) => setDetailTask(task as Task)}
+          />
+        )}
+      </div>
+      ) : (
+      <div className="space-y-4">
+        {!tasksLoading && pageTasks.length > 0 && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Checkbox
+              id="select_page"
+              checked={pageTasks.every(task => selectedIds.includes(task.id))}
+              onCheckedChange={(checked) => {
+                const pageIds = pageTasks.map(task => task.id);
+                setSelectedIds(checked === true
+                  ? [...selectedIds, ...pageIds.filter(id => !selectedIds.includes(id))]
+                  : selectedIds.filter(id => !pageIds.includes(id)));
+              }}
+            />
+            <label htmlFor="select_page">Select all on this page</label>
+          </div>
+        )}
+
+        {tasksLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <TaskGrid tasks={pageTasks} onEdit={handleEdit} onDelete={handleDelete} onStatusChange={handleStatusChange} />
+        )}
+
+        {totalTasks > TASK_PAGE_SIZE && (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              Showing {(filters.page - 1) * TASK_PAGE_SIZE + 1}–{Math.min(filters.page * TASK_PAGE_SIZE, totalTasks)} of {totalTasks} tasks
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={filters.page <= 1}
+                onClick={() => updateFilters({ page: filters.page - 1 })}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={filters.page * TASK_PAGE_SIZE >= totalTasks}
+                onClick={() => updateFilters({ page: filters.page + 1 })}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+      )}
+
+      <LogTimeDialog
+        open={!!logTimeTaskId}
+        onOpenChange={(open) => !open && setLogTimeTaskId(null)}
+        defaultTaskId={logTimeTaskId}
+        onSaved={refreshTasks}
+      />
+
+      <TaskDetailDrawer
+        task={detailTask && (visibleTasks.find(t => t.id === detailTask.id) || detailTask)}
+        profiles={profiles}
+        tasks={drawerTasks}
+        dependencies={dependencies}
+        onDependenciesChanged={() => fetchTaskContext(visibleTasks.map(task => task.id))}
+        onTasksChanged={refreshTasks}
+        onChecklistChanged={() => fetchChecklistCounts(pageTasks.map(task => task.id))}
+        recurrences={recurrences}
+        onRecurrenceChanged={() => { refreshTasks(); fetchRecurrences(); }}
+        onOpenChange={(open) => !open && setDetailTask(null)}
+      />
     </div>
   );
 
+  function SubtaskProgress({ task }: { task: Task }) {
+    const subtasks = relatedTasks.filter(t => t.parent_task_id === task.id);
+    const completed = subtasks.filter(t => t.status === 'completed').length;
+    const checklist = checklistCounts[task.id];
+    if (subtasks.length === 0 && !checklist) return null;
+
+    return (
+      <div className="space-y-1 text-xs text-muted-foreground">
+        {subtasks.length > 0 && (
+          <>
+            <div className="flex justify-between">
+              <span>Subtasks</span>
+              <span>{completed}/{subtasks.length} done</span>
+            </div>
+            <Progress value={(completed / subtasks.length) * 100} className="h-1.5" />
+          </>
+        )}
+        {checklist && (
+          <div className="flex items-center">
+            <ListChecks className="h-3 w-3 mr-1" />
+            {checklist.done}/{checklist.total} checklist items
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  function DependencyIndicator({ task }: { task: Task }) {
+    const blockers = task.status === 'completed' ? [] : getOpenBlockers(task.id, dependencies, relatedTasks);
+    const blocking = dependencies.filter(dependency => dependency.blocking_task_id === task.id).length;
+    if (blockers.length === 0 && blocking === 0) return null;
+
+    return (
+      <div className="flex flex-wrap gap-2 text-xs">
+        {blockers.length > 0 && (
+          <span
+            className="flex items-center text-red-600"
+            title={blockers.map(blocker => blocker.title).join(', ')}
+          >
+            <Ban className="h-3 w-3 mr-1" />
+            Blocked by {blockers.length}
+          </span>
+        )}
+        {blocking > 0 && (
+          <span className="flex items-center text-muted-foreground">
+            <Link2 className="h-3 w-3 mr-1" />
+            Blocks {blocking}
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  function RecurrenceIndicator({ task }: { task: Task }) {
+    const recurrence = recurrences.find(r => r.id === task.recurrence_id && r.is_active);
+    if (!recurrence) return null;
+
+    return (
+      <div className="flex items-center text-xs text-muted-foreground">
+        <Repeat className="h-3 w-3 mr-1" />
+        {describeRecurrence(recurrence.rrule)}
+      </div>
+    );
+  }
+
   function TaskGrid({ 
     tasks, 
     onEdit, 
@@ -494,17 +1086,31 @@ export default function Tasks() {
     return (
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
         {tasks.map((task) => (
-          <Card key={task.id} className="hover:shadow-md transition-shadow">
+          <Card key={task.id} className={`hover:shadow-md transition-shadow ${selectedIds.includes(task.id) ? 'ring-2 ring-primary' : ''}`}>
             <CardHeader className="flex flex-row items-start space-y-0 pb-2">
+              <Checkbox
+                className="mt-1.5 mr-3"
+                checked={selectedIds.includes(task.id)}
+                onCheckedChange={() => toggleSelected(task.id)}
+              />
               <div className="flex-1">
                 <CardTitle className="text-lg">{task.title}</CardTitle>
                 <CardDescription className="mt-1">
                   {task.projects?.name && (
                     <span className="text-sm">Project: {task.projects.name}</span>
                   )}
+                  {task.parent_task_id && (
+                    <span className="flex items-center text-xs">
+                      <CornerDownRight className="h-3 w-3 mr-1" />
+                      {getTaskTitle(task.parent_task_id)}
+                    </span>
+                  )}
                 </CardDescription>
               </div>
               <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setDetailTask(task)}>
+                  <MessageSquare className="h-4 w-4" />
+                </Button>
                 {isAdmin && (
                   <>
                     <Button variant="ghost" size="sm" onClick={() => onEdit(task)}>
@@ -519,13 +1125,17 @@ export default function Tasks() {
             </CardHeader>
             <CardContent className="space-y-3">
               <div className="flex items-center justify-between">
-                <Badge variant="secondary" className={`${getStatusColor(task.status)}`}>
+                <Badge variant="secondary" className={`${getTaskStatusColor(task.status)}`}>
                   {task.status.replace('_', ' ')}
                 </Badge>
-                <Badge variant="outline" className={`${getPriorityColor(task.priority)}`}>
+                <Badge variant="outline" className={`${getTaskPriorityColor(task.priority)}`}>
                   {task.priority}
                 </Badge>
               </div>
+
+              <DependencyIndicator task={task} />
+              <RecurrenceIndicator task={task} />
+              <SubtaskProgress task={task} />
               
               {task.description && (
                 <p className="text-sm text-muted-foreground line-clamp-2">
@@ -550,12 +1160,33 @@ export default function Tasks() {
     )}
                   </div>
                 )}
-                {task.estimated_hours && (
+                {(task.estimated_hours || task.actual_hours) ? (
                   <div className="flex items-center">
                     <Clock className="h-4 w-4 mr-2 text-muted-foreground" />
-                    <span>{task.estimated_hours}h estimated</span>
+                    <span>
+                      {formatHours(task.actual_hours)} logged
+                      {task.estimated_hours ? ` of ${task.estimated_hours}h estimated` : ''}
+                    </span>
                   </div>
+                ) : null}
+              </div>
+
+              <div className="flex gap-2">
+                {timer?.task_id === task.id ? (
+                  <Button variant="secondary" size="sm" onClick={handleStopTimer} className="flex-1">
+                    <Square className="h-4 w-4 mr-2" />
+                    Stop {formatElapsed(elapsedSeconds)}
+                  </Button>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={() => handleStartTimer(task)} className="flex-1">
+                    <Play className="h-4 w-4 mr-2" />
+                    Start Timer
+                  </Button>
                 )}
+                <Button variant="outline" size="sm" onClick={() => setLogTimeTaskId(task.id)} className="flex-1">
+                  <Clock className="h-4 w-4 mr-2" />
+                  Log Time
+                </Button>
               </div>
 
               <div className="flex gap-2">
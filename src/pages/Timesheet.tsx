@@ -0,0 +1,366 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useTaskTimer } from '@/hooks/useTaskTimer';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { Edit, Lock, Plus, Square, Timer, Trash2 } from 'lucide-react';
+import LogTimeDialog, { EditableTimeEntry } from '@/components/LogTimeDialog';
+import WeeklyTimesheet from '@/components/WeeklyTimesheet';
+import TimesheetApprovalManager from '@/components/TimesheetApprovalManager';
+import { formatElapsed, formatHours, getWeekStart, toDateString } from '@/lib/time-entries';
+
+interface TimeEntry {
+  id: string;
+  task_id: string;
+  user_id: string;
+  date: string;
+  hours: number;
+  description: string | null;
+  invoice_item_id: string | null;
+  tasks?: { title: string } | null;
+  projects?: { name: string } | null;
+  profiles?: { first_name: string; last_name: string } | null;
+}
+
+interface Profile {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+const ALL_MEMBERS = 'all';
+
+const firstOfMonth = () => {
+  const date = new Date();
+  return toDateString(new Date(date.getFullYear(), date.getMonth(), 1));
+};
+
+export default function Timesheet() {
+  const { profile, isAdmin, isProjectManager } = useAuth();
+  const { toast } = useToast();
+  const { timer, elapsedSeconds, stopTimer } = useTaskTimer();
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [lockedWeeks, setLockedWeeks] = useState<Set<string>>(new Set());
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showLogTime, setShowLogTime] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<EditableTimeEntry | null>(null);
+  const [filters, setFilters] = useState({
+    member_id: '',
+    start_date: firstOfMonth(),
+    end_date: toDateString(new Date())
+  });
+
+  const canViewTeam = isAdmin || isProjectManager;
+
+  useEffect(() => {
+    if (profile) {
+      setFilters(current => (current.member_id ? current : { ...current, member_id: profile.id }));
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    if (canViewTeam) {
+      fetchProfiles();
+    }
+  }, [canViewTeam]);
+
+  useEffect(() => {
+    if (filters.member_id) {
+      fetchEntries();
+    }
+  }, [filters]);
+
+  const fetchProfiles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, first_name, last_name')
+        .eq('is_active', true)
+        .order('first_name');
+
+      if (error) throw error;
+      setProfiles(data || []);
+    } catch (error) {
+      console.error('Error fetching profiles:', error);
+    }
+  };
+
+  const fetchEntries = async () => {
+    try {
+      let query = supabase
+        .from('time_entries')
+        .select(`
+          *,
+          tasks (title),
+          projects (name),
+          profiles (first_name, last_name)
+        `)
+        .gte('date', filters.start_date)
+        .lte('date', filters.end_date)
+        .order('date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      // Submitted and approved weeks can't be edited, so their entries are shown read-only
+      let lockedQuery = supabase
+        .from('timesheet_submissions')
+        .select('user_id, week_start')
+        .in('status', ['pending', 'approved'])
+        .gte('week_start', getWeekStart(new Date(`${filters.start_date}T00:00:00`)))
+        .lte('week_start', filters.end_date);
+
+      if (filters.member_id !== ALL_MEMBERS) {
+        query = query.eq('user_id', filters.member_id);
+        lockedQuery = lockedQuery.eq('user_id', filters.member_id);
+      }
+
+      const [{ data, error }, { data: lockedData, error: lockedError }] = await Promise.all([query, lockedQuery]);
+
+      if (error) throw error;
+      if (lockedError) throw lockedError;
+      setEntries(data || []);
+      setLockedWeeks(new Set(lockedData?.map(week => `${week.user_id}:${week.week_start}`)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch time entries",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openLogTime = (entry: TimeEntry | null) => {
+    setEditingEntry(entry);
+    setShowLogTime(true);
+  };
+
+  const handleStopTimer = async () => {
+    try {
+      const entryId = await stopTimer();
+
+      toast({
+        title: entryId ? "Success" : "Timer stopped",
+        description: entryId
+          ? `Logged ${formatHours(elapsedSeconds / 3600)} on ${timer?.tasks?.title}`
+          : "Less than a minute had passed, so no time was logged",
+      });
+
+      fetchEntries();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (entry: TimeEntry) => {
+    if (!confirm(`Delete ${formatHours(entry.hours)} logged on ${entry.tasks?.title}?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('time_entries')
+        .delete()
+        .eq('id', entry.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Time entry deleted",
+      });
+
+      fetchEntries();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const totalHours = entries.reduce((sum, entry) => sum + entry.hours, 0);
+  const billedHours = entries.filter(entry => entry.invoice_item_id).reduce((sum, entry) => sum + entry.hours, 0);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Timesheet</h1>
+          <p className="text-muted-foreground">Log and review time spent on tasks</p>
+        </div>
+        <Button onClick={() => openLogTime(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Log Time
+        </Button>
+      </div>
+
+      {timer && (
+        <Card>
+          <CardContent className="flex items-center justify-between py-4">
+            <div className="flex items-center gap-3">
+              <Timer className="h-5 w-5 text-primary animate-pulse" />
+              <div>
+                <p className="font-medium">{timer.tasks?.title}</p>
+                <p className="text-sm text-muted-foreground">
+                  Started {new Date(timer.started_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <span className="font-mono text-lg">{formatElapsed(elapsedSeconds)}</span>
+              <Button variant="outline" onClick={handleStopTimer}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Tabs defaultValue="week" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="week">My Week</TabsTrigger>
+          <TabsTrigger value="entries">Entries</TabsTrigger>
+          {canViewTeam && <TabsTrigger value="approvals">Approvals</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="week">
+          <WeeklyTimesheet onChanged={fetchEntries} />
+        </TabsContent>
+
+        <TabsContent value="entries">
+          <Card>
+            <CardHeader>
+              <CardTitle>Time Entries</CardTitle>
+              <CardDescription>
+                {formatHours(totalHours)} logged{billedHours > 0 && `, ${formatHours(billedHours)} already invoiced`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                {canViewTeam && (
+                  <div className="space-y-2">
+                    <Label>Member</Label>
+                    <Select value={filters.member_id} onValueChange={(value) => setFilters({ ...filters, member_id: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_MEMBERS}>Everyone</SelectItem>
+                        {profiles.map((member) => (
+                          <SelectItem key={member.id} value={member.id}>
+                            {member.first_name} {member.last_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="start_date">From</Label>
+                  <Input
+                    id="start_date"
+                    type="date"
+                    value={filters.start_date}
+                    onChange={(e) => setFilters({ ...filters, start_date: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="end_date">To</Label>
+                  <Input
+                    id="end_date"
+                    type="date"
+                    value={filters.end_date}
+                    onChange={(e) => setFilters({ ...filters, end_date: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                {entries.length === 0 && (
+                  <p className="text-center text-muted-foreground py-4">No time logged in this period</p>
+                )}
+                {entries.map((entry) => {
+                  const locked = lockedWeeks.has(`${entry.user_id}:${getWeekStart(new Date(`${entry.date}T00:00:00`))}`);
+                  const canEdit = !entry.invoice_item_id && !locked && (entry.user_id === profile?.id || canViewTeam);
+
+                  return (
+                    <div key={entry.id} className="flex items-center justify-between p-4 border rounded-lg">
+                      <div className="flex-1">
+                        <p className="font-medium">{entry.tasks?.title}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {entry.projects?.name}
+                          {filters.member_id === ALL_MEMBERS && entry.profiles && ` • ${entry.profiles.first_name} ${entry.profiles.last_name}`}
+                        </p>
+                        {entry.description && (
+                          <p className="text-sm text-muted-foreground">{entry.description}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(`${entry.date}T00:00:00`).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <div className="text-right">
+                          <p className="font-medium">{formatHours(entry.hours)}</p>
+                          {entry.invoice_item_id && (
+                            <Badge variant="secondary" className="bg-green-100 text-green-800">invoiced</Badge>
+                          )}
+                          {locked && !entry.invoice_item_id && (
+                            <Lock className="h-3 w-3 text-muted-foreground inline" />
+                          )}
+                        </div>
+                        {canEdit && (
+                          <div className="flex gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => openLogTime(entry)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(entry)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {canViewTeam && (
+          <TabsContent value="approvals">
+            <TimesheetApprovalManager />
+          </TabsContent>
+        )}
+      </Tabs>
+
+      <LogTimeDialog
+        open={showLogTime}
+        onOpenChange={setShowLogTime}
+        entry={editingEntry}
+        onSaved={fetchEntries}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { ChevronLeft, ChevronRight, Palmtree } from 'lucide-react';
+import { addDays, formatHours, getWeekStart, toDateString } from '@/lib/time-entries';
+import {
+  WorkloadAllocation,
+  WorkloadLeave,
+  WorkloadMember,
+  WorkloadTask,
+  buildWorkload,
+  getUnscheduledTasks,
+  getWorkloadWeeks,
+  isOverAllocated,
+  WORKLOAD_WEEKS,
+} from '@/lib/workload';
+
+const formatWeek = (weekStart: string) =>
+  new Date(`${weekStart}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export default function Workload() {
+  const { isProjectManager } = useAuth();
+  const { toast } = useToast();
+  const [firstWeek, setFirstWeek] = useState(getWeekStart(new Date()));
+  const [members, setMembers] = useState<WorkloadMember[]>([]);
+  const [allocations, setAllocations] = useState<WorkloadAllocation[]>([]);
+  const [tasks, setTasks] = useState<WorkloadTask[]>([]);
+  const [leave, setLeave] = useState<WorkloadLeave[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<{ memberId: string; weekStart: string } | null>(null);
+
+  const today = toDateString(new Date());
+  const weeks = getWorkloadWeeks(firstWeek);
+  const lastDay = addDays(firstWeek, WORKLOAD_WEEKS * 7 - 1);
+
+  useEffect(() => {
+    if (isProjectManager) fetchWorkload();
+    else setLoading(false);
+  }, [isProjectManager]);
+
+  useEffect(() => {
+    if (isProjectManager) fetchLeave();
+  }, [firstWeek, isProjectManager]);
+
+  const fetchWorkload = async () => {
+    try {
+      const [membersResult, allocationsResult, tasksResult] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('id, first_name, last_name, working_hours_per_week')
+          .eq('is_active', true)
+          .neq('role', 'client')
+          .order('first_name'),
+        supabase
+          .from('project_members')
+          .select('id, project_id, user_id, allocated_hours, projects (name, status, start_date, end_date)'),
+        supabase
+          .from('tasks')
+          .select('id, title, project_id, assigned_to, parent_task_id, estimated_hours, start_date, due_date, status, projects (name)')
+          .neq('status', 'completed'),
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+      if (allocationsResult.error) throw allocationsResult.error;
+      if (tasksResult.error) throw tasksResult.error;
+
+      setMembers(membersResult.data || []);
+      setAllocations(allocationsResult.data || []);
+      setTasks(tasksResult.data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLeave = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('leave_applications')
+        .select('user_id, start_date, end_date')
+        .eq('status', 'approved')
+        .lte('start_date', lastDay)
+        .gte('end_date', firstWeek);
+
+      if (error) throw error;
+      setLeave(data || []);
+    } catch (error) {
+      console.error('Error fetching leave:', error);
+    }
+  };
+
+  const workload = buildWorkload(members, allocations, tasks, leave, weeks, today);
+  const unscheduled = getUnscheduledTasks(tasks);
+
+  const selectedMember = selected && members.find(m => m.id === selected.memberId);
+  const selectedCell = selected && workload[selected.memberId]?.find(cell => cell.weekStart === selected.weekStart);
+  const memberAllocations = selected ? allocations.filter(a => a.user_id === selected.memberId) : [];
+
+  // Free hours that week, shown next to each possible new assignee
+  const getFreeHours = (memberId: string, weekStart: string) => {
+    const cell = workload[memberId]?.find(c => c.weekStart === weekStart);
+    return cell ? cell.capacity - cell.taskHours : 0;
+  };
+
+  const handleReassign = async (task: WorkloadTask, assigneeId: string) => {
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ assigned_to: assigneeId })
+        .eq('id', task.id);
+
+      if (error) throw error;
+
+      setTasks(tasks.map(t => (t.id === task.id ? { ...t, assigned_to: assigneeId } : t)));
+      const assignee = members.find(m => m.id === assigneeId);
+      toast({
+        title: "Success",
+        description: `"${task.title}" reassigned to ${assignee?.first_name} ${assignee?.last_name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAllocationChange = async (allocation: WorkloadAllocation, value: string) => {
+    const hours = value.trim() === '' ? null : parseInt(value);
+    if (hours === allocation.allocated_hours || (hours !== null && (isNaN(hours) || hours < 0))) return;
+
+    try {
+      const { error } = await supabase
+        .from('project_members')
+        .update({ allocated_hours: hours })
+        .eq('id', allocation.id);
+
+      if (error) throw error;
+      setAllocations(allocations.map(a => (a.id === allocation.id ? { ...a, allocated_hours: hours } : a)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!isProjectManager) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          Workload planning is available to admins and project managers
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Workload</h1>
+          <p className="text-muted-foreground">Compare allocations and assigned work with each member's capacity</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setFirstWeek(addDays(firstWeek, -7))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setFirstWeek(getWeekStart(new Date()))}>
+            This week
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setFirstWeek(addDays(firstWeek, 7))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Team Capacity</CardTitle>
+          <CardDescription>
+            Each week shows task estimates / available hours, with project allocations below. Red means more is planned than fits.
+            Select a week to rebalance.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                {weeks.map((weekStart) => (
+                  <TableHead key={weekStart} className="text-center">
+                    {weekStart === getWeekStart(new Date()) ? 'This week' : formatWeek(weekStart)}
+                  </TableHead>
+                ))}
+                <TableHead className="text-center">No due date</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map((member) => {
+                const memberUnscheduled = unscheduled.filter(task => task.assigned_to === member.id);
+
+                return (
+                  <TableRow key={member.id}>
+                    <TableCell>
+                      <p className="font-medium">{member.first_name} {member.last_name}</p>
+                      <p className="text-xs text-muted-foreground">{member.working_hours_per_week ?? 40}h/week</p>
+                    </TableCell>
+                    {workload[member.id].map((cell) => {
+                      const over = isOverAllocated(cell);
+
+                      return (
+                        <TableCell key={cell.weekStart} className="p-1">
+                          <button
+                            type="button"
+                            onClick={() => setSelected({ memberId: member.id, weekStart: cell.weekStart })}
+                            className={cn(
+                              'w-full rounded-md p-2 text-center text-sm transition-colors',
+                              over
+                                ? 'bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900 dark:text-red-200'
+                                : 'bg-muted/50 hover:bg-muted'
+                            )}
+                          >
+                            <span className="font-medium">{formatHours(cell.taskHours)}</span>
+                            <span className="text-muted-foreground"> / {formatHours(cell.capacity)}</span>
+                            <span className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+                              {formatHours(cell.allocated)} allocated
+                              {cell.leaveDays > 0 && (
+                                <span className="flex items-center" title={`${cell.leaveDays} day${cell.leaveDays === 1 ? '' : 's'} of leave`}>
+                                  <Palmtree className="h-3 w-3 ml-1" />
+                                  {cell.leaveDays}d
+                                </span>
+                              )}
+                            </span>
+                          </button>
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell className="text-center text-sm text-muted-foreground">
+                      {memberUnscheduled.length > 0
+                        ? `${memberUnscheduled.length} (${formatHours(memberUnscheduled.reduce((total, task) => total + (task.estimated_hours || 0), 0))})`
+                        : '-'}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Sheet open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <SheetContent className="w-full sm:max-w-xl flex flex-col">
+          <SheetHeader>
+            <SheetTitle>{selectedMember?.first_name} {selectedMember?.last_name}</SheetTitle>
+            <SheetDescription>
+              Week of {selected && formatWeek(selected.weekStart)}
+              {selectedCell && ` • ${formatHours(selectedCell.taskHours)} of tasks, ${formatHours(selectedCell.allocated)} allocated, ${formatHours(selectedCell.capacity)} available`}
+            </SheetDescription>
+          </SheetHeader>
+
+          <ScrollArea className="flex-1 -mx-6 px-6">
+            <div className="space-y-6 py-4">
+              <div className="space-y-2">
+                <Label>Tasks this week</Label>
+                {selectedCell?.tasks.length ? (
+                  selectedCell.tasks.map(({ task, hours }) => (
+                    <div key={task.id} className="border rounded-md p-3 space-y-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{task.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {task.projects?.name}
+                            {task.due_date && ` • due ${new Date(`${task.due_date.slice(0, 10)}T00:00:00`).toLocaleDateString()}`}
+                          </p>
+                        </div>
+                        <Badge variant="secondary">{formatHours(hours)}</Badge>
+                      </div>
+                      <Select value={task.assigned_to || ''} onValueChange={(value) => handleReassign(task, value)}>
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {members.map((member) => {
+                            const free = selected ? getFreeHours(member.id, selected.weekStart) : 0;
+
+                            return (
+                              <SelectItem key={member.id} value={member.id}>
+                                {member.first_name} {member.last_name} ({free >= 0 ? `${formatHours(free)} free` : `${formatHours(-free)} over`})
+                              </SelectItem>
+                            );
+                          })}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground">No estimated tasks planned for this week</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Project allocations (hours per week)</Label>
+                {memberAllocations.length > 0 ? (
+                  memberAllocations.map((allocation) => (
+                    <div key={allocation.id} className="flex items-center gap-2">
+                      <span className="flex-1 text-sm truncate">
+                        {allocation.projects?.name}
+                        {allocation.projects?.status && allocation.projects.status !== 'active' && (
+                          <span className="text-muted-foreground"> ({allocation.projects.status.replace('_', ' ')})</span>
+                        )}
+                      </span>
+                      <Input
+                        key={`${allocation.id}-${allocation.allocated_hours}`}
+                        type="number"
+                        min="0"
+                        defaultValue={allocation.allocated_hours?.toString() || ''}
+                        onBlur={(e) => handleAllocationChange(allocation, e.target.value)}
+                        placeholder="0"
+                        className="w-24 h-8"
+                      />
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground">Not a member of any project</p>
+                )}
+              </div>
+            </div>
+          </ScrollArea>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
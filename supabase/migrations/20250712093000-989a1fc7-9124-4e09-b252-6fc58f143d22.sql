@@ -0,0 +1,129 @@
+-- Invoice line items
+CREATE TABLE public.invoice_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 1,
+  unit_price DECIMAL(12,2) NOT NULL DEFAULT 0,
+  tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0, -- percentage, e.g. 15.00
+  amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT invoice_items_quantity_check CHECK (quantity > 0),
+  CONSTRAINT invoice_items_tax_rate_check CHECK (tax_rate >= 0 AND tax_rate <= 100)
+);
+
+CREATE INDEX idx_invoice_items_invoice_id ON public.invoice_items(invoice_id);
+
+-- Per-year counter used to hand out sequential invoice numbers
+CREATE TABLE public.invoice_number_sequences (
+  year INTEGER NOT NULL PRIMARY KEY,
+  last_value INTEGER NOT NULL DEFAULT 0
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.invoice_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_number_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Invoices had RLS enabled without any policies, so nobody could use them from the app
+CREATE POLICY "Admins and PMs can view invoices"
+ON public.invoices
+FOR SELECT
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Admins and PMs can manage invoices"
+ON public.invoices
+FOR ALL
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Admins and PMs can view invoice items"
+ON public.invoice_items
+FOR SELECT
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Admins and PMs can manage invoice items"
+ON public.invoice_items
+FOR ALL
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+-- Compute line amounts on write so stored totals never drift from quantity x price
+CREATE OR REPLACE FUNCTION public.calculate_invoice_item_amounts()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.amount := ROUND(NEW.quantity * NEW.unit_price, 2);
+  NEW.tax_amount := ROUND(NEW.amount * NEW.tax_rate / 100, 2);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER calculate_invoice_item_amounts_trigger
+BEFORE INSERT OR UPDATE ON public.invoice_items
+FOR EACH ROW
+EXECUTE FUNCTION public.calculate_invoice_item_amounts();
+
+-- Roll line items up into the invoice header
+CREATE OR REPLACE FUNCTION public.recalculate_invoice_totals()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_invoice UUID;
+BEGIN
+  target_invoice := COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  UPDATE invoices
+  SET
+    amount = totals.amount,
+    tax_amount = totals.tax_amount,
+    total_amount = totals.amount + totals.tax_amount
+  FROM (
+    SELECT
+      COALESCE(SUM(ii.amount), 0) AS amount,
+      COALESCE(SUM(ii.tax_amount), 0) AS tax_amount
+    FROM invoice_items ii
+    WHERE ii.invoice_id = target_invoice
+  ) AS totals
+  WHERE invoices.id = target_invoice;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER recalculate_invoice_totals_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.invoice_items
+FOR EACH ROW
+EXECUTE FUNCTION public.recalculate_invoice_totals();
+
+-- Hand out the next invoice number for the current year, e.g. INV-2025-0007
+CREATE OR REPLACE FUNCTION public.generate_invoice_number()
+RETURNS TEXT AS $$
+DECLARE
+  current_year INTEGER;
+  next_value INTEGER;
+BEGIN
+  IF public.get_current_user_role() NOT IN ('admin', 'project_manager') THEN
+    RAISE EXCEPTION 'Only admins and project managers can create invoices';
+  END IF;
+
+  current_year := EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER;
+
+  INSERT INTO invoice_number_sequences (year, last_value)
+  VALUES (current_year, 1)
+  ON CONFLICT (year) DO UPDATE
+  SET last_value = invoice_number_sequences.last_value + 1
+  RETURNING last_value INTO next_value;
+
+  RETURN 'INV-' || current_year || '-' || LPAD(next_value::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,142 @@
+-- Per-project billing rate; when set it overrides each member's profiles.hourly_rate
+ALTER TABLE public.projects ADD COLUMN billing_rate DECIMAL(10,2);
+
+-- Link billed time back to the invoice line that charged for it
+ALTER TABLE public.time_entries
+ADD COLUMN invoice_item_id UUID REFERENCES public.invoice_items(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_time_entries_invoice_item_id ON public.time_entries(invoice_item_id);
+CREATE INDEX idx_time_entries_project_date ON public.time_entries(project_id, date);
+
+-- time_entries had RLS enabled without any policies
+CREATE POLICY "Admins and PMs can view time entries"
+ON public.time_entries
+FOR SELECT
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+-- Build a draft invoice from a client's unbilled time in a date range
+CREATE OR REPLACE FUNCTION public.create_invoice_from_time_entries(
+  p_client_id UUID,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_project_id UUID DEFAULT NULL,
+  p_due_date DATE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  creator_id UUID;
+  new_invoice_id UUID;
+  new_item_id UUID;
+  line_record RECORD;
+  line_order INTEGER := 0;
+BEGIN
+  IF public.get_current_user_role() NOT IN ('admin', 'project_manager') THEN
+    RAISE EXCEPTION 'Only admins and project managers can bill time';
+  END IF;
+
+  SELECT id INTO creator_id FROM profiles WHERE user_id = auth.uid();
+
+  -- Lock the candidate entries so a concurrent run cannot bill them as well
+  PERFORM 1
+  FROM time_entries te
+  JOIN projects p ON p.id = te.project_id
+  WHERE p.client_id = p_client_id
+  AND (p_project_id IS NULL OR te.project_id = p_project_id)
+  AND te.date BETWEEN p_start_date AND p_end_date
+  AND te.invoice_item_id IS NULL
+  AND te.hours > 0
+  FOR UPDATE OF te;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No unbilled time entries found for this client and period';
+  END IF;
+
+  INSERT INTO invoices (invoice_number, client_id, project_id, amount, tax_amount, total_amount, status, issue_date, due_date, notes, created_by)
+  VALUES (
+    public.generate_invoice_number(),
+    p_client_id,
+    p_project_id,
+    0,
+    0,
+    0,
+    'draft',
+    CURRENT_DATE,
+    COALESCE(p_due_date, CURRENT_DATE + 30),
+    'Time billed for ' || p_start_date || ' to ' || p_end_date,
+    creator_id
+  )
+  RETURNING id INTO new_invoice_id;
+
+  -- One line per project, task and member at that member's rate
+  FOR line_record IN
+    SELECT
+      te.project_id,
+      te.task_id,
+      te.user_id,
+      p.name AS project_name,
+      t.title AS task_title,
+      pr.first_name,
+      pr.last_name,
+      COALESCE(p.billing_rate, pr.hourly_rate, 0) AS rate,
+      SUM(te.hours) AS hours
+    FROM time_entries te
+    JOIN projects p ON p.id = te.project_id
+    JOIN tasks t ON t.id = te.task_id
+    JOIN profiles pr ON pr.id = te.user_id
+    WHERE p.client_id = p_client_id
+    AND (p_project_id IS NULL OR te.project_id = p_project_id)
+    AND te.date BETWEEN p_start_date AND p_end_date
+    AND te.invoice_item_id IS NULL
+    AND te.hours > 0
+    GROUP BY te.project_id, te.task_id, te.user_id, p.name, t.title, pr.first_name, pr.last_name, p.billing_rate, pr.hourly_rate
+    ORDER BY p.name, t.title, pr.first_name, pr.last_name
+  LOOP
+    INSERT INTO invoice_items (invoice_id, description, quantity, unit_price, sort_order)
+    VALUES (
+      new_invoice_id,
+      line_record.project_name || ': ' || line_record.task_title || ' (' || line_record.first_name || ' ' || line_record.last_name || ')',
+      line_record.hours,
+      line_record.rate,
+      line_order
+    )
+    RETURNING id INTO new_item_id;
+
+    UPDATE time_entries
+    SET invoice_item_id = new_item_id
+    WHERE project_id = line_record.project_id
+    AND task_id = line_record.task_id
+    AND user_id = line_record.user_id
+    AND date BETWEEN p_start_date AND p_end_date
+    AND invoice_item_id IS NULL
+    AND hours > 0;
+
+    line_order := line_order + 1;
+  END LOOP;
+
+  RETURN new_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Voiding an invoice puts its time back into the unbilled pool
+CREATE OR REPLACE FUNCTION public.release_time_entries_on_cancel()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    UPDATE time_entries
+    SET invoice_item_id = NULL
+    WHERE invoice_item_id IN (
+      SELECT id FROM invoice_items WHERE invoice_id = NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER release_time_entries_on_cancel_trigger
+AFTER UPDATE OF status ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.release_time_entries_on_cancel();
@@ -0,0 +1,69 @@
+-- Company details printed on invoices (single row)
+CREATE TABLE public.company_settings (
+  id INTEGER NOT NULL DEFAULT 1 PRIMARY KEY,
+  company_name TEXT NOT NULL DEFAULT 'DevCabin',
+  address TEXT,
+  email TEXT,
+  phone TEXT,
+  website TEXT,
+  tax_id TEXT,
+  logo_url TEXT,
+  payment_instructions TEXT,
+  invoice_footer TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT company_settings_single_row CHECK (id = 1)
+);
+
+INSERT INTO public.company_settings (id) VALUES (1);
+
+-- Enable Row Level Security
+ALTER TABLE public.company_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view company settings"
+ON public.company_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update company settings"
+ON public.company_settings
+FOR UPDATE
+TO authenticated
+USING (
+  public.get_current_user_role() = 'admin'
+);
+
+CREATE TRIGGER update_company_settings_updated_at
+BEFORE UPDATE ON public.company_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create storage bucket for company logos
+INSERT INTO storage.buckets (id, name, public)
+SELECT 'company-assets', 'company-assets', true
+WHERE NOT EXISTS (
+  SELECT 1 FROM storage.buckets WHERE id = 'company-assets'
+);
+
+CREATE POLICY "Company assets are publicly accessible"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'company-assets');
+
+CREATE POLICY "Admins can upload company assets"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'company-assets' AND
+  public.get_current_user_role() = 'admin'
+);
+
+CREATE POLICY "Admins can delete company assets"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'company-assets' AND
+  public.get_current_user_role() = 'admin'
+);
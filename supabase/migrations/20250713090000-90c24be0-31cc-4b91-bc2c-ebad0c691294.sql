@@ -0,0 +1,148 @@
+-- Audit trail of invoice status changes
+CREATE TABLE public.invoice_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  from_status invoice_status,
+  to_status invoice_status NOT NULL,
+  changed_by UUID REFERENCES public.profiles(id),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoice_status_history_invoice_id ON public.invoice_status_history(invoice_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.invoice_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and PMs can view invoice status history"
+ON public.invoice_status_history
+FOR SELECT
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+-- Enforce the invoice lifecycle:
+--   draft   -> sent, cancelled
+--   sent    -> paid, overdue, cancelled
+--   overdue -> paid, cancelled, sent (only once the due date has been moved to the future)
+--   paid and cancelled are final
+CREATE OR REPLACE FUNCTION public.validate_invoice_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_status invoice_status;
+  is_allowed BOOLEAN;
+BEGIN
+  old_status := COALESCE(OLD.status, 'draft');
+  NEW.status := COALESCE(NEW.status, 'draft');
+
+  IF NEW.status = old_status THEN
+    RETURN NEW;
+  END IF;
+
+  is_allowed := CASE old_status
+    WHEN 'draft' THEN NEW.status IN ('sent', 'cancelled')
+    WHEN 'sent' THEN NEW.status IN ('paid', 'overdue', 'cancelled')
+    WHEN 'overdue' THEN NEW.status IN ('paid', 'cancelled')
+      OR (NEW.status = 'sent' AND NEW.due_date >= CURRENT_DATE)
+    ELSE false
+  END;
+
+  IF NOT is_allowed THEN
+    RAISE EXCEPTION 'Invoice % cannot move from % to %', OLD.invoice_number, old_status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'paid' THEN
+    NEW.paid_date := COALESCE(NEW.paid_date, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_invoice_status_transition_trigger
+BEFORE UPDATE OF status ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_invoice_status_transition();
+
+-- Record who moved an invoice and when. Changes made by scheduled jobs set
+-- app.invoice_status_note and are stored without a user.
+CREATE OR REPLACE FUNCTION public.log_invoice_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  system_note TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  system_note := NULLIF(current_setting('app.invoice_status_note', true), '');
+
+  INSERT INTO invoice_status_history (invoice_id, from_status, to_status, changed_by, note)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status ELSE NULL END,
+    COALESCE(NEW.status, 'draft'),
+    CASE WHEN system_note IS NULL THEN (SELECT id FROM profiles WHERE user_id = auth.uid()) ELSE NULL END,
+    system_note
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER log_invoice_status_change_trigger
+AFTER INSERT OR UPDATE OF status ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.log_invoice_status_change();
+
+-- Backfill a starting point for invoices created before history existed
+INSERT INTO public.invoice_status_history (invoice_id, from_status, to_status, note, created_at)
+SELECT id, NULL, COALESCE(status, 'draft'), 'Status at the time history tracking started', created_at
+FROM public.invoices;
+
+-- API requests connect as authenticator before switching to anon or authenticated, while pg_cron
+-- runs scheduled jobs in a session of its own. Checking the session rather than auth.uid() keeps
+-- calls made with only the anon key from passing as the daily job.
+CREATE OR REPLACE FUNCTION public.is_scheduled_job()
+RETURNS BOOLEAN AS $$
+  SELECT session_user <> 'authenticator';
+$$ LANGUAGE SQL STABLE;
+
+-- Create function to mark sent invoices past their due date as overdue.
+-- The daily job runs without a user; everyone else needs a finance role.
+CREATE OR REPLACE FUNCTION public.mark_overdue_invoices()
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF NOT public.is_scheduled_job() AND COALESCE(public.get_current_user_role(), '') NOT IN ('admin', 'project_manager') THEN
+    RAISE EXCEPTION 'Only admins and project managers can update invoice statuses';
+  END IF;
+
+  PERFORM set_config('app.invoice_status_note', 'Automatically marked overdue', true);
+
+  UPDATE invoices
+  SET status = 'overdue'
+  WHERE status = 'sent'
+  AND due_date < CURRENT_DATE;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  PERFORM set_config('app.invoice_status_note', '', true);
+
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.mark_overdue_invoices() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_overdue_invoices() TO authenticated;
+
+-- Check for overdue invoices shortly after midnight every day
+SELECT cron.schedule(
+  'mark-overdue-invoices-daily',
+  '15 0 * * *',
+  $$
+  SELECT public.mark_overdue_invoices();
+  $$
+);
@@ -0,0 +1,223 @@
+-- Payments received against invoices
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  amount DECIMAL(12,2) NOT NULL,
+  payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  method TEXT NOT NULL DEFAULT 'bank_transfer',
+  reference TEXT,
+  notes TEXT,
+  recorded_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT payments_amount_check CHECK (amount > 0),
+  CONSTRAINT payments_method_check CHECK (method IN ('bank_transfer', 'card', 'cash', 'cheque', 'online', 'other'))
+);
+
+CREATE INDEX idx_payments_invoice_id ON public.payments(invoice_id);
+CREATE INDEX idx_payments_payment_date ON public.payments(payment_date);
+
+-- Running total of payments, kept in sync by trigger
+ALTER TABLE public.invoices ADD COLUMN amount_paid DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- Invoices already marked paid get a single payment so the ledger matches their status.
+-- This runs before the payment triggers exist, since those only accept payments on sent or overdue invoices.
+INSERT INTO public.payments (invoice_id, amount, payment_date, method, notes, recorded_by)
+SELECT id, total_amount, COALESCE(paid_date, updated_at::DATE), 'other', 'Recorded before the payment ledger existed', created_by
+FROM public.invoices
+WHERE status = 'paid'
+AND total_amount > 0;
+
+UPDATE public.invoices
+SET amount_paid = total_amount
+WHERE status = 'paid'
+AND total_amount > 0;
+
+-- Enable Row Level Security
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and PMs can view payments"
+ON public.payments
+FOR SELECT
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Admins and PMs can record payments"
+ON public.payments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Admins and PMs can update payments"
+ON public.payments
+FOR UPDATE
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Only admins can delete payments"
+ON public.payments
+FOR DELETE
+TO authenticated
+USING (
+  public.get_current_user_role() = 'admin'
+);
+
+CREATE TRIGGER update_payments_updated_at
+BEFORE UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Payments can only be taken on invoices that were sent, and never beyond the total
+CREATE OR REPLACE FUNCTION public.validate_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  invoice_record RECORD;
+  other_payments DECIMAL(12,2);
+BEGIN
+  -- Lock the invoice so payments recorded at the same time are checked one after the other
+  SELECT status, total_amount, invoice_number INTO invoice_record
+  FROM invoices
+  WHERE id = NEW.invoice_id
+  FOR UPDATE;
+
+  IF TG_OP = 'INSERT' AND invoice_record.status NOT IN ('sent', 'overdue') THEN
+    RAISE EXCEPTION 'Payments can only be recorded on sent or overdue invoices (invoice % is %)', invoice_record.invoice_number, invoice_record.status;
+  END IF;
+
+  IF invoice_record.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Invoice % is cancelled', invoice_record.invoice_number;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO other_payments
+  FROM payments
+  WHERE invoice_id = NEW.invoice_id
+  AND id IS DISTINCT FROM NEW.id;
+
+  IF other_payments + NEW.amount > invoice_record.total_amount THEN
+    RAISE EXCEPTION 'Payment exceeds the outstanding balance of % on invoice %', invoice_record.total_amount - other_payments, invoice_record.invoice_number;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.recorded_by IS NULL THEN
+    NEW.recorded_by := (SELECT id FROM profiles WHERE user_id = auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_payment_trigger
+BEFORE INSERT OR UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_payment();
+
+-- Keep amount_paid current and move the invoice to paid (or back) as the balance changes
+CREATE OR REPLACE FUNCTION public.apply_invoice_payments()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_invoice UUID;
+  paid_total DECIMAL(12,2);
+  last_payment_date DATE;
+BEGIN
+  target_invoice := COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  SELECT COALESCE(SUM(amount), 0), MAX(payment_date)
+  INTO paid_total, last_payment_date
+  FROM payments
+  WHERE invoice_id = target_invoice;
+
+  UPDATE invoices
+  SET
+    amount_paid = paid_total,
+    status = CASE
+      WHEN paid_total >= total_amount AND status IN ('sent', 'overdue') THEN 'paid'
+      WHEN paid_total < total_amount AND status = 'paid' AND due_date < CURRENT_DATE THEN 'overdue'
+      WHEN paid_total < total_amount AND status = 'paid' THEN 'sent'
+      ELSE status
+    END,
+    paid_date = CASE WHEN paid_total >= total_amount THEN last_payment_date ELSE NULL END
+  WHERE id = target_invoice;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER apply_invoice_payments_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_invoice_payments();
+
+-- Settle or reopen an invoice whose total changed to match, or no longer match, what was paid.
+-- Deferred to the end of the transaction so an edit touching several lines is judged on the final total.
+CREATE OR REPLACE FUNCTION public.sync_invoice_payment_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE invoices
+  SET
+    status = CASE
+      WHEN amount_paid >= total_amount THEN 'paid'
+      WHEN due_date < CURRENT_DATE THEN 'overdue'
+      ELSE 'sent'
+    END,
+    paid_date = CASE
+      WHEN amount_paid >= total_amount THEN (SELECT MAX(payment_date) FROM payments WHERE invoice_id = NEW.id)
+      ELSE NULL
+    END
+  WHERE id = NEW.id
+  AND amount_paid > 0
+  AND (
+    (amount_paid >= total_amount AND status IN ('sent', 'overdue'))
+    OR (amount_paid < total_amount AND status = 'paid')
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE CONSTRAINT TRIGGER sync_invoice_payment_status_trigger
+AFTER UPDATE OF total_amount ON public.invoices
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_invoice_payment_status();
+
+-- An invoice is paid when its payments cover the total; a paid invoice only reopens when a payment is removed
+CREATE OR REPLACE FUNCTION public.validate_invoice_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_status invoice_status;
+  is_allowed BOOLEAN;
+BEGIN
+  old_status := COALESCE(OLD.status, 'draft');
+  NEW.status := COALESCE(NEW.status, 'draft');
+
+  IF NEW.status = old_status THEN
+    RETURN NEW;
+  END IF;
+
+  is_allowed := CASE old_status
+    WHEN 'draft' THEN NEW.status IN ('sent', 'cancelled')
+    WHEN 'sent' THEN NEW.status IN ('overdue', 'cancelled')
+      OR (NEW.status = 'paid' AND NEW.amount_paid >= NEW.total_amount)
+    WHEN 'overdue' THEN NEW.status = 'cancelled'
+      OR (NEW.status = 'paid' AND NEW.amount_paid >= NEW.total_amount)
+      OR (NEW.status = 'sent' AND NEW.due_date >= CURRENT_DATE)
+    WHEN 'paid' THEN NEW.status IN ('sent', 'overdue') AND NEW.amount_paid < NEW.total_amount
+    ELSE false
+  END;
+
+  IF NOT is_allowed THEN
+    RAISE EXCEPTION 'Invoice % cannot move from % to %', OLD.invoice_number, old_status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'paid' THEN
+    NEW.paid_date := COALESCE(NEW.paid_date, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,215 @@
+-- Add currencies (ISO 4217 codes) to clients, projects and invoices
+ALTER TABLE public.clients ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE public.projects ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE public.invoices ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+
+ALTER TABLE public.clients ADD CONSTRAINT clients_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE public.projects ADD CONSTRAINT projects_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE public.invoices ADD CONSTRAINT invoices_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Currency that revenue and budgets are reported in
+ALTER TABLE public.company_settings ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE public.company_settings ADD CONSTRAINT company_settings_base_currency_check CHECK (base_currency ~ '^[A-Z]{3}$');
+
+-- Create exchange rates table: 1 unit of currency = rate units of base_currency from effective_date on
+CREATE TABLE public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  base_currency TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  rate DECIMAL(18,8) NOT NULL,
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT exchange_rates_rate_check CHECK (rate > 0),
+  CONSTRAINT exchange_rates_currency_check CHECK (currency ~ '^[A-Z]{3}$' AND base_currency ~ '^[A-Z]{3}$' AND currency <> base_currency),
+  UNIQUE (base_currency, currency, effective_date)
+);
+
+CREATE INDEX idx_exchange_rates_lookup ON public.exchange_rates(base_currency, currency, effective_date);
+
+-- Enable Row Level Security
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view exchange rates"
+ON public.exchange_rates
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Only admins can manage exchange rates"
+ON public.exchange_rates
+FOR ALL
+TO authenticated
+USING (
+  public.get_current_user_role() = 'admin'
+)
+WITH CHECK (
+  public.get_current_user_role() = 'admin'
+);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+BEFORE UPDATE ON public.exchange_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Payments are always in the currency of their invoice, so an invoice's currency is fixed once paid against
+CREATE OR REPLACE FUNCTION public.prevent_paid_invoice_currency_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.currency IS DISTINCT FROM OLD.currency AND EXISTS (
+    SELECT 1 FROM payments WHERE invoice_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Invoice % already has payments in %; its currency cannot change', OLD.invoice_number, OLD.currency;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_paid_invoice_currency_change_trigger
+BEFORE UPDATE OF currency ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_paid_invoice_currency_change();
+
+-- Billed time invoices take their currency from the projects being billed. Lines use the project's
+-- billing rate, or else the member's hourly rate, which is in the base currency and so only serves
+-- projects billed in it.
+CREATE OR REPLACE FUNCTION public.create_invoice_from_time_entries(
+  p_client_id UUID,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_project_id UUID DEFAULT NULL,
+  p_due_date DATE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  creator_id UUID;
+  invoice_currency TEXT;
+  project_currencies TEXT[];
+  base TEXT;
+  new_invoice_id UUID;
+  new_item_id UUID;
+  line_record RECORD;
+  line_order INTEGER := 0;
+BEGIN
+  IF public.get_current_user_role() NOT IN ('admin', 'project_manager') THEN
+    RAISE EXCEPTION 'Only admins and project managers can bill time';
+  END IF;
+
+  SELECT id INTO creator_id FROM profiles WHERE user_id = auth.uid();
+
+  -- Lock the candidate entries so a concurrent run cannot bill them as well
+  PERFORM 1
+  FROM time_entries te
+  JOIN projects p ON p.id = te.project_id
+  JOIN tasks t ON t.id = te.task_id
+  WHERE p.client_id = p_client_id
+  AND (p_project_id IS NULL OR te.project_id = p_project_id)
+  AND te.date BETWEEN p_start_date AND p_end_date
+  AND te.invoice_item_id IS NULL
+  AND te.hours > 0
+  AND t.deleted_at IS NULL
+  FOR UPDATE OF te;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No unbilled time entries found for this client and period';
+  END IF;
+
+  -- Billing rates are in each project's currency, so one invoice can only cover projects that share it
+  SELECT array_agg(DISTINCT p.currency ORDER BY p.currency) INTO project_currencies
+  FROM time_entries te
+  JOIN projects p ON p.id = te.project_id
+  JOIN tasks t ON t.id = te.task_id
+  WHERE p.client_id = p_client_id
+  AND (p_project_id IS NULL OR te.project_id = p_project_id)
+  AND te.date BETWEEN p_start_date AND p_end_date
+  AND te.invoice_item_id IS NULL
+  AND te.hours > 0
+  AND t.deleted_at IS NULL;
+
+  IF array_length(project_currencies, 1) > 1 THEN
+    RAISE EXCEPTION 'Unbilled time for this client is in several currencies (%); bill each project separately', array_to_string(project_currencies, ', ');
+  END IF;
+
+  invoice_currency := project_currencies[1];
+
+  SELECT base_currency INTO base FROM company_settings WHERE id = 1;
+  base := COALESCE(base, 'USD');
+
+  INSERT INTO invoices (invoice_number, client_id, project_id, currency, amount, tax_amount, total_amount, status, issue_date, due_date, notes, created_by)
+  VALUES (
+    public.generate_invoice_number(),
+    p_client_id,
+    p_project_id,
+    invoice_currency,
+    0,
+    0,
+    0,
+    'draft',
+    CURRENT_DATE,
+    COALESCE(p_due_date, CURRENT_DATE + 30),
+    'Time billed for ' || p_start_date || ' to ' || p_end_date,
+    creator_id
+  )
+  RETURNING id INTO new_invoice_id;
+
+  -- One line per project, task and member at that member's rate
+  FOR line_record IN
+    SELECT
+      te.project_id,
+      te.task_id,
+      te.user_id,
+      p.name AS project_name,
+      t.title AS task_title,
+      pr.first_name,
+      pr.last_name,
+      p.currency,
+      COALESCE(p.billing_rate, CASE WHEN p.currency = base THEN pr.hourly_rate END) AS rate,
+      SUM(te.hours) AS hours
+    FROM time_entries te
+    JOIN projects p ON p.id = te.project_id
+    JOIN tasks t ON t.id = te.task_id
+    JOIN profiles pr ON pr.id = te.user_id
+    WHERE p.client_id = p_client_id
+    AND (p_project_id IS NULL OR te.project_id = p_project_id)
+    AND te.date BETWEEN p_start_date AND p_end_date
+    AND te.invoice_item_id IS NULL
+    AND te.hours > 0
+    AND t.deleted_at IS NULL
+    GROUP BY te.project_id, te.task_id, te.user_id, p.name, t.title, pr.first_name, pr.last_name, p.currency, p.billing_rate, pr.hourly_rate
+    ORDER BY p.name, t.title, pr.first_name, pr.last_name
+  LOOP
+    IF line_record.rate IS NULL AND line_record.currency <> base THEN
+      RAISE EXCEPTION 'Project % bills in % but has no billing rate, and hourly rates are in %', line_record.project_name, line_record.currency, base;
+    END IF;
+
+    IF line_record.rate IS NULL THEN
+      RAISE EXCEPTION 'No rate to bill % % on project %; set a billing rate for the project or an hourly rate for the member', line_record.first_name, line_record.last_name, line_record.project_name;
+    END IF;
+
+    INSERT INTO invoice_items (invoice_id, description, quantity, unit_price, sort_order)
+    VALUES (
+      new_invoice_id,
+      line_record.project_name || ': ' || line_record.task_title || ' (' || line_record.first_name || ' ' || line_record.last_name || ')',
+      line_record.hours,
+      line_record.rate,
+      line_order
+    )
+    RETURNING id INTO new_item_id;
+
+    UPDATE time_entries
+    SET invoice_item_id = new_item_id
+    WHERE project_id = line_record.project_id
+    AND task_id = line_record.task_id
+    AND user_id = line_record.user_id
+    AND date BETWEEN p_start_date AND p_end_date
+    AND invoice_item_id IS NULL
+    AND hours > 0;
+
+    line_order := line_order + 1;
+  END LOOP;
+
+  RETURN new_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,281 @@
+-- Create recurring invoice templates for retainers and other repeat billing
+CREATE TABLE public.recurring_invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  cadence TEXT NOT NULL DEFAULT 'monthly',
+  next_run_date DATE NOT NULL,
+  -- Run dates are counted from here so month-end dates don't drift (Jan 31 -> Feb 28 -> Mar 31)
+  anchor_date DATE NOT NULL,
+  end_date DATE,
+  payment_terms_days INTEGER NOT NULL DEFAULT 30,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_run_date DATE,
+  created_by UUID NOT NULL REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT recurring_invoices_cadence_check CHECK (cadence IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  CONSTRAINT recurring_invoices_currency_check CHECK (currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT recurring_invoices_payment_terms_check CHECK (payment_terms_days >= 0)
+);
+
+-- Create recurring invoice line items; "{period}" in a description is replaced with the billed month
+CREATE TABLE public.recurring_invoice_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recurring_invoice_id UUID NOT NULL REFERENCES public.recurring_invoices(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 1,
+  unit_price DECIMAL(12,2) NOT NULL DEFAULT 0,
+  tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT recurring_invoice_items_quantity_check CHECK (quantity > 0),
+  CONSTRAINT recurring_invoice_items_tax_rate_check CHECK (tax_rate >= 0 AND tax_rate <= 100)
+);
+
+CREATE INDEX idx_recurring_invoices_next_run ON public.recurring_invoices(next_run_date) WHERE is_active;
+CREATE INDEX idx_recurring_invoice_items_template ON public.recurring_invoice_items(recurring_invoice_id);
+
+-- Remember which template produced an invoice
+ALTER TABLE public.invoices ADD COLUMN recurring_invoice_id UUID REFERENCES public.recurring_invoices(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.recurring_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_invoice_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and PMs can manage recurring invoices"
+ON public.recurring_invoices
+FOR ALL
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+)
+WITH CHECK (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Admins and PMs can manage recurring invoice items"
+ON public.recurring_invoice_items
+FOR ALL
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+)
+WITH CHECK (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE TRIGGER update_recurring_invoices_updated_at
+BEFORE UPDATE ON public.recurring_invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Scheduled jobs run without a user; every other caller needs a finance role
+CREATE OR REPLACE FUNCTION public.generate_invoice_number()
+RETURNS TEXT AS $$
+DECLARE
+  current_year INTEGER;
+  next_value INTEGER;
+BEGIN
+  IF NOT public.is_scheduled_job() AND COALESCE(public.get_current_user_role(), '') NOT IN ('admin', 'project_manager') THEN
+    RAISE EXCEPTION 'Only admins and project managers can create invoices';
+  END IF;
+
+  current_year := EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER;
+
+  INSERT INTO invoice_number_sequences (year, last_value)
+  VALUES (current_year, 1)
+  ON CONFLICT (year) DO UPDATE
+  SET last_value = invoice_number_sequences.last_value + 1
+  RETURNING last_value INTO next_value;
+
+  RETURN 'INV-' || current_year || '-' || LPAD(next_value::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.generate_invoice_number() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_invoice_number() TO authenticated;
+
+-- First run date after the given one on the schedule that starts at p_anchor. Each date is a whole
+-- number of periods from the anchor, so a template anchored on the 31st bills on the last day of
+-- shorter months and returns to the 31st afterwards.
+CREATE OR REPLACE FUNCTION public.advance_recurring_date(p_anchor DATE, p_date DATE, p_cadence TEXT)
+RETURNS DATE AS $$
+DECLARE
+  step INTERVAL;
+  periods INTEGER;
+  next_date DATE;
+BEGIN
+  step := CASE p_cadence
+    WHEN 'weekly' THEN INTERVAL '1 week'
+    WHEN 'monthly' THEN INTERVAL '1 month'
+    WHEN 'quarterly' THEN INTERVAL '3 months'
+    WHEN 'yearly' THEN INTERVAL '1 year'
+  END;
+
+  -- Start from the number of whole periods already elapsed, then step past p_date
+  periods := CASE p_cadence
+    WHEN 'weekly' THEN (p_date - p_anchor) / 7
+    ELSE (EXTRACT(YEAR FROM age(p_date, p_anchor)) * 12 + EXTRACT(MONTH FROM age(p_date, p_anchor)))::INTEGER
+      / CASE p_cadence WHEN 'quarterly' THEN 3 WHEN 'yearly' THEN 12 ELSE 1 END
+  END;
+
+  LOOP
+    next_date := (p_anchor + step * periods)::DATE;
+    EXIT WHEN next_date > p_date;
+    periods := periods + 1;
+  END LOOP;
+
+  RETURN next_date;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- The schedule restarts from next_run_date when a template is created, its cadence changes or its
+-- next run is moved to a date off the current schedule
+CREATE OR REPLACE FUNCTION public.set_recurring_invoice_anchor()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+  OR NEW.cadence IS DISTINCT FROM OLD.cadence
+  OR NEW.next_run_date < OLD.anchor_date
+  OR public.advance_recurring_date(OLD.anchor_date, NEW.next_run_date - 1, NEW.cadence) <> NEW.next_run_date THEN
+    NEW.anchor_date := NEW.next_run_date;
+  ELSE
+    NEW.anchor_date := OLD.anchor_date;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_recurring_invoice_anchor_trigger
+BEFORE INSERT OR UPDATE ON public.recurring_invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.set_recurring_invoice_anchor();
+
+-- Create draft invoices for every template that is due, catching up on missed runs, and notify admins.
+-- Each template is generated on its own, so one that fails is reported and skipped instead of
+-- aborting the whole run.
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoices()
+RETURNS INTEGER AS $$
+DECLARE
+  template_record RECORD;
+  run_date DATE;
+  new_invoice_id UUID;
+  new_invoice_number TEXT;
+  template_numbers TEXT[];
+  created_numbers TEXT[] := '{}';
+  failed_templates TEXT[] := '{}';
+  admin_record RECORD;
+BEGIN
+  IF NOT public.is_scheduled_job() AND COALESCE(public.get_current_user_role(), '') NOT IN ('admin', 'project_manager') THEN
+    RAISE EXCEPTION 'Only admins and project managers can generate recurring invoices';
+  END IF;
+
+  FOR template_record IN
+    SELECT ri.*, c.name AS client_name
+    FROM recurring_invoices ri
+    JOIN clients c ON c.id = ri.client_id
+    WHERE ri.is_active
+    AND ri.next_run_date <= CURRENT_DATE
+    FOR UPDATE OF ri
+  LOOP
+    BEGIN
+      run_date := template_record.next_run_date;
+      template_numbers := '{}';
+
+      WHILE run_date <= CURRENT_DATE
+      AND (template_record.end_date IS NULL OR run_date <= template_record.end_date)
+      LOOP
+        new_invoice_number := public.generate_invoice_number();
+
+        INSERT INTO invoices (invoice_number, client_id, project_id, currency, amount, tax_amount, total_amount, status, issue_date, due_date, notes, created_by, recurring_invoice_id)
+        VALUES (
+          new_invoice_number,
+          template_record.client_id,
+          template_record.project_id,
+          template_record.currency,
+          0,
+          0,
+          0,
+          'draft',
+          run_date,
+          run_date + template_record.payment_terms_days,
+          template_record.notes,
+          template_record.created_by,
+          template_record.id
+        )
+        RETURNING id INTO new_invoice_id;
+
+        INSERT INTO invoice_items (invoice_id, description, quantity, unit_price, tax_rate, sort_order)
+        SELECT
+          new_invoice_id,
+          REPLACE(description, '{period}', TO_CHAR(run_date, 'FMMonth YYYY')),
+          quantity,
+          unit_price,
+          tax_rate,
+          sort_order
+        FROM recurring_invoice_items
+        WHERE recurring_invoice_id = template_record.id;
+
+        template_numbers := array_append(template_numbers, new_invoice_number || ' (' || template_record.client_name || ')');
+        run_date := public.advance_recurring_date(template_record.anchor_date, run_date, template_record.cadence);
+      END LOOP;
+
+      UPDATE recurring_invoices
+      SET
+        last_run_date = CASE WHEN run_date > template_record.next_run_date THEN CURRENT_DATE ELSE last_run_date END,
+        next_run_date = run_date,
+        is_active = template_record.end_date IS NULL OR run_date <= template_record.end_date
+      WHERE id = template_record.id;
+
+      created_numbers := created_numbers || template_numbers;
+    EXCEPTION WHEN OTHERS THEN
+      failed_templates := array_append(failed_templates, template_record.name || ' (' || SQLERRM || ')');
+    END;
+  END LOOP;
+
+  IF array_length(created_numbers, 1) > 0 OR array_length(failed_templates, 1) > 0 THEN
+    FOR admin_record IN
+      SELECT id FROM profiles WHERE role = 'admin' AND is_active = true
+    LOOP
+      IF array_length(created_numbers, 1) > 0 THEN
+        INSERT INTO notifications (user_id, title, message, type)
+        VALUES (
+          admin_record.id,
+          'Recurring invoices ready for review',
+          array_length(created_numbers, 1) || ' draft invoice(s) were created from recurring templates: ' || array_to_string(created_numbers, ', '),
+          'invoice'
+        );
+      END IF;
+
+      IF array_length(failed_templates, 1) > 0 THEN
+        INSERT INTO notifications (user_id, title, message, type)
+        VALUES (
+          admin_record.id,
+          'Recurring invoices could not be created',
+          'These recurring templates were skipped and will be retried tomorrow: ' || array_to_string(failed_templates, ', '),
+          'invoice'
+        );
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN COALESCE(array_length(created_numbers, 1), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_invoices() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_recurring_invoices() TO authenticated;
+
+-- Generate recurring invoices every morning, after overdue invoices are marked
+SELECT cron.schedule(
+  'generate-recurring-invoices-daily',
+  '30 0 * * *',
+  $$
+  SELECT public.generate_recurring_invoices();
+  $$
+);
@@ -0,0 +1,193 @@
+-- Create expenses table for company and project costs
+CREATE TABLE public.expenses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  description TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'other',
+  amount DECIMAL(12,2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  expense_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  vendor TEXT,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  receipt_path TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT expenses_amount_check CHECK (amount > 0),
+  CONSTRAINT expenses_currency_check CHECK (currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT expenses_category_check CHECK (category IN ('software', 'hardware', 'contractor', 'travel', 'office', 'marketing', 'other'))
+);
+
+CREATE INDEX idx_expenses_project_id ON public.expenses(project_id);
+CREATE INDEX idx_expenses_expense_date ON public.expenses(expense_date);
+
+-- Enable Row Level Security
+ALTER TABLE public.expenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and PMs can view expenses"
+ON public.expenses
+FOR SELECT
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Admins and PMs can create expenses"
+ON public.expenses
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Admins and PMs can update expenses"
+ON public.expenses
+FOR UPDATE
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Only admins can delete expenses"
+ON public.expenses
+FOR DELETE
+TO authenticated
+USING (
+  public.get_current_user_role() = 'admin'
+);
+
+CREATE TRIGGER update_expenses_updated_at
+BEFORE UPDATE ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create private storage bucket for expense receipts
+INSERT INTO storage.buckets (id, name, public)
+SELECT 'expense-receipts', 'expense-receipts', false
+WHERE NOT EXISTS (
+  SELECT 1 FROM storage.buckets WHERE id = 'expense-receipts'
+);
+
+CREATE POLICY "Admins and PMs can view expense receipts"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'expense-receipts' AND
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Admins and PMs can upload expense receipts"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'expense-receipts' AND
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Admins and PMs can delete expense receipts"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'expense-receipts' AND
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+-- Convert an amount into the company base currency using the rate in effect on the date.
+-- Mirrors convertToBase() in src/lib/currency.ts; returns NULL when no rate is known.
+CREATE OR REPLACE FUNCTION public.convert_to_base_currency(p_amount DECIMAL, p_currency TEXT, p_date DATE DEFAULT CURRENT_DATE)
+RETURNS DECIMAL AS $$
+DECLARE
+  base TEXT;
+  exchange_rate DECIMAL;
+BEGIN
+  SELECT base_currency INTO base FROM company_settings WHERE id = 1;
+  base := COALESCE(base, 'USD');
+
+  IF p_amount IS NULL OR p_currency = base THEN
+    RETURN p_amount;
+  END IF;
+
+  SELECT rate INTO exchange_rate
+  FROM exchange_rates
+  WHERE base_currency = base
+  AND currency = p_currency
+  ORDER BY (effective_date <= p_date) DESC,
+    CASE WHEN effective_date <= p_date THEN effective_date END DESC,
+    effective_date ASC
+  LIMIT 1;
+
+  IF exchange_rate IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN ROUND(p_amount * exchange_rate, 2);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Per-project profitability in the base currency. Revenue is the pre-tax value of sent, overdue
+-- and paid invoices: whole invoices for their project, or lines of project-less invoices through
+-- the time entries they billed. Labor cost uses profiles.hourly_rate, taken to be in the base currency.
+CREATE OR REPLACE VIEW public.project_profitability
+WITH (security_invoker = true)
+AS
+WITH invoiced AS (
+  SELECT
+    COALESCE(i.project_id, (
+      SELECT te.project_id FROM public.time_entries te WHERE te.invoice_item_id = ii.id LIMIT 1
+    )) AS project_id,
+    public.convert_to_base_currency(ii.amount, i.currency, i.issue_date) AS amount,
+    i.currency
+  FROM public.invoice_items ii
+  JOIN public.invoices i ON i.id = ii.invoice_id
+  WHERE i.status IN ('sent', 'overdue', 'paid')
+),
+revenue AS (
+  SELECT
+    project_id,
+    SUM(amount) AS revenue,
+    array_agg(DISTINCT currency) FILTER (WHERE amount IS NULL) AS missing_currencies
+  FROM invoiced
+  WHERE project_id IS NOT NULL
+  GROUP BY project_id
+),
+costs AS (
+  SELECT
+    project_id,
+    SUM(public.convert_to_base_currency(amount, currency, expense_date)) AS expenses,
+    array_agg(DISTINCT currency) FILTER (WHERE public.convert_to_base_currency(amount, currency, expense_date) IS NULL) AS missing_currencies
+  FROM public.expenses
+  WHERE project_id IS NOT NULL
+  GROUP BY project_id
+),
+labor AS (
+  SELECT
+    te.project_id,
+    SUM(te.hours) AS hours,
+    SUM(te.hours * COALESCE(pr.hourly_rate, 0)) AS labor_cost
+  FROM public.time_entries te
+  JOIN public.profiles pr ON pr.id = te.user_id
+  GROUP BY te.project_id
+)
+SELECT
+  p.id AS project_id,
+  p.name AS project_name,
+  p.status,
+  p.client_id,
+  p.currency AS budget_currency,
+  p.budget,
+  public.convert_to_base_currency(p.budget, p.currency) AS budget_base,
+  COALESCE(r.revenue, 0) AS revenue,
+  COALESCE(c.expenses, 0) AS expenses,
+  COALESCE(l.hours, 0) AS hours,
+  ROUND(COALESCE(l.labor_cost, 0), 2) AS labor_cost,
+  ROUND(COALESCE(r.revenue, 0) - COALESCE(c.expenses, 0) - COALESCE(l.labor_cost, 0), 2) AS profit,
+  ARRAY(
+    SELECT DISTINCT unnest(COALESCE(r.missing_currencies, '{}') || COALESCE(c.missing_currencies, '{}'))
+  ) AS missing_currencies
+FROM public.projects p
+LEFT JOIN revenue r ON r.project_id = p.id
+LEFT JOIN costs c ON c.project_id = p.id
+LEFT JOIN labor l ON l.project_id = p.id;
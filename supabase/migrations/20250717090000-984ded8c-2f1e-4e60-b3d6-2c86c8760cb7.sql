@@ -0,0 +1,218 @@
+-- Finance reporting functions. These run with the caller's permissions so invoice and
+-- payment RLS still applies; every amount is converted to the company base currency.
+-- Amounts in a currency without an exchange rate are left out of the sums, and the currencies
+-- are returned in missing_currencies so the totals are never understated without a warning.
+
+-- Create function for the headline figures on the Finance page
+CREATE OR REPLACE FUNCTION public.get_finance_summary()
+RETURNS TABLE (
+  total_revenue DECIMAL,
+  paid_this_month DECIMAL,
+  paid_last_month DECIMAL,
+  pending_amount DECIMAL,
+  overdue_amount DECIMAL,
+  missing_currencies TEXT[]
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH collected AS (
+    SELECT
+      p.payment_date,
+      i.currency,
+      public.convert_to_base_currency(p.amount, i.currency, p.payment_date) AS amount
+    FROM public.payments p
+    JOIN public.invoices i ON i.id = p.invoice_id
+  ),
+  outstanding AS (
+    SELECT
+      i.status,
+      i.currency,
+      public.convert_to_base_currency(GREATEST(i.total_amount - COALESCE(i.amount_paid, 0), 0), i.currency) AS amount
+    FROM public.invoices i
+    WHERE i.status IN ('sent', 'overdue')
+  )
+  SELECT
+    COALESCE((SELECT SUM(c.amount) FROM collected c), 0),
+    COALESCE((SELECT SUM(c.amount) FROM collected c WHERE c.payment_date >= date_trunc('month', CURRENT_DATE)::DATE), 0),
+    COALESCE((
+      SELECT SUM(c.amount) FROM collected c
+      WHERE c.payment_date >= (date_trunc('month', CURRENT_DATE) - INTERVAL '1 month')::DATE
+      AND c.payment_date < date_trunc('month', CURRENT_DATE)::DATE
+    ), 0),
+    COALESCE((SELECT SUM(o.amount) FROM outstanding o WHERE o.status = 'sent'), 0),
+    COALESCE((SELECT SUM(o.amount) FROM outstanding o WHERE o.status = 'overdue'), 0),
+    ARRAY(
+      SELECT DISTINCT m.currency FROM (
+        SELECT c.currency FROM collected c WHERE c.amount IS NULL
+        UNION
+        SELECT o.currency FROM outstanding o WHERE o.amount IS NULL
+      ) m
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Create function for monthly invoiced (before tax) and collected revenue, including empty months
+CREATE OR REPLACE FUNCTION public.get_monthly_revenue(p_months INTEGER DEFAULT 24)
+RETURNS TABLE (
+  month DATE,
+  invoiced DECIMAL,
+  collected DECIMAL,
+  missing_currencies TEXT[]
+) AS $$
+DECLARE
+  first_month DATE := (date_trunc('month', CURRENT_DATE) - make_interval(months => GREATEST(p_months, 1) - 1))::DATE;
+BEGIN
+  RETURN QUERY
+  WITH months AS (
+    SELECT generate_series(first_month, date_trunc('month', CURRENT_DATE)::DATE, INTERVAL '1 month')::DATE AS month
+  ),
+  invoiced AS (
+    SELECT
+      date_trunc('month', i.issue_date)::DATE AS month,
+      SUM(public.convert_to_base_currency(i.amount, i.currency, i.issue_date)) AS amount,
+      array_agg(DISTINCT i.currency) FILTER (WHERE public.convert_to_base_currency(i.amount, i.currency, i.issue_date) IS NULL) AS missing
+    FROM public.invoices i
+    WHERE i.status IN ('sent', 'overdue', 'paid')
+    AND i.issue_date >= first_month
+    GROUP BY 1
+  ),
+  collected AS (
+    SELECT
+      date_trunc('month', p.payment_date)::DATE AS month,
+      SUM(public.convert_to_base_currency(p.amount, i.currency, p.payment_date)) AS amount,
+      array_agg(DISTINCT i.currency) FILTER (WHERE public.convert_to_base_currency(p.amount, i.currency, p.payment_date) IS NULL) AS missing
+    FROM public.payments p
+    JOIN public.invoices i ON i.id = p.invoice_id
+    WHERE p.payment_date >= first_month
+    GROUP BY 1
+  )
+  SELECT
+    m.month,
+    COALESCE(inv.amount, 0),
+    COALESCE(col.amount, 0),
+    ARRAY(SELECT DISTINCT c FROM unnest(COALESCE(inv.missing, '{}') || COALESCE(col.missing, '{}')) c ORDER BY c)
+  FROM months m
+  LEFT JOIN invoiced inv ON inv.month = m.month
+  LEFT JOIN collected col ON col.month = m.month
+  ORDER BY m.month;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Create function for accounts receivable aging by days past the due date
+CREATE OR REPLACE FUNCTION public.get_ar_aging()
+RETURNS TABLE (
+  bucket TEXT,
+  invoice_count INTEGER,
+  amount DECIMAL,
+  missing_currencies TEXT[]
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH buckets (bucket, sort_order) AS (
+    VALUES ('current', 0), ('0-30', 1), ('31-60', 2), ('61-90', 3), ('90+', 4)
+  ),
+  open_invoices AS (
+    SELECT
+      CASE
+        WHEN i.due_date > CURRENT_DATE THEN 'current'
+        WHEN CURRENT_DATE - i.due_date <= 30 THEN '0-30'
+        WHEN CURRENT_DATE - i.due_date <= 60 THEN '31-60'
+        WHEN CURRENT_DATE - i.due_date <= 90 THEN '61-90'
+        ELSE '90+'
+      END AS bucket,
+      i.currency,
+      public.convert_to_base_currency(GREATEST(i.total_amount - COALESCE(i.amount_paid, 0), 0), i.currency) AS amount
+    FROM public.invoices i
+    WHERE i.status IN ('sent', 'overdue')
+  )
+  SELECT
+    b.bucket,
+    COUNT(o.bucket)::INTEGER,
+    COALESCE(SUM(o.amount), 0),
+    COALESCE(array_agg(DISTINCT o.currency) FILTER (WHERE o.bucket IS NOT NULL AND o.amount IS NULL), '{}')
+  FROM buckets b
+  LEFT JOIN open_invoices o ON o.bucket = b.bucket
+  GROUP BY b.bucket, b.sort_order
+  ORDER BY b.sort_order;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Create function for revenue by client over a date range
+CREATE OR REPLACE FUNCTION public.get_revenue_by_client(p_start_date DATE, p_end_date DATE)
+RETURNS TABLE (
+  client_id UUID,
+  client_name TEXT,
+  invoiced DECIMAL,
+  collected DECIMAL,
+  missing_currencies TEXT[]
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH invoiced AS (
+    SELECT
+      i.client_id,
+      SUM(public.convert_to_base_currency(i.amount, i.currency, i.issue_date)) AS amount,
+      array_agg(DISTINCT i.currency) FILTER (WHERE public.convert_to_base_currency(i.amount, i.currency, i.issue_date) IS NULL) AS missing
+    FROM public.invoices i
+    WHERE i.status IN ('sent', 'overdue', 'paid')
+    AND i.issue_date BETWEEN p_start_date AND p_end_date
+    GROUP BY i.client_id
+  ),
+  collected AS (
+    SELECT
+      i.client_id,
+      SUM(public.convert_to_base_currency(p.amount, i.currency, p.payment_date)) AS amount,
+      array_agg(DISTINCT i.currency) FILTER (WHERE public.convert_to_base_currency(p.amount, i.currency, p.payment_date) IS NULL) AS missing
+    FROM public.payments p
+    JOIN public.invoices i ON i.id = p.invoice_id
+    WHERE p.payment_date BETWEEN p_start_date AND p_end_date
+    GROUP BY i.client_id
+  )
+  SELECT
+    c.id,
+    c.name,
+    COALESCE(inv.amount, 0),
+    COALESCE(col.amount, 0),
+    ARRAY(SELECT DISTINCT m FROM unnest(COALESCE(inv.missing, '{}') || COALESCE(col.missing, '{}')) m ORDER BY m)
+  FROM public.clients c
+  LEFT JOIN invoiced inv ON inv.client_id = c.id
+  LEFT JOIN collected col ON col.client_id = c.id
+  WHERE inv.client_id IS NOT NULL OR col.client_id IS NOT NULL
+  ORDER BY COALESCE(inv.amount, 0) DESC, c.name;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Create function for invoiced revenue by project over a date range. Line items without a
+-- project on the invoice are attributed through the time entries they billed, as in project_profitability.
+CREATE OR REPLACE FUNCTION public.get_revenue_by_project(p_start_date DATE, p_end_date DATE)
+RETURNS TABLE (
+  project_id UUID,
+  project_name TEXT,
+  invoiced DECIMAL,
+  missing_currencies TEXT[]
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH items AS (
+    SELECT
+      COALESCE(i.project_id, (
+        SELECT te.project_id FROM public.time_entries te WHERE te.invoice_item_id = ii.id LIMIT 1
+      )) AS project_id,
+      i.currency,
+      public.convert_to_base_currency(ii.amount, i.currency, i.issue_date) AS amount
+    FROM public.invoice_items ii
+    JOIN public.invoices i ON i.id = ii.invoice_id
+    WHERE i.status IN ('sent', 'overdue', 'paid')
+    AND i.issue_date BETWEEN p_start_date AND p_end_date
+  )
+  SELECT
+    items.project_id,
+    COALESCE(p.name, 'No project'),
+    COALESCE(SUM(items.amount), 0),
+    COALESCE(array_agg(DISTINCT items.currency) FILTER (WHERE items.amount IS NULL), '{}')
+  FROM items
+  LEFT JOIN public.projects p ON p.id = items.project_id
+  GROUP BY items.project_id, p.name
+  ORDER BY 3 DESC;
+END;
+$$ LANGUAGE plpgsql STABLE;
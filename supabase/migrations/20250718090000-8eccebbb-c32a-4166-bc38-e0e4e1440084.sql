@@ -0,0 +1,283 @@
+-- Logged hours are decimals and totals can run past what the original columns hold
+ALTER TABLE public.projects ALTER COLUMN actual_hours TYPE DECIMAL(8,2);
+ALTER TABLE public.tasks ALTER COLUMN actual_hours TYPE DECIMAL(8,2);
+
+CREATE INDEX idx_time_entries_task_id ON public.time_entries(task_id);
+CREATE INDEX idx_time_entries_user_date ON public.time_entries(user_id, date);
+
+-- Create running timers table; each member has at most one timer running
+CREATE TABLE public.task_timers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.task_timers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own timer"
+ON public.task_timers
+FOR ALL
+TO authenticated
+USING (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+)
+WITH CHECK (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Admins and PMs can view all timers"
+ON public.task_timers
+FOR SELECT
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+-- Members log their own time; billed entries can only be changed by voiding the invoice
+CREATE POLICY "Users can view their own time entries"
+ON public.time_entries
+FOR SELECT
+TO authenticated
+USING (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can log their own time"
+ON public.time_entries
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Users can update their own time entries"
+ON public.time_entries
+FOR UPDATE
+TO authenticated
+USING (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Users can delete their own time entries"
+ON public.time_entries
+FOR DELETE
+TO authenticated
+USING (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+-- Fill in the member and project, validate hours and protect billed entries
+CREATE OR REPLACE FUNCTION public.prepare_time_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.invoice_item_id IS NOT NULL THEN
+      RAISE EXCEPTION 'This time has been invoiced and cannot be deleted';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  -- Only billing links time to an invoice line, and only removing the line (which clears the link
+  -- through the foreign key) unlinks it for everyone else
+  IF (
+    (TG_OP = 'INSERT' AND NEW.invoice_item_id IS NOT NULL)
+    OR (TG_OP = 'UPDATE' AND NEW.invoice_item_id IS DISTINCT FROM OLD.invoice_item_id AND NOT (
+      NEW.invoice_item_id IS NULL
+      AND NOT EXISTS (SELECT 1 FROM public.invoice_items WHERE id = OLD.invoice_item_id)
+    ))
+  ) AND COALESCE(public.get_current_user_role(), '') NOT IN ('admin', 'project_manager') THEN
+    RAISE EXCEPTION 'Only admins and project managers can change which invoice time is billed on';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.invoice_item_id IS NOT NULL AND (
+    NEW.hours IS DISTINCT FROM OLD.hours
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.task_id IS DISTINCT FROM OLD.task_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'This time has been invoiced and cannot be changed';
+  END IF;
+
+  IF NEW.user_id IS NULL THEN
+    NEW.user_id := (SELECT id FROM public.profiles WHERE user_id = auth.uid());
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.hours IS DISTINCT FROM OLD.hours) AND (NEW.hours <= 0 OR NEW.hours > 24) THEN
+    RAISE EXCEPTION 'Hours must be more than 0 and at most 24';
+  END IF;
+
+  -- Time always counts against the project the task belongs to
+  SELECT project_id INTO NEW.project_id FROM public.tasks WHERE id = NEW.task_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER prepare_time_entry_trigger
+BEFORE INSERT OR UPDATE OR DELETE ON public.time_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.prepare_time_entry();
+
+-- Deleting a task or project cascades to its time entries, which fails on invoiced time.
+-- Refuse up front so the error names what is being deleted.
+CREATE OR REPLACE FUNCTION public.check_task_time_before_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM time_entries
+    WHERE task_id = OLD.id
+    AND invoice_item_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Task "%" has invoiced time logged against it and cannot be deleted', OLD.title;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER check_task_time_before_delete_trigger
+BEFORE DELETE ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.check_task_time_before_delete();
+
+CREATE OR REPLACE FUNCTION public.check_project_time_before_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM time_entries
+    WHERE project_id = OLD.id
+    AND invoice_item_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Project "%" has invoiced time logged against it and cannot be deleted', OLD.name;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER check_project_time_before_delete_trigger
+BEFORE DELETE ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.check_project_time_before_delete();
+
+-- Keep tasks.actual_hours and projects.actual_hours equal to the time logged against them
+CREATE OR REPLACE FUNCTION public.sync_time_entry_hours()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE tasks
+    SET actual_hours = COALESCE((SELECT SUM(hours) FROM time_entries WHERE task_id = OLD.task_id), 0)
+    WHERE id = OLD.task_id;
+
+    UPDATE projects
+    SET actual_hours = COALESCE((SELECT SUM(hours) FROM time_entries WHERE project_id = OLD.project_id), 0)
+    WHERE id = OLD.project_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE tasks
+    SET actual_hours = COALESCE((SELECT SUM(hours) FROM time_entries WHERE task_id = NEW.task_id), 0)
+    WHERE id = NEW.task_id;
+
+    UPDATE projects
+    SET actual_hours = COALESCE((SELECT SUM(hours) FROM time_entries WHERE project_id = NEW.project_id), 0)
+    WHERE id = NEW.project_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_time_entry_hours_trigger
+AFTER INSERT OR DELETE OR UPDATE OF hours, task_id, project_id ON public.time_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_time_entry_hours();
+
+-- Moving a task to another project moves its logged time with it
+CREATE OR REPLACE FUNCTION public.move_time_entries_with_task()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.project_id IS DISTINCT FROM OLD.project_id THEN
+    UPDATE time_entries SET project_id = NEW.project_id WHERE task_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER move_time_entries_with_task_trigger
+AFTER UPDATE OF project_id ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.move_time_entries_with_task();
+
+-- Start a timer on a task, logging any timer the member already has running
+CREATE OR REPLACE FUNCTION public.start_task_timer(p_task_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  current_profile_id UUID;
+  timer_id UUID;
+BEGIN
+  SELECT id INTO current_profile_id FROM profiles WHERE user_id = auth.uid();
+
+  IF current_profile_id IS NULL THEN
+    RAISE EXCEPTION 'No profile found for the current user';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM tasks WHERE id = p_task_id) THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  PERFORM public.stop_task_timer();
+
+  INSERT INTO task_timers (user_id, task_id)
+  VALUES (current_profile_id, p_task_id)
+  RETURNING id INTO timer_id;
+
+  RETURN timer_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Stop the member's running timer and log the elapsed time on the day it started.
+-- Returns the new time entry, or NULL when nothing was running or under a minute elapsed.
+CREATE OR REPLACE FUNCTION public.stop_task_timer(p_description TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  timer RECORD;
+  elapsed_hours DECIMAL;
+  entry_id UUID;
+BEGIN
+  DELETE FROM task_timers
+  WHERE user_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+  RETURNING * INTO timer;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF now() - timer.started_at < INTERVAL '1 minute' THEN
+    RETURN NULL;
+  END IF;
+
+  elapsed_hours := LEAST(ROUND(EXTRACT(EPOCH FROM (now() - timer.started_at)) / 3600, 2), 24);
+
+  INSERT INTO time_entries (task_id, user_id, project_id, hours, date, description)
+  SELECT timer.task_id, timer.user_id, t.project_id, elapsed_hours, timer.started_at::DATE, p_description
+  FROM tasks t
+  WHERE t.id = timer.task_id
+  RETURNING id INTO entry_id;
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill totals from time already logged
+UPDATE public.tasks t
+SET actual_hours = COALESCE((SELECT SUM(hours) FROM public.time_entries WHERE task_id = t.id), 0);
+
+UPDATE public.projects p
+SET actual_hours = COALESCE((SELECT SUM(hours) FROM public.time_entries WHERE project_id = p.id), 0);
@@ -0,0 +1,271 @@
+-- Create weekly timesheet submissions; a week runs Monday to Sunday
+CREATE TABLE public.timesheet_submissions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL CHECK (EXTRACT(ISODOW FROM week_start) = 1),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  total_hours DECIMAL(6,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  approved_by UUID REFERENCES public.profiles(id),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  review_notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, week_start)
+);
+
+CREATE INDEX idx_timesheet_submissions_status ON public.timesheet_submissions(status, week_start);
+
+ALTER TABLE public.timesheet_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own timesheets and admins can view all"
+ON public.timesheet_submissions
+FOR SELECT
+TO authenticated
+USING (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Users can submit their own timesheets"
+ON public.timesheet_submissions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can resubmit their own timesheets"
+ON public.timesheet_submissions
+FOR UPDATE
+TO authenticated
+USING (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND status <> 'approved'
+)
+WITH CHECK (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Admins and PMs can approve/reject timesheets"
+ON public.timesheet_submissions
+FOR UPDATE
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Users can recall pending timesheets"
+ON public.timesheet_submissions
+FOR DELETE
+TO authenticated
+USING (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND status = 'pending'
+);
+
+CREATE TRIGGER update_timesheet_submissions_updated_at
+BEFORE UPDATE ON public.timesheet_submissions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only approvers can approve or reject, and nobody but an admin reviews their own week.
+-- Members can only (re)submit, which snapshots the week's hours and clears the last review.
+-- A submission always stays on its member and week, since that is what locks the week's time.
+CREATE OR REPLACE FUNCTION public.validate_timesheet_submission()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_profile_id UUID;
+  reviewer_role TEXT;
+BEGIN
+  SELECT id, role::TEXT INTO current_profile_id, reviewer_role FROM profiles WHERE user_id = auth.uid();
+
+  IF TG_OP = 'UPDATE' AND (NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.week_start IS DISTINCT FROM OLD.week_start) THEN
+    RAISE EXCEPTION 'The member and week of a timesheet cannot be changed';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND COALESCE(reviewer_role, '') NOT IN ('admin', 'project_manager') THEN
+    RAISE EXCEPTION 'Approved timesheets can only be changed by admins and project managers';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('approved', 'rejected') THEN
+    IF reviewer_role NOT IN ('admin', 'project_manager') THEN
+      RAISE EXCEPTION 'Only admins and project managers can review timesheets';
+    END IF;
+
+    IF OLD.status <> 'pending' THEN
+      RAISE EXCEPTION 'Only pending timesheets can be reviewed';
+    END IF;
+
+    IF NEW.user_id = current_profile_id AND reviewer_role <> 'admin' THEN
+      RAISE EXCEPTION 'You cannot review your own timesheet';
+    END IF;
+
+    NEW.approved_by := current_profile_id;
+    NEW.approved_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status = 'pending' AND OLD.status = 'approved' THEN
+    RAISE EXCEPTION 'Approved timesheets cannot be resubmitted';
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (NEW.status = 'pending' AND OLD.status <> 'pending') THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New timesheets must be submitted for approval';
+    END IF;
+
+    NEW.total_hours := COALESCE((
+      SELECT SUM(hours) FROM time_entries
+      WHERE user_id = NEW.user_id
+      AND date BETWEEN NEW.week_start AND NEW.week_start + 6
+    ), 0);
+    NEW.submitted_at := now();
+    NEW.approved_by := NULL;
+    NEW.approved_at := NULL;
+    NEW.review_notes := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Any other update leaves the submitted hours and the last review as they were
+  NEW.total_hours := OLD.total_hours;
+  NEW.submitted_at := OLD.submitted_at;
+  NEW.approved_by := OLD.approved_by;
+  NEW.approved_at := OLD.approved_at;
+  IF COALESCE(reviewer_role, '') NOT IN ('admin', 'project_manager') THEN
+    NEW.review_notes := OLD.review_notes;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_timesheet_submission_trigger
+BEFORE INSERT OR UPDATE ON public.timesheet_submissions
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_timesheet_submission();
+
+-- A week is locked while it waits for review and once it has been approved
+CREATE OR REPLACE FUNCTION public.is_timesheet_week_locked(p_user_id UUID, p_date DATE)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM timesheet_submissions
+    WHERE user_id = p_user_id
+    AND week_start = date_trunc('week', p_date)::DATE
+    AND status IN ('pending', 'approved')
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Recreate time entry validation to also refuse changes inside a locked week
+CREATE OR REPLACE FUNCTION public.prepare_time_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.invoice_item_id IS NOT NULL THEN
+      RAISE EXCEPTION 'This time has been invoiced and cannot be deleted';
+    END IF;
+    IF public.is_timesheet_week_locked(OLD.user_id, OLD.date) THEN
+      RAISE EXCEPTION 'The timesheet for this week has been submitted and cannot be changed';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  -- Only billing links time to an invoice line, and only removing the line (which clears the link
+  -- through the foreign key) unlinks it for everyone else
+  IF (
+    (TG_OP = 'INSERT' AND NEW.invoice_item_id IS NOT NULL)
+    OR (TG_OP = 'UPDATE' AND NEW.invoice_item_id IS DISTINCT FROM OLD.invoice_item_id AND NOT (
+      NEW.invoice_item_id IS NULL
+      AND NOT EXISTS (SELECT 1 FROM public.invoice_items WHERE id = OLD.invoice_item_id)
+    ))
+  ) AND COALESCE(public.get_current_user_role(), '') NOT IN ('admin', 'project_manager') THEN
+    RAISE EXCEPTION 'Only admins and project managers can change which invoice time is billed on';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.invoice_item_id IS NOT NULL AND (
+    NEW.hours IS DISTINCT FROM OLD.hours
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.task_id IS DISTINCT FROM OLD.task_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'This time has been invoiced and cannot be changed';
+  END IF;
+
+  IF NEW.user_id IS NULL THEN
+    NEW.user_id := (SELECT id FROM public.profiles WHERE user_id = auth.uid());
+  END IF;
+
+  -- Invoicing only links entries to invoice lines, which is allowed in a locked week
+  IF TG_OP = 'INSERT' OR (
+    NEW.hours IS DISTINCT FROM OLD.hours
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.task_id IS DISTINCT FROM OLD.task_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.description IS DISTINCT FROM OLD.description
+  ) THEN
+    IF public.is_timesheet_week_locked(NEW.user_id, NEW.date)
+      OR (TG_OP = 'UPDATE' AND public.is_timesheet_week_locked(OLD.user_id, OLD.date)) THEN
+      RAISE EXCEPTION 'The timesheet for this week has been submitted and cannot be changed';
+    END IF;
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.hours IS DISTINCT FROM OLD.hours) AND (NEW.hours <= 0 OR NEW.hours > 24) THEN
+    RAISE EXCEPTION 'Hours must be more than 0 and at most 24';
+  END IF;
+
+  -- Time always counts against the project the task belongs to
+  SELECT project_id INTO NEW.project_id FROM public.tasks WHERE id = NEW.task_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Tasks and projects with time in a submitted week can't be deleted either
+CREATE OR REPLACE FUNCTION public.check_task_time_before_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM time_entries
+    WHERE task_id = OLD.id
+    AND invoice_item_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Task "%" has invoiced time logged against it and cannot be deleted', OLD.title;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM time_entries
+    WHERE task_id = OLD.id
+    AND public.is_timesheet_week_locked(user_id, date)
+  ) THEN
+    RAISE EXCEPTION 'Task "%" has time in a submitted timesheet and cannot be deleted', OLD.title;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.check_project_time_before_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM time_entries
+    WHERE project_id = OLD.id
+    AND invoice_item_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Project "%" has invoiced time logged against it and cannot be deleted', OLD.name;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM time_entries
+    WHERE project_id = OLD.id
+    AND public.is_timesheet_week_locked(user_id, date)
+  ) THEN
+    RAISE EXCEPTION 'Project "%" has time in a submitted timesheet and cannot be deleted', OLD.name;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,132 @@
+-- Track edits to task comments
+ALTER TABLE public.task_comments
+ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE INDEX idx_task_comments_task_id ON public.task_comments(task_id, created_at);
+
+CREATE TRIGGER update_task_comments_updated_at
+BEFORE UPDATE ON public.task_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Comments are visible to anyone who can see the task; only the author can change them
+CREATE POLICY "Users can view comments on tasks they can see"
+ON public.task_comments
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_comments.task_id)
+);
+
+CREATE POLICY "Users can comment on tasks they can see"
+ON public.task_comments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_comments.task_id)
+);
+
+CREATE POLICY "Users can edit their own comments"
+ON public.task_comments
+FOR UPDATE
+TO authenticated
+USING (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own comments"
+ON public.task_comments
+FOR DELETE
+TO authenticated
+USING (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+-- Audit trail of status, assignee and priority changes on tasks
+CREATE TABLE public.task_activity (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  field TEXT NOT NULL CHECK (field IN ('status', 'assigned_to', 'priority')),
+  from_value TEXT,
+  to_value TEXT,
+  changed_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_activity_task_id ON public.task_activity(task_id, created_at);
+
+ALTER TABLE public.task_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view activity on tasks they can see"
+ON public.task_activity
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_activity.task_id)
+);
+
+CREATE OR REPLACE FUNCTION public.log_task_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  changer_id UUID;
+BEGIN
+  changer_id := (SELECT id FROM profiles WHERE user_id = auth.uid());
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO task_activity (task_id, field, from_value, to_value, changed_by)
+    VALUES (NEW.id, 'status', OLD.status::TEXT, NEW.status::TEXT, changer_id);
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO task_activity (task_id, field, from_value, to_value, changed_by)
+    VALUES (NEW.id, 'assigned_to', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT, changer_id);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO task_activity (task_id, field, from_value, to_value, changed_by)
+    VALUES (NEW.id, 'priority', OLD.priority::TEXT, NEW.priority::TEXT, changer_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER log_task_changes_trigger
+AFTER UPDATE OF status, assigned_to, priority ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.log_task_changes();
+
+-- Notify people the first time a comment mentions them. Mentions are stored
+-- in the comment text as @[Display Name](profile-id). Only people who can see
+-- the task hear about it, by the same rules as the tasks policy.
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS TRIGGER AS $$
+DECLARE
+  author_name TEXT;
+  task_record RECORD;
+BEGIN
+  SELECT first_name || ' ' || last_name INTO author_name FROM profiles WHERE id = NEW.user_id;
+  SELECT title, project_id, assigned_to, created_by INTO task_record FROM tasks WHERE id = NEW.task_id;
+
+  INSERT INTO notifications (user_id, title, message, type)
+  SELECT DISTINCT mentioned.id, 'You were mentioned', author_name || ' mentioned you on "' || task_record.title || '"', 'mention'
+  FROM regexp_matches(NEW.comment, '@\[[^\]]+\]\(([0-9a-f-]{36})\)', 'g') AS mention
+  JOIN profiles mentioned ON mentioned.id = mention[1]::UUID
+  WHERE mentioned.id <> NEW.user_id
+  AND (
+    EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = task_record.project_id AND pm.user_id = mentioned.id)
+    OR mentioned.id = task_record.assigned_to
+    OR mentioned.id = task_record.created_by
+    OR mentioned.role IN ('admin', 'project_manager')
+  )
+  AND (TG_OP = 'INSERT' OR position('(' || mentioned.id::TEXT || ')' IN OLD.comment) = 0);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER notify_comment_mentions_trigger
+AFTER INSERT OR UPDATE OF comment ON public.task_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_comment_mentions();
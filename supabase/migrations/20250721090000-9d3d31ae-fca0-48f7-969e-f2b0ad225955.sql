@@ -0,0 +1,67 @@
+-- Order of tasks within a board column. Positions are fractional so a card can be
+-- dropped between two others by updating only the moved task.
+ALTER TABLE public.tasks
+ADD COLUMN position DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+UPDATE public.tasks t
+SET position = ordered.row_number * 1000
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY status ORDER BY created_at DESC) AS row_number
+  FROM public.tasks
+) ordered
+WHERE ordered.id = t.id;
+
+CREATE INDEX idx_tasks_status_position ON public.tasks(status, position);
+
+-- New tasks, and tasks moved to another column without an explicit position, go to the top
+CREATE OR REPLACE FUNCTION public.set_task_position()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR (NEW.status IS DISTINCT FROM OLD.status AND NEW.position = OLD.position) THEN
+    NEW.position := COALESCE((
+      SELECT MIN(position) FROM tasks
+      WHERE status IS NOT DISTINCT FROM NEW.status
+      AND id <> NEW.id
+    ), 1000) - 1000;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER set_task_position_trigger
+BEFORE INSERT OR UPDATE OF status ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.set_task_position();
+
+-- Work-in-progress limits per board column, configured per project
+CREATE TABLE public.project_wip_limits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  status task_status NOT NULL,
+  wip_limit INTEGER NOT NULL CHECK (wip_limit > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(project_id, status)
+);
+
+ALTER TABLE public.project_wip_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view WIP limits"
+ON public.project_wip_limits
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins and PMs can manage WIP limits"
+ON public.project_wip_limits
+FOR ALL
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE TRIGGER update_project_wip_limits_updated_at
+BEFORE UPDATE ON public.project_wip_limits
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
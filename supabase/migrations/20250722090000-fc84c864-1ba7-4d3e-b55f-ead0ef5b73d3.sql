@@ -0,0 +1,70 @@
+-- Create "blocks / blocked by" links between tasks
+CREATE TABLE public.task_dependencies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blocking_task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  blocked_task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(blocking_task_id, blocked_task_id),
+  CHECK (blocking_task_id <> blocked_task_id)
+);
+
+CREATE INDEX idx_task_dependencies_blocked ON public.task_dependencies(blocked_task_id);
+
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view dependencies between tasks they can see"
+ON public.task_dependencies
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_dependencies.blocked_task_id)
+);
+
+CREATE POLICY "Users can link tasks they can see"
+ON public.task_dependencies
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_dependencies.blocked_task_id)
+  AND EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_dependencies.blocking_task_id)
+);
+
+CREATE POLICY "Users can remove links they created and admins can remove any"
+ON public.task_dependencies
+FOR DELETE
+TO authenticated
+USING (
+  created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+-- Refuse links that would close a loop: the new blocker must not already be
+-- waiting, directly or through other tasks, on the task it is about to block.
+CREATE OR REPLACE FUNCTION public.prevent_task_dependency_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE downstream AS (
+      SELECT blocked_task_id AS task_id
+      FROM task_dependencies
+      WHERE blocking_task_id = NEW.blocked_task_id
+      UNION
+      SELECT d.blocked_task_id
+      FROM task_dependencies d
+      JOIN downstream ON d.blocking_task_id = downstream.task_id
+    )
+    SELECT 1 FROM downstream WHERE task_id = NEW.blocking_task_id
+  ) THEN
+    RAISE EXCEPTION 'This link would create a circular dependency';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER prevent_task_dependency_cycle_trigger
+BEFORE INSERT OR UPDATE ON public.task_dependencies
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_task_dependency_cycle();
@@ -0,0 +1,131 @@
+-- Subtasks are ordinary tasks with a parent, one level deep
+ALTER TABLE public.tasks
+ADD COLUMN parent_task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_tasks_parent_task_id ON public.tasks(parent_task_id);
+
+CREATE OR REPLACE FUNCTION public.validate_subtask()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  IF NEW.parent_task_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_task_id = NEW.id THEN
+    RAISE EXCEPTION 'A task cannot be its own subtask';
+  END IF;
+
+  SELECT id, project_id, parent_task_id INTO parent FROM tasks WHERE id = NEW.parent_task_id;
+
+  IF parent.parent_task_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Subtasks cannot have subtasks of their own';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND EXISTS (SELECT 1 FROM tasks WHERE parent_task_id = NEW.id) THEN
+    RAISE EXCEPTION 'A task with subtasks cannot become a subtask';
+  END IF;
+
+  -- Subtasks always live in their parent's project
+  NEW.project_id := parent.project_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_subtask_trigger
+BEFORE INSERT OR UPDATE OF parent_task_id, project_id ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_subtask();
+
+-- Keep subtasks in the same project when their parent moves
+CREATE OR REPLACE FUNCTION public.move_subtasks_with_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.project_id IS DISTINCT FROM OLD.project_id THEN
+    UPDATE tasks SET project_id = NEW.project_id WHERE parent_task_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER move_subtasks_with_parent_trigger
+AFTER UPDATE OF project_id ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.move_subtasks_with_parent();
+
+-- A parent's estimate is the sum of its subtasks' estimates whenever it has any
+CREATE OR REPLACE FUNCTION public.recalculate_parent_estimate(p_task_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE tasks
+  SET estimated_hours = (SELECT SUM(estimated_hours) FROM tasks WHERE parent_task_id = p_task_id)
+  WHERE id = p_task_id
+  AND EXISTS (SELECT 1 FROM tasks WHERE parent_task_id = p_task_id)
+  AND estimated_hours IS DISTINCT FROM (SELECT SUM(estimated_hours) FROM tasks WHERE parent_task_id = p_task_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.sync_parent_estimate()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.parent_task_id IS NOT NULL THEN
+    PERFORM public.recalculate_parent_estimate(OLD.parent_task_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.parent_task_id IS NOT NULL THEN
+    PERFORM public.recalculate_parent_estimate(NEW.parent_task_id);
+  END IF;
+
+  -- Editing a parent's estimate by hand is overridden while it has subtasks
+  IF TG_OP = 'UPDATE' AND NEW.parent_task_id IS NULL THEN
+    PERFORM public.recalculate_parent_estimate(NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_parent_estimate_trigger
+AFTER INSERT OR DELETE OR UPDATE OF estimated_hours, parent_task_id ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_parent_estimate();
+
+-- Create lightweight checklists inside tasks
+CREATE TABLE public.task_checklist_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  is_completed BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_checklist_items_task_id ON public.task_checklist_items(task_id, position);
+
+ALTER TABLE public.task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view checklists on tasks they can see"
+ON public.task_checklist_items
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_checklist_items.task_id)
+);
+
+CREATE POLICY "Users can manage checklists on tasks they can see"
+ON public.task_checklist_items
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_checklist_items.task_id)
+);
+
+CREATE TRIGGER update_task_checklist_items_updated_at
+BEFORE UPDATE ON public.task_checklist_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,3 @@
+-- Tasks get an optional start date so the timeline can draw them as bars ending on due_date
+ALTER TABLE public.tasks
+ADD COLUMN start_date DATE;
@@ -0,0 +1,331 @@
+-- Create repeat rules for tasks. A rule is a subset of iCalendar RRULE:
+-- FREQ=DAILY|WEEKLY|MONTHLY|YEARLY with optional INTERVAL, BYDAY (weekly) and BYMONTHDAY (monthly).
+-- Every instance of a series points at the same rule; the newest instance is the template for the next one.
+CREATE TABLE public.task_recurrences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rrule TEXT NOT NULL,
+  spawn_on TEXT NOT NULL DEFAULT 'completion',
+  next_due_date DATE NOT NULL,
+  next_spawn_date DATE NOT NULL,
+  end_date DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT task_recurrences_rrule_check CHECK (
+    rrule ~ '^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;(INTERVAL=[1-9][0-9]{0,2}|BYDAY=(MO|TU|WE|TH|FR|SA|SU)(,(MO|TU|WE|TH|FR|SA|SU))*|BYMONTHDAY=([1-9]|[12][0-9]|3[01])))*$'
+  ),
+  CONSTRAINT task_recurrences_spawn_on_check CHECK (spawn_on IN ('completion', 'schedule'))
+);
+
+ALTER TABLE public.tasks
+ADD COLUMN recurrence_id UUID REFERENCES public.task_recurrences(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_tasks_recurrence_id ON public.tasks(recurrence_id, created_at);
+CREATE INDEX idx_task_recurrences_next_spawn ON public.task_recurrences(next_spawn_date) WHERE is_active;
+
+ALTER TABLE public.task_recurrences ENABLE ROW LEVEL SECURITY;
+
+-- Rules are changed through set_task_recurrence, which checks the caller can edit the task
+CREATE POLICY "Users can view repeat rules of tasks they can see"
+ON public.task_recurrences
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.tasks WHERE tasks.recurrence_id = task_recurrences.id)
+);
+
+CREATE TRIGGER update_task_recurrences_updated_at
+BEFORE UPDATE ON public.task_recurrences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Next occurrence strictly after the given date
+CREATE OR REPLACE FUNCTION public.next_recurrence_date(p_date DATE, p_rrule TEXT)
+RETURNS DATE AS $$
+DECLARE
+  weekday_codes TEXT[] := ARRAY['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+  rule_part TEXT;
+  freq TEXT;
+  step INTEGER := 1;
+  by_day TEXT[];
+  by_month_day INTEGER;
+  week_start DATE;
+  month_start DATE;
+  candidate DATE;
+BEGIN
+  FOREACH rule_part IN ARRAY string_to_array(p_rrule, ';') LOOP
+    CASE split_part(rule_part, '=', 1)
+      WHEN 'FREQ' THEN freq := split_part(rule_part, '=', 2);
+      WHEN 'INTERVAL' THEN step := split_part(rule_part, '=', 2)::INTEGER;
+      WHEN 'BYDAY' THEN by_day := string_to_array(split_part(rule_part, '=', 2), ',');
+      WHEN 'BYMONTHDAY' THEN by_month_day := split_part(rule_part, '=', 2)::INTEGER;
+      ELSE RAISE EXCEPTION 'Unsupported recurrence rule: %', p_rrule;
+    END CASE;
+  END LOOP;
+
+  CASE freq
+    WHEN 'DAILY' THEN
+      RETURN p_date + step;
+    WHEN 'WEEKLY' THEN
+      IF by_day IS NULL THEN
+        RETURN p_date + 7 * step;
+      END IF;
+
+      -- A later listed day in the same week, otherwise the first listed day of the next week in the cycle
+      week_start := date_trunc('week', p_date)::DATE;
+      candidate := p_date + 1;
+      WHILE candidate < week_start + 7 LOOP
+        IF weekday_codes[EXTRACT(ISODOW FROM candidate)::INTEGER] = ANY(by_day) THEN
+          RETURN candidate;
+        END IF;
+        candidate := candidate + 1;
+      END LOOP;
+
+      candidate := week_start + 7 * step;
+      WHILE NOT (weekday_codes[EXTRACT(ISODOW FROM candidate)::INTEGER] = ANY(by_day)) LOOP
+        candidate := candidate + 1;
+      END LOOP;
+      RETURN candidate;
+    WHEN 'MONTHLY' THEN
+      IF by_month_day IS NULL THEN
+        RETURN (p_date + make_interval(months => step))::DATE;
+      END IF;
+
+      -- Days past the end of a short month fall on its last day
+      month_start := date_trunc('month', p_date)::DATE;
+      candidate := LEAST(month_start + by_month_day - 1, (month_start + INTERVAL '1 month - 1 day')::DATE);
+      IF candidate > p_date THEN
+        RETURN candidate;
+      END IF;
+
+      month_start := (month_start + make_interval(months => step))::DATE;
+      RETURN LEAST(month_start + by_month_day - 1, (month_start + INTERVAL '1 month - 1 day')::DATE);
+    WHEN 'YEARLY' THEN
+      RETURN (p_date + make_interval(years => step))::DATE;
+    ELSE
+      RAISE EXCEPTION 'Unsupported recurrence rule: %', p_rrule;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Create the next instance of a series from its newest task, keeping project, assignee and estimate.
+-- Occurrences that are already over are skipped rather than created as overdue work.
+CREATE OR REPLACE FUNCTION public.spawn_recurring_task(p_recurrence_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  series RECORD;
+  template RECORD;
+  due DATE;
+  new_task_id UUID;
+BEGIN
+  SELECT * INTO series FROM task_recurrences WHERE id = p_recurrence_id AND is_active FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO template
+  FROM tasks
+  WHERE recurrence_id = p_recurrence_id
+  AND deleted_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  due := series.next_due_date;
+  WHILE due < CURRENT_DATE LOOP
+    due := public.next_recurrence_date(due, series.rrule);
+  END LOOP;
+
+  IF template.id IS NULL OR (series.end_date IS NOT NULL AND due > series.end_date) THEN
+    UPDATE task_recurrences SET is_active = false WHERE id = p_recurrence_id;
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO tasks (title, description, priority, project_id, assigned_to, estimated_hours, created_by, recurrence_id, start_date, due_date)
+  VALUES (
+    template.title,
+    template.description,
+    template.priority,
+    template.project_id,
+    template.assigned_to,
+    template.estimated_hours,
+    template.created_by,
+    p_recurrence_id,
+    CASE WHEN template.start_date IS NOT NULL AND template.due_date IS NOT NULL
+      THEN due - (template.due_date::DATE - template.start_date)
+    END,
+    due
+  )
+  RETURNING id INTO new_task_id;
+
+  INSERT INTO task_checklist_items (task_id, title, position, created_by)
+  SELECT new_task_id, title, position, created_by
+  FROM task_checklist_items
+  WHERE task_id = template.id;
+
+  UPDATE task_recurrences
+  SET
+    next_spawn_date = due,
+    next_due_date = public.next_recurrence_date(due, series.rrule)
+  WHERE id = p_recurrence_id;
+
+  RETURN new_task_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the completion trigger and the daily run create instances
+REVOKE EXECUTE ON FUNCTION public.spawn_recurring_task(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Completing the newest instance of a completion-based series creates the next one
+CREATE OR REPLACE FUNCTION public.spawn_next_recurring_task()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed'
+  AND NEW.recurrence_id IS NOT NULL
+  AND EXISTS (SELECT 1 FROM task_recurrences WHERE id = NEW.recurrence_id AND is_active AND spawn_on = 'completion')
+  AND NOT EXISTS (SELECT 1 FROM tasks WHERE recurrence_id = NEW.recurrence_id AND created_at > NEW.created_at) THEN
+    PERFORM public.spawn_recurring_task(NEW.recurrence_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER spawn_next_recurring_task_trigger
+AFTER UPDATE OF status ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.spawn_next_recurring_task();
+
+-- Make a task repeat, change its rule, or stop the series when p_rrule is NULL.
+-- Schedule-based series create each instance on the previous instance's due date.
+CREATE OR REPLACE FUNCTION public.set_task_recurrence(
+  p_task_id UUID,
+  p_rrule TEXT,
+  p_spawn_on TEXT DEFAULT 'completion',
+  p_end_date DATE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  current_profile_id UUID;
+  task_record RECORD;
+  base_date DATE;
+  series_id UUID;
+BEGIN
+  SELECT id INTO current_profile_id FROM profiles WHERE user_id = auth.uid();
+
+  SELECT * INTO task_record
+  FROM tasks
+  WHERE id = p_task_id
+  AND (
+    assigned_to = current_profile_id
+    OR created_by = current_profile_id
+    OR public.get_current_user_role() IN ('admin', 'project_manager')
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  IF p_rrule IS NULL THEN
+    UPDATE task_recurrences SET is_active = false WHERE id = task_record.recurrence_id;
+    RETURN NULL;
+  END IF;
+
+  IF task_record.parent_task_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Subtasks cannot repeat on their own';
+  END IF;
+
+  -- Occurrences continue from the newest instance of the series
+  SELECT COALESCE(due_date::DATE, CURRENT_DATE) INTO base_date
+  FROM tasks
+  WHERE id = p_task_id
+  OR (task_record.recurrence_id IS NOT NULL AND recurrence_id = task_record.recurrence_id)
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF task_record.recurrence_id IS NULL THEN
+    INSERT INTO task_recurrences (rrule, spawn_on, end_date, next_due_date, next_spawn_date, created_by)
+    VALUES (p_rrule, p_spawn_on, p_end_date, public.next_recurrence_date(base_date, p_rrule), base_date, current_profile_id)
+    RETURNING id INTO series_id;
+
+    UPDATE tasks SET recurrence_id = series_id WHERE id = p_task_id;
+  ELSE
+    series_id := task_record.recurrence_id;
+
+    UPDATE task_recurrences
+    SET
+      rrule = p_rrule,
+      spawn_on = p_spawn_on,
+      end_date = p_end_date,
+      is_active = true,
+      next_due_date = public.next_recurrence_date(base_date, p_rrule),
+      next_spawn_date = base_date
+    WHERE id = series_id;
+  END IF;
+
+  RETURN series_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create every schedule-based instance whose period has started. Each series is spawned on its own,
+-- so one that fails is reported to admins and retried the next day instead of aborting the whole run.
+CREATE OR REPLACE FUNCTION public.generate_recurring_tasks()
+RETURNS INTEGER AS $$
+DECLARE
+  series_record RECORD;
+  created_count INTEGER := 0;
+  failed_series TEXT[] := '{}';
+  admin_record RECORD;
+BEGIN
+  IF NOT public.is_scheduled_job() AND COALESCE(public.get_current_user_role(), '') NOT IN ('admin', 'project_manager') THEN
+    RAISE EXCEPTION 'Only admins and project managers can generate recurring tasks';
+  END IF;
+
+  FOR series_record IN
+    SELECT
+      tr.id,
+      (SELECT t.title FROM tasks t WHERE t.recurrence_id = tr.id ORDER BY t.created_at DESC LIMIT 1) AS title
+    FROM task_recurrences tr
+    WHERE tr.is_active
+    AND tr.spawn_on = 'schedule'
+    AND tr.next_spawn_date <= CURRENT_DATE
+  LOOP
+    BEGIN
+      IF public.spawn_recurring_task(series_record.id) IS NOT NULL THEN
+        created_count := created_count + 1;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      failed_series := array_append(failed_series, COALESCE(series_record.title, series_record.id::TEXT) || ' (' || SQLERRM || ')');
+    END;
+  END LOOP;
+
+  IF array_length(failed_series, 1) > 0 THEN
+    FOR admin_record IN
+      SELECT id FROM profiles WHERE role = 'admin' AND is_active = true
+    LOOP
+      INSERT INTO notifications (user_id, title, message, type)
+      VALUES (
+        admin_record.id,
+        'Recurring tasks could not be created',
+        'These repeating tasks were skipped and will be retried tomorrow: ' || array_to_string(failed_series, ', '),
+        'task'
+      );
+    END LOOP;
+  END IF;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_tasks() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_recurring_tasks() TO authenticated;
+
+-- Generate recurring tasks every morning, after recurring invoices
+SELECT cron.schedule(
+  'generate-recurring-tasks-daily',
+  '45 0 * * *',
+  $$
+  SELECT public.generate_recurring_tasks();
+  $$
+);
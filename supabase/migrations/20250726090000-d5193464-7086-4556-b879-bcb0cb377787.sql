@@ -0,0 +1,34 @@
+-- Indexes for filtering and sorting the task list
+CREATE INDEX idx_tasks_project_id ON public.tasks(project_id);
+CREATE INDEX idx_tasks_assigned_to ON public.tasks(assigned_to);
+CREATE INDEX idx_tasks_due_date ON public.tasks(due_date);
+
+-- Create per-user saved views of the task list. The query is the list's URL query string,
+-- so applying a view is the same as opening a shared link.
+CREATE TABLE public.task_saved_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+ALTER TABLE public.task_saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own saved views"
+ON public.task_saved_views
+FOR ALL
+TO authenticated
+USING (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+)
+WITH CHECK (
+  user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE TRIGGER update_task_saved_views_updated_at
+BEFORE UPDATE ON public.task_saved_views
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,284 @@
+-- Tasks deleted in bulk are kept for a day so the deletion can be undone, and hidden from everyone
+-- in the meantime
+ALTER TABLE public.tasks
+ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_tasks_deleted_at ON public.tasks(deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE POLICY "Deleted tasks are hidden"
+ON public.tasks
+AS RESTRICTIVE
+FOR SELECT
+TO authenticated
+USING (deleted_at IS NULL);
+
+-- Apply the same change to many tasks at once. Keys present in p_changes are applied:
+-- status, priority, assigned_to, project_id and due_date (a null value clears the field).
+-- Runs with the caller's permissions, so tasks they cannot edit are skipped.
+-- Returns the number of tasks updated and their previous values for undo_bulk_task_update,
+-- including the sprint and the project-specific field values a move to another project clears.
+CREATE OR REPLACE FUNCTION public.bulk_update_tasks(p_task_ids UUID[], p_changes JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  updated_count INTEGER;
+  previous JSONB;
+BEGIN
+  WITH changed AS (
+    UPDATE tasks t
+    SET
+      status = CASE WHEN p_changes ? 'status' THEN (p_changes->>'status')::task_status ELSE t.status END,
+      priority = CASE WHEN p_changes ? 'priority' THEN (p_changes->>'priority')::task_priority ELSE t.priority END,
+      assigned_to = CASE WHEN p_changes ? 'assigned_to' THEN (p_changes->>'assigned_to')::UUID ELSE t.assigned_to END,
+      project_id = CASE WHEN p_changes ? 'project_id' THEN (p_changes->>'project_id')::UUID ELSE t.project_id END,
+      due_date = CASE WHEN p_changes ? 'due_date' THEN (p_changes->>'due_date')::TIMESTAMP WITH TIME ZONE ELSE t.due_date END,
+      completed_at = CASE
+        WHEN NOT p_changes ? 'status' OR p_changes->>'status' = t.status::TEXT THEN t.completed_at
+        WHEN p_changes->>'status' = 'completed' THEN now()
+      END
+    FROM tasks old
+    WHERE old.id = t.id
+    AND t.id = ANY(p_task_ids)
+    RETURNING
+      old.id,
+      old.status,
+      old.priority,
+      old.assigned_to,
+      old.project_id,
+      old.due_date,
+      old.completed_at,
+      old.sprint_id,
+      (
+        SELECT COALESCE(jsonb_agg(to_jsonb(v)), '[]'::JSONB)
+        FROM custom_field_values v
+        JOIN custom_fields f ON f.id = v.field_id
+        WHERE p_changes ? 'project_id'
+        AND v.task_id = old.id
+        AND f.project_id IS NOT NULL
+        AND f.project_id IS DISTINCT FROM (p_changes->>'project_id')::UUID
+      ) AS custom_field_values
+  )
+  SELECT COUNT(*), COALESCE(jsonb_agg(to_jsonb(changed)), '[]'::JSONB)
+  INTO updated_count, previous
+  FROM changed;
+
+  RETURN jsonb_build_object(
+    'updated', updated_count,
+    'skipped', COALESCE(array_length(p_task_ids, 1), 0) - updated_count,
+    'previous', previous
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Take back the instance that completing a repeating task created, as long as nobody has started
+-- on it, and point the series at the reopened task again. Only for callers who can edit that task.
+CREATE OR REPLACE FUNCTION public.discard_recurring_instance(p_task_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  current_profile_id UUID;
+  task_record RECORD;
+  instance RECORD;
+  base_date DATE;
+BEGIN
+  SELECT id INTO current_profile_id FROM profiles WHERE user_id = auth.uid();
+
+  SELECT * INTO task_record
+  FROM tasks
+  WHERE id = p_task_id
+  AND status = 'completed'
+  AND recurrence_id IS NOT NULL
+  AND (
+    assigned_to = current_profile_id
+    OR created_by = current_profile_id
+    OR public.get_current_user_role() IN ('admin', 'project_manager')
+  );
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- spawn_next_recurring_task only creates an instance when the completed task was the newest,
+  -- so the one to discard is the only instance created since
+  SELECT t.* INTO instance
+  FROM tasks t
+  JOIN task_recurrences r ON r.id = t.recurrence_id
+  WHERE t.recurrence_id = task_record.recurrence_id
+  AND r.spawn_on = 'completion'
+  AND t.created_at > task_record.created_at
+  AND t.created_at >= task_record.completed_at
+  ORDER BY t.created_at DESC
+  LIMIT 1;
+
+  IF instance.id IS NULL
+  OR instance.status <> 'todo'
+  OR EXISTS (SELECT 1 FROM tasks WHERE recurrence_id = task_record.recurrence_id AND created_at > task_record.created_at AND id <> instance.id)
+  OR EXISTS (SELECT 1 FROM time_entries WHERE task_id = instance.id) THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM tasks WHERE id = instance.id;
+
+  -- As set_task_recurrence does, occurrences continue from the newest instance of the series
+  base_date := COALESCE(task_record.due_date::DATE, CURRENT_DATE);
+
+  UPDATE task_recurrences
+  SET
+    next_due_date = public.next_recurrence_date(base_date, rrule),
+    next_spawn_date = base_date
+  WHERE id = task_record.recurrence_id;
+
+  RETURN instance.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Put tasks back the way bulk_update_tasks found them. Reopening a completed instance of a
+-- repeating task also takes back the next instance its completion created.
+CREATE OR REPLACE FUNCTION public.undo_bulk_task_update(p_previous JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  restored_count INTEGER;
+BEGIN
+  PERFORM public.discard_recurring_instance(t.id)
+  FROM tasks t
+  JOIN jsonb_array_elements(p_previous) AS snapshot ON t.id = (snapshot->>'id')::UUID
+  WHERE t.status = 'completed'
+  AND snapshot->>'status' IS DISTINCT FROM 'completed'
+  AND t.recurrence_id IS NOT NULL;
+
+  UPDATE tasks t
+  SET
+    status = (snapshot->>'status')::task_status,
+    priority = (snapshot->>'priority')::task_priority,
+    assigned_to = (snapshot->>'assigned_to')::UUID,
+    project_id = (snapshot->>'project_id')::UUID,
+    due_date = (snapshot->>'due_date')::TIMESTAMP WITH TIME ZONE,
+    completed_at = (snapshot->>'completed_at')::TIMESTAMP WITH TIME ZONE,
+    sprint_id = (snapshot->>'sprint_id')::UUID
+  FROM jsonb_array_elements(p_previous) AS snapshot
+  WHERE t.id = (snapshot->>'id')::UUID;
+
+  GET DIAGNOSTICS restored_count = ROW_COUNT;
+
+  -- Values go back once the tasks are in their old project again, so they validate
+  INSERT INTO custom_field_values (field_id, task_id, text_value, number_value, date_value, user_value, updated_by)
+  SELECT v.field_id, v.task_id, v.text_value, v.number_value, v.date_value, v.user_value, v.updated_by
+  FROM jsonb_array_elements(p_previous) AS snapshot
+  CROSS JOIN LATERAL jsonb_populate_recordset(NULL::public.custom_field_values, snapshot->'custom_field_values') AS v
+  WHERE jsonb_typeof(snapshot->'custom_field_values') = 'array'
+  AND EXISTS (SELECT 1 FROM tasks WHERE id = v.task_id)
+  ON CONFLICT (field_id, task_id) DO NOTHING;
+
+  RETURN restored_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Delete many tasks at once, together with their subtasks; admins only. The tasks are only marked
+-- as deleted until purge_deleted_tasks removes them, so restore_deleted_tasks can bring them back.
+CREATE OR REPLACE FUNCTION public.bulk_delete_tasks(p_task_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  IF COALESCE(public.get_current_user_role(), '') <> 'admin' THEN
+    RAISE EXCEPTION 'Only admins can delete tasks in bulk';
+  END IF;
+
+  -- Refuse up front what the purge could never remove
+  IF EXISTS (
+    SELECT 1
+    FROM time_entries te
+    JOIN tasks t ON t.id = te.task_id
+    WHERE (t.id = ANY(p_task_ids) OR t.parent_task_id = ANY(p_task_ids))
+    AND te.invoice_item_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Some of these tasks have invoiced time and cannot be deleted';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM work_submissions ws
+    JOIN tasks t ON t.id = ws.task_id
+    WHERE t.id = ANY(p_task_ids) OR t.parent_task_id = ANY(p_task_ids)
+  ) THEN
+    RAISE EXCEPTION 'Some of these tasks have work submissions and cannot be deleted';
+  END IF;
+
+  UPDATE tasks SET deleted_at = now()
+  WHERE parent_task_id = ANY(p_task_ids)
+  AND deleted_at IS NULL;
+
+  UPDATE tasks SET deleted_at = now()
+  WHERE id = ANY(p_task_ids)
+  AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Bring back tasks bulk_delete_tasks deleted, with the subtasks deleted along with them
+CREATE OR REPLACE FUNCTION public.restore_deleted_tasks(p_task_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  restored_count INTEGER;
+BEGIN
+  IF COALESCE(public.get_current_user_role(), '') <> 'admin' THEN
+    RAISE EXCEPTION 'Only admins can restore deleted tasks';
+  END IF;
+
+  UPDATE tasks s SET deleted_at = NULL
+  FROM tasks parent
+  WHERE parent.id = ANY(p_task_ids)
+  AND s.parent_task_id = parent.id
+  AND s.deleted_at = parent.deleted_at;
+
+  UPDATE tasks SET deleted_at = NULL
+  WHERE id = ANY(p_task_ids)
+  AND deleted_at IS NOT NULL;
+
+  GET DIAGNOSTICS restored_count = ROW_COUNT;
+  RETURN restored_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Remove tasks deleted more than a day ago for good. Each task is removed on its own, so one that
+-- something still points at is left for the next run instead of stopping the rest.
+CREATE OR REPLACE FUNCTION public.purge_deleted_tasks()
+RETURNS INTEGER AS $$
+DECLARE
+  task_record RECORD;
+  purged_count INTEGER := 0;
+BEGIN
+  FOR task_record IN
+    SELECT id
+    FROM tasks
+    WHERE deleted_at < now() - INTERVAL '1 day'
+    AND parent_task_id IS NULL
+    UNION ALL
+    SELECT s.id
+    FROM tasks s
+    JOIN tasks parent ON parent.id = s.parent_task_id
+    WHERE s.deleted_at < now() - INTERVAL '1 day'
+    AND parent.deleted_at IS NULL
+  LOOP
+    BEGIN
+      DELETE FROM tasks WHERE id = task_record.id;
+      purged_count := purged_count + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not purge deleted task %: %', task_record.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN purged_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_tasks() FROM PUBLIC, anon, authenticated;
+
+-- Purge deleted tasks every night
+SELECT cron.schedule(
+  'purge-deleted-tasks-daily',
+  '0 1 * * *',
+  $$
+  SELECT public.purge_deleted_tasks();
+  $$
+);
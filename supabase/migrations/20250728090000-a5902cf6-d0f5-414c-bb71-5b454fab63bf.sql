@@ -0,0 +1,183 @@
+-- Create reusable project templates: a list of tasks with due dates relative to the project start
+CREATE TABLE public.project_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Tasks sharing a phase are created as subtasks of a task named after the phase.
+-- default_role picks the assignee from the members chosen for each role.
+CREATE TABLE public.project_template_tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES public.project_templates(id) ON DELETE CASCADE,
+  phase TEXT,
+  title TEXT NOT NULL,
+  description TEXT,
+  priority task_priority NOT NULL DEFAULT 'medium',
+  estimated_hours DECIMAL(5,2),
+  start_offset_days INTEGER,
+  due_offset_days INTEGER,
+  default_role TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT project_template_tasks_estimate_check CHECK (estimated_hours IS NULL OR estimated_hours >= 0),
+  CONSTRAINT project_template_tasks_offsets_check CHECK (
+    start_offset_days IS NULL OR due_offset_days IS NULL OR start_offset_days <= due_offset_days
+  )
+);
+
+CREATE INDEX idx_project_template_tasks_template ON public.project_template_tasks(template_id, sort_order);
+
+ALTER TABLE public.project_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_template_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view project templates"
+ON public.project_templates
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins and PMs can manage project templates"
+ON public.project_templates
+FOR ALL
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+)
+WITH CHECK (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE POLICY "Authenticated users can view project template tasks"
+ON public.project_template_tasks
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins and PMs can manage project template tasks"
+ON public.project_template_tasks
+FOR ALL
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+)
+WITH CHECK (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+CREATE TRIGGER update_project_templates_updated_at
+BEFORE UPDATE ON public.project_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create a project with its members and every task from a template in one transaction.
+-- p_project holds the projects columns; p_role_members maps template roles to profile ids.
+-- Members chosen for a role join with that role, the rest of p_member_ids as developers.
+-- Runs with the caller's permissions.
+CREATE OR REPLACE FUNCTION public.create_project_from_template(
+  p_template_id UUID,
+  p_project JSONB,
+  p_member_ids UUID[] DEFAULT '{}',
+  p_role_members JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  current_profile_id UUID;
+  new_project_id UUID;
+  base_date DATE;
+  phase_record RECORD;
+  task_record RECORD;
+  phase_task_ids JSONB := '{}';
+  new_task_id UUID;
+BEGIN
+  SELECT id INTO current_profile_id FROM profiles WHERE user_id = auth.uid();
+
+  IF current_profile_id IS NULL THEN
+    RAISE EXCEPTION 'No profile found for the current user';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM project_templates WHERE id = p_template_id) THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  -- Without an estimate of its own the project takes the sum of the template's estimates
+  INSERT INTO projects (name, description, status, start_date, end_date, budget, billing_rate, currency, estimated_hours, client_id, project_manager_id)
+  SELECT
+    p.name,
+    p.description,
+    COALESCE(p.status, 'planning'),
+    p.start_date,
+    p.end_date,
+    p.budget,
+    p.billing_rate,
+    COALESCE(p.currency, 'USD'),
+    COALESCE(p.estimated_hours, (SELECT CEIL(SUM(estimated_hours)) FROM project_template_tasks WHERE template_id = p_template_id)),
+    p.client_id,
+    p.project_manager_id
+  FROM jsonb_populate_record(NULL::projects, p_project) AS p
+  RETURNING id, COALESCE(start_date, CURRENT_DATE) INTO new_project_id, base_date;
+
+  INSERT INTO project_members (project_id, user_id, role)
+  SELECT DISTINCT ON (member_id) new_project_id, member_id, member_role
+  FROM (
+    SELECT value::UUID AS member_id, key AS member_role, 0 AS preference
+    FROM jsonb_each_text(p_role_members)
+    WHERE value <> ''
+    UNION ALL
+    SELECT unnest(p_member_ids), 'developer', 1
+  ) AS members
+  ORDER BY member_id, preference;
+
+  -- Tasks are created one at a time, last first, so the board lists them in template order
+  FOR phase_record IN
+    SELECT
+      phase,
+      MIN(sort_order) AS first_order,
+      MIN(COALESCE(start_offset_days, due_offset_days)) AS start_offset,
+      MAX(due_offset_days) AS due_offset
+    FROM project_template_tasks
+    WHERE template_id = p_template_id
+    AND phase IS NOT NULL
+    GROUP BY phase
+    ORDER BY first_order DESC
+  LOOP
+    INSERT INTO tasks (title, project_id, created_by, start_date, due_date)
+    VALUES (
+      phase_record.phase,
+      new_project_id,
+      current_profile_id,
+      base_date + phase_record.start_offset,
+      base_date + phase_record.due_offset
+    )
+    RETURNING id INTO new_task_id;
+
+    phase_task_ids := phase_task_ids || jsonb_build_object(phase_record.phase, new_task_id);
+  END LOOP;
+
+  FOR task_record IN
+    SELECT *
+    FROM project_template_tasks
+    WHERE template_id = p_template_id
+    ORDER BY sort_order DESC
+  LOOP
+    INSERT INTO tasks (title, description, priority, estimated_hours, project_id, parent_task_id, assigned_to, created_by, start_date, due_date)
+    VALUES (
+      task_record.title,
+      task_record.description,
+      task_record.priority,
+      task_record.estimated_hours,
+      new_project_id,
+      (phase_task_ids->>task_record.phase)::UUID,
+      NULLIF(p_role_members->>task_record.default_role, '')::UUID,
+      current_profile_id,
+      base_date + task_record.start_offset_days,
+      base_date + task_record.due_offset_days
+    );
+  END LOOP;
+
+  RETURN new_project_id;
+END;
+$$ LANGUAGE plpgsql;
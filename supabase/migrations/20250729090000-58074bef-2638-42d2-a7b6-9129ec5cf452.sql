@@ -0,0 +1,108 @@
+-- Create file attachments on tasks. Files live in the private task-attachments bucket under
+-- <auth user id>/<task id>/, and each row here points at one stored object.
+CREATE TABLE public.task_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  uploaded_by UUID NOT NULL REFERENCES public.profiles(id),
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT task_attachments_size_check CHECK (size_bytes > 0 AND size_bytes <= 10485760)
+);
+
+CREATE INDEX idx_task_attachments_task_id ON public.task_attachments(task_id);
+
+ALTER TABLE public.task_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view attachments on tasks they can see"
+ON public.task_attachments
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_attachments.task_id)
+);
+
+CREATE POLICY "Users can attach files to tasks they can see"
+ON public.task_attachments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  uploaded_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_attachments.task_id)
+);
+
+CREATE POLICY "Users can remove their attachments and admins can remove any"
+ON public.task_attachments
+FOR DELETE
+TO authenticated
+USING (
+  uploaded_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+-- Removing an attachment, including through its task being deleted, removes the stored file too.
+-- The attachment dialog removes the file first, in which case there is nothing left to remove here.
+CREATE OR REPLACE FUNCTION public.remove_task_attachment_file()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM storage.objects
+  WHERE bucket_id = 'task-attachments'
+  AND name = OLD.storage_path;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER remove_task_attachment_file_trigger
+AFTER DELETE ON public.task_attachments
+FOR EACH ROW
+EXECUTE FUNCTION public.remove_task_attachment_file();
+
+-- Create the private bucket; the size and type limits match src/lib/attachments.ts
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+SELECT
+  'task-attachments',
+  'task-attachments',
+  false,
+  10485760,
+  ARRAY[
+    'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+    'application/pdf', 'text/plain', 'text/csv', 'application/zip',
+    'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+WHERE NOT EXISTS (
+  SELECT 1 FROM storage.buckets WHERE id = 'task-attachments'
+);
+
+-- Users upload into their own folder
+CREATE POLICY "Users can upload task attachments"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'task-attachments' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Files can be read by anyone who can see the attachment, and by the uploader
+CREATE POLICY "Users can read attachments on tasks they can see"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'task-attachments' AND (
+    auth.uid()::text = (storage.foldername(name))[1]
+    OR EXISTS (SELECT 1 FROM public.task_attachments WHERE task_attachments.storage_path = objects.name)
+  )
+);
+
+CREATE POLICY "Users can delete their attachments and admins can delete any"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'task-attachments' AND (
+    auth.uid()::text = (storage.foldername(name))[1]
+    OR public.get_current_user_role() IN ('admin', 'project_manager')
+  )
+);
@@ -0,0 +1,179 @@
+-- Admin-defined custom fields on tasks and projects. Task fields can apply to every project
+-- or to one project; project fields always apply to every project.
+CREATE TABLE public.custom_fields (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type TEXT NOT NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  field_type TEXT NOT NULL,
+  options TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT custom_fields_entity_type_check CHECK (entity_type IN ('task', 'project')),
+  CONSTRAINT custom_fields_field_type_check CHECK (field_type IN ('text', 'number', 'select', 'date', 'user')),
+  CONSTRAINT custom_fields_project_scope_check CHECK (entity_type = 'task' OR project_id IS NULL),
+  CONSTRAINT custom_fields_options_check CHECK (field_type <> 'select' OR cardinality(options) > 0),
+  CONSTRAINT custom_fields_name_check CHECK (length(trim(name)) > 0)
+);
+
+-- A name can only be used once per scope; fields for every project share one scope
+CREATE UNIQUE INDEX idx_custom_fields_unique_name ON public.custom_fields(
+  entity_type,
+  COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  lower(name)
+);
+
+CREATE TRIGGER update_custom_fields_updated_at
+BEFORE UPDATE ON public.custom_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per field and task or project, with the value in the column for the field's type
+CREATE TABLE public.custom_field_values (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  field_id UUID NOT NULL REFERENCES public.custom_fields(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  text_value TEXT,
+  number_value NUMERIC,
+  date_value DATE,
+  user_value UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  updated_by UUID REFERENCES public.profiles(id),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT custom_field_values_target_check CHECK (num_nonnulls(task_id, project_id) = 1),
+  CONSTRAINT custom_field_values_value_check CHECK (num_nonnulls(text_value, number_value, date_value, user_value) = 1),
+  UNIQUE(field_id, task_id),
+  UNIQUE(field_id, project_id)
+);
+
+CREATE INDEX idx_custom_field_values_task_id ON public.custom_field_values(task_id);
+CREATE INDEX idx_custom_field_values_project_id ON public.custom_field_values(project_id);
+
+CREATE TRIGGER update_custom_field_values_updated_at
+BEFORE UPDATE ON public.custom_field_values
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Values must be stored in the column for their field's type and belong to a task or project the field applies to
+CREATE OR REPLACE FUNCTION public.validate_custom_field_value()
+RETURNS TRIGGER AS $$
+DECLARE
+  field RECORD;
+  task_project_id UUID;
+BEGIN
+  SELECT entity_type, project_id, field_type, options INTO field FROM custom_fields WHERE id = NEW.field_id;
+
+  IF field.entity_type = 'task' AND NEW.task_id IS NULL THEN
+    RAISE EXCEPTION 'This field can only be set on tasks';
+  END IF;
+
+  IF field.entity_type = 'project' AND NEW.project_id IS NULL THEN
+    RAISE EXCEPTION 'This field can only be set on projects';
+  END IF;
+
+  IF field.project_id IS NOT NULL THEN
+    SELECT project_id INTO task_project_id FROM tasks WHERE id = NEW.task_id;
+    IF task_project_id IS DISTINCT FROM field.project_id THEN
+      RAISE EXCEPTION 'This field does not apply to tasks in this project';
+    END IF;
+  END IF;
+
+  IF (field.field_type IN ('text', 'select') AND NEW.text_value IS NULL)
+    OR (field.field_type = 'number' AND NEW.number_value IS NULL)
+    OR (field.field_type = 'date' AND NEW.date_value IS NULL)
+    OR (field.field_type = 'user' AND NEW.user_value IS NULL) THEN
+    RAISE EXCEPTION 'Value does not match the % field type', field.field_type;
+  END IF;
+
+  IF field.field_type = 'select' AND NOT NEW.text_value = ANY(field.options) THEN
+    RAISE EXCEPTION '"%" is not one of the field''s options', NEW.text_value;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_custom_field_value_trigger
+BEFORE INSERT OR UPDATE ON public.custom_field_values
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_custom_field_value();
+
+-- A task moved to another project drops values for fields that only applied to its old project
+CREATE OR REPLACE FUNCTION public.clear_project_custom_field_values()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.project_id IS DISTINCT FROM OLD.project_id THEN
+    DELETE FROM custom_field_values
+    WHERE task_id = NEW.id
+      AND field_id IN (SELECT id FROM custom_fields WHERE project_id IS NOT NULL AND project_id <> NEW.project_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER clear_project_custom_field_values_trigger
+AFTER UPDATE OF project_id ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_project_custom_field_values();
+
+ALTER TABLE public.custom_fields ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.custom_field_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view custom fields"
+ON public.custom_fields
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage custom fields"
+ON public.custom_fields
+FOR ALL
+TO authenticated
+USING (
+  public.get_current_user_role() = 'admin'
+)
+WITH CHECK (
+  public.get_current_user_role() = 'admin'
+);
+
+CREATE POLICY "Users can view custom field values on tasks and projects they can see"
+ON public.custom_field_values
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = custom_field_values.task_id)
+  OR EXISTS (SELECT 1 FROM public.projects WHERE projects.id = custom_field_values.project_id)
+);
+
+-- Task values follow the task edit rules; project values follow the project management rules
+CREATE POLICY "Users can set custom field values on tasks and projects they can edit"
+ON public.custom_field_values
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = custom_field_values.task_id
+      AND (
+        tasks.assigned_to = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+        OR tasks.created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+        OR public.get_current_user_role() IN ('admin', 'project_manager')
+      )
+  )
+  OR (custom_field_values.project_id IS NOT NULL AND public.get_current_user_role() IN ('admin', 'project_manager'))
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = custom_field_values.task_id
+      AND (
+        tasks.assigned_to = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+        OR tasks.created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+        OR public.get_current_user_role() IN ('admin', 'project_manager')
+      )
+  )
+  OR (custom_field_values.project_id IS NOT NULL AND public.get_current_user_role() IN ('admin', 'project_manager'))
+);
@@ -0,0 +1,225 @@
+-- Sprints are time-boxed iterations within a project; tasks without a sprint form the project backlog
+CREATE TABLE public.sprints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  goal TEXT,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'planned',
+  -- Snapshot taken when the sprint closes, since unfinished tasks move out of it
+  committed_hours DECIMAL(8,2),
+  completed_hours DECIMAL(8,2),
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT sprints_status_check CHECK (status IN ('planned', 'active', 'completed')),
+  CONSTRAINT sprints_dates_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_sprints_project_id ON public.sprints(project_id, start_date);
+
+-- A project runs one sprint at a time
+CREATE UNIQUE INDEX idx_sprints_one_active ON public.sprints(project_id) WHERE status = 'active';
+
+CREATE TRIGGER update_sprints_updated_at
+BEFORE UPDATE ON public.sprints
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.tasks
+ADD COLUMN sprint_id UUID REFERENCES public.sprints(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_tasks_sprint_id ON public.tasks(sprint_id);
+
+-- Tasks can only join sprints of their own project, and leave their sprint when they change project
+CREATE OR REPLACE FUNCTION public.validate_task_sprint()
+RETURNS TRIGGER AS $$
+DECLARE
+  sprint RECORD;
+BEGIN
+  IF NEW.sprint_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT project_id, status INTO sprint FROM sprints WHERE id = NEW.sprint_id;
+
+  IF sprint.project_id <> NEW.project_id THEN
+    IF TG_OP = 'UPDATE' AND NEW.project_id IS DISTINCT FROM OLD.project_id AND NEW.sprint_id IS NOT DISTINCT FROM OLD.sprint_id THEN
+      NEW.sprint_id := NULL;
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Tasks can only be added to sprints of their own project';
+  END IF;
+
+  IF sprint.status = 'completed' AND NEW.sprint_id IS DISTINCT FROM OLD.sprint_id THEN
+    RAISE EXCEPTION 'Tasks cannot be added to a completed sprint';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_task_sprint_trigger
+BEFORE INSERT OR UPDATE OF sprint_id, project_id ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_task_sprint();
+
+-- Subtasks are planned together with their parent
+CREATE OR REPLACE FUNCTION public.move_subtasks_with_parent_sprint()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.sprint_id IS DISTINCT FROM OLD.sprint_id THEN
+    UPDATE tasks SET sprint_id = NEW.sprint_id WHERE parent_task_id = NEW.id AND status <> 'completed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER move_subtasks_with_parent_sprint_trigger
+AFTER UPDATE OF sprint_id ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.move_subtasks_with_parent_sprint();
+
+ALTER TABLE public.sprints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view sprints of projects they can see"
+ON public.sprints
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.projects WHERE projects.id = sprints.project_id)
+);
+
+CREATE POLICY "Admins and PMs can manage sprints"
+ON public.sprints
+FOR ALL
+TO authenticated
+USING (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+)
+WITH CHECK (
+  public.get_current_user_role() IN ('admin', 'project_manager')
+);
+
+-- Close a sprint: record what was committed and done, then move unfinished tasks
+-- to the next sprint (or back to the backlog when p_next_sprint_id is null)
+CREATE OR REPLACE FUNCTION public.complete_sprint(p_sprint_id UUID, p_next_sprint_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  sprint RECORD;
+  moved_count INTEGER;
+BEGIN
+  SELECT id, project_id, status INTO sprint FROM sprints WHERE id = p_sprint_id;
+
+  IF sprint.id IS NULL THEN
+    RAISE EXCEPTION 'Sprint not found';
+  END IF;
+
+  IF sprint.status = 'completed' THEN
+    RAISE EXCEPTION 'This sprint is already completed';
+  END IF;
+
+  IF p_next_sprint_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM sprints WHERE id = p_next_sprint_id AND project_id = sprint.project_id AND status <> 'completed' AND id <> p_sprint_id
+  ) THEN
+    RAISE EXCEPTION 'Unfinished tasks can only move to an open sprint of the same project';
+  END IF;
+
+  -- Parents with subtasks in the sprint are counted through their subtasks
+  UPDATE sprints SET
+    status = 'completed',
+    committed_hours = totals.committed,
+    completed_hours = totals.completed
+  FROM (
+    SELECT
+      COALESCE(SUM(t.estimated_hours), 0) AS committed,
+      COALESCE(SUM(t.estimated_hours) FILTER (WHERE t.status = 'completed'), 0) AS completed
+    FROM tasks t
+    WHERE t.sprint_id = p_sprint_id
+      AND t.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM tasks s WHERE s.parent_task_id = t.id AND s.sprint_id = p_sprint_id)
+  ) totals
+  WHERE sprints.id = p_sprint_id;
+
+  UPDATE tasks SET sprint_id = p_next_sprint_id
+  WHERE sprint_id = p_sprint_id AND status <> 'completed';
+
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  RETURN moved_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Hours each person can give the sprint: their weekly hours spread over weekdays, minus
+-- weekdays on approved leave, next to the estimates assigned to them in the sprint
+CREATE OR REPLACE FUNCTION public.get_sprint_capacity(p_sprint_id UUID)
+RETURNS TABLE (
+  profile_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  weekly_hours INTEGER,
+  working_days INTEGER,
+  leave_days INTEGER,
+  capacity_hours DECIMAL,
+  committed_hours DECIMAL
+) AS $$
+DECLARE
+  sprint RECORD;
+  current_profile_id UUID := (SELECT id FROM profiles WHERE user_id = auth.uid());
+BEGIN
+  SELECT s.id, s.project_id, s.start_date, s.end_date INTO sprint FROM sprints s WHERE s.id = p_sprint_id;
+
+  IF sprint.id IS NULL THEN
+    RAISE EXCEPTION 'Sprint not found';
+  END IF;
+
+  -- Leave is private to admins and PMs, so only the totals are shared, with people on the project
+  IF COALESCE(public.get_current_user_role(), '') NOT IN ('admin', 'project_manager')
+    AND NOT EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = sprint.project_id AND pm.user_id = current_profile_id)
+    AND NOT EXISTS (SELECT 1 FROM projects p WHERE p.id = sprint.project_id AND p.project_manager_id = current_profile_id) THEN
+    RAISE EXCEPTION 'You do not have access to this sprint';
+  END IF;
+
+  RETURN QUERY
+  WITH days AS (
+    SELECT d::DATE AS day
+    FROM generate_series(sprint.start_date, sprint.end_date, INTERVAL '1 day') d
+    WHERE EXTRACT(ISODOW FROM d) < 6
+  ),
+  people AS (
+    SELECT pm.user_id AS id FROM project_members pm WHERE pm.project_id = sprint.project_id
+    UNION
+    SELECT t.assigned_to FROM tasks t WHERE t.sprint_id = p_sprint_id AND t.assigned_to IS NOT NULL AND t.deleted_at IS NULL
+  ),
+  leave AS (
+    SELECT la.user_id, COUNT(DISTINCT days.day)::INTEGER AS day_count
+    FROM leave_applications la
+    JOIN days ON days.day BETWEEN la.start_date AND la.end_date
+    WHERE la.status = 'approved'
+    GROUP BY la.user_id
+  ),
+  committed AS (
+    SELECT t.assigned_to, SUM(t.estimated_hours) AS hours
+    FROM tasks t
+    WHERE t.sprint_id = p_sprint_id
+      AND t.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM tasks s WHERE s.parent_task_id = t.id AND s.sprint_id = p_sprint_id)
+    GROUP BY t.assigned_to
+  )
+  SELECT
+    pr.id,
+    pr.first_name,
+    pr.last_name,
+    COALESCE(pr.working_hours_per_week, 40),
+    (SELECT COUNT(*) FROM days)::INTEGER,
+    COALESCE(l.day_count, 0),
+    ROUND(COALESCE(pr.working_hours_per_week, 40) / 5.0 * ((SELECT COUNT(*) FROM days) - COALESCE(l.day_count, 0)), 2),
+    COALESCE(c.hours, 0)
+  FROM people
+  JOIN profiles pr ON pr.id = people.id
+  LEFT JOIN leave l ON l.user_id = pr.id
+  LEFT JOIN committed c ON c.assigned_to = pr.id
+  ORDER BY pr.first_name, pr.last_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,5 @@
+-- Project allocations are planned in hours per week and compared with profiles.working_hours_per_week
+ALTER TABLE public.project_members
+  ADD CONSTRAINT project_members_allocated_hours_check CHECK (allocated_hours IS NULL OR allocated_hours >= 0);
+
+COMMENT ON COLUMN public.project_members.allocated_hours IS 'Hours per week the member is allocated to the project';
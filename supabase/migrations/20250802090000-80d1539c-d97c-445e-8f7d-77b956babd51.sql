@@ -0,0 +1,118 @@
+-- Save an invoice header and its line items together, so a failed step never leaves a
+-- half-saved invoice or burns an invoice number. Items without an id are added and
+-- existing items missing from p_items are removed.
+CREATE OR REPLACE FUNCTION public.save_invoice(
+  p_invoice JSONB,
+  p_items JSONB,
+  p_invoice_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  saved_invoice_id UUID;
+  invoice_record RECORD;
+  item_record RECORD;
+  saved_item_id UUID;
+  kept_item_ids UUID[] := '{}';
+BEGIN
+  IF public.get_current_user_role() NOT IN ('admin', 'project_manager') THEN
+    RAISE EXCEPTION 'Only admins and project managers can save invoices';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::JSONB)) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  IF p_invoice_id IS NULL THEN
+    INSERT INTO invoices (invoice_number, client_id, project_id, currency, amount, tax_amount, total_amount, status, issue_date, due_date, notes, created_by)
+    VALUES (
+      public.generate_invoice_number(),
+      (p_invoice->>'client_id')::UUID,
+      NULLIF(p_invoice->>'project_id', '')::UUID,
+      p_invoice->>'currency',
+      0,
+      0,
+      0,
+      'draft',
+      (p_invoice->>'issue_date')::DATE,
+      (p_invoice->>'due_date')::DATE,
+      NULLIF(p_invoice->>'notes', ''),
+      (SELECT id FROM profiles WHERE user_id = auth.uid())
+    )
+    RETURNING id INTO saved_invoice_id;
+  ELSE
+    SELECT invoice_number, status INTO invoice_record
+    FROM invoices
+    WHERE id = p_invoice_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice not found';
+    END IF;
+
+    IF invoice_record.status IN ('paid', 'cancelled') THEN
+      RAISE EXCEPTION 'Invoice % is % and can no longer be edited', invoice_record.invoice_number, invoice_record.status;
+    END IF;
+
+    UPDATE invoices
+    SET
+      client_id = (p_invoice->>'client_id')::UUID,
+      project_id = NULLIF(p_invoice->>'project_id', '')::UUID,
+      currency = p_invoice->>'currency',
+      issue_date = (p_invoice->>'issue_date')::DATE,
+      due_date = (p_invoice->>'due_date')::DATE,
+      notes = NULLIF(p_invoice->>'notes', '')
+    WHERE id = p_invoice_id;
+
+    saved_invoice_id := p_invoice_id;
+  END IF;
+
+  FOR item_record IN
+    SELECT value AS item, ordinality - 1 AS sort_order
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY
+  LOOP
+    IF item_record.item->>'id' IS NULL THEN
+      INSERT INTO invoice_items (invoice_id, description, quantity, unit_price, tax_rate, sort_order)
+      VALUES (
+        saved_invoice_id,
+        item_record.item->>'description',
+        (item_record.item->>'quantity')::DECIMAL,
+        (item_record.item->>'unit_price')::DECIMAL,
+        (item_record.item->>'tax_rate')::DECIMAL,
+        item_record.sort_order
+      )
+      RETURNING id INTO saved_item_id;
+    ELSE
+      UPDATE invoice_items
+      SET
+        description = item_record.item->>'description',
+        quantity = (item_record.item->>'quantity')::DECIMAL,
+        unit_price = (item_record.item->>'unit_price')::DECIMAL,
+        tax_rate = (item_record.item->>'tax_rate')::DECIMAL,
+        sort_order = item_record.sort_order
+      WHERE id = (item_record.item->>'id')::UUID
+      AND invoice_id = saved_invoice_id
+      RETURNING id INTO saved_item_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Line item % does not belong to this invoice', item_record.item->>'id';
+      END IF;
+    END IF;
+
+    kept_item_ids := array_append(kept_item_ids, saved_item_id);
+  END LOOP;
+
+  DELETE FROM invoice_items
+  WHERE invoice_id = saved_invoice_id
+  AND id <> ALL(kept_item_ids);
+
+  SELECT invoice_number, total_amount, amount_paid INTO invoice_record
+  FROM invoices
+  WHERE id = saved_invoice_id;
+
+  IF invoice_record.total_amount < invoice_record.amount_paid THEN
+    RAISE EXCEPTION 'The total of invoice % cannot be less than the % already paid', invoice_record.invoice_number, invoice_record.amount_paid;
+  END IF;
+
+  RETURN saved_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,47 @@
+-- Lookups for the task page, scoped to the tasks it shows rather than every task. Ids are taken
+-- as arguments so they travel in the request body, however many tasks are on the board.
+
+-- The given tasks together with their parents, their subtasks and the tasks at either end of
+-- their dependencies
+CREATE OR REPLACE FUNCTION public.get_related_tasks(p_task_ids UUID[])
+RETURNS SETOF public.tasks AS $$
+  SELECT t.*
+  FROM tasks t
+  WHERE t.id = ANY(p_task_ids)
+    OR t.parent_task_id = ANY(p_task_ids)
+    OR t.id IN (SELECT parent_task_id FROM tasks WHERE id = ANY(p_task_ids))
+    OR t.id IN (SELECT blocking_task_id FROM task_dependencies WHERE blocked_task_id = ANY(p_task_ids))
+    OR t.id IN (SELECT blocked_task_id FROM task_dependencies WHERE blocking_task_id = ANY(p_task_ids));
+$$ LANGUAGE SQL STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_task_dependencies(p_task_ids UUID[])
+RETURNS SETOF public.task_dependencies AS $$
+  SELECT d.*
+  FROM task_dependencies d
+  WHERE d.blocked_task_id = ANY(p_task_ids) OR d.blocking_task_id = ANY(p_task_ids);
+$$ LANGUAGE SQL STABLE;
+
+-- WIP limits apply to whole columns, so the board counts them here even when it shows a filtered
+-- subset of their tasks. Members see the limit against every task in the column, including ones
+-- they cannot open, so counts run as the owner but only for projects the caller belongs to.
+CREATE OR REPLACE FUNCTION public.get_task_column_counts(p_project_ids UUID[])
+RETURNS TABLE (project_id UUID, status task_status, task_count INTEGER) AS $$
+  SELECT t.project_id, t.status, COUNT(*)::INTEGER
+  FROM tasks t
+  JOIN projects p ON p.id = t.project_id
+  WHERE t.project_id = ANY(p_project_ids)
+  AND t.deleted_at IS NULL
+  AND (
+    COALESCE(public.get_current_user_role(), '') IN ('admin', 'project_manager')
+    OR p.project_manager_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM project_members pm
+      WHERE pm.project_id = t.project_id
+      AND pm.user_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+    )
+  )
+  GROUP BY t.project_id, t.status;
+$$ LANGUAGE SQL STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.get_task_column_counts(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_task_column_counts(UUID[]) TO authenticated;